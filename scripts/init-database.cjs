@@ -56,6 +56,16 @@ async function initializeDatabase() {
         image_hash TEXT UNIQUE,
         tags JSONB NOT NULL,
         confidence REAL NOT NULL,
+        field_confidence JSONB,
+        garments JSONB,
+        raw_tags JSONB,
+        provider TEXT,
+        workflow_id TEXT,
+        workflow_version TEXT,
+        model TEXT,
+        parser_version TEXT,
+        parse_strategy TEXT,
+        raw_output TEXT,
         analysis_time BIGINT NOT NULL,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
@@ -63,6 +73,96 @@ async function initializeDatabase() {
     `;
     
     await pool.query(createTableQuery);
+    // 旧表补充字段置信度列
+    await pool.query('ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS field_confidence JSONB;');
+    await pool.query('ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS garments JSONB;');
+    await pool.query('ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS raw_tags JSONB;');
+    // 旧表补充结果来源列
+    for (const column of ['provider', 'workflow_id', 'workflow_version', 'model', 'parser_version', 'parse_strategy', 'raw_output']) {
+      await pool.query(`ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS ${column} TEXT;`);
+    }
+    
+    // 标签体系表：每行一个标签维度，为空时前端使用内置的默认标签体系
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS tag_taxonomy (
+        key TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        group_name TEXT NOT NULL,
+        allowed_values JSONB NOT NULL DEFAULT '[]',
+        strict BOOLEAN NOT NULL DEFAULT FALSE,
+        synonyms JSONB NOT NULL DEFAULT '{}',
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`ALTER TABLE tag_taxonomy ADD COLUMN IF NOT EXISTS synonyms JSONB NOT NULL DEFAULT '{}';`);
+    
+    // 识别代理调用记录表：后端 /api/recognize 的配额统计和成本核算
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS recognition_calls (
+        id BIGSERIAL PRIMARY KEY,
+        client_id TEXT NOT NULL,
+        quota_key TEXT,
+        ip TEXT,
+        kind TEXT NOT NULL,
+        file_name TEXT,
+        file_size BIGINT,
+        coze_file_id TEXT,
+        status TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    // 识别调用记录表：前端上报的每次上传和执行请求，用于调用统计页面
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS recognition_telemetry (
+        id TEXT PRIMARY KEY,
+        client_id TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        file_name TEXT,
+        attempt INTEGER NOT NULL DEFAULT 1,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        outcome TEXT NOT NULL,
+        error_code TEXT,
+        status INTEGER,
+        priority TEXT,
+        started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    // 后台批量分析任务表和任务中的图片
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS analysis_jobs (
+        id UUID PRIMARY KEY,
+        name TEXT NOT NULL,
+        source TEXT NOT NULL,
+        directory TEXT,
+        status TEXT NOT NULL DEFAULT 'running',
+        client_id TEXT,
+        quota_key TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        finished_at TIMESTAMP WITH TIME ZONE
+      );
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS analysis_job_items (
+        id BIGSERIAL PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+        file_name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        file_size BIGINT,
+        mime_type TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        record_id UUID,
+        error TEXT,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
     console.log('数据表创建成功!');
     
     // 创建索引
@@ -71,7 +171,11 @@ async function initializeDatabase() {
     const indexes = [
       'CREATE INDEX IF NOT EXISTS idx_clothing_analysis_created_at ON clothing_analysis(created_at DESC);',
       'CREATE INDEX IF NOT EXISTS idx_clothing_analysis_image_hash ON clothing_analysis(image_hash);',
-      'CREATE INDEX IF NOT EXISTS idx_clothing_analysis_tags ON clothing_analysis USING GIN(tags);'
+      'CREATE INDEX IF NOT EXISTS idx_clothing_analysis_tags ON clothing_analysis USING GIN(tags);',
+      'CREATE INDEX IF NOT EXISTS idx_recognition_calls_client_created_at ON recognition_calls(client_id, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_recognition_calls_quota_key_created_at ON recognition_calls(quota_key, kind, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_recognition_telemetry_started_at ON recognition_telemetry(started_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_analysis_job_items_job_status ON analysis_job_items(job_id, status);'
     ];
     
     for (const indexQuery of indexes) {
@@ -7,12 +7,20 @@ const crypto = require('crypto');
 const { v4: uuidv4 } = require('uuid');
 const path = require('path');
 const fs = require('fs');
+const jpeg = require('jpeg-js');
+const { PNG } = require('pngjs');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// 部署在反向代理后时设置（如 TRUST_PROXY=1），req.ip取X-Forwarded-For中的客户端地址，识别配额按该地址计算
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
+
 // 中间件
-app.use(cors());
+// 前端需要读取识别接口返回的配额和工作流信息
+app.use(cors({ exposedHeaders: ['X-Quota-Limit', 'X-Quota-Remaining', 'X-Workflow-Id', 'X-Workflow-Version'] }));
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
@@ -55,12 +63,62 @@ const initializeDatabase = async () => {
         image_hash TEXT UNIQUE,
         tags JSONB NOT NULL,
         confidence REAL NOT NULL,
+        field_confidence JSONB,
+        garments JSONB,
+        raw_tags JSONB,
+        provider TEXT,
+        workflow_id TEXT,
+        workflow_version TEXT,
+        model TEXT,
+        parser_version TEXT,
+        parse_strategy TEXT,
+        raw_output TEXT,
+        features JSONB,
+        feature_version INTEGER,
+        dhash TEXT,
+        phash TEXT,
         analysis_time BIGINT NOT NULL,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
       );
     `);
     
+    // 旧表补充字段置信度列
+    await client.query(`
+      ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS field_confidence JSONB;
+    `);
+    
+    // 旧表补充多件服装列
+    await client.query(`
+      ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS garments JSONB;
+    `);
+    
+    // 旧表补充归一化前原始值列
+    await client.query(`
+      ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS raw_tags JSONB;
+    `);
+    
+    // 旧表补充结果来源列
+    await client.query(`
+      ALTER TABLE clothing_analysis
+        ADD COLUMN IF NOT EXISTS provider TEXT,
+        ADD COLUMN IF NOT EXISTS workflow_id TEXT,
+        ADD COLUMN IF NOT EXISTS workflow_version TEXT,
+        ADD COLUMN IF NOT EXISTS model TEXT,
+        ADD COLUMN IF NOT EXISTS parser_version TEXT,
+        ADD COLUMN IF NOT EXISTS parse_strategy TEXT,
+        ADD COLUMN IF NOT EXISTS raw_output TEXT;
+    `);
+    
+    // 旧表补充特征向量列
+    await client.query(`
+      ALTER TABLE clothing_analysis
+        ADD COLUMN IF NOT EXISTS features JSONB,
+        ADD COLUMN IF NOT EXISTS feature_version INTEGER,
+        ADD COLUMN IF NOT EXISTS dhash TEXT,
+        ADD COLUMN IF NOT EXISTS phash TEXT;
+    `);
+    
     // 创建索引
     await client.query(`
       CREATE INDEX IF NOT EXISTS idx_clothing_analysis_created_at 
@@ -77,6 +135,121 @@ const initializeDatabase = async () => {
       ON clothing_analysis USING GIN(tags);
     `);
     
+    // 标签体系：每行一个标签维度
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS tag_taxonomy (
+        key TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        group_name TEXT NOT NULL,
+        allowed_values JSONB NOT NULL DEFAULT '[]',
+        strict BOOLEAN NOT NULL DEFAULT FALSE,
+        synonyms JSONB NOT NULL DEFAULT '{}',
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    // 旧表补充同义词词典列
+    await client.query(`
+      ALTER TABLE tag_taxonomy ADD COLUMN IF NOT EXISTS synonyms JSONB NOT NULL DEFAULT '{}';
+    `);
+    
+    // 识别代理调用记录：配额统计和成本核算
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS recognition_calls (
+        id BIGSERIAL PRIMARY KEY,
+        client_id TEXT NOT NULL,
+        ip TEXT,
+        kind TEXT NOT NULL,
+        file_name TEXT,
+        file_size BIGINT,
+        coze_file_id TEXT,
+        status TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_recognition_calls_client_created_at 
+      ON recognition_calls(client_id, created_at DESC);
+    `);
+    
+    // 配额按服务器确定的配额键统计（client_id由客户端自行上报，只用于调用统计）
+    await client.query(`
+      ALTER TABLE recognition_calls ADD COLUMN IF NOT EXISTS quota_key TEXT;
+    `);
+    
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_recognition_calls_quota_key_created_at 
+      ON recognition_calls(quota_key, kind, created_at DESC);
+    `);
+    
+    // 前端上报的识别调用记录：每次上传和执行请求的耗时、尝试次数和结果
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS recognition_telemetry (
+        id TEXT PRIMARY KEY,
+        client_id TEXT NOT NULL,
+        stage TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        file_name TEXT,
+        attempt INTEGER NOT NULL DEFAULT 1,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        outcome TEXT NOT NULL,
+        error_code TEXT,
+        status INTEGER,
+        priority TEXT,
+        started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_recognition_telemetry_started_at 
+      ON recognition_telemetry(started_at DESC);
+    `);
+    
+    // 后台批量分析任务：图片来自上传或服务器上的目录，由服务器中的工作进程逐张识别
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS analysis_jobs (
+        id UUID PRIMARY KEY,
+        name TEXT NOT NULL,
+        source TEXT NOT NULL,
+        directory TEXT,
+        status TEXT NOT NULL DEFAULT 'running',
+        client_id TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        finished_at TIMESTAMP WITH TIME ZONE
+      );
+    `);
+    
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS analysis_job_items (
+        id BIGSERIAL PRIMARY KEY,
+        job_id UUID NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+        file_name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        file_size BIGINT,
+        mime_type TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        record_id UUID,
+        error TEXT,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_analysis_job_items_job_status 
+      ON analysis_job_items(job_id, status);
+    `);
+    
+    // 后台任务的识别计入创建任务的客户端的配额
+    await client.query(`
+      ALTER TABLE analysis_jobs ADD COLUMN IF NOT EXISTS quota_key TEXT;
+    `);
+    
     console.log('数据库表初始化成功');
   } catch (error) {
     console.error('数据库初始化失败:', error);
@@ -121,6 +294,14 @@ app.post('/api/analysis', upload.single('image'), async (req, res) => {
     
     const parsedResult = JSON.parse(analysisResult);
     const imageHash = generateFileHash(file.buffer);
+    const { FEATURE_VERSION } = sharedModules.imageFeatures;
+    // 客户端入库时计算的相似度特征向量和感知哈希（可选）；没有或版本不同时在服务器上计算
+    const clientFeatures = req.body.features ? JSON.parse(req.body.features) : null;
+    const getSignature = () => (
+      clientFeatures && parseInt(req.body.featureVersion, 10) === FEATURE_VERSION && req.body.dHash && req.body.pHash
+        ? { features: clientFeatures, dHash: req.body.dHash, pHash: req.body.pHash }
+        : computeServerSignature(file.buffer)
+    );
     
     // 检查重复图片
     const existingRecord = await pool.query(
@@ -129,13 +310,22 @@ app.post('/api/analysis', upload.single('image'), async (req, res) => {
     );
     
     if (existingRecord.rows.length > 0) {
+      let record = existingRecord.rows[0];
+      // 已有记录还没有当前版本的特征向量时补充
+      if (record.feature_version !== FEATURE_VERSION) {
+        const signature = getSignature();
+        if (signature) {
+          record = await saveRecordSignature(record.id, signature);
+        }
+      }
       return res.json({ 
         success: true, 
-        record: existingRecord.rows[0],
+        record,
         message: '图片已存在于数据库中'
       });
     }
     
+    const signature = getSignature();
     // 将图片转换为base64格式存储
     const imageBase64 = `data:${file.mimetype};base64,${file.buffer.toString('base64')}`;
     
@@ -143,8 +333,10 @@ app.post('/api/analysis', upload.single('image'), async (req, res) => {
     const result = await pool.query(`
       INSERT INTO clothing_analysis (
         image_url, image_name, image_size, image_hash, 
-        tags, confidence, analysis_time
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        tags, confidence, field_confidence, garments, raw_tags, analysis_time,
+        provider, workflow_id, workflow_version, model, parser_version, parse_strategy, raw_output,
+        features, feature_version, dhash, phash
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
       RETURNING *
     `, [
       imageBase64,
@@ -153,7 +345,21 @@ app.post('/api/analysis', upload.single('image'), async (req, res) => {
       imageHash,
       JSON.stringify(parsedResult.tags),
       parsedResult.confidence,
-      parsedResult.analysisTime
+      parsedResult.fieldConfidence ? JSON.stringify(parsedResult.fieldConfidence) : null,
+      parsedResult.garments?.length ? JSON.stringify(parsedResult.garments) : null,
+      parsedResult.rawTags && Object.keys(parsedResult.rawTags).length > 0 ? JSON.stringify(parsedResult.rawTags) : null,
+      parsedResult.analysisTime,
+      parsedResult.provenance?.provider || null,
+      parsedResult.provenance?.workflowId || null,
+      parsedResult.provenance?.workflowVersion || null,
+      parsedResult.provenance?.model || null,
+      parsedResult.provenance?.parserVersion || null,
+      parsedResult.provenance?.parseStrategy || null,
+      parsedResult.provenance?.rawOutput ?? null,
+      signature ? JSON.stringify(signature.features) : null,
+      signature ? FEATURE_VERSION : null,
+      signature?.dHash || null,
+      signature?.pHash || null
     ]);
     
     res.json({ success: true, record: result.rows[0] });
@@ -193,7 +399,8 @@ app.get('/api/analysis/search/:searchTerm', async (req, res) => {
       SELECT * FROM clothing_analysis 
       WHERE 
         image_name ILIKE $1 OR
-        tags::text ILIKE $1
+        tags::text ILIKE $1 OR
+        garments::text ILIKE $1
       ORDER BY created_at DESC
     `, [searchPattern]);
     
@@ -271,7 +478,7 @@ app.put('/api/analysis/:id', async (req, res) => {
     Object.entries(updates).forEach(([key, value]) => {
       if (key !== 'id' && key !== 'created_at') {
         setClause.push(`${key} = $${paramIndex}`);
-        values.push(key === 'tags' ? JSON.stringify(value) : value);
+        values.push(['tags', 'field_confidence', 'garments', 'raw_tags', 'features'].includes(key) ? JSON.stringify(value) : value);
         paramIndex++;
       }
     });
@@ -351,6 +558,1497 @@ app.delete('/api/analysis', async (req, res) => {
   }
 });
 
+// 读取标签体系，按维度顺序返回
+const loadTaxonomy = async (client) => {
+  const result = await client.query(
+    'SELECT key, label, group_name, allowed_values, strict, synonyms, updated_at FROM tag_taxonomy ORDER BY sort_order, key'
+  );
+  
+  const dimensions = result.rows.map(row => ({
+    key: row.key,
+    label: row.label,
+    group: row.group_name,
+    values: typeof row.allowed_values === 'string' ? JSON.parse(row.allowed_values) : row.allowed_values,
+    strict: row.strict,
+    synonyms: typeof row.synonyms === 'string' ? JSON.parse(row.synonyms) : row.synonyms
+  }));
+  const updatedAt = result.rows.reduce((latest, row) => (!latest || row.updated_at > latest ? row.updated_at : latest), null);
+  
+  return { dimensions, updatedAt };
+};
+
+// 标签值的比较口径：忽略大小写、空格和连字符
+const toComparableTagValue = (value) => value.toLowerCase().replace(/[\s\-_]/g, '');
+
+// 维度的 比较口径 -> 规范值 查找表，包含可选值和同义词
+const buildTagValueLookup = (dimension) => {
+  const lookup = new Map();
+  (dimension.values || []).forEach(allowed => lookup.set(toComparableTagValue(allowed), allowed));
+  Object.entries(dimension.synonyms || {}).forEach(([canonical, synonyms]) => {
+    lookup.set(toComparableTagValue(canonical), canonical);
+    synonyms.forEach(synonym => lookup.set(toComparableTagValue(synonym), canonical));
+  });
+  return lookup;
+};
+
+// 校验标签体系，返回错误信息；合法时返回null
+const validateTaxonomy = (dimensions) => {
+  if (!Array.isArray(dimensions) || dimensions.length === 0) {
+    return '标签体系至少需要一个维度';
+  }
+  
+  const keys = new Set();
+  for (const dimension of dimensions) {
+    const key = typeof dimension.key === 'string' ? dimension.key.trim() : '';
+    if (!key) return '维度的标签键不能为空';
+    if (keys.has(key)) return `标签键"${key}"重复`;
+    if (!Array.isArray(dimension.values)) return `维度"${key}"的可选值必须是数组`;
+    if (dimension.strict && dimension.values.length === 0) return `维度"${key}"限定了可选值，但可选值为空`;
+    if (dimension.synonyms !== undefined && (typeof dimension.synonyms !== 'object' || Array.isArray(dimension.synonyms))) {
+      return `维度"${key}"的同义词词典格式错误`;
+    }
+    keys.add(key);
+  }
+  return null;
+};
+
+// 获取标签体系；没有保存过时返回空维度，由前端使用内置的默认标签体系
+app.get('/api/taxonomy', async (req, res) => {
+  try {
+    const client = await pool.connect();
+    try {
+      res.json(await loadTaxonomy(client));
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error('获取标签体系失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 保存标签体系：整体替换
+app.put('/api/taxonomy', async (req, res) => {
+  const { dimensions } = req.body || {};
+  const validationError = validateTaxonomy(dimensions);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+  
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM tag_taxonomy');
+    
+    for (const [index, dimension] of dimensions.entries()) {
+      const key = dimension.key.trim();
+      await client.query(
+        `INSERT INTO tag_taxonomy (key, label, group_name, allowed_values, strict, synonyms, sort_order, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)`,
+        [
+          key,
+          (dimension.label || '').trim() || key,
+          (dimension.group || '').trim() || '其他',
+          JSON.stringify(dimension.values.map(value => String(value).trim()).filter(Boolean)),
+          !!dimension.strict,
+          JSON.stringify(dimension.synonyms || {}),
+          index
+        ]
+      );
+    }
+    
+    await client.query('COMMIT');
+    console.log(`标签体系已保存，共 ${dimensions.length} 个维度`);
+    res.json(await loadTaxonomy(client));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('保存标签体系失败:', error);
+    res.status(500).json({ error: error.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ---------------- 图片特征 ----------------
+// 服务器解码JPEG和PNG图片，按与浏览器相同的算法（shared/imageFeatures.js）计算特征向量和感知哈希：
+// 入库、后台任务识别时计算，启动时为还没有当前版本特征向量的记录补充
+
+const SIGNATURE_BACKFILL_BATCH = 20;
+
+// 按文件头解码为RGBA像素，不支持的格式返回null
+const decodeImage = (buffer) => {
+  if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  if (buffer.length > 2 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 1024 });
+  }
+  return null;
+};
+
+// 按面积平均缩放到指定尺寸，相当于浏览器中把图片绘制到画布上；透明部分按黑色合成
+const resizeImage = (image, width, height) => {
+  const output = new Uint8ClampedArray(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * scaleY);
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * scaleX);
+      const right = Math.max(left + 1, Math.floor((x + 1) * scaleX));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const idx = (sy * image.width + sx) * 4;
+          const alpha = image.data[idx + 3] / 255;
+          r += image.data[idx] * alpha;
+          g += image.data[idx + 1] * alpha;
+          b += image.data[idx + 2] * alpha;
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      const out = (y * width + x) * 4;
+      output[out] = r / count;
+      output[out + 1] = g / count;
+      output[out + 2] = b / count;
+      output[out + 3] = 255;
+    }
+  }
+  return output;
+};
+
+// 由图片内容计算特征向量和感知哈希；不支持的格式或解码失败时返回null
+const computeServerSignature = (buffer) => {
+  try {
+    const image = decodeImage(buffer);
+    if (!image) return null;
+    return sharedModules.imageFeatures.computeImageSignature((width, height) => resizeImage(image, width, height));
+  } catch (error) {
+    console.error('计算图片特征失败:', error.message);
+    return null;
+  }
+};
+
+// 入库时保存的data URL转为图片内容
+const dataUrlToBuffer = (url) => {
+  const match = /^data:[^;,]+;base64,/.exec(url || '');
+  return match ? Buffer.from(url.slice(match[0].length), 'base64') : null;
+};
+
+const saveRecordSignature = async (id, signature) => {
+  const result = await pool.query(
+    'UPDATE clothing_analysis SET features = $1, feature_version = $2, dhash = $3, phash = $4 WHERE id = $5 RETURNING *',
+    [JSON.stringify(signature.features), sharedModules.imageFeatures.FEATURE_VERSION, signature.dHash, signature.pHash, id]
+  );
+  return result.rows[0];
+};
+
+// 为还没有当前版本特征向量和感知哈希的记录（旧记录、特征版本变化后）补充；无法解码的图片跳过
+const backfillImageSignatures = async () => {
+  const { FEATURE_VERSION } = sharedModules.imageFeatures;
+  let lastId = null;
+  let updated = 0;
+  let skipped = 0;
+  for (;;) {
+    const { rows } = await pool.query(`
+      SELECT id, image_url FROM clothing_analysis
+      WHERE (features IS NULL OR feature_version IS DISTINCT FROM $1 OR dhash IS NULL OR phash IS NULL)
+        AND ($2::uuid IS NULL OR id > $2::uuid)
+      ORDER BY id
+      LIMIT $3
+    `, [FEATURE_VERSION, lastId, SIGNATURE_BACKFILL_BATCH]);
+    if (rows.length === 0) break;
+    
+    for (const row of rows) {
+      const buffer = dataUrlToBuffer(row.image_url);
+      const signature = buffer && computeServerSignature(buffer);
+      if (signature) {
+        await saveRecordSignature(row.id, signature);
+        updated++;
+      } else {
+        skipped++;
+      }
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+  if (updated > 0 || skipped > 0) {
+    console.log(`已补充 ${updated} 条记录的特征向量，${skipped} 条记录的图片无法解码`);
+  }
+};
+
+// ---------------- 相似度搜索 ----------------
+// 在clothing_analysis表中按保存的特征向量搜索相似图片，返回评分最高的记录，
+// 不需要把所有图片下载到浏览器
+
+const SIMILARITY_DEFAULT_TOP_K = 50;
+const SIMILARITY_MAX_TOP_K = 500;
+
+// 按维度筛选，与前端normalizationService的matchesTagFilters一致：
+// 同一维度内任一值匹配即可，不同维度之间需要同时满足，"通用"值匹配所有筛选值
+const createTagFilter = (filters, taxonomy) => {
+  const entries = Object.entries(filters || {}).filter(([, selected]) => Array.isArray(selected) && selected.length > 0);
+  if (entries.length === 0) return () => true;
+  
+  const lookups = new Map(taxonomy.dimensions.map(dimension => [dimension.key, buildTagValueLookup(dimension)]));
+  const normalize = (key, value) => {
+    const trimmed = String(value).trim();
+    return lookups.get(key)?.get(toComparableTagValue(trimmed)) || trimmed;
+  };
+  const isUniversal = (value) => String(value).endsWith('通用');
+  
+  return (tags) => entries.every(([key, selected]) => {
+    const value = tags?.[key];
+    if (!value) return false;
+    if (isUniversal(value) || selected.some(isUniversal)) return true;
+    const values = value.split('、').map(part => normalize(key, part));
+    return selected.some(option => values.includes(normalize(key, option)));
+  });
+};
+
+const parseJsonField = (value) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+// 查询的特征向量：请求中的features、已有记录（recordId）保存的特征向量，或者从上传的图片计算。
+// 记录还没有当前版本的特征向量时在服务器上计算并保存；上传的图片与已有记录相同时结果中不包含该记录
+const resolveQueryFeatures = async (req) => {
+  const { FEATURE_VERSION } = sharedModules.imageFeatures;
+  const body = req.body || {};
+  if (body.features !== undefined) {
+    const features = parseJsonField(body.features);
+    if (!Array.isArray(features) || features.some(value => typeof value !== 'number')) {
+      return { status: 400, error: 'features必须是数字数组' };
+    }
+    if (Number(body.featureVersion) !== FEATURE_VERSION) {
+      return { status: 409, error: `特征版本不一致，服务器为 ${FEATURE_VERSION}` };
+    }
+    return { features };
+  }
+  
+  let record;
+  let buffer;
+  if (body.recordId) {
+    record = (await pool.query('SELECT id, image_url, features, feature_version FROM clothing_analysis WHERE id = $1', [body.recordId])).rows[0];
+    if (!record) return { status: 404, error: '记录不存在' };
+    buffer = dataUrlToBuffer(record.image_url);
+  } else if (req.file) {
+    buffer = req.file.buffer;
+    record = (await pool.query(
+      'SELECT id, features, feature_version FROM clothing_analysis WHERE image_hash = $1',
+      [generateFileHash(buffer)]
+    )).rows[0];
+  } else {
+    return { status: 400, error: '需要提供features、recordId或image' };
+  }
+  
+  if (record?.features && record.feature_version === FEATURE_VERSION) {
+    return { features: parseJsonField(record.features), recordId: record.id };
+  }
+  const signature = buffer && computeServerSignature(buffer);
+  if (!signature) {
+    return { status: 422, error: '服务器只能解码JPEG和PNG图片，请在浏览器中计算特征向量后通过features提交' };
+  }
+  if (record) {
+    await saveRecordSignature(record.id, signature);
+  }
+  return { features: signature.features, recordId: record?.id };
+};
+
+// 相似度搜索：返回评分从高到低的完整记录；missing为还没有当前版本特征向量、未参与搜索的记录数
+app.post('/api/similarity', upload.single('image'), async (req, res) => {
+  try {
+    const query = await resolveQueryFeatures(req);
+    if (query.error) {
+      return res.status(query.status).json({ error: query.error });
+    }
+    
+    const body = req.body || {};
+    const { SIMILARITY_METRICS, DEFAULT_SIMILARITY_METRIC, scoreSimilarity } = sharedModules.similarityMetrics;
+    const { FEATURE_VERSION } = sharedModules.imageFeatures;
+    const metricId = body.metric || DEFAULT_SIMILARITY_METRIC;
+    if (!SIMILARITY_METRICS.some(metric => metric.id === metricId)) {
+      return res.status(400).json({ error: `不支持的相似度算法: ${metricId}` });
+    }
+    const topK = Math.min(Math.max(parseInt(body.topK, 10) || SIMILARITY_DEFAULT_TOP_K, 1), SIMILARITY_MAX_TOP_K);
+    const threshold = Math.min(Math.max(Number(body.threshold) || 0, 0), 1);
+    const matchesFilters = createTagFilter(parseJsonField(body.filters), await loadTaxonomy(pool));
+    
+    const [candidates, missing] = await Promise.all([
+      pool.query('SELECT id, tags, features FROM clothing_analysis WHERE feature_version = $1 AND features IS NOT NULL', [FEATURE_VERSION]),
+      pool.query('SELECT COUNT(*)::int AS count FROM clothing_analysis WHERE features IS NULL OR feature_version IS DISTINCT FROM $1', [FEATURE_VERSION])
+    ]);
+    
+    const scored = [];
+    for (const row of candidates.rows) {
+      // 按记录搜索时不返回记录本身
+      if (row.id === query.recordId || !matchesFilters(parseJsonField(row.tags))) continue;
+      const { similarity, breakdown } = scoreSimilarity(query.features, parseJsonField(row.features), metricId);
+      if (similarity >= threshold) {
+        scored.push({ id: row.id, similarity, breakdown });
+      }
+    }
+    scored.sort((a, b) => b.similarity - a.similarity);
+    
+    // 只为返回的记录读取图片等完整字段
+    const top = scored.slice(0, topK);
+    const records = top.length > 0
+      ? (await pool.query('SELECT * FROM clothing_analysis WHERE id = ANY($1::uuid[])', [top.map(match => match.id)])).rows
+      : [];
+    const recordsById = new Map(records.map(record => [record.id, { ...record, tags: parseJsonField(record.tags) }]));
+    
+    res.json({
+      // 比较之后被删除的记录不返回
+      results: top
+        .filter(match => recordsById.has(match.id))
+        .map(match => ({ ...match, record: recordsById.get(match.id) })),
+      matched: scored.length,
+      scanned: candidates.rows.length,
+      missing: missing.rows[0].count,
+      featureVersion: FEATURE_VERSION,
+      metric: metricId
+    });
+  } catch (error) {
+    console.error('相似度搜索失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ---------------- 前后端共用的模块 ----------------
+// shared/ 下是ES模块，服务器启动时加载
+
+const sharedModules = {};
+
+const loadSharedModules = async () => {
+  sharedModules.legacyTagText = await import('../shared/legacyTagText.js');
+  sharedModules.similarityMetrics = await import('../shared/similarityMetrics.js');
+  sharedModules.imageFeatures = await import('../shared/imageFeatures.js');
+};
+
+// ---------------- 识别代理 ----------------
+// 前端的"后端代理"识别服务通过这里调用Coze，Token只保存在服务器上
+
+const COZE_API_BASE = process.env.COZE_API_BASE || 'https://api.coze.cn';
+const COZE_API_TOKEN = process.env.COZE_API_TOKEN || '';
+const COZE_WORKFLOW_ID = process.env.COZE_WORKFLOW_ID || '7529771322207010856';
+// 工作流发布的版本标记，通过识别接口的响应头返回，前端记录在结果的来源信息中
+const COZE_WORKFLOW_VERSION = process.env.COZE_WORKFLOW_VERSION || '';
+// Coze限流或服务端错误时的最大尝试次数
+const COZE_MAX_ATTEMPTS = 3;
+// 所有Coze请求（识别代理和后台任务）共享的每秒请求数
+const COZE_QPS = Number(process.env.COZE_QPS) || 2;
+
+// 每个配额键在配额窗口内最多执行的识别次数和上传次数
+const RECOGNIZE_QUOTA = Number(process.env.RECOGNIZE_QUOTA) || 500;
+const RECOGNIZE_UPLOAD_QUOTA = Number(process.env.RECOGNIZE_UPLOAD_QUOTA) || RECOGNIZE_QUOTA;
+const RECOGNIZE_QUOTA_WINDOW_HOURS = Number(process.env.RECOGNIZE_QUOTA_WINDOW_HOURS) || 24;
+const QUOTA_LIMITS = { run: RECOGNIZE_QUOTA, upload: RECOGNIZE_UPLOAD_QUOTA };
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 客户端标识：前端在请求头 X-Client-Id 中携带，没有时按IP区分；由客户端自行上报，只用于调用统计
+const getClientId = (req) => {
+  const clientId = (req.get('X-Client-Id') || '').trim().slice(0, 100);
+  return clientId || `ip:${req.ip}`;
+};
+
+// 配额键：按服务器确定的请求IP计算，客户端无法通过更换请求头绕过配额
+const getQuotaKey = (req) => `ip:${req.ip}`;
+
+// 预留一次配额并写入调用记录，返回记录ID和预留后的配额；配额用完时写入rejected记录，allowed为false。
+// 同一配额键的预留通过事务级advisory锁串行执行，计数和写入在同一事务中，并发请求不会超出配额；
+// 预留的记录状态为pending（计入配额），调用结束后由finishRecognitionCall更新结果
+const reserveQuota = async (call) => {
+  const limit = QUOTA_LIMITS[call.kind];
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`quota:${call.quotaKey}:${call.kind}`]);
+    const usage = await client.query(`
+      SELECT COUNT(*)::int AS used FROM recognition_calls
+      WHERE quota_key = $1 AND kind = $2 AND status <> 'rejected'
+        AND created_at > CURRENT_TIMESTAMP - ($3 * INTERVAL '1 hour')
+    `, [call.quotaKey, call.kind, RECOGNIZE_QUOTA_WINDOW_HOURS]);
+    const used = usage.rows[0].used;
+    const allowed = used < limit;
+    
+    const inserted = await client.query(`
+      INSERT INTO recognition_calls (
+        client_id, quota_key, ip, kind, file_name, file_size, coze_file_id, status, error
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING id
+    `, [
+      call.clientId,
+      call.quotaKey,
+      call.ip,
+      call.kind,
+      call.fileName || null,
+      call.fileSize || null,
+      call.fileId || null,
+      allowed ? 'pending' : 'rejected',
+      allowed ? null : '配额已用完'
+    ]);
+    await client.query('COMMIT');
+    
+    const usedAfter = allowed ? used + 1 : used;
+    return {
+      callId: inserted.rows[0].id,
+      allowed,
+      quota: { limit, used: usedAfter, remaining: Math.max(0, limit - usedAfter), windowHours: RECOGNIZE_QUOTA_WINDOW_HOURS }
+    };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// 更新预留的调用记录，用于配额统计和成本核算；记录失败不影响识别
+const finishRecognitionCall = async (callId, result) => {
+  try {
+    await pool.query(`
+      UPDATE recognition_calls
+      SET status = $2, coze_file_id = COALESCE($3, coze_file_id), duration_ms = $4, error = $5
+      WHERE id = $1
+    `, [callId, result.status, result.fileId || null, result.durationMs, result.error || null]);
+  } catch (error) {
+    console.error('记录识别调用失败:', error);
+  }
+};
+
+// 撤销预留的调用（没有发起识别），不计入配额
+const releaseQuota = async (callId) => {
+  try {
+    await pool.query('DELETE FROM recognition_calls WHERE id = $1', [callId]);
+  } catch (error) {
+    console.error('撤销识别调用记录失败:', error);
+  }
+};
+
+// 按COZE_QPS排队：每个请求占用一个时间间隔，间隔未到时等待
+let nextCozeRequestAt = 0;
+const waitForCozeRateLimit = async () => {
+  const now = Date.now();
+  const startAt = Math.max(now, nextCozeRequestAt);
+  nextCozeRequestAt = startAt + 1000 / COZE_QPS;
+  if (startAt > now) {
+    await sleep(startAt - now);
+  }
+};
+
+// Coze的限流以HTTP 429或业务错误码（如720711011）返回
+const isCozeRateLimited = (status, body) => {
+  return status === 429
+    || body?.code === 720711011
+    || body?.code === 720711012
+    || /qps too high|rate limit/i.test(body?.msg || '');
+};
+
+// 调用Coze接口，限流和服务端错误时退避重试；失败时抛出带status的错误。
+// stream为true时成功返回事件流的响应本身，由调用方转发
+// 流式请求返回这些状态时视为工作流不支持流式执行
+const COZE_STREAM_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+// 上游不支持流式执行时代理返回501，前端据此改用阻塞式的 /api/recognize
+const createStreamUnsupportedError = () => {
+  const error = new Error('Coze工作流不支持流式执行');
+  error.status = 501;
+  error.streamUnsupported = true;
+  return error;
+};
+
+const cozeRequest = async (apiPath, init, { stream = false } = {}) => {
+  for (let attempt = 1; ; attempt++) {
+    await waitForCozeRateLimit();
+    const response = await fetch(`${COZE_API_BASE}${apiPath}`, {
+      ...init,
+      headers: { 'Authorization': `Bearer ${COZE_API_TOKEN}`, ...init.headers }
+    });
+    if (stream && response.ok && (response.headers.get('content-type') || '').includes('text/event-stream')) {
+      return response;
+    }
+    const text = await response.text();
+    let body = null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // 非JSON响应按错误处理
+    }
+    
+    const businessError = typeof body?.code === 'number' && body.code !== 0;
+    // 流式请求返回了普通响应而不是事件流，或者上游没有流式接口
+    if (stream && ((response.ok && !businessError) || COZE_STREAM_UNSUPPORTED_STATUSES.includes(response.status))) {
+      throw createStreamUnsupportedError();
+    }
+    if (response.ok && body && !businessError) {
+      return body;
+    }
+    
+    const rateLimited = isCozeRateLimited(response.status, body);
+    if ((rateLimited || response.status >= 500) && attempt < COZE_MAX_ATTEMPTS) {
+      const waitTime = Math.pow(2, attempt) * 1000;
+      console.log(`Coze请求失败（${response.status}），等待 ${waitTime}ms 后重试...`);
+      await sleep(waitTime);
+      continue;
+    }
+    
+    const error = new Error(`Coze请求失败: ${response.status} - ${body?.msg || text}`);
+    error.status = rateLimited ? 429 : 502;
+    throw error;
+  }
+};
+
+// 上传图片到Coze，返回file_id
+const uploadToCoze = async (file) => {
+  const formData = new FormData();
+  formData.append('file', new Blob([file.buffer], { type: file.mimetype }), file.originalname);
+  const body = await cozeRequest('/v1/files/upload', { method: 'POST', body: formData });
+  const fileId = body.data?.id || body.data?.file_id || body.id || body.file_id;
+  if (!fileId) {
+    const error = new Error('Coze上传成功但未返回file_id');
+    error.status = 502;
+    throw error;
+  }
+  return fileId;
+};
+
+const buildWorkflowRequest = (fileId, signal) => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({
+    workflow_id: COZE_WORKFLOW_ID,
+    parameters: { input: JSON.stringify({ file_id: fileId }) }
+  }),
+  signal
+});
+
+// 执行识别工作流，返回模型输出文本
+const runCozeWorkflow = async (fileId) => {
+  const body = await cozeRequest('/v1/workflow/run', buildWorkflowRequest(fileId));
+  const data = body.data;
+  if (typeof data === 'string') return data;
+  return data?.output || data?.result || body.output || body.result || '';
+};
+
+// 从模型输出中取出JSON对象，兼容```json代码块和前后的多余文字
+const extractJsonObject = (output) => {
+  let value = output;
+  // Coze工作流的output可能是再次序列化的JSON字符串
+  for (let depth = 0; depth < 3 && typeof value === 'string'; depth++) {
+    const text = value.replace(/```(?:json)?/g, '').trim();
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+    try {
+      value = JSON.parse(text.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+    if (value && typeof value.output === 'string') value = value.output;
+  }
+  return value && typeof value === 'object' ? value : null;
+};
+
+// 字段置信度：接受0-1的小数或0-100的百分数（含"85%"这样的文本），统一换算为0-1，与前端解析器相同
+const toFieldConfidence = (value) => {
+  const number = typeof value === 'string' ? Number(value.trim().replace(/%$/, '')) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0 || number > 100) return undefined;
+  return number > 1 ? number / 100 : number;
+};
+
+// 解析模型输出的主服装：JSON结构化输出取出value和置信度，不是JSON时按旧版文本格式解析（规则与前端共用）；
+// 按标签体系和同义词词典归一化，缺少的维度记为"未识别"。返回标签、字段置信度（0-1）和解析策略，无法解析时返回null。
+// 完整的解析（多件服装、解析报告）由前端的tagParser完成，这里的结果供识别代理的调用方和后台任务使用
+const parseRecognitionOutput = (output, taxonomy) => {
+  const keys = taxonomy.dimensions.length > 0 ? taxonomy.dimensions.map(dimension => dimension.key) : undefined;
+  const parsed = extractJsonObject(output);
+  let garment;
+  let strategy = 'json';
+  let confidenceMap = {};
+  if (parsed) {
+    garment = Array.isArray(parsed.garments) && parsed.garments.length > 0 ? parsed.garments[0] : parsed;
+    const topLevelConfidence = garment.confidence || garment.置信度;
+    if (topLevelConfidence && typeof topLevelConfidence === 'object') {
+      confidenceMap = topLevelConfidence;
+    }
+  } else {
+    const legacy = sharedModules.legacyTagText.parseLegacyTagText(typeof output === 'string' ? output : '', keys);
+    if (legacy.strategy === 'none') return null;
+    garment = legacy.values;
+    strategy = legacy.strategy;
+  }
+  
+  const readValue = (raw) => (raw && typeof raw === 'object' ? raw.value ?? raw.值 : raw);
+  const readConfidence = (key) => {
+    const raw = garment[key];
+    const own = raw && typeof raw === 'object' ? toFieldConfidence(raw.confidence ?? raw.置信度) : undefined;
+    return own ?? toFieldConfidence(confidenceMap[key]);
+  };
+  
+  // 后端没有保存标签体系时，原样返回所有文本字段
+  const entries = keys
+    ? taxonomy.dimensions.map(dimension => {
+      const value = readValue(garment[dimension.key]);
+      if (typeof value !== 'string' || !value.trim() || value.trim() === '未识别') return [dimension.key, '未识别'];
+      const lookup = buildTagValueLookup(dimension);
+      return [dimension.key, lookup.get(toComparableTagValue(value)) || value.trim()];
+    })
+    : Object.entries(garment)
+      .map(([key, raw]) => [key, readValue(raw)])
+      .filter(([key, value]) => typeof value === 'string' && !['confidence', '置信度'].includes(key))
+      .map(([key, value]) => [key, value.trim()]);
+  
+  const tags = Object.fromEntries(entries);
+  const fieldConfidence = {};
+  Object.entries(tags).forEach(([key, value]) => {
+    const confidence = value === '未识别' ? undefined : readConfidence(key);
+    if (confidence !== undefined) fieldConfidence[key] = confidence;
+  });
+  return { tags, fieldConfidence, strategy };
+};
+
+// 整体置信度（0-100）：字段置信度的平均值，模型没有给出置信度时为0，与前端相同
+const calculateOverallConfidence = (fieldConfidence) => {
+  const values = Object.values(fieldConfidence);
+  if (values.length === 0) return 0;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 100);
+};
+
+// 未配置Token时代理不可用
+const requireCozeToken = (req, res, next) => {
+  if (!COZE_API_TOKEN) {
+    return res.status(503).json({ error: '服务器未配置COZE_API_TOKEN，无法使用识别代理' });
+  }
+  next();
+};
+
+// 在调用Coze之前预留配额并设置配额响应头；配额用完时返回429（被拒绝的调用已记录），返回null
+const checkQuota = async (res, call) => {
+  const { callId, allowed, quota } = await reserveQuota(call);
+  res.set('X-Quota-Limit', String(quota.limit));
+  res.set('X-Quota-Remaining', String(quota.remaining));
+  if (!allowed) {
+    res.status(429).json({
+      error: `${call.kind === 'upload' ? '上传' : '识别'}配额已用完（${quota.windowHours}小时内最多${quota.limit}次）`,
+      code: 'QUOTA_EXCEEDED',
+      quota
+    });
+    return null;
+  }
+  return { callId, quota };
+};
+
+// 上传图片到Coze并计入upload配额，返回file_id；配额不足时已经返回429，结果为null
+const uploadWithQuota = async (req, res, file) => {
+  const startTime = Date.now();
+  const reservation = await checkQuota(res, {
+    clientId: getClientId(req), quotaKey: getQuotaKey(req), ip: req.ip, kind: 'upload',
+    fileName: file.originalname, fileSize: file.size
+  });
+  if (!reservation) return null;
+  
+  try {
+    const fileId = await uploadToCoze(file);
+    await finishRecognitionCall(reservation.callId, { fileId, status: 'success', durationMs: Date.now() - startTime });
+    return fileId;
+  } catch (error) {
+    await finishRecognitionCall(reservation.callId, { status: 'error', durationMs: Date.now() - startTime, error: error.message });
+    throw error;
+  }
+};
+
+// 上传图片到Coze，返回file_id；多次识别（投票、置信度）时复用同一个file_id。上传次数单独计入配额
+app.post('/api/recognize/upload', requireCozeToken, upload.single('image'), async (req, res) => {
+  const file = req.file;
+  if (!file) {
+    return res.status(400).json({ error: '缺少图片' });
+  }
+  
+  try {
+    const fileId = await uploadWithQuota(req, res, file);
+    if (!fileId) return;
+    res.json({ fileId });
+  } catch (error) {
+    console.error('代理上传图片失败:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// 识别结果来自哪个工作流
+const setWorkflowHeaders = (res) => {
+  res.set('X-Workflow-Id', COZE_WORKFLOW_ID);
+  if (COZE_WORKFLOW_VERSION) {
+    res.set('X-Workflow-Version', COZE_WORKFLOW_VERSION);
+  }
+};
+
+// 识别图片：上传图片（multipart的image字段）或传入已上传的fileId，返回模型输出和归一化后的标签
+app.post('/api/recognize', requireCozeToken, upload.single('image'), async (req, res) => {
+  const startTime = Date.now();
+  const file = req.file;
+  let fileId = req.body?.fileId;
+  
+  if (!file && !fileId) {
+    return res.status(400).json({ error: '缺少图片或fileId' });
+  }
+  
+  let reservation = null;
+  try {
+    // 直接传图片时先上传，与 /api/recognize/upload 一样计入upload配额
+    if (!fileId) {
+      fileId = await uploadWithQuota(req, res, file);
+      if (!fileId) return;
+    }
+    
+    reservation = await checkQuota(res, {
+      clientId: getClientId(req), quotaKey: getQuotaKey(req), ip: req.ip, kind: 'run',
+      fileName: file?.originalname, fileSize: file?.size, fileId
+    });
+    if (!reservation) return;
+    
+    const output = await runCozeWorkflow(fileId);
+    
+    const client = await pool.connect();
+    let tags;
+    try {
+      tags = parseRecognitionOutput(output, await loadTaxonomy(client))?.tags || null;
+    } finally {
+      client.release();
+    }
+    
+    await finishRecognitionCall(reservation.callId, { fileId, status: 'success', durationMs: Date.now() - startTime });
+    setWorkflowHeaders(res);
+    res.json({ fileId, output, tags, quota: reservation.quota });
+  } catch (error) {
+    console.error('代理识别失败:', error);
+    if (reservation) {
+      await finishRecognitionCall(reservation.callId, { fileId, status: 'error', durationMs: Date.now() - startTime, error: error.message });
+    }
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// 流式识别：转发Coze流式执行（/v1/workflow/stream_run）的SSE事件，前端边接收边显示已识别的字段；
+// 只接受已上传的fileId，计入配额的方式与 /api/recognize 相同
+app.post('/api/recognize/stream', requireCozeToken, async (req, res) => {
+  const startTime = Date.now();
+  const fileId = req.body?.fileId;
+  const call = { clientId: getClientId(req), quotaKey: getQuotaKey(req), ip: req.ip, kind: 'run', fileId };
+  
+  if (!fileId) {
+    return res.status(400).json({ error: '缺少fileId' });
+  }
+  
+  // 前端断开时中止对Coze的请求
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  
+  let reservation = null;
+  try {
+    reservation = await checkQuota(res, call);
+    if (!reservation) return;
+    
+    const upstream = await cozeRequest('/v1/workflow/stream_run', buildWorkflowRequest(fileId, controller.signal), { stream: true });
+    
+    res.set({
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    setWorkflowHeaders(res);
+    res.flushHeaders();
+    
+    // 工作流的错误以Error事件返回，HTTP状态仍为200
+    const decoder = new TextDecoder();
+    let streamError = null;
+    for await (const chunk of upstream.body) {
+      const text = decoder.decode(chunk, { stream: true });
+      if (!streamError && text.includes('event: Error')) {
+        streamError = '工作流返回Error事件';
+      }
+      res.write(chunk);
+    }
+    res.end();
+    
+    await finishRecognitionCall(reservation.callId, {
+      status: streamError ? 'error' : 'success', durationMs: Date.now() - startTime, error: streamError
+    });
+  } catch (error) {
+    console.error('代理流式识别失败:', error);
+    // 不支持流式时没有识别，撤销预留的调用，前端改用阻塞式接口时重新计入配额
+    if (reservation && error.streamUnsupported) {
+      await releaseQuota(reservation.callId);
+    } else if (reservation) {
+      await finishRecognitionCall(reservation.callId, { status: 'error', durationMs: Date.now() - startTime, error: error.message });
+    }
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(error.status || 500).json({ error: error.message });
+    }
+  }
+});
+
+// 识别调用统计：按天和客户端汇总，用于核算成本
+app.get('/api/recognize/usage', async (req, res) => {
+  const days = Math.min(Math.max(parseInt(req.query.days, 10) || 7, 1), 90);
+  try {
+    const result = await pool.query(`
+      SELECT
+        DATE(created_at) AS day,
+        client_id,
+        COUNT(*) FILTER (WHERE kind = 'run' AND status = 'success')::int AS runs,
+        COUNT(*) FILTER (WHERE kind = 'run' AND status = 'error')::int AS failed_runs,
+        COUNT(*) FILTER (WHERE status = 'rejected')::int AS rejected,
+        COUNT(*) FILTER (WHERE kind = 'upload')::int AS uploads,
+        COALESCE(SUM(file_size) FILTER (WHERE kind = 'upload'), 0)::bigint AS uploaded_bytes,
+        COALESCE(AVG(duration_ms) FILTER (WHERE kind = 'run' AND status = 'success'), 0)::int AS avg_run_ms
+      FROM recognition_calls
+      WHERE created_at > CURRENT_TIMESTAMP - ($1 * INTERVAL '1 day')
+      GROUP BY DATE(created_at), client_id
+      ORDER BY day DESC, runs DESC
+    `, [days]);
+    res.json({
+      days,
+      usage: result.rows,
+      quota: { limit: RECOGNIZE_QUOTA, uploadLimit: RECOGNIZE_UPLOAD_QUOTA, windowHours: RECOGNIZE_QUOTA_WINDOW_HOURS }
+    });
+  } catch (error) {
+    console.error('获取识别调用统计失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ---------------- 识别调用记录 ----------------
+// 前端每次上传和执行请求的耗时和结果，调用统计页面按时间段汇总所有客户端的数据
+
+const TELEMETRY_MAX_BATCH = 500;
+const TELEMETRY_STAGES = ['upload', 'run'];
+const TELEMETRY_OUTCOMES = ['success', 'error'];
+
+// 批量保存调用记录；同一条记录重复上报时忽略
+app.post('/api/telemetry', async (req, res) => {
+  const records = Array.isArray(req.body?.records) ? req.body.records : null;
+  if (!records) {
+    return res.status(400).json({ error: 'records必须是数组' });
+  }
+  if (records.length > TELEMETRY_MAX_BATCH) {
+    return res.status(400).json({ error: `每次最多上报 ${TELEMETRY_MAX_BATCH} 条记录` });
+  }
+  
+  const valid = records.filter(record => record
+    && typeof record.id === 'string'
+    && TELEMETRY_STAGES.includes(record.stage)
+    && TELEMETRY_OUTCOMES.includes(record.outcome)
+    && Number.isFinite(record.startedAt));
+  if (valid.length === 0) {
+    return res.json({ saved: 0 });
+  }
+  
+  const clientId = getClientId(req);
+  const toInt = (value) => Number.isFinite(value) ? Math.round(value) : null;
+  try {
+    const result = await pool.query(`
+      INSERT INTO recognition_telemetry (
+        id, client_id, stage, provider, file_name, attempt, duration_ms, outcome, error_code, status, priority, started_at
+      )
+      SELECT id, $2, stage, provider, file_name, attempt, duration_ms, outcome, error_code, status, priority, to_timestamp(started_at / 1000.0)
+      FROM unnest(
+        $1::text[], $3::text[], $4::text[], $5::text[], $6::int[], $7::int[], $8::text[], $9::text[], $10::int[], $11::text[], $12::float8[]
+      ) AS t(id, stage, provider, file_name, attempt, duration_ms, outcome, error_code, status, priority, started_at)
+      ON CONFLICT (id) DO NOTHING
+    `, [
+      valid.map(record => record.id.slice(0, 100)),
+      clientId,
+      valid.map(record => record.stage),
+      valid.map(record => String(record.provider || 'unknown').slice(0, 50)),
+      valid.map(record => record.fileName ? String(record.fileName).slice(0, 255) : null),
+      valid.map(record => toInt(record.attempt) || 1),
+      valid.map(record => Math.max(0, toInt(record.durationMs) || 0)),
+      valid.map(record => record.outcome),
+      valid.map(record => record.errorCode ? String(record.errorCode).slice(0, 50) : null),
+      valid.map(record => toInt(record.status)),
+      valid.map(record => record.priority ? String(record.priority).slice(0, 20) : null),
+      valid.map(record => record.startedAt)
+    ]);
+    res.json({ saved: result.rowCount });
+  } catch (error) {
+    console.error('保存识别调用记录失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 按时间段汇总的调用统计：吞吐量、失败原因和执行耗时分位数（只统计成功的执行请求）
+app.get('/api/telemetry/metrics', async (req, res) => {
+  const rangeMs = Math.min(Math.max(parseInt(req.query.rangeMs, 10) || 24 * 3600 * 1000, 60 * 1000), 30 * 24 * 3600 * 1000);
+  // 每个范围最多500个时间段
+  const bucketMs = Math.max(parseInt(req.query.bucketMs, 10) || 3600 * 1000, Math.ceil(rangeMs / 500), 60 * 1000);
+  const until = Date.now();
+  const since = until - rangeMs;
+  
+  const summaryColumns = `
+    COUNT(*)::int AS calls,
+    COUNT(*) FILTER (WHERE outcome = 'success')::int AS success,
+    COUNT(*) FILTER (WHERE outcome = 'error')::int AS failed,
+    COUNT(*) FILTER (WHERE attempt > 1)::int AS retries,
+    COUNT(*) FILTER (WHERE error_code = 'rate_limited')::int AS "rateLimited",
+    percentile_disc(0.5) WITHIN GROUP (ORDER BY duration_ms) FILTER (WHERE stage = 'run' AND outcome = 'success') AS p50,
+    percentile_disc(0.95) WITHIN GROUP (ORDER BY duration_ms) FILTER (WHERE stage = 'run' AND outcome = 'success') AS p95,
+    percentile_disc(0.99) WITHIN GROUP (ORDER BY duration_ms) FILTER (WHERE stage = 'run' AND outcome = 'success') AS p99
+  `;
+  const rangeCondition = `started_at >= to_timestamp($1 / 1000.0) AND started_at <= to_timestamp($2 / 1000.0)`;
+  
+  try {
+    const [buckets, totals, failures] = await Promise.all([
+      pool.query(`
+        SELECT (FLOOR(EXTRACT(EPOCH FROM started_at) * 1000 / $3) * $3)::float8 AS start, ${summaryColumns}
+        FROM recognition_telemetry
+        WHERE ${rangeCondition}
+        GROUP BY 1
+        ORDER BY 1
+      `, [since, until, bucketMs]),
+      pool.query(`
+        SELECT ${summaryColumns},
+          COUNT(*) FILTER (WHERE stage = 'upload')::int AS uploads,
+          COUNT(*) FILTER (WHERE stage = 'run')::int AS runs
+        FROM recognition_telemetry
+        WHERE ${rangeCondition}
+      `, [since, until]),
+      pool.query(`
+        SELECT COALESCE(error_code, 'unknown') AS code, COUNT(*)::int AS count
+        FROM recognition_telemetry
+        WHERE ${rangeCondition} AND outcome = 'error'
+        GROUP BY 1
+      `, [since, until])
+    ]);
+    
+    res.json({
+      since,
+      until,
+      bucketMs,
+      buckets: buckets.rows,
+      totals: { start: since, ...totals.rows[0] },
+      failuresByCode: Object.fromEntries(failures.rows.map(row => [row.code, row.count]))
+    });
+  } catch (error) {
+    console.error('获取调用统计失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ---------------- 后台批量分析任务 ----------------
+// 大批量图片提交到服务器识别，不需要保持浏览器打开；结果直接保存到clothing_analysis表
+
+// 上传的图片保存在这个目录下（每个任务一个子目录），识别成功后删除
+const JOB_UPLOAD_DIR = path.resolve(process.env.JOB_UPLOAD_DIR || path.join(__dirname, 'uploads', 'jobs'));
+// 允许导入的服务器目录的根目录，未配置时不能按目录创建任务
+const JOB_IMPORT_ROOT = process.env.JOB_IMPORT_ROOT ? path.resolve(process.env.JOB_IMPORT_ROOT) : '';
+// 同时识别的图片数，请求频率仍受COZE_QPS限制
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+// 没有待处理图片时工作进程的轮询间隔
+const JOB_POLL_INTERVAL = 2000;
+// 限流或服务端错误时图片重新排队，最多识别的次数和重新排队前的等待时间
+const JOB_ITEM_MAX_ATTEMPTS = 3;
+const JOB_RETRY_PAUSE = 10000;
+// 每次请求最多上传的图片数，更多图片分多次追加到同一个任务
+const JOB_MAX_FILES_PER_REQUEST = 100;
+// 后台任务由服务器解析识别结果（只有主服装的标签），与前端解析器的版本区分
+const JOB_PARSER_VERSION = 'server-2';
+
+const JOB_IMAGE_TYPES = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+};
+
+// 图片直接写入任务的上传目录，不占用服务器内存
+const jobUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      const dir = path.join(JOB_UPLOAD_DIR, req.jobId);
+      fs.mkdir(dir, { recursive: true }, error => cb(error, dir));
+    },
+    filename: (req, file, cb) => {
+      cb(null, `${uuidv4()}${path.extname(file.originalname).toLowerCase()}`);
+    }
+  }),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB
+    files: JOB_MAX_FILES_PER_REQUEST
+  },
+  fileFilter: (req, file, cb) => cb(null, file.mimetype.startsWith('image/'))
+});
+
+// 任务中各状态的图片数
+const JOB_PROGRESS_COLUMNS = `
+  COUNT(i.id)::int AS total,
+  COUNT(i.id) FILTER (WHERE i.status = 'pending')::int AS pending,
+  COUNT(i.id) FILTER (WHERE i.status = 'running')::int AS running,
+  COUNT(i.id) FILTER (WHERE i.status = 'success')::int AS success,
+  COUNT(i.id) FILTER (WHERE i.status = 'skipped')::int AS skipped,
+  COUNT(i.id) FILTER (WHERE i.status = 'error')::int AS failed
+`;
+
+const toJobResponse = (row) => ({
+  id: row.id,
+  name: row.name,
+  source: row.source,
+  directory: row.directory,
+  status: row.status,
+  createdAt: row.created_at,
+  finishedAt: row.finished_at,
+  progress: {
+    total: row.total,
+    pending: row.pending,
+    running: row.running,
+    success: row.success,
+    skipped: row.skipped,
+    failed: row.failed
+  }
+});
+
+const getJob = async (jobId) => {
+  const result = await pool.query(`
+    SELECT j.*, ${JOB_PROGRESS_COLUMNS}
+    FROM analysis_jobs j
+    LEFT JOIN analysis_job_items i ON i.job_id = j.id
+    WHERE j.id = $1
+    GROUP BY j.id
+  `, [jobId]);
+  return result.rows[0] ? toJobResponse(result.rows[0]) : null;
+};
+
+// 批量写入任务的图片
+const addJobItems = async (jobId, items) => {
+  await pool.query(`
+    INSERT INTO analysis_job_items (job_id, file_name, file_path, file_size, mime_type)
+    SELECT $1, * FROM unnest($2::text[], $3::text[], $4::bigint[], $5::text[])
+  `, [
+    jobId,
+    items.map(item => item.fileName),
+    items.map(item => item.filePath),
+    items.map(item => item.fileSize ?? null),
+    items.map(item => item.mimeType)
+  ]);
+};
+
+const toUploadedJobItems = (files) => files.map(file => ({
+  fileName: file.originalname,
+  filePath: file.path,
+  fileSize: file.size,
+  mimeType: file.mimetype
+}));
+
+// 列出目录中的图片文件，recursive为true时包含子目录
+const listImageFiles = async (dir, recursive) => {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  const files = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) files.push(...await listImageFiles(fullPath, recursive));
+    } else if (entry.isFile() && JOB_IMAGE_TYPES[path.extname(entry.name).toLowerCase()]) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+};
+
+// 导入目录必须位于JOB_IMPORT_ROOT下，返回绝对路径；不允许时抛出带status的错误
+const resolveImportDirectory = (directory) => {
+  if (!JOB_IMPORT_ROOT) {
+    const error = new Error('服务器未配置JOB_IMPORT_ROOT，不能导入服务器上的目录');
+    error.status = 403;
+    throw error;
+  }
+  const resolved = path.resolve(JOB_IMPORT_ROOT, directory);
+  if (resolved !== JOB_IMPORT_ROOT && !resolved.startsWith(JOB_IMPORT_ROOT + path.sep)) {
+    const error = new Error('只能导入JOB_IMPORT_ROOT下的目录');
+    error.status = 403;
+    throw error;
+  }
+  return resolved;
+};
+
+// 为上传图片的请求分配任务ID，multer按任务ID保存图片
+const assignJobId = (req, res, next) => {
+  req.jobId = uuidv4();
+  next();
+};
+
+// 追加图片前检查任务是否存在
+const requireJob = async (req, res, next) => {
+  try {
+    const result = await pool.query('SELECT id FROM analysis_jobs WHERE id = $1', [req.params.id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: '任务不存在' });
+    }
+    req.jobId = req.params.id;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// 创建任务：上传图片（multipart的images字段，每次最多100张）或传入服务器目录 {"directory": "...", "recursive": true}
+app.post('/api/jobs', requireCozeToken, assignJobId, jobUpload.array('images'), async (req, res) => {
+  const jobId = req.jobId;
+  const files = req.files || [];
+  
+  try {
+    let source;
+    let directory = null;
+    let items;
+    if (files.length > 0) {
+      source = 'upload';
+      items = toUploadedJobItems(files);
+    } else if (req.body?.directory) {
+      source = 'directory';
+      directory = resolveImportDirectory(String(req.body.directory));
+      const paths = await listImageFiles(directory, req.body.recursive === true || req.body.recursive === 'true');
+      items = paths.map(filePath => ({
+        fileName: path.relative(directory, filePath),
+        filePath,
+        mimeType: JOB_IMAGE_TYPES[path.extname(filePath).toLowerCase()]
+      }));
+    } else {
+      return res.status(400).json({ error: '缺少图片或目录' });
+    }
+    
+    if (items.length === 0) {
+      return res.status(400).json({ error: '目录中没有图片' });
+    }
+    
+    const name = String(req.body?.name || '').trim() ||
+      (source === 'upload' ? `上传 ${new Date().toLocaleString('zh-CN')}` : path.basename(directory));
+    await pool.query(`
+      INSERT INTO analysis_jobs (id, name, source, directory, client_id, quota_key) VALUES ($1, $2, $3, $4, $5, $6)
+    `, [jobId, name, source, directory, getClientId(req), getQuotaKey(req)]);
+    await addJobItems(jobId, items);
+    
+    console.log(`创建后台任务 ${name}: ${items.length} 张图片`);
+    res.json({ job: await getJob(jobId) });
+  } catch (error) {
+    console.error('创建后台任务失败:', error);
+    if (files.length > 0) {
+      fs.promises.rm(path.join(JOB_UPLOAD_DIR, jobId), { recursive: true, force: true }).catch(() => {});
+    }
+    res.status(error.code === 'ENOENT' ? 404 : error.status || 500).json({ error: error.message });
+  }
+});
+
+// 向任务追加上传的图片；已完成的任务重新开始执行
+app.post('/api/jobs/:id/images', requireCozeToken, requireJob, jobUpload.array('images'), async (req, res) => {
+  const files = req.files || [];
+  if (files.length === 0) {
+    return res.status(400).json({ error: '缺少图片' });
+  }
+  
+  try {
+    await addJobItems(req.jobId, toUploadedJobItems(files));
+    await pool.query(`
+      UPDATE analysis_jobs SET status = 'running', finished_at = NULL WHERE id = $1 AND status = 'completed'
+    `, [req.jobId]);
+    res.json({ job: await getJob(req.jobId) });
+  } catch (error) {
+    console.error('追加任务图片失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 任务列表（最近100个）
+app.get('/api/jobs', async (req, res) => {
+  try {
+    const result = await pool.query(`
+      SELECT j.*, ${JOB_PROGRESS_COLUMNS}
+      FROM analysis_jobs j
+      LEFT JOIN analysis_job_items i ON i.job_id = j.id
+      GROUP BY j.id
+      ORDER BY j.created_at DESC
+      LIMIT 100
+    `);
+    res.json({ jobs: result.rows.map(toJobResponse) });
+  } catch (error) {
+    console.error('获取后台任务失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 任务详情：进度和每张图片的状态，识别成功的图片带主要标签
+app.get('/api/jobs/:id', async (req, res) => {
+  try {
+    const job = await getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: '任务不存在' });
+    }
+    
+    const items = await pool.query(`
+      SELECT i.id, i.file_name, i.status, i.attempts, i.record_id, i.error, i.updated_at, a.tags
+      FROM analysis_job_items i
+      LEFT JOIN clothing_analysis a ON a.id = i.record_id
+      WHERE i.job_id = $1
+      ORDER BY i.id
+    `, [req.params.id]);
+    res.json({
+      job,
+      items: items.rows.map(item => ({
+        id: item.id,
+        fileName: item.file_name,
+        status: item.status,
+        attempts: item.attempts,
+        recordId: item.record_id,
+        error: item.error,
+        updatedAt: item.updated_at,
+        tags: item.tags
+      }))
+    });
+  } catch (error) {
+    console.error('获取后台任务详情失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 取消任务：正在识别的图片完成后停止，剩余图片保持待处理
+app.post('/api/jobs/:id/cancel', async (req, res) => {
+  try {
+    await pool.query(`
+      UPDATE analysis_jobs SET status = 'cancelled', finished_at = CURRENT_TIMESTAMP WHERE id = $1 AND status = 'running'
+    `, [req.params.id]);
+    const job = await getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: '任务不存在' });
+    }
+    res.json({ job });
+  } catch (error) {
+    console.error('取消后台任务失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 重试失败的图片并继续执行任务（也用于继续已取消或因配额停止的任务）；
+// 上传的图片在识别失败后已删除，只有服务器目录中的图片可以重试
+app.post('/api/jobs/:id/retry', requireCozeToken, async (req, res) => {
+  try {
+    const retried = await pool.query(`
+      UPDATE analysis_job_items SET status = 'pending', attempts = 0, error = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE job_id = $1 AND status = 'error' AND file_path NOT LIKE $2
+    `, [req.params.id, `${JOB_UPLOAD_DIR}${path.sep}%`]);
+    await pool.query(`
+      UPDATE analysis_jobs SET status = 'running', finished_at = NULL WHERE id = $1
+    `, [req.params.id]);
+    await finishJobIfDone(req.params.id);
+    const job = await getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: '任务不存在' });
+    }
+    res.json({ job, retried: retried.rowCount });
+  } catch (error) {
+    console.error('重试后台任务失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 删除任务和上传的图片，已保存的分析记录不受影响
+app.delete('/api/jobs/:id', async (req, res) => {
+  try {
+    const result = await pool.query('DELETE FROM analysis_jobs WHERE id = $1', [req.params.id]);
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: '任务不存在' });
+    }
+    await fs.promises.rm(path.join(JOB_UPLOAD_DIR, req.params.id), { recursive: true, force: true });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('删除后台任务失败:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// 取出一张待处理的图片并标记为识别中；多个工作进程同时取时跳过已被其他进程锁定的行
+const claimJobItem = async () => {
+  const result = await pool.query(`
+    UPDATE analysis_job_items
+    SET status = 'running', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+    WHERE id = (
+      SELECT i.id FROM analysis_job_items i
+      JOIN analysis_jobs j ON j.id = i.job_id
+      WHERE i.status = 'pending' AND j.status = 'running'
+      ORDER BY j.created_at, i.id
+      LIMIT 1
+      FOR UPDATE OF i SKIP LOCKED
+    )
+    RETURNING *,
+      (SELECT client_id FROM analysis_jobs WHERE id = job_id) AS client_id,
+      (SELECT quota_key FROM analysis_jobs WHERE id = job_id) AS quota_key
+  `);
+  return result.rows[0] || null;
+};
+
+// 没有待处理和识别中的图片时任务完成
+const finishJobIfDone = async (jobId) => {
+  await pool.query(`
+    UPDATE analysis_jobs SET status = 'completed', finished_at = CURRENT_TIMESTAMP
+    WHERE id = $1 AND status = 'running'
+      AND NOT EXISTS (SELECT 1 FROM analysis_job_items WHERE job_id = $1 AND status IN ('pending', 'running'))
+  `, [jobId]);
+};
+
+const updateJobItem = async (item, status, { recordId = null, error = null } = {}) => {
+  await pool.query(`
+    UPDATE analysis_job_items SET status = $2, record_id = $3, error = $4, updated_at = CURRENT_TIMESTAMP WHERE id = $1
+  `, [item.id, status, recordId, error]);
+  await finishJobIfDone(item.job_id);
+};
+
+// 配额用完时停止任务：图片重新排队（不占用识别次数），任务标记为已取消，配额恢复后通过重试继续
+const stopJobForQuota = async (item) => {
+  await pool.query(`
+    UPDATE analysis_job_items SET status = 'pending', attempts = GREATEST(attempts - 1, 0), error = $2, updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  `, [item.id, '识别配额已用完，任务已停止']);
+  await pool.query(`
+    UPDATE analysis_jobs SET status = 'cancelled', finished_at = CURRENT_TIMESTAMP WHERE id = $1 AND status = 'running'
+  `, [item.job_id]);
+};
+
+// 识别一张图片并保存到clothing_analysis；数据库中已有相同图片时跳过。识别计入创建任务的客户端的配额。
+// 限流或服务端错误且未达到最大次数时重新排队，返回true；上传的图片在处理结束（成功、跳过或失败）后删除
+const processJobItem = async (item) => {
+  const startTime = Date.now();
+  const call = {
+    clientId: item.client_id || `job:${item.job_id}`,
+    quotaKey: item.quota_key || `job:${item.job_id}`,
+    ip: null,
+    kind: 'run',
+    fileName: item.file_name,
+    fileSize: item.file_size
+  };
+  let fileId = null;
+  let reservation = null;
+  // 重新排队或因配额停止时保留上传的图片
+  let keepFile = false;
+  
+  try {
+    const buffer = await fs.promises.readFile(item.file_path);
+    const imageHash = generateFileHash(buffer);
+    const existing = await pool.query('SELECT id FROM clothing_analysis WHERE image_hash = $1', [imageHash]);
+    if (existing.rows.length > 0) {
+      await updateJobItem(item, 'skipped', { recordId: existing.rows[0].id });
+      return false;
+    }
+    
+    reservation = await reserveQuota(call);
+    if (!reservation.allowed) {
+      console.log(`后台任务 ${item.job_id} 的识别配额已用完，任务停止`);
+      keepFile = true;
+      await stopJobForQuota(item);
+      return false;
+    }
+    
+    const mimeType = item.mime_type || JOB_IMAGE_TYPES[path.extname(item.file_path).toLowerCase()] || 'image/jpeg';
+    fileId = await uploadToCoze({ buffer, mimetype: mimeType, originalname: path.basename(item.file_name) });
+    const output = await runCozeWorkflow(fileId);
+    
+    const client = await pool.connect();
+    let parsed;
+    try {
+      parsed = parseRecognitionOutput(output, await loadTaxonomy(client));
+    } finally {
+      client.release();
+    }
+    if (!parsed) {
+      throw new Error('识别结果无法解析');
+    }
+    const signature = computeServerSignature(buffer);
+    
+    // 同一任务中的重复图片可能同时识别，冲突时返回已保存的记录
+    const saved = await pool.query(`
+      INSERT INTO clothing_analysis (
+        image_url, image_name, image_size, image_hash, tags, confidence, field_confidence, analysis_time,
+        provider, workflow_id, workflow_version, parser_version, parse_strategy, raw_output,
+        features, feature_version, dhash, phash
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'proxy', $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      ON CONFLICT (image_hash) DO UPDATE SET image_hash = EXCLUDED.image_hash
+      RETURNING id
+    `, [
+      `data:${mimeType};base64,${buffer.toString('base64')}`,
+      path.basename(item.file_name),
+      buffer.length,
+      imageHash,
+      JSON.stringify(parsed.tags),
+      calculateOverallConfidence(parsed.fieldConfidence),
+      Object.keys(parsed.fieldConfidence).length > 0 ? JSON.stringify(parsed.fieldConfidence) : null,
+      Date.now() - startTime,
+      COZE_WORKFLOW_ID,
+      COZE_WORKFLOW_VERSION || null,
+      JOB_PARSER_VERSION,
+      parsed.strategy,
+      output,
+      signature ? JSON.stringify(signature.features) : null,
+      signature ? sharedModules.imageFeatures.FEATURE_VERSION : null,
+      signature?.dHash || null,
+      signature?.pHash || null
+    ]);
+    
+    await finishRecognitionCall(reservation.callId, { fileId, status: 'success', durationMs: Date.now() - startTime });
+    await updateJobItem(item, 'success', { recordId: saved.rows[0].id });
+    return false;
+  } catch (error) {
+    console.error(`后台任务识别失败 ${item.file_name}:`, error);
+    if (reservation?.allowed) {
+      await finishRecognitionCall(reservation.callId, { fileId, status: 'error', durationMs: Date.now() - startTime, error: error.message });
+    }
+    const retryable = error.status === 429 || error.status === 502;
+    if (retryable && item.attempts < JOB_ITEM_MAX_ATTEMPTS) {
+      keepFile = true;
+      await updateJobItem(item, 'pending', { error: error.message });
+      return true;
+    }
+    await updateJobItem(item, 'error', { error: error.message });
+    return false;
+  } finally {
+    // 删除上传的图片（服务器目录中的图片保留）
+    if (!keepFile && item.file_path.startsWith(JOB_UPLOAD_DIR + path.sep)) {
+      fs.promises.unlink(item.file_path).catch(() => {});
+    }
+  }
+};
+
+const runJobWorker = async (workerIndex) => {
+  for (;;) {
+    try {
+      const item = await claimJobItem();
+      if (!item) {
+        await sleep(JOB_POLL_INTERVAL);
+        continue;
+      }
+      if (await processJobItem(item)) {
+        await sleep(JOB_RETRY_PAUSE);
+      }
+    } catch (error) {
+      console.error(`后台任务工作进程 ${workerIndex} 出错:`, error);
+      await sleep(JOB_POLL_INTERVAL);
+    }
+  }
+};
+
+// 启动后台任务的工作进程；服务器上次退出时正在识别的图片重新排队
+const startJobWorkers = async () => {
+  if (!COZE_API_TOKEN) {
+    console.log('未配置COZE_API_TOKEN，后台任务不会执行');
+    return;
+  }
+  await pool.query(`UPDATE analysis_job_items SET status = 'pending' WHERE status = 'running'`);
+  for (let i = 1; i <= JOB_CONCURRENCY; i++) {
+    runJobWorker(i);
+  }
+  console.log(`后台任务工作进程已启动（${JOB_CONCURRENCY}个）`);
+};
+
 // 错误处理中间件
 app.use((error, req, res, next) => {
   console.error('服务器错误:', error);
@@ -365,14 +2063,18 @@ app.use((req, res) => {
 // 启动服务器
 const startServer = async () => {
   try {
+    await loadSharedModules();
     // 初始化数据库
     await initializeDatabase();
+    await startJobWorkers();
     
     app.listen(PORT, () => {
       console.log(`服务器运行在端口 ${PORT}`);
       console.log(`健康检查: http://localhost:${PORT}/api/health`);
       console.log(`数据库检查: http://localhost:${PORT}/api/database/check`);
     });
+    
+    backfillImageSignatures().catch(error => console.error('补充特征向量失败:', error));
   } catch (error) {
     console.error('服务器启动失败:', error);
     process.exit(1);
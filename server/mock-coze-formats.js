@@ -0,0 +1,71 @@
+// Coze模拟服务器的工作流输出：按场景生成各种格式的标签文本，
+// mock-coze.js 使用，前端的解析测试也用它确认每种格式走到预期的解析策略
+const crypto = require('crypto');
+
+const TAG_VALUES = {
+  样式名称: ['连衣裙', '衬衫', 'T恤', '外套', '裤子', '裙子', '套装', '背心', '毛衣'],
+  颜色: ['黑色', '白色', '蓝色', '红色', '灰色', '粉色', '绿色', '黄色', '紫色'],
+  色调: ['深色调', '浅色调', '中性色调', '暖色调', '冷色调'],
+  领: ['圆领', 'V领', '立领', '翻领', '一字领', '高领', '无领'],
+  袖: ['长袖', '短袖', '七分袖', '无袖', '五分袖'],
+  版型: ['修身', '宽松', '直筒', '紧身', '标准'],
+  长度: ['短款', '中长款', '长款', '超长款'],
+  面料: ['棉质', '丝绸', '羊毛', '聚酯纤维', '亚麻', '雪纺', '牛仔'],
+  图案: ['纯色', '条纹', '格子', '印花', '刺绣', '蕾丝', '几何图案'],
+  工艺: ['简约', '精工', '手工', '机织', '针织'],
+  场合: ['休闲', '正式', '商务', '聚会', '运动', '居家'],
+  季节: ['春季', '夏季', '秋季', '冬季', '四季'],
+  风格: ['简约', '复古', '时尚', '甜美', '帅气', '优雅', '休闲']
+};
+
+// 根据file_id生成固定的标签，保证同一图片每次结果相同
+const generateTags = (fileId) => {
+  const tags = {};
+  Object.entries(TAG_VALUES).forEach(([key, values]) => {
+    const digest = crypto.createHash('md5').update(`${fileId}:${key}`).digest();
+    tags[key] = values[digest.readUInt32BE(0) % values.length];
+  });
+  return tags;
+};
+
+// 按场景把标签格式化为工作流输出文本
+const formatOutput = (tags, scenario) => {
+  const entries = Object.entries(tags);
+  switch (scenario) {
+    case 'format2':
+      return entries.map(([key, value]) => `${key}：[${value}]`).join('，');
+    case 'format3':
+      return entries.map(([key, value]) => `${key}：${value}`).join('\n');
+    case 'format4':
+      return entries.map(([key, value]) => `${key}：${value}`).join('。') + '。';
+    case 'json':
+      // 值中故意带逗号和冒号，旧版文本解析会把它们拆坏
+      return JSON.stringify({ ...tags, 颜色: `${tags.颜色}，局部拼色`, 工艺: `${tags.工艺}：压褶` });
+    case 'confidence':
+      return JSON.stringify(Object.fromEntries(entries.map(([key, value]) => {
+        const digest = crypto.createHash('md5').update(`${key}:${value}`).digest();
+        return [key, { value, confidence: Number((0.4 + (digest[0] % 60) / 100).toFixed(2)) }];
+      })));
+    case 'unrecognized':
+      return entries.map(([key]) => `${key}：未识别`).join('，');
+    default:
+      return entries.map(([key, value]) => `${key}：${value}`).join('，');
+  }
+};
+
+// 套装照片：上装、下装、外套三件服装，位置为相对图片的比例
+const formatOutfitOutput = (fileId) => {
+  const boxes = [[0.2, 0.1, 0.6, 0.4], [0.25, 0.5, 0.5, 0.45], [0.1, 0.05, 0.8, 0.6]];
+  const garments = boxes.map((bbox, index) => ({
+    ...generateTags(index === 0 ? fileId : `${fileId}:${index}`),
+    bbox
+  }));
+  return JSON.stringify({ garments });
+};
+
+module.exports = {
+  TAG_VALUES,
+  generateTags,
+  formatOutput,
+  formatOutfitOutput
+};
@@ -0,0 +1,249 @@
+// 本地Coze模拟服务器：模拟 /v1/files/upload、/v1/workflow/run 和流式的 /v1/workflow/stream_run，
+// 用于离线开发和调试重试、解析逻辑
+//
+// 启动：npm run mock:coze（前端 .env 中设置 VITE_COZE_API_BASE=http://localhost:3002）
+// 切换场景：POST /__mock/scenario  {"name": "qps", "count": 3}
+const express = require('express');
+const cors = require('cors');
+const multer = require('multer');
+const crypto = require('crypto');
+const { generateTags, formatOutput, formatOutfitOutput } = require('./mock-coze-formats');
+
+const app = express();
+const PORT = process.env.MOCK_COZE_PORT || 3002;
+
+app.use(cors());
+app.use(express.json({ limit: '1mb' }));
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024 // 20MB
+  }
+});
+
+// 场景说明
+const SCENARIOS = {
+  normal: '正常返回（格式1：逗号分隔的键值对）',
+  qps: '前 count 次工作流调用返回 720711011 QPS限制错误，之后正常返回',
+  '5xx': '前 count 次工作流调用返回 500/502/503 服务器错误，之后正常返回',
+  unrecognized: '所有字段均返回"未识别"',
+  format1: '格式1：样式名称：T恤，颜色：白色，...',
+  format2: '格式2：样式名称：[T恤]，颜色：[白色]，...',
+  format3: '格式3：每行一个键值对',
+  format4: '格式4：以句号分隔的单行文本',
+  json: 'JSON结构化输出：{"样式名称": "T恤", ...}，部分值包含逗号和冒号',
+  confidence: '带字段置信度的JSON输出：{"样式名称": {"value": "T恤", "confidence": 0.92}, ...}',
+  outfit: '多件服装输出：{"garments": [{...上装, "bbox": [x, y, w, h]}, {...下装}, {...外套}]}',
+  noStream: '流式接口返回200和普通JSON（与阻塞式接口相同），模拟不支持流式执行的工作流'
+};
+
+const DEFAULT_FAILURE_COUNT = 3;
+
+// 当前场景状态
+const state = {
+  scenario: SCENARIOS[process.env.MOCK_COZE_SCENARIO] ? process.env.MOCK_COZE_SCENARIO : 'normal',
+  failureCount: parseInt(process.env.MOCK_COZE_FAILURE_COUNT, 10) || DEFAULT_FAILURE_COUNT,
+  failuresServed: 0,
+  uploadCount: 0,
+  runCount: 0,
+  latency: parseInt(process.env.MOCK_COZE_LATENCY, 10) || 0,
+  // 为false时流式接口返回404，用于调试前端回退到阻塞式调用
+  streaming: process.env.MOCK_COZE_STREAMING !== 'false',
+  // 流式输出每段之间的间隔（毫秒）
+  streamInterval: parseInt(process.env.MOCK_COZE_STREAM_INTERVAL, 10) || 150
+};
+
+// 流式输出每段的字符数
+const STREAM_CHUNK_SIZE = 6;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 文件上传
+app.post('/v1/files/upload', upload.single('file'), async (req, res) => {
+  state.uploadCount++;
+  await sleep(state.latency);
+
+  if (!req.file) {
+    return res.status(400).json({ code: 4000, msg: '缺少file字段' });
+  }
+
+  const fileId = `mock_${crypto.createHash('md5').update(req.file.buffer).digest('hex').slice(0, 16)}`;
+  console.log(`[upload #${state.uploadCount}] ${req.file.originalname} (${req.file.size} bytes) -> ${fileId}`);
+
+  res.json({
+    code: 0,
+    msg: '',
+    data: {
+      id: fileId,
+      bytes: req.file.size,
+      file_name: req.file.originalname,
+      created_at: Math.floor(Date.now() / 1000)
+    }
+  });
+});
+
+// 按场景决定本次工作流调用是否模拟失败，返回失败类型
+const takeFailure = () => {
+  const { scenario } = state;
+  const shouldFail = (scenario === 'qps' || scenario === '5xx') && state.failuresServed < state.failureCount;
+  if (!shouldFail) return null;
+
+  state.failuresServed++;
+  console.log(`[run #${state.runCount}] 模拟${scenario}错误 (${state.failuresServed}/${state.failureCount})`);
+  if (scenario === 'qps') return { qps: true };
+
+  const statuses = [500, 502, 503];
+  return { status: statuses[(state.failuresServed - 1) % statuses.length] };
+};
+
+// 从请求参数中取出file_id并生成输出；参数有误时返回错误信息
+const buildRunOutput = (req) => {
+  let fileId = '';
+  try {
+    const input = JSON.parse(req.body?.parameters?.input || '{}');
+    fileId = input.file_id || '';
+  } catch (error) {
+    return { error: 'parameters.input 不是合法的JSON' };
+  }
+
+  if (!fileId) {
+    return { error: '缺少file_id' };
+  }
+
+  const { scenario } = state;
+  const output = scenario === 'outfit' ? formatOutfitOutput(fileId) : formatOutput(generateTags(fileId), scenario);
+  console.log(`[run #${state.runCount}] ${fileId} (${scenario})`);
+  return { output };
+};
+
+// 阻塞式执行的响应，与真实Coze一致：data为JSON字符串
+const sendRunResult = (res, output) => {
+  res.json({
+    code: 0,
+    msg: '',
+    data: JSON.stringify({ output }),
+    debug_url: '',
+    usage: { input_count: 0, output_count: 0, token_count: 0 }
+  });
+};
+
+// 工作流执行
+app.post('/v1/workflow/run', async (req, res) => {
+  state.runCount++;
+  await sleep(state.latency);
+
+  const failure = takeFailure();
+  if (failure?.qps) {
+    // Coze的QPS限制以HTTP 200 + 非0错误码的形式返回
+    return res.json({ code: 720711011, msg: 'Pro call plugin qps too high' });
+  }
+  if (failure) {
+    return res.status(failure.status).json({ code: failure.status, msg: 'mock upstream error' });
+  }
+
+  const { output, error } = buildRunOutput(req);
+  if (error) {
+    return res.status(400).json({ code: 4000, msg: error });
+  }
+
+  sendRunResult(res, output);
+});
+
+// 流式执行：把输出切成小段，以Message事件逐段发送，最后发送Done事件
+app.post('/v1/workflow/stream_run', async (req, res) => {
+  if (!state.streaming) {
+    return res.status(404).json({ code: 4004, msg: 'stream_run is disabled' });
+  }
+
+  state.runCount++;
+  await sleep(state.latency);
+
+  const failure = takeFailure();
+  if (failure?.status) {
+    return res.status(failure.status).json({ code: failure.status, msg: 'mock upstream error' });
+  }
+
+  const { output, error } = failure?.qps ? {} : buildRunOutput(req);
+  if (error) {
+    return res.status(400).json({ code: 4000, msg: error });
+  }
+  if (state.scenario === 'noStream') {
+    return sendRunResult(res, output);
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  let eventId = 0;
+  const sendEvent = (event, data) => {
+    res.write(`id: ${eventId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // 流式执行中的QPS限制以Error事件返回
+  if (failure?.qps) {
+    sendEvent('Error', { error_code: 720711011, error_message: 'Pro call plugin qps too high' });
+    return res.end();
+  }
+
+  for (let start = 0; start < output.length; start += STREAM_CHUNK_SIZE) {
+    if (res.destroyed) return;
+    const isLast = start + STREAM_CHUNK_SIZE >= output.length;
+    sendEvent('Message', {
+      content: output.slice(start, start + STREAM_CHUNK_SIZE),
+      node_title: 'End',
+      node_seq_id: String(eventId),
+      node_is_finish: isLast
+    });
+    if (!isLast) await sleep(state.streamInterval);
+  }
+  sendEvent('Done', { debug_url: '' });
+  res.end();
+});
+
+// 查看当前场景和调用计数
+app.get('/__mock/state', (req, res) => {
+  res.json({ ...state, scenarios: SCENARIOS });
+});
+
+// 切换场景，同时重置失败计数
+app.post('/__mock/scenario', (req, res) => {
+  const { name, count, latency, streaming, streamInterval } = req.body || {};
+
+  if (!SCENARIOS[name]) {
+    return res.status(400).json({ error: `未知场景: ${name}`, scenarios: SCENARIOS });
+  }
+
+  state.scenario = name;
+  state.failureCount = Number.isInteger(count) && count >= 0 ? count : DEFAULT_FAILURE_COUNT;
+  state.failuresServed = 0;
+  if (Number.isInteger(latency) && latency >= 0) {
+    state.latency = latency;
+  }
+  if (typeof streaming === 'boolean') {
+    state.streaming = streaming;
+  }
+  if (Number.isInteger(streamInterval) && streamInterval >= 0) {
+    state.streamInterval = streamInterval;
+  }
+
+  console.log(`切换场景: ${name}`);
+  res.json({ success: true, state });
+});
+
+// 重置调用计数
+app.post('/__mock/reset', (req, res) => {
+  state.failuresServed = 0;
+  state.uploadCount = 0;
+  state.runCount = 0;
+  res.json({ success: true, state });
+});
+
+app.listen(PORT, () => {
+  console.log(`Coze模拟服务器运行在端口 ${PORT}，当前场景: ${state.scenario}`);
+  console.log(`场景列表: ${Object.keys(SCENARIOS).join(', ')}`);
+});
@@ -0,0 +1,15 @@
+export declare const FEATURE_IMAGE_SIZE: number;
+export declare const FEATURE_VERSION: number;
+
+// 一张图片的特征向量和感知哈希，按同一个特征版本一起保存
+export interface ImageSignature {
+  features: number[];
+  dHash: string;
+  pHash: string;
+}
+
+// 由绘制函数（把图片缩放绘制到指定尺寸并返回RGBA像素）计算特征向量和感知哈希
+export declare const computeImageSignature: (draw: (width: number, height: number) => Uint8ClampedArray) => ImageSignature;
+
+// 由 size x size 的RGBA像素计算114维特征向量
+export declare const computeImageFeatures: (data: Uint8ClampedArray, size?: number) => number[];
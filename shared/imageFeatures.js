@@ -0,0 +1,216 @@
+// 相似度搜索的图片特征：颜色直方图、3x3分块颜色和纹理、全局统计和Sobel边缘特征，共114维，
+// 同时计算用于查找重复图片的感知哈希（dHash、pHash）。浏览器（主线程和特征提取Worker）和服务器共用
+import { DHASH_HEIGHT, DHASH_WIDTH, PHASH_SIZE, computeDHash, computePHash, toGrayscale } from './perceptualHash.js';
+
+// 特征提取时图片缩放到的边长
+export const FEATURE_IMAGE_SIZE = 48;
+
+// 特征版本：修改特征算法或FEATURE_IMAGE_SIZE时加1，已保存的特征向量随之失效
+export const FEATURE_VERSION = 2;
+
+// 由绘制函数（把图片缩放绘制到指定尺寸并返回RGBA像素）计算特征向量和感知哈希
+export const computeImageSignature = (draw) => {
+  return {
+    features: computeImageFeatures(draw(FEATURE_IMAGE_SIZE, FEATURE_IMAGE_SIZE)),
+    dHash: computeDHash(toGrayscale(draw(DHASH_WIDTH, DHASH_HEIGHT))),
+    pHash: computePHash(toGrayscale(draw(PHASH_SIZE, PHASH_SIZE)))
+  };
+};
+
+export const computeImageFeatures = (data, size = FEATURE_IMAGE_SIZE) => {
+  // 增强特征提取：多层次特征组合
+  const features = [];
+  
+  // RGB颜色直方图 (每个通道10个bin，进一步提高颜色分辨率)
+  const rHist = new Array(10).fill(0);
+  const gHist = new Array(10).fill(0);
+  const bHist = new Array(10).fill(0);
+  
+  // HSV颜色直方图 (色调18个bin，饱和度和明度各10个bin)
+  const hHist = new Array(18).fill(0);
+  const sHist = new Array(10).fill(0);
+  const vHist = new Array(10).fill(0);
+  
+  // 分块特征：将图片分为3x3块，获得更精细的空间信息
+  const blockSize = size / 3;
+  const blockFeatures = [];
+  
+  // 颜色分布统计
+  let totalBrightness = 0;
+  let colorVariance = 0;
+  const colorMoments = [0, 0, 0]; // RGB的二阶矩
+  
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    
+    // RGB直方图 (调整为10个bin)
+    const rBin = Math.min(Math.floor(r / 25.6), 9); // 25.6 = 256/10
+    const gBin = Math.min(Math.floor(g / 25.6), 9);
+    const bBin = Math.min(Math.floor(b / 25.6), 9);
+    
+    rHist[rBin]++;
+    gHist[gBin]++;
+    bHist[bBin]++;
+    
+    // 颜色统计
+    const brightness = (r + g + b) / 3;
+    totalBrightness += brightness;
+    
+    // 计算颜色矩
+    colorMoments[0] += r * r;
+    colorMoments[1] += g * g;
+    colorMoments[2] += b * b;
+    
+    // RGB转HSV
+    const rNorm = r / 255;
+    const gNorm = g / 255;
+    const bNorm = b / 255;
+    
+    const max = Math.max(rNorm, gNorm, bNorm);
+    const min = Math.min(rNorm, gNorm, bNorm);
+    const delta = max - min;
+    
+    // 色调 (Hue)
+    let h = 0;
+    if (delta !== 0) {
+      if (max === rNorm) {
+        h = ((gNorm - bNorm) / delta) % 6;
+      } else if (max === gNorm) {
+        h = (bNorm - rNorm) / delta + 2;
+      } else {
+        h = (rNorm - gNorm) / delta + 4;
+      }
+    }
+    h = h * 60;
+    if (h < 0) h += 360;
+    
+    // 饱和度 (Saturation)
+    const s = max === 0 ? 0 : delta / max;
+    
+    // 明度 (Value)
+    const v = max;
+    
+    // HSV直方图 (调整bin数量)
+    const hBin = Math.min(Math.floor(h / 20), 17); // 20 = 360/18
+    const sBin = Math.min(Math.floor(s * 10), 9);
+    const vBin = Math.min(Math.floor(v * 10), 9);
+    
+    hHist[hBin]++;
+    sHist[sBin]++;
+    vHist[vBin]++;
+  }
+  
+  // 计算颜色方差
+  const avgBrightness = totalBrightness / (size * size);
+  for (let i = 0; i < data.length; i += 4) {
+    const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
+    colorVariance += Math.pow(brightness - avgBrightness, 2);
+  }
+  colorVariance /= (size * size);
+  
+  // 计算3x3分块特征
+  for (let blockY = 0; blockY < 3; blockY++) {
+    for (let blockX = 0; blockX < 3; blockX++) {
+      let blockR = 0, blockG = 0, blockB = 0, blockCount = 0;
+      let blockVariance = 0;
+      
+      for (let y = Math.floor(blockY * blockSize); y < Math.floor((blockY + 1) * blockSize); y++) {
+        for (let x = Math.floor(blockX * blockSize); x < Math.floor((blockX + 1) * blockSize); x++) {
+          const idx = (y * size + x) * 4;
+          if (idx < data.length) {
+            blockR += data[idx];
+            blockG += data[idx + 1];
+            blockB += data[idx + 2];
+            blockCount++;
+          }
+        }
+      }
+      
+      if (blockCount > 0) {
+        const avgR = blockR / blockCount;
+        const avgG = blockG / blockCount;
+        const avgB = blockB / blockCount;
+        
+        // 计算分块内的颜色方差
+        for (let y = Math.floor(blockY * blockSize); y < Math.floor((blockY + 1) * blockSize); y++) {
+          for (let x = Math.floor(blockX * blockSize); x < Math.floor((blockX + 1) * blockSize); x++) {
+            const idx = (y * size + x) * 4;
+            if (idx < data.length) {
+              const r = data[idx], g = data[idx + 1], b = data[idx + 2];
+              blockVariance += Math.pow(r - avgR, 2) + Math.pow(g - avgG, 2) + Math.pow(b - avgB, 2);
+            }
+          }
+        }
+        blockVariance /= (blockCount * 3);
+        
+        blockFeatures.push(avgR / 255);
+        blockFeatures.push(avgG / 255);
+        blockFeatures.push(avgB / 255);
+        blockFeatures.push(Math.sqrt(blockVariance) / 255); // 分块纹理复杂度
+      }
+    }
+  }
+  
+  // 归一化直方图
+  const totalPixels = size * size;
+  features.push(...rHist.map(v => v / totalPixels));
+  features.push(...gHist.map(v => v / totalPixels));
+  features.push(...bHist.map(v => v / totalPixels));
+  features.push(...hHist.map(v => v / totalPixels));
+  features.push(...sHist.map(v => v / totalPixels));
+  features.push(...vHist.map(v => v / totalPixels));
+  
+  // 添加分块特征 (3x3=9块，每块4个特征=36个特征)
+  features.push(...blockFeatures);
+  
+  // 添加全局统计特征
+  features.push(avgBrightness / 255); // 平均亮度
+  features.push(Math.sqrt(colorVariance) / 255); // 颜色方差
+  features.push(Math.sqrt(colorMoments[0] / totalPixels) / 255); // R通道二阶矩
+  features.push(Math.sqrt(colorMoments[1] / totalPixels) / 255); // G通道二阶矩
+  features.push(Math.sqrt(colorMoments[2] / totalPixels) / 255); // B通道二阶矩
+  
+  // 计算增强的边缘特征
+  let edgeStrength = 0;
+  const edgeDirection = [0, 0, 0, 0]; // 四个方向的边缘强度
+  
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const idx = (y * size + x) * 4;
+      const gray = (data[idx] + data[idx + 1] + data[idx + 2]) / 3;
+      
+      // Sobel算子计算梯度
+      const grayTL = (data[(y-1)*size*4 + (x-1)*4] + data[(y-1)*size*4 + (x-1)*4 + 1] + data[(y-1)*size*4 + (x-1)*4 + 2]) / 3;
+      const grayTM = (data[(y-1)*size*4 + x*4] + data[(y-1)*size*4 + x*4 + 1] + data[(y-1)*size*4 + x*4 + 2]) / 3;
+      const grayTR = (data[(y-1)*size*4 + (x+1)*4] + data[(y-1)*size*4 + (x+1)*4 + 1] + data[(y-1)*size*4 + (x+1)*4 + 2]) / 3;
+      const grayML = (data[y*size*4 + (x-1)*4] + data[y*size*4 + (x-1)*4 + 1] + data[y*size*4 + (x-1)*4 + 2]) / 3;
+      const grayMR = (data[y*size*4 + (x+1)*4] + data[y*size*4 + (x+1)*4 + 1] + data[y*size*4 + (x+1)*4 + 2]) / 3;
+      const grayBL = (data[(y+1)*size*4 + (x-1)*4] + data[(y+1)*size*4 + (x-1)*4 + 1] + data[(y+1)*size*4 + (x-1)*4 + 2]) / 3;
+      const grayBM = (data[(y+1)*size*4 + x*4] + data[(y+1)*size*4 + x*4 + 1] + data[(y+1)*size*4 + x*4 + 2]) / 3;
+      const grayBR = (data[(y+1)*size*4 + (x+1)*4] + data[(y+1)*size*4 + (x+1)*4 + 1] + data[(y+1)*size*4 + (x+1)*4 + 2]) / 3;
+      
+      // Sobel X和Y方向梯度
+      const gx = (grayTR + 2*grayMR + grayBR) - (grayTL + 2*grayML + grayBL);
+      const gy = (grayBL + 2*grayBM + grayBR) - (grayTL + 2*grayTM + grayTR);
+      
+      const magnitude = Math.sqrt(gx * gx + gy * gy);
+      edgeStrength += magnitude;
+      
+      // 计算边缘方向
+      const angle = Math.atan2(gy, gx) * 180 / Math.PI;
+      const normalizedAngle = (angle + 180) % 180; // 0-180度
+      
+      if (normalizedAngle < 45) edgeDirection[0] += magnitude; // 水平
+      else if (normalizedAngle < 90) edgeDirection[1] += magnitude; // 对角线
+      else if (normalizedAngle < 135) edgeDirection[2] += magnitude; // 垂直
+      else edgeDirection[3] += magnitude; // 反对角线
+    }
+  }
+  
+  features.push(edgeStrength / (size * size * 255)); // 总边缘强度
+  features.push(...edgeDirection.map(d => d / (size * size * 255))); // 四个方向的边缘强度
+  
+  return features;
+};
@@ -0,0 +1,17 @@
+export type LegacyTagTextStrategy = 'pairs' | 'brackets' | 'lines' | 'regex' | 'none';
+
+export interface LegacyDroppedField {
+  field: string;
+  value: string;
+  reason: string;
+}
+
+export interface LegacyTagTextResult {
+  values: Record<string, string>;
+  strategy: LegacyTagTextStrategy;
+  droppedFields: LegacyDroppedField[];
+}
+
+export declare const cleanLegacyTagText: (text: string) => string;
+
+export declare const parseLegacyTagText: (text: string, keys?: Iterable<string>) => LegacyTagTextResult;
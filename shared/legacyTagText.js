@@ -0,0 +1,103 @@
+// 旧版文本格式的标签解析：前端的tagParser和后端的后台任务共用。
+// 按优先级依次尝试四种格式，第一种有匹配的格式即为结果：
+//   pairs    样式名称：T恤，颜色：白色，...
+//   brackets 样式名称：[T恤]，颜色：[白色]，...
+//   lines    每行一个键值对
+//   regex    以句号等分隔的单行文本，用正则匹配键值对
+
+const INVALID_VALUES = ['未识别', 'undefined', 'null'];
+
+// 值中仍有冒号、换行、句号，或整体带方括号时不是逗号分隔的格式，交给后面的格式解析
+const OTHER_FORMAT_VALUE = /^\[.*\]$|[：\n。]/;
+
+const BRACKET_PATTERN = /([\p{L}\p{N}_]+)：\[([^\]]+)\]/gu;
+const REGEX_PATTERN = /([\p{L}\p{N}_]+)：([^，。\n]+)/gu;
+
+// 移除JSON残留的大括号、引号、反斜杠和开头的"output:"前缀
+export const cleanLegacyTagText = (text) => text
+  .replace(/[{}"\\]/g, '')
+  .replace(/^output:\s*/i, '')
+  .trim();
+
+const trimValue = (value) => value.trim().replace(/[}"，。]+$/g, '').trim();
+
+const isValidValue = (value) => !!value && !INVALID_VALUES.includes(value);
+
+// 格式1：英文或中文逗号分隔的键值对；未知字段记录为丢弃字段
+const parsePairs = (text, isKnownKey) => {
+  const values = {};
+  const droppedFields = [];
+  text.split(/[,，]/).forEach(pair => {
+    const colonIndex = pair.indexOf('：');
+    if (colonIndex <= 0) return;
+
+    const key = pair.substring(0, colonIndex).trim();
+    const value = trimValue(pair.substring(colonIndex + 1));
+    if (OTHER_FORMAT_VALUE.test(value) || !isValidValue(value)) return;
+
+    if (isKnownKey(key)) {
+      values[key] = value;
+    } else {
+      droppedFields.push({ field: key, value, reason: '未知字段' });
+    }
+  });
+  return { values, droppedFields };
+};
+
+// 格式2和格式4：按正则匹配键值对
+const parseWithPattern = (text, isKnownKey, pattern) => {
+  const values = {};
+  for (const [, key, rawValue] of text.matchAll(pattern)) {
+    const value = rawValue.trim().replace(/[}"]+$/g, '');
+    if (isKnownKey(key) && isValidValue(value)) {
+      values[key] = value;
+    }
+  }
+  return values;
+};
+
+// 格式3：按行分割；值中仍有冒号说明一行内有多个键值对，交给正则匹配
+const parseLines = (text, isKnownKey) => {
+  const values = {};
+  text.split('\n').forEach(line => {
+    const colonIndex = line.indexOf('：');
+    if (colonIndex <= 0) return;
+
+    const key = line.substring(0, colonIndex).trim();
+    const value = trimValue(line.substring(colonIndex + 1));
+    if (isKnownKey(key) && isValidValue(value) && !value.includes('：')) {
+      values[key] = value;
+    }
+  });
+  return values;
+};
+
+// 解析旧版文本，返回匹配到的字段值、所用的格式和丢弃的字段；都不匹配时strategy为none。
+// 传入keys时只接受其中的字段，不传时接受所有字段
+export const parseLegacyTagText = (text, keys) => {
+  const keySet = keys ? new Set(keys) : null;
+  const isKnownKey = (key) => !keySet || keySet.has(key);
+  const cleaned = cleanLegacyTagText(text || '');
+  if (!cleaned) {
+    return { values: {}, strategy: 'none', droppedFields: [] };
+  }
+
+  const pairs = parsePairs(cleaned, isKnownKey);
+  if (Object.keys(pairs.values).length > 0) {
+    return { values: pairs.values, strategy: 'pairs', droppedFields: pairs.droppedFields };
+  }
+
+  const attempts = [
+    ['brackets', () => parseWithPattern(cleaned, isKnownKey, BRACKET_PATTERN)],
+    ['lines', () => parseLines(cleaned, isKnownKey)],
+    ['regex', () => parseWithPattern(cleaned, isKnownKey, REGEX_PATTERN)]
+  ];
+  for (const [strategy, parse] of attempts) {
+    const values = parse();
+    if (Object.keys(values).length > 0) {
+      return { values, strategy, droppedFields: pairs.droppedFields };
+    }
+  }
+
+  return { values: {}, strategy: 'none', droppedFields: pairs.droppedFields };
+};
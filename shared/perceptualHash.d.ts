@@ -0,0 +1,12 @@
+export declare const DHASH_WIDTH: number;
+export declare const DHASH_HEIGHT: number;
+export declare const PHASH_SIZE: number;
+
+// RGBA像素转为灰度值
+export declare const toGrayscale: (data: Uint8ClampedArray) => number[];
+
+// 由 DHASH_WIDTH x DHASH_HEIGHT 的灰度像素计算dHash（16位十六进制）
+export declare const computeDHash: (pixels: number[]) => string;
+
+// 由 PHASH_SIZE x PHASH_SIZE 的灰度像素计算pHash（16位十六进制）
+export declare const computePHash: (pixels: number[]) => string;
@@ -0,0 +1,91 @@
+// 图片感知哈希（dHash、pHash）的计算：只依赖灰度像素，浏览器（主线程和特征提取Worker）和服务器共用
+
+// dHash：缩小到 9x8 灰度图，逐行比较相邻像素的亮度，得到64位哈希（16位十六进制）
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+// pHash：缩小到 32x32 灰度图做二维DCT，取左上角 8x8 低频系数（不含直流分量）与中位数比较，得到64位哈希
+export const PHASH_SIZE = 32;
+const PHASH_LOW_FREQUENCY = 8;
+
+// RGBA像素转为灰度值
+export const toGrayscale = (data) => {
+  const pixels = [];
+  for (let i = 0; i < data.length; i += 4) {
+    pixels.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+  return pixels;
+};
+
+// 按位拼接为十六进制字符串，每4位一个字符
+const bitsToHex = (bits) => {
+  let hash = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    let nibble = 0;
+    for (let j = 0; j < 4; j++) {
+      nibble = (nibble << 1) | (bits[i + j] ? 1 : 0);
+    }
+    hash += nibble.toString(16);
+  }
+  return hash;
+};
+
+// 由 DHASH_WIDTH x DHASH_HEIGHT 的灰度像素计算dHash
+export const computeDHash = (pixels) => {
+  const bits = [];
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      bits.push(pixels[y * DHASH_WIDTH + x] > pixels[y * DHASH_WIDTH + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+};
+
+// DCT-II的余弦系数表，PHASH_SIZE固定，只需计算一次
+let dctCosines = null;
+
+const getDctCosines = () => {
+  if (!dctCosines) {
+    dctCosines = new Float64Array(PHASH_LOW_FREQUENCY * PHASH_SIZE);
+    for (let u = 0; u < PHASH_LOW_FREQUENCY; u++) {
+      for (let x = 0; x < PHASH_SIZE; x++) {
+        dctCosines[u * PHASH_SIZE + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE));
+      }
+    }
+  }
+  return dctCosines;
+};
+
+// 由 PHASH_SIZE x PHASH_SIZE 的灰度像素计算pHash；只需要低频系数，按行列分开计算
+export const computePHash = (pixels) => {
+  const cosines = getDctCosines();
+
+  // 先对每行做一维DCT，只保留前8个频率
+  const rows = new Float64Array(PHASH_SIZE * PHASH_LOW_FREQUENCY);
+  for (let y = 0; y < PHASH_SIZE; y++) {
+    for (let u = 0; u < PHASH_LOW_FREQUENCY; u++) {
+      let sum = 0;
+      for (let x = 0; x < PHASH_SIZE; x++) {
+        sum += pixels[y * PHASH_SIZE + x] * cosines[u * PHASH_SIZE + x];
+      }
+      rows[y * PHASH_LOW_FREQUENCY + u] = sum;
+    }
+  }
+
+  // 再对列做一维DCT，得到左上角 8x8 的系数
+  const coefficients = [];
+  for (let v = 0; v < PHASH_LOW_FREQUENCY; v++) {
+    for (let u = 0; u < PHASH_LOW_FREQUENCY; u++) {
+      let sum = 0;
+      for (let y = 0; y < PHASH_SIZE; y++) {
+        sum += rows[y * PHASH_LOW_FREQUENCY + u] * cosines[v * PHASH_SIZE + y];
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // 直流分量只反映整体亮度，不参与中位数
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[(sorted.length - 1) >> 1] + sorted[sorted.length >> 1]) / 2;
+  return bitsToHex(coefficients.map(value => value > median));
+};
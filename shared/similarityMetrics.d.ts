@@ -0,0 +1,38 @@
+export type SimilarityMetricId = 'blend' | 'chiSquare' | 'intersection' | 'cosine';
+
+// 评分的组成部分：图片特征的颜色、布局、边缘，以及标签重排序时的标签
+export type SimilarityComponent = 'color' | 'layout' | 'edges' | 'tags';
+
+// 各部分对评分的贡献（0-1），相加等于评分
+export type SimilarityBreakdown = Partial<Record<SimilarityComponent, number>>;
+
+export interface SimilarityScore {
+  similarity: number;
+  breakdown: SimilarityBreakdown;
+}
+
+export interface SimilarityMetric {
+  id: SimilarityMetricId;
+  label: string;
+  description: string;
+  compare: (features1: number[], features2: number[]) => number; // 整体相似度（0-1）
+  compareRange: (features1: number[], features2: number[], start: number, end: number) => number; // 一段特征的相似度（0-1）
+}
+
+export declare const DEFAULT_SIMILARITY_METRIC: SimilarityMetricId;
+
+export declare const SIMILARITY_COMPONENT_LABELS: Record<SimilarityComponent, string>;
+
+export declare const TAG_SIMILARITY_WEIGHT: number;
+
+export declare const SIMILARITY_METRICS: SimilarityMetric[];
+
+export declare const getSimilarityMetric: (id: SimilarityMetricId | undefined) => SimilarityMetric;
+
+export declare const scoreSimilarity: (
+  features1: number[],
+  features2: number[],
+  metricId?: SimilarityMetricId
+) => SimilarityScore;
+
+export declare const combineWithTagSimilarity: (imageScore: SimilarityScore, tagSimilarity: number) => SimilarityScore;
@@ -0,0 +1,245 @@
+// 相似度算法：同一对特征向量可以按不同的方式比较，相似度搜索时选择；
+// 每种算法同时给出颜色、布局、边缘各部分对评分的贡献，用于解释结果的排序。
+// 浏览器中的相似度搜索和服务器的相似度搜索（server/index.js）共用
+
+export const DEFAULT_SIMILARITY_METRIC = 'blend';
+
+export const SIMILARITY_COMPONENT_LABELS = {
+  color: '颜色',
+  layout: '布局',
+  edges: '边缘',
+  tags: '标签'
+};
+
+// 标签重排序时标签相似度在综合评分中的权重，其余为图片相似度
+export const TAG_SIMILARITY_WEIGHT = 0.4;
+
+// 特征向量的分段：颜色直方图 RGB(30) + HSV(38)，布局为3x3分块(36) + 全局统计(5)，边缘(5)；
+// weight为直方图类算法合成整体评分时各段的权重
+const FEATURE_SEGMENTS = [
+  { component: 'color', start: 0, end: 68, weight: 0.4 },
+  { component: 'layout', start: 68, end: 109, weight: 0.4 },
+  { component: 'edges', start: 109, end: 114, weight: 0.2 }
+];
+
+// 特征权重：重点关注形状、轮廓、空间布局，降低颜色权重
+const FEATURE_WEIGHTS = [
+  // RGB直方图权重 (30维) - 降低颜色权重，更关注形状
+  ...new Array(30).fill(0.8),
+  // HSV直方图权重 (38维) - 大幅降低色调权重
+  ...new Array(18).fill(1.0), // 色调权重降低
+  ...new Array(10).fill(0.9),  // 饱和度权重降低
+  ...new Array(10).fill(1.2),  // 明度权重保持，影响轮廓
+  // 分块特征权重 (36维) - 提高空间布局权重，反映服装结构
+  ...new Array(36).fill(3.0),
+  // 全局统计特征权重 (5维) - 适度提高整体特征权重
+  2.0, 2.2, 1.8, 1.8, 1.8, // 亮度、方差、RGB二阶矩权重
+  // 边缘特征权重 (5维) - 大幅提高边缘权重，重点关注形状轮廓
+  3.5, 2.8, 2.8, 2.8, 2.8 // 总边缘强度 + 四个方向权重显著提高
+];
+
+const weightAt = (index) => FEATURE_WEIGHTS[index] ?? 1.0;
+
+// 一段特征的余弦相似度；都为零向量时视为相同
+const cosineRange = (features1, features2, start, end, weighted) => {
+  let dot = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+  for (let i = start; i < end; i++) {
+    const weight = weighted ? weightAt(i) : 1;
+    const f1 = features1[i] * weight;
+    const f2 = features2[i] * weight;
+    dot += f1 * f2;
+    norm1 += f1 * f1;
+    norm2 += f2 * f2;
+  }
+  if (norm1 === 0 && norm2 === 0) return 1;
+  if (norm1 === 0 || norm2 === 0) return 0;
+  return Math.max(0, dot / (Math.sqrt(norm1) * Math.sqrt(norm2)));
+};
+
+// 卡方距离换算的相似度：1 - Σ(a-b)²/(a+b) / Σ(a+b)，完全相同为1，没有重叠为0
+const chiSquareRange = (features1, features2, start, end) => {
+  let distance = 0;
+  let total = 0;
+  for (let i = start; i < end; i++) {
+    const sum = features1[i] + features2[i];
+    if (sum > 0) {
+      distance += (features1[i] - features2[i]) ** 2 / sum;
+      total += sum;
+    }
+  }
+  return total > 0 ? 1 - distance / total : 1;
+};
+
+// 直方图交集：Σmin(a,b) / max(Σa, Σb)，即两个分布重叠的比例
+const intersectionRange = (features1, features2, start, end) => {
+  let overlap = 0;
+  let sum1 = 0;
+  let sum2 = 0;
+  for (let i = start; i < end; i++) {
+    overlap += Math.min(features1[i], features2[i]);
+    sum1 += features1[i];
+    sum2 += features2[i];
+  }
+  const total = Math.max(sum1, sum2);
+  return total > 0 ? overlap / total : 1;
+};
+
+// 按分段权重合成整体相似度
+const combineSegments = (compareRange) => (features1, features2) => {
+  return FEATURE_SEGMENTS.reduce((sum, segment) => sum + segment.weight * compareRange(features1, features2, segment.start, segment.end), 0);
+};
+
+// 原有的综合算法（平衡版本，提高相同图片的相似度）：加权余弦、分块一致性、色调一致性和差异惩罚
+const calculateBlendSimilarity = (features1, features2) => {
+  const len = features1.length;
+
+  // 1. 计算基础余弦相似度
+  const cosineSim = cosineRange(features1, features2, 0, len, true);
+
+  // 2. 计算特征差异惩罚（优化版本）
+  let totalDifference = 0;
+  let maxDifference = 0;
+
+  for (let i = 0; i < len; i++) {
+    const diff = Math.abs(features1[i] - features2[i]);
+    totalDifference += diff * weightAt(i);
+    maxDifference = Math.max(maxDifference, diff);
+  }
+
+  const avgDifference = totalDifference / len;
+
+  // 3. 计算分块颜色一致性（空间布局相似性）- 优化版本
+  const blockStart = 30 + 38; // RGB + HSV之后是分块特征
+  let blockConsistency = 0;
+
+  for (let i = 0; i < 9; i++) { // 9个分块 (3x3)
+    const blockIdx = blockStart + i * 4; // 每个分块4个特征
+    if (blockIdx + 3 < len) {
+      const r1 = features1[blockIdx], g1 = features1[blockIdx + 1], b1 = features1[blockIdx + 2], t1 = features1[blockIdx + 3];
+      const r2 = features2[blockIdx], g2 = features2[blockIdx + 1], b2 = features2[blockIdx + 2], t2 = features2[blockIdx + 3];
+
+      // 计算每个分块的颜色和纹理距离
+      const colorDist = Math.sqrt((r1-r2)*(r1-r2) + (g1-g2)*(g1-g2) + (b1-b2)*(b1-b2));
+      const textureDist = Math.abs(t1 - t2);
+      const combinedDist = colorDist * 0.7 + textureDist * 0.3;
+
+      blockConsistency += Math.exp(-combinedDist * 5); // 减少距离惩罚强度
+    }
+  }
+  blockConsistency /= 9;
+
+  // 4. 计算色调一致性（HSV中的色调部分）- 优化版本
+  const hueStart = 30; // RGB之后是HSV
+  let hueConsistency = 0;
+
+  for (let i = 0; i < 18; i++) { // 18个色调bins
+    const h1 = features1[hueStart + i];
+    const h2 = features2[hueStart + i];
+    const hueDiff = Math.abs(h1 - h2);
+    hueConsistency += Math.exp(-hueDiff * 8); // 减少色调差异惩罚强度
+  }
+  hueConsistency /= 18;
+
+  // 5. 综合相似度计算（平衡版本）
+  let finalSimilarity = cosineSim * 0.4 + // 基础余弦相似度权重提高
+                       blockConsistency * 0.25 + // 空间布局一致性权重适中
+                       hueConsistency * 0.25 + // 色调一致性权重适中
+                       (1 - avgDifference) * 0.1; // 整体差异惩罚权重降低
+
+  // 6. 应用适度的非线性变换
+  finalSimilarity = Math.pow(finalSimilarity, 0.7); // 适度的非线性变换
+
+  // 7. 优化的最大差异惩罚
+  if (maxDifference > 0.8) {
+    finalSimilarity *= 0.3; // 严重惩罚
+  } else if (maxDifference > 0.6) {
+    finalSimilarity *= 0.5; // 中等惩罚
+  } else if (maxDifference > 0.4) {
+    finalSimilarity *= 0.7; // 轻微惩罚
+  } else if (maxDifference > 0.3) {
+    finalSimilarity *= 0.85; // 很轻微惩罚
+  }
+
+  // 8. 优化的相似度调整
+  if (finalSimilarity < 0.2) {
+    finalSimilarity *= 0.5; // 降低极低相似度
+  } else if (finalSimilarity < 0.4) {
+    finalSimilarity *= 0.8; // 轻微降低低相似度
+  }
+
+  return Math.max(0, Math.min(1, finalSimilarity));
+};
+
+export const SIMILARITY_METRICS = [
+  {
+    id: 'blend',
+    label: '综合',
+    description: '加权余弦、分块一致性、色调一致性和差异惩罚的组合（默认）',
+    compare: calculateBlendSimilarity,
+    compareRange: (features1, features2, start, end) => cosineRange(features1, features2, start, end, true)
+  },
+  {
+    id: 'chiSquare',
+    label: '卡方距离',
+    description: '按卡方距离比较颜色直方图和分块特征，对颜色分布的差异更敏感',
+    compare: combineSegments(chiSquareRange),
+    compareRange: chiSquareRange
+  },
+  {
+    id: 'intersection',
+    label: '直方图交集',
+    description: '两张图片颜色分布重叠的比例，受背景等局部变化的影响较小',
+    compare: combineSegments(intersectionRange),
+    compareRange: intersectionRange
+  },
+  {
+    id: 'cosine',
+    label: '余弦相似度',
+    description: '不加权的余弦相似度，用于对照',
+    compare: (features1, features2) => cosineRange(features1, features2, 0, features1.length, false),
+    compareRange: (features1, features2, start, end) => cosineRange(features1, features2, start, end, false)
+  }
+];
+
+export const getSimilarityMetric = (id) => {
+  return SIMILARITY_METRICS.find(metric => metric.id === id)
+    || SIMILARITY_METRICS.find(metric => metric.id === DEFAULT_SIMILARITY_METRIC);
+};
+
+// 按选择的算法计算相似度，并把评分按各部分的分段相似度和权重分摊为贡献
+export const scoreSimilarity = (features1, features2, metricId = DEFAULT_SIMILARITY_METRIC) => {
+  if (features1.length !== features2.length) {
+    console.warn('特征向量维度不匹配');
+    return { similarity: 0, breakdown: {} };
+  }
+
+  const metric = getSimilarityMetric(metricId);
+  const similarity = metric.compare(features1, features2);
+  const parts = FEATURE_SEGMENTS.map(segment => ({
+    component: segment.component,
+    value: segment.weight * metric.compareRange(features1, features2, segment.start, segment.end)
+  }));
+  const total = parts.reduce((sum, part) => sum + part.value, 0);
+
+  const breakdown = {};
+  parts.forEach(part => {
+    breakdown[part.component] = total > 0 ? similarity * part.value / total : 0;
+  });
+  return { similarity, breakdown };
+};
+
+// 标签重排序的综合评分：图片相似度和标签相似度（均为0-1）按权重相加，图片部分的贡献按比例缩小
+export const combineWithTagSimilarity = (imageScore, tagSimilarity) => {
+  const imageWeight = 1 - TAG_SIMILARITY_WEIGHT;
+  const breakdown = {};
+  Object.keys(imageScore.breakdown).forEach(component => {
+    breakdown[component] = imageScore.breakdown[component] * imageWeight;
+  });
+  breakdown.tags = tagSimilarity * TAG_SIMILARITY_WEIGHT;
+  return {
+    similarity: imageScore.similarity * imageWeight + tagSimilarity * TAG_SIMILARITY_WEIGHT,
+    breakdown
+  };
+};
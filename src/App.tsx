@@ -6,6 +6,12 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import HistoryPage from "./pages/HistoryPage";
 import DatabasePage from "./pages/DatabasePage";
+import SettingsPage from "./pages/SettingsPage";
+import JobCenterPage from "./pages/JobCenterPage";
+import TaxonomyPage from "./pages/TaxonomyPage";
+import MetricsPage from "./pages/MetricsPage";
+import ServerJobsPage from "./pages/ServerJobsPage";
+import DuplicatesPage from "./pages/DuplicatesPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +26,12 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/history" element={<HistoryPage />} />
           <Route path="/database" element={<DatabasePage />} />
+          <Route path="/settings" element={<SettingsPage />} />
+          <Route path="/jobs" element={<JobCenterPage />} />
+          <Route path="/taxonomy" element={<TaxonomyPage />} />
+          <Route path="/metrics" element={<MetricsPage />} />
+          <Route path="/server-jobs" element={<ServerJobsPage />} />
+          <Route path="/duplicates" element={<DuplicatesPage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
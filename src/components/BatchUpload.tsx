@@ -1,22 +1,47 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { Upload, X, FileImage, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Upload, X, FileImage, Loader2, CheckCircle, AlertCircle, Pause, Play, Square, Ban } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { AnalysisResult } from '@/services/cozeService';
+import { BatchController, createBatchController } from '@/services/batchControl';
+import {
+  DUPLICATE_MODE_OPTIONS,
+  DuplicateMatch,
+  DuplicateMode,
+  DuplicateOptions,
+  BatchDuplicateOptions,
+  findDuplicateFiles,
+  getDuplicateOptions,
+  saveDuplicateOptions
+} from '@/services/deduplicationService';
+import { CONSENSUS_RUN_OPTIONS } from '@/services/confidenceService';
+import type { AnalysisJobOptions } from '@/services/jobQueueService';
 
 interface BatchUploadProps {
-  onBatchUpload: (files: File[]) => Promise<void>;
+  // 返回已完成的结果；取消时只包含取消前完成的部分
+  onBatchUpload: (
+    files: File[],
+    control: BatchController,
+    options: Pick<AnalysisJobOptions, 'duplicateMode' | 'nearDuplicates' | 'consensusRuns'>
+  ) => Promise<AnalysisResult[] | void>;
   isAnalyzing: boolean;
   className?: string;
 }
 
-interface FileWithPreview extends File {
+// 状态保存在包装对象上，File本身保持不变，才能继续读取name、size并传给分析流程
+interface FileWithPreview {
+  file: File;
   preview: string;
-  status: 'pending' | 'analyzing' | 'completed' | 'error';
+  status: 'pending' | 'analyzing' | 'completed' | 'error' | 'cancelled';
   error?: string;
 }
 
@@ -27,16 +52,29 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
 }) => {
   const [files, setFiles] = useState<FileWithPreview[]>([]);
   const [progress, setProgress] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const [duplicateOptions, setDuplicateOptions] = useState<DuplicateOptions>(getDuplicateOptions);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  // 多次识别投票按批次选择，默认不投票
+  const [consensusRuns, setConsensusRuns] = useState(1);
+  const [pendingDuplicates, setPendingDuplicates] = useState<{ file: File; match: DuplicateMatch }[] | null>(null);
+  const controllerRef = useRef<BatchController | null>(null);
   const { toast } = useToast();
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const newFiles = acceptedFiles.map(file => {
-      const fileWithPreview = Object.assign(file, {
-        preview: URL.createObjectURL(file),
-        status: 'pending' as const
-      });
-      return fileWithPreview;
+  const updateDuplicateOptions = (changes: Partial<DuplicateOptions>) => {
+    setDuplicateOptions(prev => {
+      const next = { ...prev, ...changes };
+      saveDuplicateOptions(next);
+      return next;
     });
+  };
+
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    const newFiles = acceptedFiles.map((file): FileWithPreview => ({
+      file,
+      preview: URL.createObjectURL(file),
+      status: 'pending'
+    }));
     
     setFiles(prev => [...prev, ...newFiles]);
     
@@ -49,7 +87,7 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.webp']
+      'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.heic', '.heif', '.bmp', '.tif', '.tiff']
     },
     multiple: true,
     disabled: isAnalyzing
@@ -65,33 +103,81 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
   };
 
   const clearAll = () => {
-    files.forEach(file => URL.revokeObjectURL(file.preview));
+    files.forEach(item => URL.revokeObjectURL(item.preview));
     setFiles([]);
     setProgress(0);
   };
 
+  // "每批询问"时先查找重复图片，有重复时由用户决定复用还是重新分析
   const handleBatchUpload = async () => {
     if (files.length === 0) return;
     
+    if (duplicateOptions.mode !== 'ask') {
+      await startBatch(duplicateOptions.mode);
+      return;
+    }
+    
+    setIsCheckingDuplicates(true);
+    try {
+      const duplicates = await findDuplicateFiles(files.map(item => item.file), { nearDuplicates: duplicateOptions.nearDuplicates });
+      if (duplicates.length > 0) {
+        setPendingDuplicates(duplicates);
+        return;
+      }
+    } catch (error) {
+      console.error('查找重复图片失败:', error);
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+    await startBatch('reanalyze');
+  };
+
+  const resolveDuplicates = (mode: BatchDuplicateOptions['mode'] | null) => {
+    setPendingDuplicates(null);
+    if (mode) {
+      startBatch(mode);
+    }
+  };
+
+  const startBatch = async (mode: BatchDuplicateOptions['mode']) => {
+    const controller = createBatchController();
+    controllerRef.current = controller;
+    setIsPaused(false);
+    
+    // 模拟进度更新，暂停时不增长
+    const progressInterval = setInterval(() => {
+      if (controller.isPaused()) return;
+      setProgress(prev => {
+        const newProgress = prev + (100 / files.length) / 10;
+        return Math.min(newProgress, 95);
+      });
+    }, 200);
+    
     try {
       // 更新文件状态为分析中
-      setFiles(prev => prev.map(file => ({ ...file, status: 'analyzing' as const })));
+      setFiles(prev => prev.map(item => ({ ...item, status: 'analyzing' as const })));
       
-      // 模拟进度更新
-      const progressInterval = setInterval(() => {
-        setProgress(prev => {
-          const newProgress = prev + (100 / files.length) / 10;
-          return Math.min(newProgress, 95);
-        });
-      }, 200);
+      const results = await onBatchUpload(files.map(item => item.file), controller, {
+        duplicateMode: mode,
+        nearDuplicates: duplicateOptions.nearDuplicates,
+        consensusRuns
+      });
       
-      await onBatchUpload(files);
+      if (controller.signal.aborted) {
+        // 取消后保留文件列表：已完成的标记为完成，其余标记为已取消，可以调整后重新开始
+        const finishedNames = new Set((results || []).map(result => result.fileName));
+        setFiles(prev => prev.map(item => ({
+          ...item,
+          status: finishedNames.has(item.file.name) ? 'completed' as const : 'cancelled' as const
+        })));
+        setProgress(0);
+        return;
+      }
       
-      clearInterval(progressInterval);
       setProgress(100);
       
       // 更新文件状态为完成
-      setFiles(prev => prev.map(file => ({ ...file, status: 'completed' as const })));
+      setFiles(prev => prev.map(item => ({ ...item, status: 'completed' as const })));
       
       toast({
         title: "批量分析完成",
@@ -104,8 +190,8 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
       }, 2000);
       
     } catch (error) {
-      setFiles(prev => prev.map(file => ({ 
-        ...file, 
+      setFiles(prev => prev.map(item => ({ 
+        ...item, 
         status: 'error' as const,
         error: error instanceof Error ? error.message : '分析失败'
       })));
@@ -115,9 +201,36 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
         description: "部分或全部图片分析失败，请重试",
         variant: "destructive"
       });
+    } finally {
+      clearInterval(progressInterval);
+      controllerRef.current = null;
+      setIsPaused(false);
+    }
+  };
+
+  const togglePause = () => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    
+    if (controller.isPaused()) {
+      controller.resume();
+      setIsPaused(false);
+    } else {
+      // 暂停后不再开始新的图片，进行中的图片会继续完成
+      controller.pause();
+      setIsPaused(true);
+      toast({
+        title: "已暂停",
+        description: "正在进行的图片完成后将暂停",
+      });
     }
   };
 
+  const cancelBatch = () => {
+    controllerRef.current?.cancel();
+    setIsPaused(false);
+  };
+
   const getStatusIcon = (status: FileWithPreview['status']) => {
     switch (status) {
       case 'pending':
@@ -128,6 +241,8 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'error':
         return <AlertCircle className="h-4 w-4 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="h-4 w-4 text-muted-foreground" />;
       default:
         return <FileImage className="h-4 w-4" />;
     }
@@ -143,6 +258,8 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
         return 'default';
       case 'error':
         return 'destructive';
+      case 'cancelled':
+        return 'outline';
       default:
         return 'secondary';
     }
@@ -177,7 +294,7 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
               : '拖拽图片到这里，或点击选择文件'}
           </p>
           <p className="text-xs text-muted-foreground mt-1">
-            支持 JPG、PNG、WebP 格式，可选择多个文件
+            支持 JPG、PNG、WebP、HEIC、BMP、TIFF 格式，可选择多个文件
           </p>
         </div>
 
@@ -197,28 +314,29 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
             </div>
             
             <div className="max-h-60 overflow-y-auto space-y-2">
-              {files.map((file, index) => (
+              {files.map((item, index) => (
                 <div key={index} className="flex items-center space-x-3 p-2 border rounded-lg">
                   <img
-                    src={file.preview}
-                    alt={file.name}
+                    src={item.preview}
+                    alt={item.file.name}
                     className="w-12 h-12 object-cover rounded"
                   />
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{file.name}</p>
+                    <p className="text-sm font-medium truncate">{item.file.name}</p>
                     <p className="text-xs text-muted-foreground">
-                      {(file.size / 1024 / 1024).toFixed(2)} MB
+                      {(item.file.size / 1024 / 1024).toFixed(2)} MB
                     </p>
                   </div>
                   <div className="flex items-center space-x-2">
-                    {getStatusIcon(file.status)}
-                    <Badge variant={getStatusColor(file.status)} className="text-xs">
-                      {file.status === 'pending' && '待处理'}
-                      {file.status === 'analyzing' && '分析中'}
-                      {file.status === 'completed' && '已完成'}
-                      {file.status === 'error' && '失败'}
+                    {getStatusIcon(item.status)}
+                    <Badge variant={getStatusColor(item.status)} className="text-xs">
+                      {item.status === 'pending' && '待处理'}
+                      {item.status === 'analyzing' && '分析中'}
+                      {item.status === 'completed' && '已完成'}
+                      {item.status === 'error' && '失败'}
+                      {item.status === 'cancelled' && '已取消'}
                     </Badge>
-                    {file.status === 'pending' && (
+                    {(item.status === 'pending' || item.status === 'cancelled') && (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -236,11 +354,63 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
           </div>
         )}
 
+        {/* 查重选项 */}
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Label className="text-sm whitespace-nowrap">重复图片</Label>
+            <Select
+              value={duplicateOptions.mode}
+              onValueChange={(value) => updateDuplicateOptions({ mode: value as DuplicateMode })}
+              disabled={isAnalyzing}
+            >
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DUPLICATE_MODE_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="batch-near-duplicates"
+              checked={duplicateOptions.nearDuplicates}
+              onCheckedChange={(checked) => updateDuplicateOptions({ nearDuplicates: checked === true })}
+              disabled={isAnalyzing || duplicateOptions.mode === 'reanalyze'}
+            />
+            <Label htmlFor="batch-near-duplicates" className="text-sm">包含近似重复（缩放、压缩后的同一张图片）</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Label className="text-sm whitespace-nowrap">识别次数</Label>
+            <Select
+              value={String(consensusRuns)}
+              onValueChange={(value) => setConsensusRuns(Number(value))}
+              disabled={isAnalyzing}
+            >
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONSENSUS_RUN_OPTIONS.map(runs => (
+                  <SelectItem key={runs} value={String(runs)}>
+                    {runs === 1 ? '1次（不投票）' : `${runs}次投票`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {consensusRuns > 1 && (
+              <span className="text-xs text-muted-foreground">调用次数为 {consensusRuns} 倍</span>
+            )}
+          </div>
+        </div>
+
         {/* 进度条 */}
         {isAnalyzing && (
           <div className="space-y-2">
             <div className="flex items-center justify-between text-sm">
-              <span>分析进度</span>
+              <span>{isPaused ? '已暂停' : '分析进度'}</span>
               <span>{Math.round(progress)}%</span>
             </div>
             <Progress value={progress} className="w-full" />
@@ -251,10 +421,15 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
         <div className="flex space-x-2">
           <Button
             onClick={handleBatchUpload}
-            disabled={files.length === 0 || isAnalyzing}
+            disabled={files.length === 0 || isAnalyzing || isCheckingDuplicates}
             className="flex-1"
           >
-            {isAnalyzing ? (
+            {isCheckingDuplicates ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                查找重复图片...
+              </>
+            ) : isAnalyzing ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 分析中...
@@ -266,8 +441,67 @@ export const BatchUpload: React.FC<BatchUploadProps> = ({
               </>
             )}
           </Button>
+          {isAnalyzing && controllerRef.current && (
+            <>
+              <Button variant="outline" onClick={togglePause}>
+                {isPaused ? (
+                  <>
+                    <Play className="h-4 w-4 mr-2" />
+                    继续
+                  </>
+                ) : (
+                  <>
+                    <Pause className="h-4 w-4 mr-2" />
+                    暂停
+                  </>
+                )}
+              </Button>
+              <Button variant="destructive" onClick={cancelBatch}>
+                <Square className="h-4 w-4 mr-2" />
+                取消
+              </Button>
+            </>
+          )}
         </div>
       </CardContent>
+
+      {/* 每批询问：列出重复图片，选择复用或重新分析 */}
+      <Dialog open={!!pendingDuplicates} onOpenChange={(open) => !open && resolveDuplicates(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>发现 {pendingDuplicates?.length || 0} 张重复图片</DialogTitle>
+            <DialogDescription>
+              这些图片已经分析过，可以直接复用已有结果，也可以重新分析
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-60 overflow-y-auto space-y-2">
+            {pendingDuplicates?.map(({ file, match }, index) => (
+              <div key={index} className="flex items-center justify-between text-sm p-2 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{file.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    已有结果：{match.result.fileName || '未命名'}
+                  </p>
+                </div>
+                <Badge variant={match.kind === 'exact' ? 'secondary' : 'outline'} className="text-xs shrink-0">
+                  {match.kind === 'exact' ? '完全相同' : `近似（差异 ${match.distance}）`}
+                </Badge>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => resolveDuplicates(null)}>
+              取消
+            </Button>
+            <Button variant="outline" onClick={() => resolveDuplicates('reanalyze')}>
+              重新分析
+            </Button>
+            <Button onClick={() => resolveDuplicates('reuse')}>
+              复用已有结果
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
\ No newline at end of file
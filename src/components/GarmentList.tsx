@@ -0,0 +1,89 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ClothingTags, GarmentResult } from '@/services/cozeService';
+import { TagEditor } from './TagEditor';
+import { cn } from '@/lib/utils';
+
+// 每件服装的标注颜色，图片上的框和列表中的序号使用同一种颜色
+const GARMENT_COLORS = ['#ec4899', '#3b82f6', '#f59e0b', '#10b981', '#8b5cf6'];
+
+const getGarmentColor = (index: number) => GARMENT_COLORS[index % GARMENT_COLORS.length];
+
+interface GarmentImageProps {
+  imageUrl: string;
+  garments: GarmentResult[];
+  className?: string;
+}
+
+// 原图上叠加每件服装的位置框
+export const GarmentImage: React.FC<GarmentImageProps> = ({ imageUrl, garments, className }) => {
+  return (
+    <div className={cn('relative rounded-lg overflow-hidden bg-fashion-light', className)}>
+      <img src={imageUrl} alt="分析图片" className="w-full h-auto block" />
+      {garments.map((garment, index) => garment.boundingBox && (
+        <div
+          key={index}
+          className="absolute border-2 rounded-sm pointer-events-none"
+          style={{
+            left: `${garment.boundingBox.x * 100}%`,
+            top: `${garment.boundingBox.y * 100}%`,
+            width: `${garment.boundingBox.width * 100}%`,
+            height: `${garment.boundingBox.height * 100}%`,
+            borderColor: getGarmentColor(index)
+          }}
+        >
+          <span
+            className="absolute -top-px -left-px px-1.5 text-xs font-medium text-white rounded-br-sm"
+            style={{ backgroundColor: getGarmentColor(index) }}
+          >
+            {index + 1} {garment.tags.样式名称 !== '未识别' ? garment.tags.样式名称 : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface GarmentListProps {
+  garments: GarmentResult[];
+  onGarmentsUpdate?: (garments: GarmentResult[]) => void; // 未提供时不保存编辑结果
+  className?: string;
+}
+
+// 多件服装的标签列表，每件服装一个标签卡片
+export const GarmentList: React.FC<GarmentListProps> = ({ garments, onGarmentsUpdate, className }) => {
+  const handleTagsUpdate = (index: number, tags: ClothingTags) => {
+    onGarmentsUpdate?.(garments.map((garment, i) => (i === index ? { ...garment, tags } : garment)));
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="text-sm font-medium text-muted-foreground">
+        识别到 {garments.length} 件服装
+      </div>
+      {garments.map((garment, index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <span
+              className="inline-flex h-5 w-5 items-center justify-center rounded-full text-xs text-white"
+              style={{ backgroundColor: getGarmentColor(index) }}
+            >
+              {index + 1}
+            </span>
+            {garment.tags.样式名称}
+            {index === 0 && <Badge variant="outline" className="text-xs">主服装</Badge>}
+            {garment.confidence > 0 && (
+              <span className="text-xs text-muted-foreground">置信度 {garment.confidence}%</span>
+            )}
+          </div>
+          <TagEditor
+            tags={garment.tags}
+            fieldConfidence={garment.fieldConfidence}
+            rawTags={garment.rawTags}
+            onTagsUpdate={(tags) => handleTagsUpdate(index, tags)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -3,9 +3,14 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { AnalysisResult, retryAnalysis } from '@/services/cozeService';
+import { AnalysisResult, GarmentResult, hasGarmentDetails, retryAnalysis } from '@/services/cozeService';
+import { TAG_PARSE_STRATEGY_LABELS } from '@/services/tagParser';
+import { getDimensionLabel, getTaxonomy } from '@/services/taxonomyService';
 import { TagEditor } from './TagEditor';
-import { Eye, Clock, Target, Trash2, RefreshCw, AlertCircle } from 'lucide-react';
+import { GarmentImage, GarmentList } from './GarmentList';
+import { ProvenanceDetails } from './ProvenanceDetails';
+import { SimilarityBreakdownBar } from './SimilarityBreakdownBar';
+import { Eye, Clock, Target, Trash2, RefreshCw, AlertCircle, FileText, Layers, Vote, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
@@ -45,6 +50,16 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
     }
   };
 
+  // 编辑多件服装中的某一件，第一件同时作为整张图片的标签
+  const handleGarmentsUpdate = (garments: GarmentResult[]) => {
+    if (selectedResult && selectedIndex >= 0) {
+      const updatedResult = { ...selectedResult, garments, tags: garments[0].tags };
+      onResultUpdate?.(selectedIndex, updatedResult);
+      onTagUpdate?.(selectedIndex, garments[0].tags);
+      setSelectedResult(updatedResult);
+    }
+  };
+
   const handleRetry = async (index: number, result: AnalysisResult) => {
     if (!result.isError) return;
     
@@ -127,6 +142,12 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                     <AlertCircle className="h-5 w-5 text-red-500" />
                   </div>
                 )}
+                {result.garments && result.garments.length > 1 && (
+                  <Badge className="absolute top-2 left-2 bg-black/60 hover:bg-black/60 text-white text-xs">
+                    <Layers className="h-3 w-3 mr-1" />
+                    {result.garments.length}件
+                  </Badge>
+                )}
               </div>
 
               {/* 基本信息 */}
@@ -176,11 +197,25 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                     )}
                   </div>
                   <div className="flex items-center text-xs text-muted-foreground whitespace-nowrap flex-shrink-0">
-                    <Clock className="h-3 w-3 mr-1" />
-                    {result.analysisTime}ms
+                    {result.isStreaming ? (
+                      <>
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        已识别 {Object.keys(result.tags).length}/{getTaxonomy().dimensions.length}
+                      </>
+                    ) : (
+                      <>
+                        <Clock className="h-3 w-3 mr-1" />
+                        {result.analysisTime}ms
+                      </>
+                    )}
                   </div>
                 </div>
 
+                {/* 相似度搜索结果的评分构成 */}
+                {result.similarity !== undefined && result.similarityBreakdown && (
+                  <SimilarityBreakdownBar breakdown={result.similarityBreakdown} />
+                )}
+
                 {/* 主要标签或错误信息 */}
                 <div className="space-y-2">
                   {result.isError ? (
@@ -188,6 +223,23 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                       <AlertCircle className="h-4 w-4" />
                       <span>{result.error || '分析失败'}</span>
                     </div>
+                  ) : result.isStreaming ? (
+                    <>
+                      {/* 流式识别中：按收到的顺序逐个显示已识别的字段 */}
+                      <div className="text-sm font-medium text-foreground">
+                        {result.tags.样式名称 || '识别中...'}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {Object.entries(result.tags)
+                          .filter(([key]) => key !== '样式名称')
+                          .map(([key, value]) => (
+                            <Badge key={key} variant="secondary" className="text-xs animate-in fade-in-0">
+                              {getDimensionLabel(key)}: {value}
+                            </Badge>
+                          ))
+                        }
+                      </div>
+                    </>
                   ) : (
                     <>
                       <div className="text-sm font-medium text-foreground">
@@ -216,7 +268,12 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                 </div>
 
                 {/* 查看详情按钮或重试按钮 */}
-                {result.isError ? (
+                {result.isStreaming ? (
+                  <Button variant="outline" size="sm" className="w-full" disabled>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    识别中...
+                  </Button>
+                ) : result.isError ? (
                   <Button 
                     variant="outline" 
                     size="sm" 
@@ -276,13 +333,17 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                         {/* 图片展示 */}
                         <div className="space-y-4">
-                          <div className="aspect-square rounded-lg overflow-hidden bg-fashion-light">
-                            <img
-                              src={selectedResult.imageUrl}
-                              alt="分析图片"
-                              className="w-full h-full object-cover"
-                            />
-                          </div>
+                          {hasGarmentDetails(selectedResult.garments) ? (
+                            <GarmentImage imageUrl={selectedResult.imageUrl} garments={selectedResult.garments} />
+                          ) : (
+                            <div className="aspect-square rounded-lg overflow-hidden bg-fashion-light">
+                              <img
+                                src={selectedResult.imageUrl}
+                                alt="分析图片"
+                                className="w-full h-full object-cover"
+                              />
+                            </div>
+                          )}
                           
                           {/* 分析信息 */}
                           <div className="flex items-center justify-between p-4 bg-fashion-light rounded-lg">
@@ -302,14 +363,91 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                               分析耗时 {selectedResult.analysisTime}ms
                             </div>
                           </div>
+
+                          {/* 解析报告 */}
+                          {selectedResult.parseReport && (
+                            <div className="p-4 bg-fashion-light rounded-lg space-y-2 text-sm">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center font-medium">
+                                  <FileText className="h-4 w-4 mr-1" />
+                                  解析方式
+                                </div>
+                                <Badge variant={selectedResult.parseReport.strategy === 'json' ? 'default' : 'secondary'}>
+                                  {TAG_PARSE_STRATEGY_LABELS[selectedResult.parseReport.strategy]}
+                                </Badge>
+                              </div>
+                              {selectedResult.parseReport.droppedFields.length > 0 && (
+                                <div className="space-y-1">
+                                  <div className="text-muted-foreground">
+                                    丢弃字段 ({selectedResult.parseReport.droppedFields.length})
+                                  </div>
+                                  {selectedResult.parseReport.droppedFields.map((dropped, i) => (
+                                    <div key={i} className="text-xs text-orange-600 break-all">
+                                      {dropped.field}: {dropped.value}（{dropped.reason}）
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                              {selectedResult.parseReport.rawOutput && (
+                                <details>
+                                  <summary className="cursor-pointer text-muted-foreground">原始输出</summary>
+                                  <pre className="mt-1 text-xs whitespace-pre-wrap break-all">
+                                    {selectedResult.parseReport.rawOutput}
+                                  </pre>
+                                </details>
+                              )}
+                            </div>
+                          )}
+
+                          {/* 结果来源 */}
+                          {selectedResult.provenance && (
+                            <ProvenanceDetails
+                              provenance={selectedResult.provenance}
+                              hideRawOutput={!!selectedResult.parseReport?.rawOutput}
+                            />
+                          )}
+
+                          {/* 多次识别投票记录 */}
+                          {selectedResult.consensus && (
+                            <div className="p-4 bg-fashion-light rounded-lg space-y-2 text-sm">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center font-medium">
+                                  <Vote className="h-4 w-4 mr-1" />
+                                  多次识别投票
+                                </div>
+                                <Badge variant="secondary">{selectedResult.consensus.runs} 次识别</Badge>
+                              </div>
+                              {Object.keys(selectedResult.consensus.disagreements).length === 0 ? (
+                                <div className="text-muted-foreground">各次识别结果完全一致</div>
+                              ) : (
+                                Object.entries(selectedResult.consensus.disagreements).map(([field, votes]) => (
+                                  <div key={field} className="text-xs break-all">
+                                    <span className="font-medium">{getDimensionLabel(field)}：</span>
+                                    {votes.votes.map(vote => `${vote.value} ${vote.count}票`).join('，')}
+                                    {votes.unrecognized > 0 && `，未识别 ${votes.unrecognized}次`}
+                                    {votes.tie && <span className="text-orange-600">（平票）</span>}
+                                  </div>
+                                ))
+                              )}
+                            </div>
+                          )}
                         </div>
 
                         {/* 标签详情 */}
                         <div>
-                          <TagEditor
-                            tags={selectedResult.tags}
-                            onTagsUpdate={handleTagsUpdate}
-                          />
+                          {hasGarmentDetails(selectedResult.garments) ? (
+                            <GarmentList
+                              garments={selectedResult.garments}
+                              onGarmentsUpdate={handleGarmentsUpdate}
+                            />
+                          ) : (
+                            <TagEditor
+                              tags={selectedResult.tags}
+                              fieldConfidence={selectedResult.fieldConfidence}
+                              rawTags={selectedResult.rawTags}
+                              onTagsUpdate={handleTagsUpdate}
+                            />
+                          )}
                         </div>
                       </div>
                     )}
@@ -4,14 +4,16 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Upload, X, Image as ImageIcon, Loader2, Sparkles } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { ClothingTags } from '@/services/cozeService';
 
 interface ImageUploadProps {
   onImageUpload: (files: File[]) => void;
   isAnalyzing?: boolean;
+  streamingTags?: Map<File, ClothingTags>; // 正在识别的图片及已识别的字段
   className?: string;
 }
 
-export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload, isAnalyzing = false, className }) => {
+export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload, isAnalyzing = false, streamingTags, className }) => {
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -27,7 +29,7 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload, isAnaly
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.webp']
+      'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.heic', '.heif', '.bmp', '.tif', '.tiff']
     },
     multiple: true
   });
@@ -56,7 +58,7 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload, isAnaly
               拖拽图片到此处，或点击选择文件
             </p>
             <p className="text-sm text-muted-foreground">
-              支持 JPG、PNG、WebP 格式
+              支持 JPG、PNG、WebP、HEIC、BMP、TIFF 格式
             </p>
           </div>
           <Button variant="fashion" size="lg">
@@ -111,6 +113,14 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload, isAnaly
                 <p className="text-xs text-muted-foreground mt-1 truncate">
                   {file.name}
                 </p>
+                {streamingTags?.has(file) && (
+                  <p className="flex items-center text-xs text-fashion-primary mt-0.5 truncate">
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin flex-shrink-0" />
+                    {Object.keys(streamingTags.get(file)).length > 0
+                      ? `已识别 ${Object.keys(streamingTags.get(file)).length} 项`
+                      : '识别中...'}
+                  </p>
+                )}
               </div>
             ))}
           </div>
@@ -18,7 +18,7 @@ export const Instructions: React.FC = () => {
     {
       icon: Upload,
       title: '图片上传',
-      description: '支持批量上传JPG、PNG、WebP格式的服装图片',
+      description: '支持批量上传JPG、PNG、WebP、HEIC等格式的服装图片',
       status: '完成'
     },
     {
@@ -4,10 +4,13 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { AnalysisResult, retryAnalysis } from '@/services/cozeService';
+import { AnalysisResult, hasGarmentDetails, retryAnalysis } from '@/services/cozeService';
 import { ClothingAnalysisRecord } from '@/config/postgresql';
+import { getRecordProvenance } from '@/services/databaseService';
 import { TagEditor } from './TagEditor';
-import { Eye, Clock, Target, Trash2, Database, RefreshCw, AlertCircle } from 'lucide-react';
+import { GarmentImage, GarmentList } from './GarmentList';
+import { ProvenanceDetails } from './ProvenanceDetails';
+import { Eye, Clock, Target, Trash2, Database, RefreshCw, AlertCircle, Layers } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
@@ -70,6 +73,10 @@ export const MultiSelectDatabaseGrid: React.FC<MultiSelectDatabaseGridProps> = (
       imageUrl: record.image_url || '',
       tags: record.tags || {},
       confidence: record.confidence || 0,
+      fieldConfidence: record.field_confidence || undefined,
+      garments: record.garments || undefined,
+      rawTags: record.raw_tags || undefined,
+      provenance: getRecordProvenance(record),
       analysisTime: record.analysis_time || 0,
       fileName: record.image_name || '',
       isError: record.analysis_result?.error_status || false,
@@ -154,6 +161,13 @@ export const MultiSelectDatabaseGrid: React.FC<MultiSelectDatabaseGridProps> = (
                     </div>
                   )}
                   
+                  {result.garments && result.garments.length > 1 && (
+                    <Badge className="absolute bottom-2 left-2 bg-black/60 hover:bg-black/60 text-white text-xs">
+                      <Layers className="h-3 w-3 mr-1" />
+                      {result.garments.length}件
+                    </Badge>
+                  )}
+                  
                   {/* 多选模式下的选中遮罩 */}
                   {isMultiSelectMode && isSelected && (
                     <div className="absolute inset-0 bg-fashion-primary/20 border-2 border-fashion-primary rounded-lg" />
@@ -272,13 +286,17 @@ export const MultiSelectDatabaseGrid: React.FC<MultiSelectDatabaseGridProps> = (
                             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                               {/* 图片展示 */}
                               <div className="space-y-4">
-                                <div className="aspect-square rounded-lg overflow-hidden bg-fashion-light">
-                                  <img
-                                    src={selectedResult.imageUrl}
-                                    alt="分析图片"
-                                    className="w-full h-full object-cover"
-                                  />
-                                </div>
+                                {hasGarmentDetails(selectedResult.garments) ? (
+                                  <GarmentImage imageUrl={selectedResult.imageUrl} garments={selectedResult.garments} />
+                                ) : (
+                                  <div className="aspect-square rounded-lg overflow-hidden bg-fashion-light">
+                                    <img
+                                      src={selectedResult.imageUrl}
+                                      alt="分析图片"
+                                      className="w-full h-full object-cover"
+                                    />
+                                  </div>
+                                )}
                                 
                                 {/* 分析信息 */}
                                 <div className="p-4 bg-fashion-light rounded-lg">
@@ -313,15 +331,26 @@ export const MultiSelectDatabaseGrid: React.FC<MultiSelectDatabaseGridProps> = (
                                     )}
                                   </div>
                                 </div>
+
+                                {/* 结果来源 */}
+                                {selectedResult.provenance && (
+                                  <ProvenanceDetails provenance={selectedResult.provenance} />
+                                )}
                               </div>
 
                               {/* 标签详情 */}
                               <div>
-                                <TagEditor
-                                  tags={selectedResult.tags}
-                                  onTagsUpdate={() => {}} // 数据库管理页面不允许编辑
-                                  readOnly={true}
-                                />
+                                {hasGarmentDetails(selectedResult.garments) ? (
+                                  <GarmentList garments={selectedResult.garments} />
+                                ) : (
+                                  <TagEditor
+                                    tags={selectedResult.tags}
+                                    fieldConfidence={selectedResult.fieldConfidence}
+                                    rawTags={selectedResult.rawTags}
+                                    onTagsUpdate={() => {}} // 数据库管理页面不允许编辑
+                                    readOnly={true}
+                                  />
+                                )}
                               </div>
                             </div>
                           )}
@@ -6,14 +6,17 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { AnalysisResult, retryAnalysis } from '@/services/cozeService';
 import { TagEditor } from './TagEditor';
+import { ProvenanceDetails } from './ProvenanceDetails';
 import { Eye, Clock, Target, Trash2, CheckSquare, Square, RefreshCw, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { HistoryRecord } from '@/services/historyService';
+import { describePreprocessReport } from '@/services/imagePreprocessService';
 
 interface MultiSelectImageGridProps {
   records: HistoryRecord[];
   imageUrls: { [key: string]: string };
+  processedImageUrls?: { [key: string]: string }; // 预处理后实际上传识别的图片
   onDelete?: (id: string) => void;
   className?: string;
   isMultiSelectMode?: boolean;
@@ -24,6 +27,7 @@ interface MultiSelectImageGridProps {
 export const MultiSelectImageGrid: React.FC<MultiSelectImageGridProps> = ({ 
   records, 
   imageUrls,
+  processedImageUrls = {},
   onDelete,
   className,
   isMultiSelectMode = false,
@@ -33,6 +37,7 @@ export const MultiSelectImageGrid: React.FC<MultiSelectImageGridProps> = ({
   const [selectedResult, setSelectedResult] = useState<AnalysisResult | null>(null);
   const [selectedIndex, setSelectedIndex] = useState<number>(-1);
   const [retryingIndex, setRetryingIndex] = useState<number>(-1);
+  const [showOriginal, setShowOriginal] = useState(false);
   const { toast } = useToast();
 
   const handleRetry = async (index: number, result: AnalysisResult) => {
@@ -72,6 +77,10 @@ export const MultiSelectImageGrid: React.FC<MultiSelectImageGridProps> = ({
       imageUrl: imageUrls[record.id] || '',
       tags: record.tags,
       confidence: record.confidence || 0,
+      fieldConfidence: record.fieldConfidence,
+      garments: record.garments,
+      rawTags: record.rawTags,
+      provenance: record.provenance,
       analysisTime: record.analysisTime || 0,
       fileName: record.fileName
     };
@@ -237,6 +246,7 @@ export const MultiSelectImageGrid: React.FC<MultiSelectImageGridProps> = ({
                               onClick={() => {
                                 setSelectedResult(result);
                                 setSelectedIndex(index);
+                                setShowOriginal(false);
                               }}
                             >
                               <Eye className="h-4 w-4 mr-2" />
@@ -273,12 +283,32 @@ export const MultiSelectImageGrid: React.FC<MultiSelectImageGridProps> = ({
                               <div className="space-y-4">
                                 <div className="aspect-square rounded-lg overflow-hidden bg-fashion-light">
                                   <img
-                                    src={selectedResult.imageUrl}
+                                    src={!showOriginal && processedImageUrls[record.id] || selectedResult.imageUrl}
                                     alt="分析图片"
                                     className="w-full h-full object-cover"
                                   />
                                 </div>
                                 
+                                {/* 预处理过的图片可以切换查看原图 */}
+                                {processedImageUrls[record.id] && (
+                                  <div className="flex space-x-2">
+                                    <Button
+                                      variant={showOriginal ? 'outline' : 'default'}
+                                      size="sm"
+                                      onClick={() => setShowOriginal(false)}
+                                    >
+                                      处理后
+                                    </Button>
+                                    <Button
+                                      variant={showOriginal ? 'default' : 'outline'}
+                                      size="sm"
+                                      onClick={() => setShowOriginal(true)}
+                                    >
+                                      原图
+                                    </Button>
+                                  </div>
+                                )}
+                                
                                 {/* 分析信息 */}
                                 <div className="p-4 bg-fashion-light rounded-lg">
                                   <div className="space-y-2">
@@ -290,6 +320,12 @@ export const MultiSelectImageGrid: React.FC<MultiSelectImageGridProps> = ({
                                       <span className="font-medium">分析时间：</span>
                                       {formatDate(record.timestamp)}
                                     </div>
+                                    {record.preprocessing && (
+                                      <div className="text-sm">
+                                        <span className="font-medium">预处理：</span>
+                                        {describePreprocessReport(record.preprocessing)}
+                                      </div>
+                                    )}
                                     {selectedResult.analysisTime > 0 && (
                                       <div className="flex items-center text-sm text-muted-foreground">
                                         <Clock className="h-4 w-4 mr-1" />
@@ -298,12 +334,19 @@ export const MultiSelectImageGrid: React.FC<MultiSelectImageGridProps> = ({
                                     )}
                                   </div>
                                 </div>
+
+                                {/* 结果来源 */}
+                                {selectedResult.provenance && (
+                                  <ProvenanceDetails provenance={selectedResult.provenance} />
+                                )}
                               </div>
 
                               {/* 标签详情 */}
                               <div>
                                 <TagEditor
                                   tags={selectedResult.tags}
+                                  fieldConfidence={selectedResult.fieldConfidence}
+                                  rawTags={selectedResult.rawTags}
                                   onTagsUpdate={() => {}} // 历史记录页面不允许编辑
                                   readOnly={true}
                                 />
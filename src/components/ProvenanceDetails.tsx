@@ -0,0 +1,56 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AnalysisProvenance } from '@/services/cozeService';
+import { TAG_PARSE_STRATEGY_LABELS } from '@/services/tagParser';
+import { RECOGNITION_PROVIDER_OPTIONS } from '@/services/settingsService';
+import { GitBranch } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ProvenanceDetailsProps {
+  provenance: AnalysisProvenance;
+  hideRawOutput?: boolean; // 解析报告中已经显示原始输出时不再重复显示
+  className?: string;
+}
+
+const getProviderLabel = (provider: string) => {
+  return RECOGNITION_PROVIDER_OPTIONS.find(option => option.id === provider)?.label || provider;
+};
+
+// 结果来源：识别服务、工作流或模型、解析器版本，以及模型的原始输出
+export const ProvenanceDetails: React.FC<ProvenanceDetailsProps> = ({ provenance, hideRawOutput, className }) => {
+  const rows = [
+    { label: '识别服务', value: getProviderLabel(provenance.provider) },
+    { label: '工作流', value: provenance.workflowId },
+    { label: '工作流版本', value: provenance.workflowVersion },
+    { label: '模型', value: provenance.model },
+    { label: '解析器版本', value: provenance.parserVersion }
+  ].filter(row => row.value);
+
+  return (
+    <div className={cn('p-4 bg-fashion-light rounded-lg space-y-2 text-sm', className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center font-medium">
+          <GitBranch className="h-4 w-4 mr-1" />
+          结果来源
+        </div>
+        <Badge variant={provenance.parseStrategy === 'json' ? 'default' : 'secondary'}>
+          {TAG_PARSE_STRATEGY_LABELS[provenance.parseStrategy] || provenance.parseStrategy}
+        </Badge>
+      </div>
+      {rows.map(row => (
+        <div key={row.label} className="text-xs break-all">
+          <span className="text-muted-foreground">{row.label}：</span>
+          {row.value}
+        </div>
+      ))}
+      {!hideRawOutput && provenance.rawOutput && (
+        <details>
+          <summary className="cursor-pointer text-muted-foreground">原始输出</summary>
+          <pre className="mt-1 text-xs whitespace-pre-wrap break-all">
+            {provenance.rawOutput}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+};
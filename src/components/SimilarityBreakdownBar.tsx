@@ -0,0 +1,45 @@
+import React from 'react';
+import { SIMILARITY_COMPONENT_LABELS, SimilarityBreakdown, SimilarityComponent } from '@/services/similarityMetrics';
+import { cn } from '@/lib/utils';
+
+const COMPONENT_COLORS: Record<SimilarityComponent, string> = {
+  color: 'bg-rose-400',
+  layout: 'bg-amber-400',
+  edges: 'bg-emerald-500',
+  tags: 'bg-blue-500'
+};
+
+const COMPONENT_ORDER: SimilarityComponent[] = ['color', 'layout', 'edges', 'tags'];
+
+interface SimilarityBreakdownBarProps {
+  breakdown: SimilarityBreakdown;
+  className?: string;
+}
+
+// 评分构成：颜色、布局、边缘和标签各部分对评分的贡献，条的总长度为评分
+export const SimilarityBreakdownBar: React.FC<SimilarityBreakdownBarProps> = ({ breakdown, className }) => {
+  const components = COMPONENT_ORDER.filter(component => breakdown[component] !== undefined);
+  if (components.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-1', className)} title="各部分对评分的贡献">
+      <div className="flex h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        {components.map(component => (
+          <div
+            key={component}
+            className={COMPONENT_COLORS[component]}
+            style={{ width: `${Math.max(0, breakdown[component]) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-2 text-[10px] text-muted-foreground">
+        {components.map(component => (
+          <span key={component} className="flex items-center gap-1">
+            <span className={cn('inline-block h-1.5 w-1.5 rounded-full', COMPONENT_COLORS[component])} />
+            {SIMILARITY_COMPONENT_LABELS[component]} {Math.round(breakdown[component] * 100)}%
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -6,8 +6,20 @@ import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AnalysisResult, ClothingTags, analyzeClothingImage } from '@/services/cozeService';
-import { calculateBatchSimilarity } from '@/services/similarityService';
+import { calculateBatchSimilarity, getImageFeatures } from '@/services/similarityService';
+import { getRecordFeatures, getRecordProvenance } from '@/services/databaseService';
+import { searchSimilarRecords } from '@/services/serverSimilarityService';
+import {
+  DEFAULT_SIMILARITY_METRIC,
+  SIMILARITY_METRICS,
+  SimilarityMetricId,
+  combineWithTagSimilarity,
+  getSimilarityMetric
+} from '@/services/similarityMetrics';
+import { isAbortError } from '@/services/batchControl';
+import { describeRecognitionError } from '@/services/recognitionErrors';
 import { Search, Upload, X, Image as ImageIcon, Zap, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
@@ -22,15 +34,22 @@ enum SearchStep {
   COMPLETED = 'completed'
 }
 
+// 数据库搜索时服务器最多返回的记录数
+const DATABASE_SEARCH_TOP_K = 200;
+
 interface SimilaritySearchProps {
   results: AnalysisResult[];
   onSearchResults: (searchResults: AnalysisResult[]) => void;
+  source?: 'local' | 'database'; // 数据库搜索在服务器上按保存的特征向量排序
+  tagFilters?: Record<string, string[]>; // 页面上的标签维度筛选，数据库搜索时一起提交
   className?: string;
 }
 
 export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({ 
   results, 
   onSearchResults, 
+  source = 'local',
+  tagFilters,
   className 
 }) => {
   const [searchImage, setSearchImage] = useState<File | null>(null);
@@ -40,11 +59,20 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
   const [searchImageTags, setSearchImageTags] = useState<ClothingTags | null>(null);
   const [analysisProgress, setAnalysisProgress] = useState(0);
   const [searchProgress, setSearchProgress] = useState(0);
+  const [processedCount, setProcessedCount] = useState(0); // 已提取特征的图片数
+  const [processedTotal, setProcessedTotal] = useState(0); // 需要提取特征的图片数
   const [searchResults, setSearchResults] = useState<AnalysisResult[]>([]);
   const [useTagSimilarity, setUseTagSimilarity] = useState(true); // 是否启用标签相似度重排序
+  const [metric, setMetric] = useState<SimilarityMetricId>(DEFAULT_SIMILARITY_METRIC); // 图片相似度算法
   const [isSearchActive, setIsSearchActive] = useState(false); // 标记是否有活跃的搜索状态
+  const searchAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
+  // 离开页面时取消进行中的搜索
+  useEffect(() => {
+    return () => searchAbortRef.current?.abort();
+  }, []);
+
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
     if (file) {
@@ -86,7 +114,7 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
       
       setAnalysisProgress(30);
       
-      const result = await analyzeClothingImage(file);
+      const result = await analyzeClothingImage(file, { priority: 'interactive' });
       console.log('分析结果:', result);
       
       setAnalysisProgress(80);
@@ -100,63 +128,12 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
       });
     } catch (error) {
       console.error(`分析图片失败: ${file.name}`, error);
-      let errorMessage = error.message || '未知错误';
-      
-      // 检查是否是QPS限制错误，如果是则进行重试
-      const isQpsError = errorMessage.includes('qps too high') || 
-                        errorMessage.includes('720711011') || 
-                        errorMessage.includes('Pro call plugin qps too high');
-      
-      if (isQpsError) {
-        // QPS限制错误，尝试重试
-        let retrySuccess = false;
-        for (let retry = 1; retry <= 3; retry++) {
-          try {
-            const waitTime = 3000 * retry; // 3秒、6秒、9秒
-            console.log(`QPS限制重试 ${retry}/3，等待 ${waitTime}ms...`);
-            toast({
-              title: "QPS限制重试",
-              description: `${file.name} 遇到频率限制，${waitTime/1000}秒后重试 (${retry}/3)`,
-            });
-            await new Promise(resolve => setTimeout(resolve, waitTime));
-            
-            const result = await analyzeClothingImage(file);
-            setSearchImageTags(result.tags);
-            setCurrentStep(SearchStep.ANALYZED);
-            setAnalysisProgress(100);
-            retrySuccess = true;
-            
-            toast({
-              title: "重试成功",
-              description: `${file.name} 重试分析成功`,
-            });
-            return; // 重试成功，直接返回
-          } catch (retryError) {
-            console.error(`重试 ${retry} 失败:`, retryError);
-            if (retry === 3) {
-              errorMessage = `重试 3 次后仍然失败: ${retryError.message}`;
-            }
-          }
-        }
-        
-        if (retrySuccess) {
-          return; // 重试成功，不执行下面的错误处理
-        }
-      }
-      
-      // 如果是数据库相关错误，提供更详细的信息
-      if (errorMessage.includes('Failed to fetch') || errorMessage.includes('network')) {
-        errorMessage = '网络连接失败，请检查网络设置';
-      } else if (errorMessage.includes('database')) {
-        errorMessage = '数据库连接失败，结果已保存到本地历史记录';
-      }
-      
       setCurrentStep(SearchStep.UPLOAD);
       setAnalysisProgress(0);
       
       toast({
         title: "分析失败",
-        description: `${file.name} 分析失败: ${errorMessage}`,
+        description: `${file.name} 分析失败: ${describeRecognitionError(error)}`,
         variant: "destructive",
       });
     }
@@ -184,6 +161,70 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
     }
   };
   
+  const handleExtractionProgress = (current: number, total: number) => {
+    // 特征提取占大部分耗时，将进度映射到20%-80%
+    setProcessedCount(current);
+    setProcessedTotal(total);
+    setSearchProgress(20 + Math.floor((current / total) * 60));
+  };
+
+  // 在浏览器中计算与每张图片的相似度（特征在后台Worker中提取）
+  const searchSimilarityInBrowser = async (signal: AbortSignal): Promise<AnalysisResult[]> => {
+    const targetImages = results.map((result, index) => ({
+      id: `result_${index}`,
+      imageUrl: result.imageUrl,
+      features: result.features,
+      recordId: result.recordId
+    }));
+    
+    const similarityResults = await calculateBatchSimilarity(searchImageUrl, targetImages, handleExtractionProgress, signal, metric);
+    
+    // 将相似度结果合并到原始结果中
+    return results.map((result, index) => {
+      const similarityResult = similarityResults.find(sr => sr.id === `result_${index}`);
+      return {
+        ...result,
+        similarity: similarityResult?.similarity || 0,
+        similarityBreakdown: similarityResult?.breakdown || {}
+      };
+    });
+  };
+
+  // 在服务器上按保存的特征向量搜索数据库，服务器返回评分最高的完整记录；
+  // 文本搜索和标签筛选由页面在结果上再次应用
+  const searchSimilarityOnServer = async (signal: AbortSignal): Promise<AnalysisResult[]> => {
+    const response = await searchSimilarRecords({
+      features: await getImageFeatures(searchImageUrl, signal),
+      topK: DATABASE_SEARCH_TOP_K,
+      // 启用标签重排序时按综合评分过滤，服务器不按图片相似度过滤
+      threshold: useTagSimilarity ? 0 : similarity[0] / 100,
+      filters: tagFilters,
+      metric
+    }, signal);
+    
+    if (response.matched > response.results.length) {
+      toast({
+        title: "结果较多",
+        description: `${response.matched} 条记录符合条件，只返回图片相似度最高的 ${response.results.length} 条`,
+      });
+    }
+    
+    return response.results.map(({ record, similarity, breakdown }) => ({
+      imageUrl: record.image_url,
+      tags: record.tags,
+      confidence: record.confidence || 0,
+      fieldConfidence: record.field_confidence || undefined,
+      garments: record.garments || undefined,
+      provenance: getRecordProvenance(record),
+      analysisTime: record.analysis_time || 0,
+      fileName: record.image_name,
+      recordId: record.id,
+      features: getRecordFeatures(record),
+      similarity,
+      similarityBreakdown: breakdown || {}
+    }));
+  };
+
   // 开始相似度搜索
   const startSimilaritySearch = async () => {
     if (!searchImage || !searchImageTags || results.length === 0) {
@@ -197,7 +238,11 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
 
     setCurrentStep(SearchStep.SEARCHING);
     setSearchProgress(0);
+    setProcessedCount(0);
+    setProcessedTotal(0);
     setIsSearchActive(true);
+    const abortController = new AbortController();
+    searchAbortRef.current = abortController;
     
     try {
       toast({
@@ -207,62 +252,47 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
       
       setSearchProgress(20);
       
-      // 准备目标图片数据
-      const targetImages = results.map((result, index) => ({
-        id: `result_${index}`,
-        imageUrl: result.imageUrl
-      }));
-      
-      setSearchProgress(40);
-      
-      // 第一步：向量匹配计算图片相似度（带进度回调）
-      const similarityResults = await calculateBatchSimilarity(
-        searchImageUrl, 
-        targetImages,
-        (current, total) => {
-          // 将相似度计算进度映射到40%-60%
-          const progress = 40 + Math.floor((current / total) * 20);
-          setSearchProgress(progress);
+      // 第一步：向量匹配计算图片相似度
+      let searchResults: AnalysisResult[];
+      if (source === 'database') {
+        try {
+          searchResults = await searchSimilarityOnServer(abortController.signal);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn('数据库相似度搜索不可用，改为在浏览器中计算:', error);
+          searchResults = await searchSimilarityInBrowser(abortController.signal);
         }
-      );
-      
-      setSearchProgress(60);
-      
-      // 将相似度结果合并到原始结果中
-      let searchResults = results
-        .map((result, index) => {
-          const similarityResult = similarityResults.find(sr => sr.id === `result_${index}`);
-          return {
-            ...result,
-            similarity: similarityResult?.similarity || 0
-          };
-        });
-      
-      setSearchProgress(80);
+      } else {
+        searchResults = await searchSimilarityInBrowser(abortController.signal);
+      }
       
       // 第二步：标签相似度重排序（可选）
       if (useTagSimilarity) {
         searchResults = searchResults.map(result => {
           const tagSimilarity = calculateTagSimilarity(searchImageTags, result.tags);
           // 综合评分：图片相似度 * 0.6 + 标签相似度 * 0.4（标签相似度需要转换为0-1小数）
-          const combinedScore = result.similarity * 0.6 + (tagSimilarity / 100) * 0.4;
+          const combined = combineWithTagSimilarity(
+            { similarity: result.similarity, breakdown: result.similarityBreakdown || {} },
+            tagSimilarity / 100
+          );
           return {
             ...result,
             tagSimilarity,
-            combinedScore
+            combinedScore: combined.similarity,
+            similarityBreakdown: combined.breakdown
           };
         });
         
         // 基于综合相似度进行阈值过滤
         searchResults = searchResults.filter(result => {
-          const score = (result as any).combinedScore || result.similarity;
+          const score = result.combinedScore || result.similarity;
           return score >= similarity[0] / 100;
         });
         
         // 按综合评分从高到低排序
         searchResults.sort((a, b) => {
-          const scoreA = (a as any).combinedScore || a.similarity;
-          const scoreB = (b as any).combinedScore || b.similarity;
+          const scoreA = a.combinedScore || a.similarity;
+          const scoreB = b.combinedScore || b.similarity;
           return scoreB - scoreA;
         });
       } else {
@@ -287,16 +317,31 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
         description: `找到 ${searchResults.length} 个相似结果，最高评分 ${displayScore}%`,
       });
     } catch (error) {
-      console.error('相似度搜索失败:', error);
       setCurrentStep(SearchStep.ANALYZED);
+      if (isAbortError(error)) {
+        toast({
+          title: "已取消搜索",
+          description: "可以调整设置后重新搜索",
+        });
+        return;
+      }
+      console.error('相似度搜索失败:', error);
       toast({
         title: "搜索失败",
         description: "相似度搜索过程中出现错误，请重试",
         variant: "destructive"
       });
+    } finally {
+      if (searchAbortRef.current === abortController) {
+        searchAbortRef.current = null;
+      }
     }
   };
 
+  const cancelSimilaritySearch = () => {
+    searchAbortRef.current?.abort();
+  };
+
   // 计算标签相似度
   const calculateTagSimilarity = (tags1: ClothingTags, tags2: ClothingTags): number => {
     // 定义重要标签的权重 - 优化为更关注样式结构，降低颜色权重
@@ -424,6 +469,26 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
     });
   };
 
+  // 图片相似度算法的选择，搜索前和搜索完成后调整
+  const renderMetricSelect = () => (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">相似度算法</Label>
+      <Select value={metric} onValueChange={(value) => setMetric(value as SimilarityMetricId)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SIMILARITY_METRICS.map(option => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{getSimilarityMetric(metric).description}</p>
+    </div>
+  );
+
   const renderStepIndicator = () => {
     const steps = [
       { key: SearchStep.UPLOAD, label: '上传图片', icon: Upload },
@@ -608,6 +673,8 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
                 </Label>
               </div>
               
+              {renderMetricSelect()}
+              
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <Label className="text-sm font-medium">相似度阈值</Label>
@@ -666,7 +733,17 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
                 <span>{searchProgress}%</span>
               </div>
               <Progress value={searchProgress} className="h-2" />
+              {processedTotal > 0 && (
+                <p className="text-xs text-muted-foreground text-center">
+                  已处理 {processedCount} / {processedTotal} 张图片
+                </p>
+              )}
             </div>
+
+            <Button onClick={cancelSimilaritySearch} variant="outline" className="w-full">
+              <X className="h-4 w-4 mr-2" />
+              取消搜索
+            </Button>
           </div>
         )}
 
@@ -708,8 +785,8 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
               {searchResults.length > 0 && (
                 <div className="text-xs text-muted-foreground">
                   最高评分: {Math.round(Math.max(...searchResults.map(r => 
-                    useTagSimilarity && (r as any).combinedScore 
-                      ? (r as any).combinedScore 
+                    useTagSimilarity && r.combinedScore 
+                      ? r.combinedScore 
                       : r.similarity
                   )) * 100)}%
                 </div>
@@ -731,6 +808,8 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
                 </Label>
               </div>
               
+              {renderMetricSelect()}
+              
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <Label className="text-sm font-medium">相似度阈值</Label>
@@ -745,7 +824,7 @@ export const SimilaritySearch: React.FC<SimilaritySearchProps> = ({
                   className="w-full"
                 />
                 <p className="text-xs text-muted-foreground">
-                  调整阈值后点击"重新搜索"以应用新的筛选条件
+                  调整算法或阈值后点击"重新搜索"以应用新的条件
                 </p>
               </div>
             </div>
@@ -5,52 +5,35 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { ClothingTags } from '@/services/cozeService';
+import { ClothingTags, FieldConfidence } from '@/services/cozeService';
+import { LOW_CONFIDENCE_THRESHOLD, formatConfidence } from '@/services/confidenceService';
+import { getTaxonomyGroups } from '@/services/taxonomyService';
+import { useTaxonomy } from '@/hooks/use-taxonomy';
 import { Edit, Save, X, Plus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
 
 interface TagEditorProps {
   tags: ClothingTags;
   onTagsUpdate: (updatedTags: ClothingTags) => void;
   className?: string;
+  fieldConfidence?: FieldConfidence; // 字段置信度，低于阈值的字段会高亮提示复核
+  rawTags?: Record<string, string>; // 归一化前的原始值，悬停标签时显示
 }
 
-// 按照任务说明书图1的顺序：基础属性 -> 设计细节 -> 材质工艺 -> 功能属性
-const TAG_LABELS: Record<keyof ClothingTags, string> = {
-  // 基础属性
-  样式名称: '样式名称',
-  颜色: '颜色',
-  色调: '色调',
-  // 设计细节
-  领: '领型',
-  袖: '袖型',
-  版型: '版型',
-  长度: '长度',
-  // 材质工艺
-  面料: '面料',
-  图案: '图案',
-  工艺: '工艺',
-  // 功能属性
-  场合: '场合',
-  季节: '季节',
-  风格: '风格'
-};
-
-// 标签分组定义，用于更好的展示
-const TAG_GROUPS = {
-  基础属性: ['样式名称', '颜色', '色调'],
-  设计细节: ['领', '袖', '版型', '长度'],
-  材质工艺: ['面料', '图案', '工艺'],
-  功能属性: ['场合', '季节', '风格']
-};
-
-export const TagEditor: React.FC<TagEditorProps> = ({ tags, onTagsUpdate, className }) => {
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, onTagsUpdate, className, fieldConfidence, rawTags }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editedTags, setEditedTags] = useState<ClothingTags>(tags);
   const [customTags, setCustomTags] = useState<Record<string, string>>({});
   const [newTagKey, setNewTagKey] = useState('');
   const [newTagValue, setNewTagValue] = useState('');
   const { toast } = useToast();
+  const taxonomy = useTaxonomy();
+  // 维度分组和显示名称来自标签体系，按基础属性 -> 设计细节 -> 材质工艺 -> 功能属性等分组展示
+  const tagGroups = getTaxonomyGroups(taxonomy);
+  const dimensionKeys = new Set(taxonomy.dimensions.map(dimension => dimension.key));
+  // 标签体系之外的字段（自定义标签或已删除的维度）归入"其他"
+  const extraKeys = Object.keys(tags).filter(key => !dimensionKeys.has(key) && tags[key]);
 
   const handleSave = () => {
     const finalTags = { ...editedTags, ...customTags };
@@ -68,7 +51,7 @@ export const TagEditor: React.FC<TagEditorProps> = ({ tags, onTagsUpdate, classN
     setIsEditing(false);
   };
 
-  const handleTagChange = (key: keyof ClothingTags, value: string) => {
+  const handleTagChange = (key: string, value: string) => {
     setEditedTags(prev => ({ ...prev, [key]: value }));
   };
 
@@ -88,6 +71,28 @@ export const TagEditor: React.FC<TagEditorProps> = ({ tags, onTagsUpdate, classN
     });
   };
 
+  const isLowConfidence = (key: string) => {
+    const confidence = fieldConfidence?.[key];
+    return confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD;
+  };
+
+  const renderConfidence = (key: string) => {
+    const confidence = fieldConfidence?.[key];
+    if (confidence === undefined) return null;
+    return (
+      <span className={cn('ml-1 opacity-70', isLowConfidence(key) && 'text-amber-700 opacity-100')}>
+        {formatConfidence(confidence)}
+      </span>
+    );
+  };
+
+  const getTagTitle = (key: string) => {
+    const hints = [];
+    if (rawTags?.[key]) hints.push(`原始值：${rawTags[key]}`);
+    if (isLowConfidence(key)) hints.push('置信度较低，建议人工复核');
+    return hints.length > 0 ? hints.join('；') : undefined;
+  };
+
   if (!isEditing) {
     return (
       <Card className={className}>
@@ -104,17 +109,29 @@ export const TagEditor: React.FC<TagEditorProps> = ({ tags, onTagsUpdate, classN
         </CardHeader>
         <CardContent className="space-y-3">
           {/* 按分组展示标签 */}
-          {Object.entries(TAG_GROUPS).map(([groupName, tagKeys]) => {
-            const groupTags = tagKeys.filter(key => tags[key as keyof ClothingTags]);
+          {[
+            ...tagGroups.map(({ group, dimensions }) => ({
+              group,
+              items: dimensions.map(dimension => ({ key: dimension.key, label: dimension.label }))
+            })),
+            { group: '其他', items: extraKeys.map(key => ({ key, label: key })) }
+          ].map(({ group, items }) => {
+            const groupTags = items.filter(item => tags[item.key]);
             if (groupTags.length === 0) return null;
             
             return (
-              <div key={groupName} className="space-y-1">
-                <div className="text-xs font-medium text-muted-foreground">{groupName}</div>
+              <div key={group} className="space-y-1">
+                <div className="text-xs font-medium text-muted-foreground">{group}</div>
                 <div className="flex flex-wrap gap-1">
-                  {groupTags.map((key) => (
-                    <Badge key={key} variant="secondary" className="text-xs">
-                      {TAG_LABELS[key as keyof ClothingTags]}: {tags[key as keyof ClothingTags]}
+                  {groupTags.map(({ key, label }) => (
+                    <Badge
+                      key={key}
+                      variant="secondary"
+                      className={cn('text-xs', isLowConfidence(key) && 'bg-amber-100 text-amber-900 border-amber-300')}
+                      title={getTagTitle(key)}
+                    >
+                      {label}: {tags[key]}
+                      {renderConfidence(key)}
                     </Badge>
                   ))}
                 </div>
@@ -152,16 +169,26 @@ export const TagEditor: React.FC<TagEditorProps> = ({ tags, onTagsUpdate, classN
       <CardContent className="space-y-3">
         {/* 基础标签编辑 */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          {Object.entries(TAG_LABELS).map(([key, label]) => (
+          {taxonomy.dimensions.map(({ key, label, values }) => (
             <div key={key} className="space-y-1">
-              <Label htmlFor={key} className="text-xs">{label}</Label>
+              <Label htmlFor={key} className="text-xs">
+                {label}
+                {renderConfidence(key)}
+              </Label>
               <Input
                 id={key}
-                value={editedTags[key as keyof ClothingTags] || ''}
-                onChange={(e) => handleTagChange(key as keyof ClothingTags, e.target.value)}
-                className="h-8 text-xs"
+                list={values.length > 0 ? `tag-values-${key}` : undefined}
+                value={editedTags[key] || ''}
+                onChange={(e) => handleTagChange(key, e.target.value)}
+                className={cn('h-8 text-xs', isLowConfidence(key) && 'border-amber-400')}
                 placeholder={`输入${label}`}
               />
+              {/* 可选值作为输入建议 */}
+              {values.length > 0 && (
+                <datalist id={`tag-values-${key}`}>
+                  {values.map(value => <option key={value} value={value} />)}
+                </datalist>
+              )}
             </div>
           ))}
         </div>
@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import { Badge, BadgeProps } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ClothingTags } from '@/services/cozeService';
+import { ClothingTags, FieldConfidence } from '@/services/cozeService';
+import { LOW_CONFIDENCE_THRESHOLD, formatConfidence } from '@/services/confidenceService';
+import { getDimensionLabel } from '@/services/taxonomyService';
 import { Edit, Save, X, Tag } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -12,12 +14,14 @@ interface TagsDisplayProps {
   tags: ClothingTags;
   onTagsUpdate: (tags: ClothingTags) => void;
   className?: string;
+  fieldConfidence?: FieldConfidence; // 字段置信度，低于阈值的字段会高亮提示复核
 }
 
 export const TagsDisplay: React.FC<TagsDisplayProps> = ({ 
   tags, 
   onTagsUpdate, 
-  className 
+  className,
+  fieldConfidence
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editedTags, setEditedTags] = useState<ClothingTags>(tags);
@@ -36,7 +40,7 @@ export const TagsDisplay: React.FC<TagsDisplayProps> = ({
     setEditedTags(prev => ({ ...prev, [key]: value }));
   };
 
-  const getTagColor = (key: string, value: string) => {
+  const getTagColor = (key: string, value: string): BadgeProps['variant'] => {
     if (value === '未识别') return 'secondary';
     
     switch (key) {
@@ -106,28 +110,38 @@ export const TagsDisplay: React.FC<TagsDisplayProps> = ({
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {Object.entries(tags).map(([key, value]) => (
-            <div key={key} className="space-y-2">
-              <Label className="text-sm font-medium text-fashion-dark">
-                {key}
-              </Label>
-              {isEditing ? (
-                <Input
-                  value={editedTags[key as keyof ClothingTags]}
-                  onChange={(e) => handleInputChange(key as keyof ClothingTags, e.target.value)}
-                  className="h-8"
-                  placeholder={`请输入${key}`}
-                />
-              ) : (
-                <Badge 
-                  variant={getTagColor(key, value) as any}
-                  className="px-3 py-1 text-xs font-medium"
-                >
-                  {value}
-                </Badge>
-              )}
-            </div>
-          ))}
+          {Object.entries(tags).map(([key, value]) => {
+            const confidence = fieldConfidence?.[key as keyof ClothingTags];
+            const isLowConfidence = confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD;
+            return (
+              <div key={key} className="space-y-2">
+                <Label className="text-sm font-medium text-fashion-dark">
+                  {getDimensionLabel(key)}
+                  {confidence !== undefined && (
+                    <span className={cn('ml-2 text-xs font-normal text-muted-foreground', isLowConfidence && 'text-amber-700')}>
+                      置信度 {formatConfidence(confidence)}
+                    </span>
+                  )}
+                </Label>
+                {isEditing ? (
+                  <Input
+                    value={editedTags[key as keyof ClothingTags]}
+                    onChange={(e) => handleInputChange(key as keyof ClothingTags, e.target.value)}
+                    className="h-8"
+                    placeholder={`请输入${getDimensionLabel(key)}`}
+                  />
+                ) : (
+                  <Badge 
+                    variant={getTagColor(key, value)}
+                    className={cn('px-3 py-1 text-xs font-medium', isLowConfidence && 'ring-2 ring-amber-400')}
+                    title={isLowConfidence ? '置信度较低，建议人工复核' : undefined}
+                  >
+                    {value}
+                  </Badge>
+                )}
+              </div>
+            );
+          })}
         </div>
         
         {!isEditing && (
@@ -1,13 +1,27 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileSpreadsheet, Image as ImageIcon, Loader2, CheckCircle, AlertCircle, Eye } from 'lucide-react';
+import { Upload, FileSpreadsheet, Image as ImageIcon, Loader2, CheckCircle, AlertCircle, Eye, Pause, Play, Square } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
-import { analyzeClothingImage, ClothingTags, AnalysisResult } from '@/services/cozeService';
+import { ClothingTags, AnalysisResult } from '@/services/cozeService';
+import { BatchController, createBatchController } from '@/services/batchControl';
+import { tagValuesMatch } from '@/services/normalizationService';
+import { CONSENSUS_RUN_OPTIONS } from '@/services/confidenceService';
+import {
+  AnalysisJobItem,
+  createAnalysisJob,
+  getActiveJobController,
+  getJob,
+  getJobItems,
+  getJobItemResult,
+  runAnalysisJob,
+  subscribeToJobs
+} from '@/services/jobQueueService';
 import * as XLSX from 'xlsx';
 
 interface ExcelRow {
@@ -47,93 +61,43 @@ interface TestModeProps {
   className?: string;
 }
 
-// 智能标签匹配函数
-const isTagMatch = (predicted: string, correct: string): boolean => {
-  if (!predicted || !correct) return false;
+// 由任务中的单张图片结果和Excel标注生成测试结果
+const buildTestResult = (item: AnalysisJobItem, excelRow?: ExcelRow): TestResult | null => {
+  const analysisResult = getJobItemResult(item);
+  if (!analysisResult || !excelRow) return null;
   
-  // 转换为小写并去除空格
-  const pred = predicted.toLowerCase().trim();
-  const corr = correct.toLowerCase().trim();
-  
-  // 完全匹配
-  if (pred === corr) return true;
-  
-  // 同义词映射
-  const synonyms: { [key: string]: string[] } = {
-    // 领型同义词
-    '无': ['无领', '无领型'],
-    '无领': ['无', '无领型'],
-    '无领型': ['无', '无领'],
-    
-    // 颜色同义词
-    '蓝色': ['浅蓝色', '深蓝色', '蓝'],
-    '浅蓝色': ['蓝色', '蓝'],
-    '深蓝色': ['蓝色', '蓝'],
-    '蓝': ['蓝色', '浅蓝色', '深蓝色'],
-    '红色': ['浅红色', '深红色', '红'],
-    '浅红色': ['红色', '红'],
-    '深红色': ['红色', '红'],
-    '红': ['红色', '浅红色', '深红色'],
-    '绿色': ['浅绿色', '深绿色', '绿'],
-    '浅绿色': ['绿色', '绿'],
-    '深绿色': ['绿色', '绿'],
-    '绿': ['绿色', '浅绿色', '深绿色'],
-    '黄色': ['浅黄色', '深黄色', '黄'],
-    '浅黄色': ['黄色', '黄'],
-    '深黄色': ['黄色', '黄'],
-    '黄': ['黄色', '浅黄色', '深黄色'],
-    '紫色': ['浅紫色', '深紫色', '紫'],
-    '浅紫色': ['紫色', '紫'],
-    '深紫色': ['紫色', '紫'],
-    '紫': ['紫色', '浅紫色', '深紫色'],
-    '灰色': ['浅灰色', '深灰色', '灰'],
-    '浅灰色': ['灰色', '灰'],
-    '深灰色': ['灰色', '灰'],
-    '灰': ['灰色', '浅灰色', '深灰色'],
-    
-    // 样式同义词
-    't恤': ['t 恤', 'T恤', 'T 恤', 'tshirt', 't-shirt'],
-    't 恤': ['t恤', 'T恤', 'T 恤', 'tshirt', 't-shirt'],
-    'T恤': ['t恤', 't 恤', 'T 恤', 'tshirt', 't-shirt'],
-    'T 恤': ['t恤', 't 恤', 'T恤', 'tshirt', 't-shirt'],
-    '衬衫': ['衬衣'],
-    '衬衣': ['衬衫'],
-    '连衣裙': ['裙子', '长裙'],
-    '裙子': ['连衣裙'],
-    '长裙': ['连衣裙'],
-    
-    // 袖型同义词
-    '短袖': ['短袖型', '短'],
-    '短袖型': ['短袖', '短'],
-    '短': ['短袖', '短袖型'],
-    '长袖': ['长袖型', '长'],
-    '长袖型': ['长袖', '长'],
-    '长': ['长袖', '长袖型'],
-    '无袖': ['无袖型', '无'],
-    '无袖型': ['无袖', '无'],
+  // 提取最终的预测标签
+  const predictedTags = {
+    style: analysisResult.tags.样式名称 || '',
+    color: analysisResult.tags.颜色 || '',
+    collar: analysisResult.tags.领 || '',
+    sleeve: analysisResult.tags.袖 || ''
   };
   
-  // 检查同义词匹配
-  if (synonyms[pred] && synonyms[pred].includes(corr)) {
-    return true;
-  }
-  if (synonyms[corr] && synonyms[corr].includes(pred)) {
-    return true;
-  }
-  
-  // 模糊匹配（去除空格、标点符号）
-  const cleanPred = pred.replace(/[\s\-_]/g, '');
-  const cleanCorr = corr.replace(/[\s\-_]/g, '');
-  if (cleanPred === cleanCorr) return true;
+  // 正确标签
+  const correctTags = {
+    style: excelRow.style,
+    color: excelRow.color,
+    collar: excelRow.collar,
+    sleeve: excelRow.sleeve
+  };
   
-  // 包含关系匹配（较短的字符串包含在较长的字符串中）
-  if (pred.length > 2 && corr.length > 2) {
-    if (pred.includes(corr) || corr.includes(pred)) {
-      return true;
-    }
-  }
+  // 比较标签准确性（与标签归一化共用同义词词典）
+  const isCorrect = {
+    style: tagValuesMatch('样式名称', predictedTags.style, correctTags.style),
+    color: tagValuesMatch('颜色', predictedTags.color, correctTags.color),
+    collar: tagValuesMatch('领', predictedTags.collar, correctTags.collar),
+    sleeve: tagValuesMatch('袖', predictedTags.sleeve, correctTags.sleeve)
+  };
   
-  return false;
+  return {
+    filename: item.fileName,
+    correctTags,
+    predictedTags,
+    isCorrect,
+    imageUrl: analysisResult.imageUrl,
+    analysisResult
+  };
 };
 
 export const TestMode: React.FC<TestModeProps> = ({ className }) => {
@@ -141,6 +105,9 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
   const [excelData, setExcelData] = useState<ExcelRow[]>([]);
   const [images, setImages] = useState<File[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [consensusRuns, setConsensusRuns] = useState(1); // 每张图片识别次数，大于1时多数投票
+  const controllerRef = useRef<BatchController | null>(null);
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [progress, setProgress] = useState(0);
   const [accuracy, setAccuracy] = useState<{
@@ -159,7 +126,7 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
     progress: 'testMode_progress',
     accuracy: 'testMode_accuracy',
     excelData: 'testMode_excelData',
-    isAnalyzing: 'testMode_isAnalyzing'
+    jobId: 'testMode_jobId' // 当前测试任务，用于页面刷新后继续
   };
 
   // 组件加载时恢复状态
@@ -169,7 +136,7 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
       const savedProgress = localStorage.getItem(STORAGE_KEYS.progress);
       const savedAccuracy = localStorage.getItem(STORAGE_KEYS.accuracy);
       const savedExcelData = localStorage.getItem(STORAGE_KEYS.excelData);
-      const savedIsAnalyzing = localStorage.getItem(STORAGE_KEYS.isAnalyzing);
+      const savedJobId = localStorage.getItem(STORAGE_KEYS.jobId);
 
       if (savedTestResults) {
         setTestResults(JSON.parse(savedTestResults));
@@ -183,8 +150,13 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
       if (savedExcelData) {
         setExcelData(JSON.parse(savedExcelData));
       }
-      if (savedIsAnalyzing) {
-        setIsAnalyzing(JSON.parse(savedIsAnalyzing));
+      // 上次未完成的测试任务会在页面加载时自动继续，这里接上它的进度和结果
+      if (savedJobId) {
+        getJob(savedJobId).then(job => {
+          if (job && (job.status === 'running' || job.status === 'pending')) {
+            attachToTestJob(savedJobId);
+          }
+        }).catch(error => console.error('恢复测试任务失败:', error));
       }
     } catch (error) {
       console.error('恢复测试模式状态失败:', error);
@@ -198,11 +170,10 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
       localStorage.setItem(STORAGE_KEYS.progress, JSON.stringify(progress));
       localStorage.setItem(STORAGE_KEYS.accuracy, JSON.stringify(accuracy));
       localStorage.setItem(STORAGE_KEYS.excelData, JSON.stringify(excelData));
-      localStorage.setItem(STORAGE_KEYS.isAnalyzing, JSON.stringify(isAnalyzing));
     } catch (error) {
       console.error('保存测试模式状态失败:', error);
     }
-  }, [testResults, progress, accuracy, excelData, isAnalyzing]);
+  }, [testResults, progress, accuracy, excelData]);
 
   // 当状态变化时保存到localStorage
   useEffect(() => {
@@ -257,7 +228,7 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
   const { getRootProps: getImageRootProps, getInputProps: getImageInputProps, isDragActive: isImageDragActive } = useDropzone({
     onDrop: onImageDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.webp']
+      'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.heic', '.heif', '.bmp', '.tif', '.tiff']
     },
     multiple: true,
     disabled: isAnalyzing
@@ -300,6 +271,67 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
     reader.readAsArrayBuffer(file);
   };
 
+  // 等待测试任务完成并计算结果；页面刷新后自动继续的任务也通过这里重新接上
+  const attachToTestJob = async (jobId: string, controller?: BatchController) => {
+    const job = await getJob(jobId);
+    if (!job) {
+      localStorage.removeItem(STORAGE_KEYS.jobId);
+      return;
+    }
+    
+    const excelRows = (job.meta?.excelRows || []) as ExcelRow[];
+    
+    setIsAnalyzing(true);
+    setIsPaused(false);
+    
+    const initialItems = await getJobItems(jobId);
+    let finishedCount = initialItems.filter(item => item.status === 'done' || item.status === 'failed').length;
+    setProgress((finishedCount / job.total) * 100);
+    
+    const unsubscribe = subscribeToJobs(event => {
+      if (event.type === 'item' && event.job.id === jobId && (event.item.status === 'done' || event.item.status === 'failed')) {
+        setProgress((++finishedCount / job.total) * 100);
+      } else if (event.type === 'job' && event.job.id === jobId) {
+        setIsPaused(event.job.status === 'paused');
+      }
+    });
+    
+    try {
+      const runPromise = runAnalysisJob(jobId, controller);
+      controllerRef.current = getActiveJobController(jobId);
+      const items = await runPromise;
+      const aborted = controllerRef.current?.signal.aborted ?? false;
+      
+      // 取消时保留已完成部分的结果，准确率按已完成的图片计算
+      const results = items
+        .map(item => buildTestResult(item, excelRows[item.index]))
+        .filter((result): result is TestResult => result !== null);
+      
+      setTestResults(results);
+      calculateAccuracy(results);
+      
+      toast({
+        title: aborted ? "测试已取消" : "测试完成",
+        description: aborted
+          ? `已保留 ${results.length}/${job.total} 张图片的测试结果`
+          : `已完成 ${results.length} 张图片的测试`,
+      });
+      
+    } catch (error) {
+      console.error('测试过程中出错:', error);
+      toast({
+        title: "测试失败",
+        description: "测试过程中出现错误，请重试",
+        variant: "destructive",
+      });
+    } finally {
+      unsubscribe();
+      controllerRef.current = null;
+      setIsPaused(false);
+      setIsAnalyzing(false);
+    }
+  };
+
   // 开始测试
   const startTest = async () => {
     if (!excelFile || images.length === 0) {
@@ -311,127 +343,71 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
       return;
     }
 
-    setIsAnalyzing(true);
     setProgress(0);
     setTestResults([]);
     setAccuracy(null);
 
-    const results: TestResult[] = [];
-    
-    try {
-      for (let i = 0; i < images.length; i++) {
-        const image = images[i];
-        const imageName = image.name;
-        
-        // 查找对应的Excel数据
-        const excelRow = excelData.find(row => 
-          row.filename === imageName || 
-          row.filename === imageName.replace(/\.[^/.]+$/, '') // 去掉扩展名匹配
-        );
-        
+    // 查找每张图片对应的Excel数据
+    const matched = images
+      .map(image => ({
+        image,
+        excelRow: excelData.find(row => 
+          row.filename === image.name || 
+          row.filename === image.name.replace(/\.[^/.]+$/, '') // 去掉扩展名匹配
+        )
+      }))
+      .filter(({ image, excelRow }) => {
         if (!excelRow) {
-          console.warn(`未找到图片 ${imageName} 对应的Excel数据`);
-          continue;
-        }
-
-        try {
-          // 分析图片（带重试逻辑）
-          let analysisResult = await analyzeClothingImage(image);
-          let retryCount = 0;
-          const maxRetries = 3;
-          
-          // 检查是否有"未识别"的结果，如果有则重试
-          while (retryCount < maxRetries) {
-            const predictedTags = {
-              style: analysisResult.tags.样式名称 || '',
-              color: analysisResult.tags.颜色 || '',
-              collar: analysisResult.tags.领 || '',
-              sleeve: analysisResult.tags.袖 || ''
-            };
-            
-            // 检查是否有"未识别"的结果
-            const hasUnrecognized = Object.values(predictedTags).some(tag => 
-              tag === '未识别' || tag === '无法识别' || tag === '' || tag === 'unknown'
-            );
-            
-            if (!hasUnrecognized) {
-              break; // 没有未识别的结果，退出重试循环
-            }
-            
-            retryCount++;
-            if (retryCount < maxRetries) {
-              console.log(`图片 ${imageName} 存在未识别结果，进行第 ${retryCount} 次重试`);
-              // 等待一小段时间后重试
-              await new Promise(resolve => setTimeout(resolve, 1000));
-              analysisResult = await analyzeClothingImage(image);
-            } else {
-              console.warn(`图片 ${imageName} 重试 ${maxRetries} 次后仍有未识别结果`);
-            }
-          }
-          
-          // 提取最终的预测标签
-          const predictedTags = {
-            style: analysisResult.tags.样式名称 || '',
-            color: analysisResult.tags.颜色 || '',
-            collar: analysisResult.tags.领 || '',
-            sleeve: analysisResult.tags.袖 || ''
-          };
-          
-          // 正确标签
-          const correctTags = {
-            style: excelRow.style,
-            color: excelRow.color,
-            collar: excelRow.collar,
-            sleeve: excelRow.sleeve
-          };
-          
-          // 比较标签准确性（使用智能匹配）
-          const isCorrect = {
-            style: isTagMatch(predictedTags.style, correctTags.style),
-            color: isTagMatch(predictedTags.color, correctTags.color),
-            collar: isTagMatch(predictedTags.collar, correctTags.collar),
-            sleeve: isTagMatch(predictedTags.sleeve, correctTags.sleeve)
-          };
-          
-          const testResult: TestResult = {
-            filename: imageName,
-            correctTags,
-            predictedTags,
-            isCorrect,
-            imageUrl: URL.createObjectURL(image),
-            analysisResult
-          };
-          
-          results.push(testResult);
-          
-        } catch (error) {
-          console.error(`分析图片 ${imageName} 失败:`, error);
+          console.warn(`未找到图片 ${image.name} 对应的Excel数据`);
         }
-        
-        // 更新进度
-        setProgress(((i + 1) / images.length) * 100);
-      }
-      
-      setTestResults(results);
-      calculateAccuracy(results);
-      
-      toast({
-        title: "测试完成",
-        description: `已完成 ${results.length} 张图片的测试`,
+        return !!excelRow;
       });
+
+    try {
+      // 测试任务保存在IndexedDB中，页面刷新后自动继续；
+      // 不投票时指定字段未识别最多分析3次，投票时每张图片识别consensusRuns次取多数结果
+      const job = await createAnalysisJob(
+        'test',
+        `测试模式 ${matched.length} 张图片`,
+        matched.map(({ image }) => image),
+        consensusRuns > 1
+          ? { consensusRuns }
+          : { retryUnrecognizedFields: ['样式名称', '颜色', '领', '袖'], maxUnrecognizedRetries: 3 },
+        { excelRows: matched.map(({ excelRow }) => excelRow) }
+      );
+      localStorage.setItem(STORAGE_KEYS.jobId, job.id);
       
+      await attachToTestJob(job.id, createBatchController());
     } catch (error) {
-      console.error('测试过程中出错:', error);
+      console.error('创建测试任务失败:', error);
       toast({
         title: "测试失败",
-        description: "测试过程中出现错误，请重试",
+        description: "无法创建测试任务，请检查浏览器存储空间",
         variant: "destructive",
       });
-    } finally {
-      setIsAnalyzing(false);
     }
   };
 
+  // 暂停/继续测试，暂停后正在分析的图片会继续完成
+  const togglePause = () => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    
+    if (controller.isPaused()) {
+      controller.resume();
+      setIsPaused(false);
+    } else {
+      controller.pause();
+      setIsPaused(true);
+    }
+  };
+
+  // 取消测试
+  const cancelTest = () => {
+    controllerRef.current?.cancel();
+    setIsPaused(false);
+  };
+
   // 计算准确率
   const calculateAccuracy = (results: TestResult[]) => {
     if (results.length === 0) return;
@@ -574,7 +550,7 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
                     {isImageDragActive ? '释放文件开始上传' : '上传测试图片'}
                   </h4>
                   <p className="text-sm text-muted-foreground">
-                    支持 JPG、PNG、WebP 格式
+                    支持 JPG、PNG、WebP、HEIC、BMP、TIFF 格式
                   </p>
                 </div>
               </div>
@@ -632,6 +608,45 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
                 )}
               </Button>
               
+              <Select
+                value={String(consensusRuns)}
+                onValueChange={(value) => setConsensusRuns(Number(value))}
+                disabled={isAnalyzing}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONSENSUS_RUN_OPTIONS.map(runs => (
+                    <SelectItem key={runs} value={String(runs)}>
+                      {runs === 1 ? '识别1次' : `识别${runs}次投票`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              
+              {isAnalyzing && controllerRef.current && (
+                <>
+                  <Button 
+                    variant="outline"
+                    onClick={togglePause}
+                    className="flex items-center space-x-2"
+                  >
+                    {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                    <span>{isPaused ? '继续' : '暂停'}</span>
+                  </Button>
+                  
+                  <Button 
+                    variant="destructive"
+                    onClick={cancelTest}
+                    className="flex items-center space-x-2"
+                  >
+                    <Square className="h-4 w-4" />
+                    <span>取消</span>
+                  </Button>
+                </>
+              )}
+              
               <Button 
                 variant="outline"
                 onClick={clearTestState}
@@ -655,7 +670,7 @@ export const TestMode: React.FC<TestModeProps> = ({ className }) => {
             
             {isAnalyzing && (
               <div className="flex items-center space-x-3">
-                <span className="text-sm text-muted-foreground">进度:</span>
+                <span className="text-sm text-muted-foreground">{isPaused ? '已暂停:' : '进度:'}</span>
                 <Progress value={progress} className="w-32" />
                 <span className="text-sm font-medium">{Math.round(progress)}%</span>
               </div>
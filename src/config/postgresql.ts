@@ -22,22 +22,30 @@ export interface ClothingAnalysisRecord {
   image_name: string;
   image_size: number;
   image_hash?: string; // 图片内容哈希，用于防重复上传
-  tags: {
-    样式名称: string;
-    颜色: string;
-    色调: string;
-    领: string;
-    袖: string;
-    版型: string;
-    长度: string;
-    面料: string;
-    图案: string;
-    工艺: string;
-    场合: string;
-    季节: string;
-    风格: string;
-  };
+  tags: Record<string, string>; // 键为标签体系中的维度，见taxonomyService
   confidence: number;
+  field_confidence?: Partial<Record<string, number>> | null; // 字段置信度（0-1）
+  // 多件服装：每件的标签、置信度和位置（相对图片的比例），tags对应第一件
+  garments?: {
+    tags: ClothingAnalysisRecord['tags'];
+    confidence: number;
+    fieldConfidence?: Partial<Record<string, number>>;
+    boundingBox?: { x: number; y: number; width: number; height: number };
+    rawTags?: Record<string, string>;
+  }[] | null;
+  raw_tags?: Record<string, string> | null; // 归一化前的原始值，只包含被同义词词典改写的字段
+  // 结果来源：识别服务、工作流ID和版本、模型、解析器版本和解析方式，以及模型的原始输出
+  provider?: string | null;
+  workflow_id?: string | null;
+  workflow_version?: string | null;
+  model?: string | null;
+  parser_version?: string | null;
+  parse_strategy?: string | null;
+  raw_output?: string | null;
+  features?: number[] | null; // 相似度搜索的图片特征向量，入库时计算
+  feature_version?: number | null; // 计算特征向量时的特征版本，与当前版本不同时需要重新计算
+  dhash?: string | null; // 感知哈希，与特征向量一起计算，用于查找近似重复的图片
+  phash?: string | null;
   analysis_time: number;
   created_at?: string;
   updated_at?: string;
@@ -57,12 +65,62 @@ export const initializeDatabase = async (): Promise<void> => {
         image_hash TEXT UNIQUE,
         tags JSONB NOT NULL,
         confidence REAL NOT NULL,
+        field_confidence JSONB,
+        garments JSONB,
+        raw_tags JSONB,
+        provider TEXT,
+        workflow_id TEXT,
+        workflow_version TEXT,
+        model TEXT,
+        parser_version TEXT,
+        parse_strategy TEXT,
+        raw_output TEXT,
+        features JSONB,
+        feature_version INTEGER,
+        dhash TEXT,
+        phash TEXT,
         analysis_time BIGINT NOT NULL,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
       );
     `);
     
+    // 旧表补充字段置信度列
+    await client.query(`
+      ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS field_confidence JSONB;
+    `);
+    
+    // 旧表补充多件服装列
+    await client.query(`
+      ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS garments JSONB;
+    `);
+    
+    // 旧表补充归一化前原始值列
+    await client.query(`
+      ALTER TABLE clothing_analysis ADD COLUMN IF NOT EXISTS raw_tags JSONB;
+    `);
+    
+    // 旧表补充结果来源列
+    await client.query(`
+      ALTER TABLE clothing_analysis
+        ADD COLUMN IF NOT EXISTS provider TEXT,
+        ADD COLUMN IF NOT EXISTS workflow_id TEXT,
+        ADD COLUMN IF NOT EXISTS workflow_version TEXT,
+        ADD COLUMN IF NOT EXISTS model TEXT,
+        ADD COLUMN IF NOT EXISTS parser_version TEXT,
+        ADD COLUMN IF NOT EXISTS parse_strategy TEXT,
+        ADD COLUMN IF NOT EXISTS raw_output TEXT;
+    `);
+    
+    // 旧表补充特征向量列
+    await client.query(`
+      ALTER TABLE clothing_analysis
+        ADD COLUMN IF NOT EXISTS features JSONB,
+        ADD COLUMN IF NOT EXISTS feature_version INTEGER,
+        ADD COLUMN IF NOT EXISTS dhash TEXT,
+        ADD COLUMN IF NOT EXISTS phash TEXT;
+    `);
+    
     // 创建索引以提高查询性能
     await client.query(`
       CREATE INDEX IF NOT EXISTS idx_clothing_analysis_created_at 
@@ -14,22 +14,26 @@ export interface ClothingAnalysisRecord {
   image_name: string;
   image_size: number;
   image_hash?: string; // 图片内容哈希，用于防重复上传
-  tags: {
-    样式名称: string;
-    颜色: string;
-    色调: string;
-    领: string;
-    袖: string;
-    版型: string;
-    长度: string;
-    面料: string;
-    图案: string;
-    工艺: string;
-    场合: string;
-    季节: string;
-    风格: string;
-  };
+  tags: Record<string, string>; // 键为标签体系中的维度，见taxonomyService
   confidence: number;
+  field_confidence?: Partial<Record<string, number>> | null; // 字段置信度（0-1）
+  // 多件服装：每件的标签、置信度和位置（相对图片的比例），tags对应第一件
+  garments?: {
+    tags: ClothingAnalysisRecord['tags'];
+    confidence: number;
+    fieldConfidence?: Partial<Record<string, number>>;
+    boundingBox?: { x: number; y: number; width: number; height: number };
+    rawTags?: Record<string, string>;
+  }[] | null;
+  raw_tags?: Record<string, string> | null; // 归一化前的原始值，只包含被同义词词典改写的字段
+  // 结果来源：识别服务、工作流ID和版本、模型、解析器版本和解析方式，以及模型的原始输出
+  provider?: string | null;
+  workflow_id?: string | null;
+  workflow_version?: string | null;
+  model?: string | null;
+  parser_version?: string | null;
+  parse_strategy?: string | null;
+  raw_output?: string | null;
   analysis_time: number;
   created_at?: string;
   updated_at?: string;
@@ -0,0 +1,14 @@
+import * as React from "react"
+import { getTaxonomy, subscribeToTaxonomy, TagTaxonomy } from "@/services/taxonomyService"
+
+// 当前标签体系，后端加载或管理页面保存后自动更新
+export function useTaxonomy(): TagTaxonomy {
+  const [taxonomy, setTaxonomy] = React.useState<TagTaxonomy>(getTaxonomy)
+
+  React.useEffect(() => {
+    setTaxonomy(getTaxonomy())
+    return subscribeToTaxonomy(setTaxonomy)
+  }, [])
+
+  return taxonomy
+}
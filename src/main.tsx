@@ -3,10 +3,18 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import { initializeDatabaseService } from './services/databaseService'
+import { resumeInterruptedJobs } from './services/jobQueueService'
+import { loadTaxonomy } from './services/taxonomyService'
 
 // 初始化数据库服务
 initializeDatabaseService().catch(console.error)
 
+// 从后端加载标签体系
+loadTaxonomy().catch(console.error)
+
+// 继续上次页面关闭时未完成的分析任务
+resumeInterruptedJobs().catch(console.error)
+
 createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <App />
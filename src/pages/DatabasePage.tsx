@@ -5,7 +5,9 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { AlertCircle, Database, Search, Trash2, Download, BarChart3, CheckSquare, Square } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Database, Search, Trash2, Download, BarChart3, CheckSquare, Square, FileSpreadsheet } from 'lucide-react';
+import * as XLSX from 'xlsx';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   getAnalysisHistory,
@@ -13,11 +15,34 @@ import {
   deleteMultipleAnalysisRecords,
   searchAnalysisRecords,
   getAnalysisStats,
+  getRecordProvenance,
   ClothingAnalysisRecord
 } from '@/services/databaseService';
 import { checkDatabaseConnection } from '@/services/databaseService';
 import { MultiSelectDatabaseGrid } from '@/components/MultiSelectDatabaseGrid';
 import { AnalysisResult } from '@/services/cozeService';
+import { getTagExportColumns } from '@/services/taxonomyService';
+import { RECOGNITION_PROVIDER_OPTIONS } from '@/services/settingsService';
+
+// 按结果来源筛选的列；值为空的旧记录归为"未记录"
+const PROVENANCE_FILTERS = [
+  { column: 'provider', label: '识别服务' },
+  { column: 'workflow_version', label: '工作流版本' },
+  { column: 'parser_version', label: '解析器版本' }
+] as const;
+
+type ProvenanceFilterColumn = typeof PROVENANCE_FILTERS[number]['column'];
+
+const ALL_VALUES = 'all';
+const MISSING_VALUE = 'none';
+
+const getProvenanceValueLabel = (column: ProvenanceFilterColumn, value: string) => {
+  if (value === MISSING_VALUE) return '未记录';
+  if (column === 'provider') {
+    return RECOGNITION_PROVIDER_OPTIONS.find(option => option.id === value)?.label || value;
+  }
+  return value;
+};
 
 const DatabasePage: React.FC = () => {
   const [records, setRecords] = useState<ClothingAnalysisRecord[]>([]);
@@ -28,6 +53,24 @@ const DatabasePage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedRecords, setSelectedRecords] = useState<Set<string>>(new Set());
   const [isMultiSelectMode, setIsMultiSelectMode] = useState(false);
+  const [provenanceFilters, setProvenanceFilters] = useState<Record<ProvenanceFilterColumn, string>>({
+    provider: ALL_VALUES,
+    workflow_version: ALL_VALUES,
+    parser_version: ALL_VALUES
+  });
+
+  // 每个筛选列在当前记录中出现过的值
+  const provenanceOptions = PROVENANCE_FILTERS.map(({ column, label }) => ({
+    column,
+    label,
+    values: Array.from(new Set(records.map(record => record[column] || MISSING_VALUE))).sort()
+  }));
+
+  const filteredRecords = records.filter(record =>
+    PROVENANCE_FILTERS.every(({ column }) =>
+      provenanceFilters[column] === ALL_VALUES || (record[column] || MISSING_VALUE) === provenanceFilters[column]
+    )
+  );
 
   // 将数据库记录转换为AnalysisResult格式
   const convertToAnalysisResult = (record: ClothingAnalysisRecord): AnalysisResult => {
@@ -35,6 +78,10 @@ const DatabasePage: React.FC = () => {
       imageUrl: record.image_url || '',
       tags: record.tags || {},
       confidence: record.confidence || 0, // 移除假置信度数据
+      fieldConfidence: record.field_confidence || undefined,
+      garments: record.garments || undefined,
+      rawTags: record.raw_tags || undefined,
+      provenance: getRecordProvenance(record),
       analysisTime: record.analysis_time || 0,
       fileName: record.image_name || ''
     };
@@ -160,10 +207,10 @@ const DatabasePage: React.FC = () => {
 
   // 全选/取消全选
   const toggleSelectAll = () => {
-    if (selectedRecords.size === records.length) {
+    if (selectedRecords.size === filteredRecords.length) {
       setSelectedRecords(new Set());
     } else {
-      setSelectedRecords(new Set(records.map(record => record.id!)));
+      setSelectedRecords(new Set(filteredRecords.map(record => record.id!)));
     }
   };
 
@@ -213,7 +260,7 @@ const DatabasePage: React.FC = () => {
 
   // 导出数据
   const handleExport = () => {
-    const dataStr = JSON.stringify(records, null, 2);
+    const dataStr = JSON.stringify(filteredRecords, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
     const link = document.createElement('a');
@@ -223,6 +270,30 @@ const DatabasePage: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  // 导出表格：标签列按当前标签体系生成
+  const handleExportSheet = () => {
+    const tagColumns = getTagExportColumns();
+    const rows = filteredRecords.map(record => {
+      const row: Record<string, string | number> = { '文件名': record.image_name };
+      tagColumns.forEach(({ key, header }) => {
+        row[header] = record.tags?.[key] || '';
+      });
+      row['置信度'] = record.confidence ?? '';
+      row['识别服务'] = record.provider ? getProvenanceValueLabel('provider', record.provider) : '';
+      row['工作流版本'] = record.workflow_version || '';
+      row['解析器版本'] = record.parser_version || '';
+      row['创建时间'] = formatDate(record.created_at);
+      return row;
+    });
+
+    const worksheet = XLSX.utils.json_to_sheet(rows, {
+      header: ['文件名', ...tagColumns.map(column => column.header), '置信度', '识别服务', '工作流版本', '解析器版本', '创建时间']
+    });
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, '分析结果');
+    XLSX.writeFile(workbook, `clothing_analysis_database_${new Date().toISOString().split('T')[0]}.xlsx`);
+  };
+
   // 格式化日期
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('zh-CN');
@@ -296,6 +367,10 @@ const DatabasePage: React.FC = () => {
             <Download className="h-4 w-4 mr-2" />
             导出数据
           </Button>
+          <Button onClick={handleExportSheet} variant="outline">
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            导出表格
+          </Button>
         </div>
       </div>
 
@@ -327,6 +402,32 @@ const DatabasePage: React.FC = () => {
             </Button>
           </div>
 
+          {/* 按结果来源筛选 */}
+          <div className="flex flex-wrap gap-2 mb-4">
+            {provenanceOptions.map(({ column, label, values }) => (
+              <Select
+                key={column}
+                value={provenanceFilters[column]}
+                onValueChange={value => {
+                  setProvenanceFilters(prev => ({ ...prev, [column]: value }));
+                  setSelectedRecords(new Set());
+                }}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VALUES}>全部{label}</SelectItem>
+                  {values.map(value => (
+                    <SelectItem key={value} value={value}>
+                      {label}：{getProvenanceValueLabel(column, value)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+
           {/* 多选模式控制栏 */}
           <div className="bg-white rounded-lg shadow-sm border p-4 mb-6">
             <div className="flex items-center justify-between">
@@ -337,7 +438,7 @@ const DatabasePage: React.FC = () => {
                 </Button>
                 
                 <div className="text-sm text-gray-600">
-                  共 {records.length} 条记录
+                  共 {filteredRecords.length} 条记录
                 </div>
               </div>
               
@@ -346,12 +447,12 @@ const DatabasePage: React.FC = () => {
                 <div className="flex items-center gap-4">
                   <div className="flex items-center gap-2">
                     <Checkbox
-                      checked={selectedRecords.size === records.length && records.length > 0}
+                      checked={selectedRecords.size === filteredRecords.length && filteredRecords.length > 0}
                       onCheckedChange={toggleSelectAll}
                       id="select-all-db"
                     />
                     <label htmlFor="select-all-db" className="text-sm cursor-pointer">
-                      全选 ({selectedRecords.size}/{records.length})
+                      全选 ({selectedRecords.size}/{filteredRecords.length})
                     </label>
                   </div>
                   
@@ -369,13 +470,13 @@ const DatabasePage: React.FC = () => {
           {/* 记录列表 */}
           {loading ? (
             <div className="text-center py-8">加载中...</div>
-          ) : records.length === 0 ? (
+          ) : filteredRecords.length === 0 ? (
             <div className="text-center py-8 text-gray-500">
-              {searchTerm ? '未找到匹配的记录' : '暂无分析记录'}
+              {searchTerm || records.length > 0 ? '未找到匹配的记录' : '暂无分析记录'}
             </div>
           ) : (
             <MultiSelectDatabaseGrid 
-              records={records}
+              records={filteredRecords}
               onDelete={handleDelete}
               isMultiSelectMode={isMultiSelectMode}
               selectedRecords={selectedRecords}
@@ -0,0 +1,470 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Copy, Crown, GitMerge, RefreshCw, Square, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getAnalysisHistory as getHistoryRecords,
+  deleteHistoryRecord,
+  updateHistoryRecord,
+  getImageFromIndexedDB
+} from '@/services/historyService';
+import {
+  getAnalysisHistory as getDatabaseRecords,
+  deleteAnalysisRecord,
+  updateAnalysisRecord,
+  getRecordSignature
+} from '@/services/databaseService';
+import { SignatureSource, getImageSignatures } from '@/services/similarityService';
+import {
+  PHASH_NEAR_DUPLICATE_DISTANCE,
+  PerceptualHashes,
+  groupNearDuplicates,
+  hammingDistance
+} from '@/services/imageHashService';
+import { isAbortError } from '@/services/batchControl';
+import { calculateOverallConfidence, hasFieldConfidence } from '@/services/confidenceService';
+import { ClothingTags, FieldConfidence, GarmentResult, hasGarmentDetails } from '@/services/cozeService';
+
+type DuplicateSource = 'history' | 'database';
+
+interface DuplicateItem extends PerceptualHashes {
+  key: string;
+  id: string;
+  source: DuplicateSource;
+  name: string;
+  imageUrl: string;
+  tags: ClothingTags;
+  confidence: number;
+  fieldConfidence?: FieldConfidence;
+  rawTags?: Record<string, string>;
+  garments?: GarmentResult[];
+  timestamp: number;
+}
+
+// 合并后保留的记录需要更新的识别结果
+interface MergedResult {
+  tags: ClothingTags;
+  confidence: number;
+  fieldConfidence?: FieldConfidence;
+  rawTags?: Record<string, string>;
+  garments?: GarmentResult[];
+}
+
+// 判定为重复的pHash距离（dHash允许2倍），越大越宽松
+const SENSITIVITY_OPTIONS = [
+  { value: 4, label: '严格' },
+  { value: PHASH_NEAR_DUPLICATE_DISTANCE, label: '标准' },
+  { value: 12, label: '宽松' }
+];
+
+const SOURCE_LABELS: Record<DuplicateSource, string> = {
+  history: '历史记录',
+  database: '数据库'
+};
+
+const isRecognized = (value: string | undefined) => !!value && value.trim() !== '' && value !== '未识别';
+
+// 组内最佳的记录：置信度最高，相同时保留最新的
+const pickBest = (group: DuplicateItem[]): DuplicateItem => {
+  return group.reduce((best, item) => {
+    if (item.confidence !== best.confidence) return item.confidence > best.confidence ? item : best;
+    return item.timestamp > best.timestamp ? item : best;
+  });
+};
+
+// 按多件服装保存的记录只能保留最佳：各记录的服装数量和位置不一定对应，无法按字段合并
+const canMergeGroup = (items: DuplicateItem[]) => !items.some(item => hasGarmentDetails(item.garments));
+
+// 合并标签：保留最佳记录的标签，未识别的字段用其他记录识别出的值补充；
+// 字段置信度和归一化前的原始值随补充的值一起取自提供该值的记录，整体置信度按合并后的字段置信度重新计算
+const mergeResults = (best: DuplicateItem, others: DuplicateItem[]): MergedResult => {
+  const tags: ClothingTags = { ...best.tags };
+  const fieldConfidence: FieldConfidence = { ...best.fieldConfidence };
+  const rawTags: Record<string, string> = { ...best.rawTags };
+  others.forEach(item => {
+    Object.entries(item.tags || {}).forEach(([key, value]) => {
+      if (isRecognized(tags[key]) || !isRecognized(value)) return;
+      tags[key] = value;
+      if (item.fieldConfidence?.[key] !== undefined) {
+        fieldConfidence[key] = item.fieldConfidence[key];
+      } else {
+        delete fieldConfidence[key];
+      }
+      if (item.rawTags?.[key] !== undefined) {
+        rawTags[key] = item.rawTags[key];
+      } else {
+        delete rawTags[key];
+      }
+    });
+  });
+
+  const merged: MergedResult = {
+    tags,
+    confidence: hasFieldConfidence(fieldConfidence) ? calculateOverallConfidence(fieldConfidence) : best.confidence,
+    fieldConfidence: hasFieldConfidence(fieldConfidence) ? fieldConfidence : undefined,
+    rawTags: Object.keys(rawTags).length > 0 ? rawTags : undefined
+  };
+  // 只有一件服装时，服装列表与tags对应，一起更新
+  if (best.garments?.length === 1) {
+    merged.garments = [{ ...best.garments[0], ...merged }];
+  }
+  return merged;
+};
+
+// 释放历史记录图片的对象URL，清空数组
+const revokeObjectUrls = (urls: string[]) => {
+  urls.splice(0).forEach(url => URL.revokeObjectURL(url));
+};
+
+const DuplicatesPage: React.FC = () => {
+  const [items, setItems] = useState<DuplicateItem[]>([]);
+  const [distance, setDistance] = useState(PHASH_NEAR_DUPLICATE_DISTANCE);
+  const [scanning, setScanning] = useState(false);
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [databaseAvailable, setDatabaseAvailable] = useState(true);
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const objectUrlsRef = useRef<string[]>([]);
+  const { toast } = useToast();
+
+  const scanDuplicates = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setScanning(true);
+      setProgress({ current: 0, total: 0 });
+      revokeObjectUrls(objectUrlsRef.current);
+
+      const candidates: Omit<DuplicateItem, 'dHash' | 'pHash'>[] = [];
+      const sources: SignatureSource[] = [];
+
+      // 历史记录：从IndexedDB读取原图计算
+      for (const record of getHistoryRecords()) {
+        const file = await getImageFromIndexedDB(record.id);
+        if (!file) continue;
+        const imageUrl = URL.createObjectURL(file);
+        objectUrlsRef.current.push(imageUrl);
+        const key = `history:${record.id}`;
+        candidates.push({
+          key,
+          id: record.id,
+          source: 'history',
+          name: record.fileName,
+          imageUrl,
+          tags: record.tags || {},
+          confidence: record.confidence || 0,
+          fieldConfidence: record.fieldConfidence,
+          rawTags: record.rawTags,
+          garments: record.garments,
+          timestamp: record.timestamp
+        });
+        sources.push({ key, file });
+      }
+
+      // 数据库记录：入库时已计算的直接使用，其余计算后写回数据库
+      try {
+        const records = await getDatabaseRecords();
+        records.forEach(record => {
+          const key = `database:${record.id}`;
+          candidates.push({
+            key,
+            id: record.id,
+            source: 'database',
+            name: record.image_name,
+            imageUrl: record.image_url,
+            tags: record.tags || {},
+            confidence: record.confidence || 0,
+            fieldConfidence: record.field_confidence || undefined,
+            rawTags: record.raw_tags || undefined,
+            garments: record.garments || undefined,
+            timestamp: record.created_at ? new Date(record.created_at).getTime() : 0
+          });
+          sources.push({ key, imageUrl: record.image_url, signature: getRecordSignature(record), recordId: record.id });
+        });
+        setDatabaseAvailable(true);
+      } catch (error) {
+        console.error('加载数据库记录失败:', error);
+        setDatabaseAvailable(false);
+      }
+
+      setProgress({ current: 0, total: sources.length });
+      const signatures = await getImageSignatures(
+        sources,
+        (current, total) => setProgress({ current, total }),
+        controller.signal
+      );
+
+      const scanned = candidates
+        .filter(candidate => signatures.has(candidate.key))
+        .map(candidate => {
+          const { dHash, pHash } = signatures.get(candidate.key);
+          return { ...candidate, dHash, pHash };
+        });
+      setItems(scanned);
+      console.log(`查重完成: ${scanned.length}/${candidates.length} 张图片计算了感知哈希`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "已取消",
+          description: "已停止计算感知哈希",
+        });
+        return;
+      }
+      console.error('查找重复图片失败:', error);
+      toast({
+        title: "查重失败",
+        description: error.message || '无法计算图片的感知哈希',
+        variant: "destructive",
+      });
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setScanning(false);
+      }
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    const objectUrls = objectUrlsRef.current;
+    scanDuplicates();
+    return () => {
+      abortControllerRef.current?.abort();
+      revokeObjectUrls(objectUrls);
+    };
+  }, [scanDuplicates]);
+
+  const groups = useMemo(() => {
+    return groupNearDuplicates(items, distance)
+      .map(group => {
+        const best = pickBest(group);
+        return { best, items: [best, ...group.filter(item => item !== best)] };
+      })
+      .sort((a, b) => b.items.length - a.items.length);
+  }, [items, distance]);
+
+  const duplicateCount = groups.reduce((sum, group) => sum + group.items.length - 1, 0);
+
+  const deleteItems = async (targets: DuplicateItem[]) => {
+    const deleted: string[] = [];
+    for (const item of targets) {
+      try {
+        if (item.source === 'history') {
+          await deleteHistoryRecord(item.id);
+        } else if (!(await deleteAnalysisRecord(item.id))) {
+          throw new Error('数据库未返回删除结果');
+        }
+        deleted.push(item.key);
+      } catch (error) {
+        console.error(`删除 ${item.name} 失败:`, error);
+      }
+    }
+    setItems(prev => prev.filter(item => !deleted.includes(item.key)));
+    return deleted.length;
+  };
+
+  const reportDeleted = (title: string, deleted: number, total: number) => {
+    toast({
+      title: deleted === total ? title : "部分删除失败",
+      description: `已删除 ${deleted}/${total} 条重复记录`,
+      variant: deleted === total ? "default" : "destructive",
+    });
+  };
+
+  const handleDeleteItem = async (item: DuplicateItem) => {
+    if (!confirm(`确定要删除${SOURCE_LABELS[item.source]}中的「${item.name}」吗？`)) return;
+    const deleted = await deleteItems([item]);
+    reportDeleted("删除成功", deleted, 1);
+  };
+
+  const handleKeepBest = async (group: { best: DuplicateItem; items: DuplicateItem[] }) => {
+    const others = group.items.slice(1);
+    if (!confirm(`保留「${group.best.name}」，删除其余 ${others.length} 条重复记录？`)) return;
+    try {
+      setBusyGroup(group.best.key);
+      const deleted = await deleteItems(others);
+      reportDeleted("已保留最佳", deleted, others.length);
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  const handleMerge = async (group: { best: DuplicateItem; items: DuplicateItem[] }) => {
+    const { best } = group;
+    const others = group.items.slice(1);
+    if (!canMergeGroup(group.items)) return;
+    if (!confirm(`将其余 ${others.length} 条记录识别出的标签补充到「${best.name}」中，然后删除它们？`)) return;
+    try {
+      setBusyGroup(best.key);
+      const merged = mergeResults(best, others);
+      const updated = best.source === 'history'
+        ? updateHistoryRecord(best.id, merged)
+        : await updateAnalysisRecord(best.id, {
+            tags: merged.tags,
+            confidence: merged.confidence,
+            field_confidence: merged.fieldConfidence || null,
+            raw_tags: merged.rawTags || null,
+            ...(merged.garments && { garments: merged.garments })
+          });
+      if (!updated) {
+        throw new Error('保留的记录更新失败');
+      }
+      setItems(prev => prev.map(item => item.key === best.key ? { ...item, ...merged } : item));
+
+      const deleted = await deleteItems(others);
+      reportDeleted("合并成功", deleted, others.length);
+    } catch (error) {
+      console.error('合并重复记录失败:', error);
+      toast({
+        title: "合并失败",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Copy className="h-7 w-7" />
+          重复图片
+        </h1>
+        <div className="flex flex-wrap gap-2">
+          <Select value={String(distance)} onValueChange={value => setDistance(Number(value))}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SENSITIVITY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}（距离≤{option.value}）
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {scanning ? (
+            <Button variant="outline" onClick={() => abortControllerRef.current?.abort()}>
+              <Square className="h-4 w-4 mr-2" />
+              取消
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={scanDuplicates}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              重新扫描
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => window.location.href = '/'}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            返回首页
+          </Button>
+        </div>
+      </div>
+
+      {scanning && (
+        <Card className="mb-6">
+          <CardContent className="pt-6 space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>正在计算感知哈希...</span>
+              <span>{progress.current} / {progress.total}</span>
+            </div>
+            <Progress value={progress.total > 0 ? (progress.current / progress.total) * 100 : 0} />
+          </CardContent>
+        </Card>
+      )}
+
+      {!scanning && (
+        <p className="text-sm text-gray-600 mb-6">
+          共比较 {items.length} 张图片，发现 {groups.length} 组近似重复，可清理 {duplicateCount} 条记录
+          {!databaseAvailable && '（数据库不可用，只比较了历史记录）'}
+        </p>
+      )}
+
+      {!scanning && groups.length === 0 && (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            没有发现近似重复的图片
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-6">
+        {groups.map(group => (
+          <Card key={group.best.key}>
+            <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2">
+              <div>
+                <CardTitle className="text-lg">{group.items.length} 张近似重复</CardTitle>
+                <CardDescription>
+                  最佳记录：置信度最高，相同时保留最新的
+                  {!canMergeGroup(group.items) && '；组内有按多件服装识别的记录，只能保留最佳'}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busyGroup !== null || !canMergeGroup(group.items)}
+                  onClick={() => handleMerge(group)}
+                >
+                  <GitMerge className="h-4 w-4 mr-2" />
+                  合并
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={busyGroup !== null}
+                  onClick={() => handleKeepBest(group)}
+                >
+                  <Crown className="h-4 w-4 mr-2" />
+                  保留最佳
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                {group.items.map(item => (
+                  <div key={item.key} className={`border rounded-lg overflow-hidden ${item === group.best ? 'ring-2 ring-primary' : ''}`}>
+                    <img src={item.imageUrl} alt={item.name} className="w-full aspect-square object-cover" />
+                    <div className="p-2 space-y-1 text-xs">
+                      <div className="font-medium truncate" title={item.name}>{item.name}</div>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary">{SOURCE_LABELS[item.source]}</Badge>
+                        {item === group.best ? (
+                          <Badge>最佳</Badge>
+                        ) : (
+                          <Badge variant="outline">距离 {hammingDistance(item.pHash, group.best.pHash)}</Badge>
+                        )}
+                      </div>
+                      <div className="text-gray-500">
+                        置信度 {item.confidence}%
+                        {item.timestamp > 0 && ` · ${new Date(item.timestamp).toLocaleDateString('zh-CN')}`}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="w-full text-red-600 hover:text-red-700"
+                        disabled={busyGroup !== null}
+                        onClick={() => handleDeleteItem(item)}
+                      >
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        删除
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesPage;
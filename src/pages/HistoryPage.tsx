@@ -13,6 +13,7 @@ import {
   clearAllHistory,
   searchHistory,
   getImageFromIndexedDB,
+  getProcessedImageFromIndexedDB,
   type HistoryRecord
 } from '../services/historyService';
 import { clearAnalysisResults, loadAnalysisResults, saveAnalysisResults } from '../services/storageService';
@@ -26,6 +27,7 @@ const HistoryPage: React.FC = () => {
   const [dateRange, setDateRange] = useState<{ start: string; end: string }>({ start: '', end: '' });
   const [loading, setLoading] = useState(true);
   const [imageUrls, setImageUrls] = useState<{ [key: string]: string }>({});
+  const [processedImageUrls, setProcessedImageUrls] = useState<{ [key: string]: string }>({});
   const [selectedRecords, setSelectedRecords] = useState<Set<string>>(new Set());
   const [isMultiSelectMode, setIsMultiSelectMode] = useState(false);
 
@@ -47,17 +49,26 @@ const HistoryPage: React.FC = () => {
       
       // 加载图片
       const urls: { [key: string]: string } = {};
+      const processedUrls: { [key: string]: string } = {};
       for (const record of records) {
         try {
           const file = await getImageFromIndexedDB(record.id);
           if (file) {
             urls[record.id] = URL.createObjectURL(file);
           }
+          // 预处理过的记录同时加载处理后的图片
+          if (record.preprocessing?.steps.length) {
+            const processedFile = await getProcessedImageFromIndexedDB(record.id);
+            if (processedFile) {
+              processedUrls[record.id] = URL.createObjectURL(processedFile);
+            }
+          }
         } catch (error) {
           console.error(`加载图片失败 ${record.id}:`, error);
         }
       }
       setImageUrls(urls);
+      setProcessedImageUrls(processedUrls);
     } catch (error) {
       console.error('加载历史记录失败:', error);
     } finally {
@@ -96,6 +107,20 @@ const HistoryPage: React.FC = () => {
     setFilteredHistory(filtered);
   };
 
+  // 清理已删除记录的预处理图片URL
+  const revokeProcessedImageUrls = (ids: string[]) => {
+    setProcessedImageUrls(prev => {
+      const newUrls = { ...prev };
+      ids.forEach(id => {
+        if (newUrls[id]) {
+          URL.revokeObjectURL(newUrls[id]);
+          delete newUrls[id];
+        }
+      });
+      return newUrls;
+    });
+  };
+
   const handleDeleteRecord = async (id: string) => {
     if (window.confirm('确定要删除这条记录吗？')) {
       try {
@@ -107,6 +132,7 @@ const HistoryPage: React.FC = () => {
           delete newUrls[id];
           setImageUrls(newUrls);
         }
+        revokeProcessedImageUrls([id]);
         // 从本地状态中移除已删除的记录
         setHistory(prevHistory => prevHistory.filter(record => record.id !== id));
         console.log('记录删除成功:', id);
@@ -127,6 +153,7 @@ const HistoryPage: React.FC = () => {
         // 清理所有图片URL
         Object.values(imageUrls).forEach(url => URL.revokeObjectURL(url));
         setImageUrls({});
+        revokeProcessedImageUrls(Object.keys(processedImageUrls));
         setHistory([]);
         setFilteredHistory([]);
         setSelectedRecords(new Set());
@@ -208,6 +235,7 @@ const HistoryPage: React.FC = () => {
           delete newImageUrls[recordId];
         });
         setImageUrls(newImageUrls);
+        revokeProcessedImageUrls(Array.from(selectedRecords));
         
         setHistory(prevHistory => prevHistory.filter(record => !selectedRecords.has(record.id)));
         setSelectedRecords(new Set());
@@ -247,6 +275,7 @@ const HistoryPage: React.FC = () => {
           delete newUrls[id];
           setImageUrls(newUrls);
         }
+        revokeProcessedImageUrls([id]);
         // 从本地状态中移除已删除的记录
         setHistory(prevHistory => prevHistory.filter(record => record.id !== id));
         console.log('记录删除成功:', id);
@@ -406,6 +435,7 @@ const HistoryPage: React.FC = () => {
         <MultiSelectImageGrid
           records={filteredHistory}
           imageUrls={imageUrls}
+          processedImageUrls={processedImageUrls}
           onDelete={handleDeleteRecordWithMainPage}
           className="mt-6"
           isMultiSelectMode={isMultiSelectMode}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -9,7 +9,12 @@ import { SimilaritySearch } from '@/components/SimilaritySearch';
 import { ImageGrid } from '@/components/ImageGrid';
 import { Instructions } from '@/components/Instructions';
 import { TestMode } from '@/components/TestMode';
-import { analyzeClothingImage, AnalysisResult, analyzeBatchImagesWithDeduplication } from '@/services/cozeService';
+import { analyzeClothingImage, AnalysisResult } from '@/services/cozeService';
+import { mapWithConcurrency } from '@/services/rateLimiter';
+import { describeRecognitionError } from '@/services/recognitionErrors';
+import { BatchController } from '@/services/batchControl';
+import { createAnalysisJob, runAnalysisJob, subscribeToJobs, getJobItemResult, AnalysisJobOptions } from '@/services/jobQueueService';
+import { matchesSearchText, matchesTagFilters } from '@/services/normalizationService';
 import { 
   loadAnalysisResults, 
   saveAnalysisResults, 
@@ -23,42 +28,57 @@ import {
   saveAnalysisToDatabase,
   saveBatchAnalysisToDatabase,
   updateAnalysisRecord,
+  getRecordProvenance,
+  getRecordFeatures,
   ClothingAnalysisRecord 
 } from '@/services/databaseService';
 import { useToast } from '@/hooks/use-toast';
-import { Sparkles, Upload, Search, Grid, Loader2, History, Database, Image as ImageIcon, X } from 'lucide-react';
+import { Sparkles, Upload, Search, Grid, Loader2, History, Database, Image as ImageIcon, X, Settings, ListChecks, Tags, Activity, Server, Copy } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+// 数据库相似度搜索的结果：数据库记录加上搜索时计算的相似度
+type SimilarityDatabaseRecord = ClothingAnalysisRecord &
+  Pick<AnalysisResult, 'similarity' | 'combinedScore' | 'tagSimilarity' | 'similarityBreakdown'>;
+
 const Index = () => {
   const [results, setResults] = useState<AnalysisResult[]>([]);
   const [filteredResults, setFilteredResults] = useState<AnalysisResult[]>([]);
   const [databaseResults, setDatabaseResults] = useState<ClothingAnalysisRecord[]>([]);
-  const [filteredDatabaseResults, setFilteredDatabaseResults] = useState<ClothingAnalysisRecord[]>([]);
+  const [filteredDatabaseResults, setFilteredDatabaseResults] = useState<SimilarityDatabaseRecord[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // 单张上传中正在识别的图片，流式识别时tags随识别进度逐字段补充
+  const [streamingResults, setStreamingResults] = useState<{ file: File; result: AnalysisResult }[]>([]);
   const [searchSource, setSearchSource] = useState<'local' | 'database'>('local');
   const [isLoadingDatabase, setIsLoadingDatabase] = useState(false);
   const [showAllResults, setShowAllResults] = useState(false);
   const [hasSimilaritySearchResults, setHasSimilaritySearchResults] = useState(false);
   const [similaritySearchResults, setSimilaritySearchResults] = useState<AnalysisResult[]>([]);
-  const [similarityDatabaseResults, setSimilarityDatabaseResults] = useState<ClothingAnalysisRecord[]>([]);
+  const [similarityDatabaseResults, setSimilarityDatabaseResults] = useState<SimilarityDatabaseRecord[]>([]);
   const [filters, setFilters] = useState<SearchFiltersType>({
     searchText: '',
     tags: [],
-    style: [],
-    color: [],
-    tone: [],
-    season: [],
-    collar: [],
-    sleeve: [],
-    fit: [],
-    length: [],
-    fabric: [],
-    pattern: [],
-    craft: [],
-    fashionStyle: [],
-    occasion: []
+    dimensions: {}
   });
   const { toast } = useToast();
+  // 本页面发起的批量任务，结果在任务结束后统一处理
+  const localJobIds = useRef(new Set<string>());
+
+  // 页面刷新后自动继续的上传任务：每完成一张就加入结果列表
+  useEffect(() => {
+    return subscribeToJobs(event => {
+      if (event.type === 'item' && event.job.type === 'upload' && !localJobIds.current.has(event.job.id)) {
+        const result = getJobItemResult(event.item);
+        if (result && (event.item.status === 'done' || event.item.status === 'failed')) {
+          setResults(prev => [...prev, result]);
+        }
+      } else if (event.type === 'job' && event.job.type === 'upload' && event.job.status === 'completed' && !localJobIds.current.has(event.job.id)) {
+        toast({
+          title: "后台任务完成",
+          description: `${event.job.name} 已完成`,
+        });
+      }
+    });
+  }, [toast]);
 
   // 组件加载时从本地存储恢复数据并检查数据库连接
   useEffect(() => {
@@ -138,114 +158,11 @@ const Index = () => {
       
       // 文本搜索
       if (filters.searchText.trim()) {
-        const searchLower = filters.searchText.toLowerCase();
-        filtered = filtered.filter(result => 
-          Object.values(result.tags).some(tag => 
-            tag.toLowerCase().includes(searchLower)
-          )
-        );
-      }
-      
-      // 样式筛选
-      if (filters.style.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.style.includes(result.tags.样式名称)
-        );
-      }
-      
-      // 颜色筛选
-      if (filters.color.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.color.includes(result.tags.颜色)
-        );
-      }
-      
-      // 色调筛选
-      if (filters.tone && filters.tone.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.tone.includes(result.tags.色调)
-        );
+        filtered = filtered.filter(result => matchesSearchText(result.tags, filters.searchText));
       }
       
-      // 季节筛选 - 包含四季通用的逻辑
-      if (filters.season.length > 0) {
-        filtered = filtered.filter(result => {
-          const itemSeason = result.tags.季节;
-          // 如果物品是四季通用，则在任何季节筛选中都显示
-          if (itemSeason === '四季通用') {
-            return true;
-          }
-          // 如果筛选条件包含四季通用，则显示所有物品
-          if (filters.season.includes('四季通用')) {
-            return true;
-          }
-          // 否则按正常季节匹配
-          return filters.season.includes(itemSeason);
-        });
-      }
-      
-      // 领型筛选
-      if (filters.collar.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.collar.includes(result.tags.领)
-        );
-      }
-      
-      // 袖型筛选
-      if (filters.sleeve.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.sleeve.includes(result.tags.袖)
-        );
-      }
-      
-      // 版型筛选
-      if (filters.fit.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.fit.includes(result.tags.版型)
-        );
-      }
-      
-      // 长度筛选
-      if (filters.length && filters.length.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.length.includes(result.tags.长度)
-        );
-      }
-      
-      // 面料筛选
-      if (filters.fabric.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.fabric.includes(result.tags.面料)
-        );
-      }
-      
-      // 图案筛选
-      if (filters.pattern && filters.pattern.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.pattern.includes(result.tags.图案)
-        );
-      }
-      
-      // 工艺筛选
-      if (filters.craft && filters.craft.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.craft.includes(result.tags.工艺)
-        );
-      }
-      
-      // 风格筛选
-      if (filters.fashionStyle && filters.fashionStyle.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.fashionStyle.includes(result.tags.风格)
-        );
-      }
-      
-      // 场合筛选
-      if (filters.occasion.length > 0) {
-        filtered = filtered.filter(result => 
-          filters.occasion.includes(result.tags.场合)
-        );
-      }
+      // 按标签维度筛选
+      filtered = filtered.filter(result => matchesTagFilters(result.tags, filters.dimensions));
       
       setFilteredResults(filtered);
     }
@@ -261,105 +178,12 @@ const Index = () => {
         const searchLower = filters.searchText.toLowerCase();
         filtered = filtered.filter(record => 
           record.image_name.toLowerCase().includes(searchLower) ||
-          Object.values(record.tags).some(tag => 
-            typeof tag === 'string' && tag.toLowerCase().includes(searchLower)
-          )
+          matchesSearchText(record.tags, filters.searchText)
         );
       }
       
-      // 样式筛选
-      if (filters.style.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.style.includes(record.tags.样式名称)
-        );
-      }
-      
-      // 颜色筛选
-      if (filters.color.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.color.includes(record.tags.颜色)
-        );
-      }
-      
-      // 色调筛选
-      if (filters.tone && filters.tone.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.tone.includes(record.tags.色调)
-        );
-      }
-      
-      // 季节筛选
-      if (filters.season.length > 0) {
-        filtered = filtered.filter(record => {
-          const itemSeason = record.tags.季节;
-          if (itemSeason === '四季通用') {
-            return true;
-          }
-          if (filters.season.includes('四季通用')) {
-            return true;
-          }
-          return filters.season.includes(itemSeason);
-        });
-      }
-      
-      // 其他筛选条件...
-      if (filters.collar.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.collar.includes(record.tags.领)
-        );
-      }
-      
-      if (filters.sleeve.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.sleeve.includes(record.tags.袖)
-        );
-      }
-      
-      if (filters.fit.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.fit.includes(record.tags.版型)
-        );
-      }
-      
-      if (filters.fabric.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.fabric.includes(record.tags.面料)
-        );
-      }
-      
-      // 长度筛选
-      if (filters.length && filters.length.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.length.includes(record.tags.长度)
-        );
-      }
-      
-      // 图案筛选
-      if (filters.pattern && filters.pattern.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.pattern.includes(record.tags.图案)
-        );
-      }
-      
-      // 工艺筛选
-      if (filters.craft && filters.craft.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.craft.includes(record.tags.工艺)
-        );
-      }
-      
-      // 风格筛选
-      if (filters.fashionStyle && filters.fashionStyle.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.fashionStyle.includes(record.tags.风格)
-        );
-      }
-      
-      if (filters.occasion.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.occasion.includes(record.tags.场合)
-        );
-      }
+      // 按标签维度筛选
+      filtered = filtered.filter(record => matchesTagFilters(record.tags, filters.dimensions));
       
       setFilteredDatabaseResults(filtered);
     }
@@ -375,105 +199,12 @@ const Index = () => {
         const searchLower = filters.searchText.toLowerCase();
         filtered = filtered.filter(record => 
           record.image_name.toLowerCase().includes(searchLower) ||
-          Object.values(record.tags).some(tag => 
-            typeof tag === 'string' && tag.toLowerCase().includes(searchLower)
-          )
+          matchesSearchText(record.tags, filters.searchText)
         );
       }
       
-      // 样式筛选
-      if (filters.style.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.style.includes(record.tags.样式名称)
-        );
-      }
-      
-      // 颜色筛选
-      if (filters.color.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.color.includes(record.tags.颜色)
-        );
-      }
-      
-      // 色调筛选
-      if (filters.tone && filters.tone.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.tone.includes(record.tags.色调)
-        );
-      }
-      
-      // 季节筛选
-      if (filters.season.length > 0) {
-        filtered = filtered.filter(record => {
-          const itemSeason = record.tags.季节;
-          if (itemSeason === '四季通用') {
-            return true;
-          }
-          if (filters.season.includes('四季通用')) {
-            return true;
-          }
-          return filters.season.includes(itemSeason);
-        });
-      }
-      
-      // 其他筛选条件...
-      if (filters.collar.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.collar.includes(record.tags.领)
-        );
-      }
-      
-      if (filters.sleeve.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.sleeve.includes(record.tags.袖)
-        );
-      }
-      
-      if (filters.fit.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.fit.includes(record.tags.版型)
-        );
-      }
-      
-      if (filters.fabric.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.fabric.includes(record.tags.面料)
-        );
-      }
-      
-      // 长度筛选
-      if (filters.length && filters.length.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.length.includes(record.tags.长度)
-        );
-      }
-      
-      // 图案筛选
-      if (filters.pattern && filters.pattern.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.pattern.includes(record.tags.图案)
-        );
-      }
-      
-      // 工艺筛选
-      if (filters.craft && filters.craft.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.craft.includes(record.tags.工艺)
-        );
-      }
-      
-      // 风格筛选
-      if (filters.fashionStyle && filters.fashionStyle.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.fashionStyle.includes(record.tags.风格)
-        );
-      }
-      
-      if (filters.occasion.length > 0) {
-        filtered = filtered.filter(record => 
-          filters.occasion.includes(record.tags.场合)
-        );
-      }
+      // 按标签维度筛选
+      filtered = filtered.filter(record => matchesTagFilters(record.tags, filters.dimensions));
       
       setFilteredDatabaseResults(filtered);
     }
@@ -487,13 +218,18 @@ const Index = () => {
     } else {
       // 将AnalysisResult转换为ClothingAnalysisRecord格式，保留相似度信息
       const databaseSearchResults = searchResults.map(result => {
-        // 查找对应的数据库记录
-        const dbRecord = databaseResults.find(record => record.image_url === result.imageUrl);
+        // 查找对应的数据库记录；页面加载之后新增的记录由搜索结果构造
+        const dbRecord = databaseResults.find(record => result.recordId ? record.id === result.recordId : record.image_url === result.imageUrl);
         const baseRecord = dbRecord || {
-          id: Math.random().toString(),
-          image_name: 'similarity_result',
+          id: result.recordId || Math.random().toString(),
+          image_name: result.fileName || 'similarity_result',
           image_url: result.imageUrl,
           tags: result.tags,
+          confidence: result.confidence,
+          field_confidence: result.fieldConfidence,
+          garments: result.garments,
+          features: result.features,
+          analysis_time: result.analysisTime,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         };
@@ -501,8 +237,9 @@ const Index = () => {
         return {
           ...baseRecord,
           similarity: result.similarity,
-          combinedScore: (result as any).combinedScore,
-          tagSimilarity: (result as any).tagSimilarity
+          combinedScore: result.combinedScore,
+          tagSimilarity: result.tagSimilarity,
+          similarityBreakdown: result.similarityBreakdown
         };
       });
       setSimilarityDatabaseResults(databaseSearchResults);
@@ -537,100 +274,93 @@ const Index = () => {
     });
 
     try {
-      for (const file of files) {
+      // 多张图片并行分析，请求速率和QPS限制后的等待都由全局调度器统一控制
+      await mapWithConcurrency(files, async (file) => {
+        const placeholder: AnalysisResult = {
+          imageUrl: URL.createObjectURL(file),
+          tags: {},
+          confidence: 0,
+          analysisTime: 0,
+          fileName: file.name,
+          isStreaming: true
+        };
+        setStreamingResults(prev => [...prev, { file, result: placeholder }]);
+        
         try {
           console.log('开始分析图片:', file.name);
-          const result = await analyzeClothingImage(file);
+          const result = await analyzeClothingImage(file, {
+            priority: 'interactive',
+            onPartialTags: tags => setStreamingResults(prev => prev.map(entry => (
+              entry.file === file ? { ...entry, result: { ...entry.result, tags } } : entry
+            )))
+          });
           console.log('分析结果:', result);
           setResults(prev => [...prev, result]);
           
-          toast({
+          toast(result.isError ? {
+            title: "分析失败",
+            description: `${file.name} 分析失败: ${result.error}`,
+            variant: "destructive",
+          } : {
             title: "分析完成",
             description: `${file.name} 分析成功`,
           });
         } catch (error) {
           console.error(`分析图片失败: ${file.name}`, error);
-          let errorMessage = error.message || '未知错误';
-          
-          // 检查是否是QPS限制错误，如果是则进行重试
-          const isQpsError = errorMessage.includes('qps too high') || 
-                            errorMessage.includes('720711011') || 
-                            errorMessage.includes('Pro call plugin qps too high');
-          
-          if (isQpsError) {
-            // QPS限制错误，尝试重试
-            let retrySuccess = false;
-            for (let retry = 1; retry <= 3; retry++) {
-              try {
-                const waitTime = 3000 * retry; // 3秒、6秒、9秒
-                console.log(`QPS限制重试 ${retry}/3，等待 ${waitTime}ms...`);
-                toast({
-                  title: "QPS限制重试",
-                  description: `${file.name} 遇到频率限制，${waitTime/1000}秒后重试 (${retry}/3)`,
-                });
-                await new Promise(resolve => setTimeout(resolve, waitTime));
-                
-                const result = await analyzeClothingImage(file);
-                setResults(prev => [...prev, result]);
-                retrySuccess = true;
-                
-                toast({
-                  title: "重试成功",
-                  description: `${file.name} 重试分析成功`,
-                });
-                break;
-              } catch (retryError) {
-                console.error(`重试 ${retry} 失败:`, retryError);
-                if (retry === 3) {
-                  errorMessage = `重试 3 次后仍然失败: ${retryError.message}`;
-                }
-              }
-            }
-            
-            if (retrySuccess) {
-              continue; // 重试成功，继续下一个文件
-            }
-          }
-          
-          // 如果是数据库相关错误，提供更详细的信息
-          if (errorMessage.includes('Failed to fetch') || errorMessage.includes('network')) {
-            errorMessage = '网络连接失败，请检查网络设置';
-          } else if (errorMessage.includes('database')) {
-            errorMessage = '数据库连接失败，结果已保存到本地历史记录';
-          }
-          
           toast({
             title: "分析失败",
-            description: `${file.name} 分析失败: ${errorMessage}`,
+            description: `${file.name} 分析失败: ${describeRecognitionError(error)}`,
             variant: "destructive",
           });
+        } finally {
+          setStreamingResults(prev => prev.filter(entry => entry.file !== file));
+          URL.revokeObjectURL(placeholder.imageUrl);
         }
-      }
+      });
     } finally {
       setIsAnalyzing(false);
     }
   }, [toast]);
 
-  const handleBatchUpload = useCallback(async (files: File[]) => {
-    if (files.length === 0) return;
+  const handleBatchUpload = useCallback(async (
+    files: File[],
+    control?: BatchController,
+    options: AnalysisJobOptions = { duplicateMode: 'reuse' }
+  ): Promise<AnalysisResult[]> => {
+    if (files.length === 0) return [];
 
     setIsAnalyzing(true);
     
     try {
-      console.log(`开始批量分析 ${files.length} 张图片，启用查重功能...`);
+      console.log(`开始批量分析 ${files.length} 张图片，查重方式: ${options.duplicateMode}，识别次数: ${options.consensusRuns || 1}`);
+      
+      // 创建持久化任务，页面刷新后未完成的图片会自动继续
+      const job = await createAnalysisJob('upload', `批量上传 ${files.length} 张图片`, files, options);
+      localJobIds.current.add(job.id);
       
-      // 使用新的带查重功能的批量分析函数
-      const results = await analyzeBatchImagesWithDeduplication(
-        files,
-        (current, total, fileName, isDuplicate) => {
+      let finishedCount = 0;
+      const unsubscribe = subscribeToJobs(event => {
+        if (event.type !== 'item' || event.job.id !== job.id) return;
+        if (event.item.status === 'done' || event.item.status === 'failed') {
           // 更新进度提示
-          const statusText = isDuplicate ? '跳过重复' : '分析中';
+          const statusText = event.item.isDuplicate ? '跳过重复' : event.item.status === 'failed' ? '分析失败' : '分析完成';
           toast({
             title: "分析进度",
-            description: `${statusText}: ${fileName} (${current}/${total})`,
+            description: `${statusText}: ${event.item.fileName} (${++finishedCount}/${files.length})`,
           });
         }
-      );
+      });
+      
+      let items;
+      try {
+        items = await runAnalysisJob(job.id, control);
+      } finally {
+        unsubscribe();
+      }
+      const results = items
+        .map(getJobItemResult)
+        .filter((result): result is AnalysisResult => result !== null);
+      const isCancelled = control?.signal.aborted ?? false;
       
       // 统计结果
       const newAnalysisCount = results.filter(r => !r.isError && r.analysisTime > 0).length;
@@ -679,15 +409,22 @@ const Index = () => {
         }
         
         toast({
-          title: "批量分析完成",
-          description,
+          title: isCancelled ? "批量分析已取消" : "批量分析完成",
+          description: isCancelled ? `已保留 ${results.length}/${files.length} 张的结果。${description}` : description,
+        });
+      } else if (isCancelled) {
+        toast({
+          title: "批量分析已取消",
+          description: "取消前没有完成的图片",
         });
       }
       
-      if (errorCount === files.length) {
+      if (!isCancelled && errorCount === files.length) {
         throw new Error("所有图片分析失败");
       }
       
+      return results;
+      
     } catch (error) {
       console.error('批量分析过程出错:', error);
       if (!error.message?.includes("所有图片分析失败")) {
@@ -724,20 +461,25 @@ const Index = () => {
   };
 
   // 将数据库记录转换为AnalysisResult格式
-  const convertDatabaseRecordToAnalysisResult = (record: ClothingAnalysisRecord): AnalysisResult => {
+  const convertDatabaseRecordToAnalysisResult = (record: SimilarityDatabaseRecord): AnalysisResult => {
     return {
       id: record.id,
       imageUrl: record.image_url,
       imageName: record.image_name,
       tags: record.tags,
       confidence: record.confidence || 0, // 移除假置信度数据
+      fieldConfidence: record.field_confidence || undefined,
+      garments: record.garments || undefined,
+      rawTags: record.raw_tags || undefined,
+      provenance: getRecordProvenance(record),
       analysisTime: record.analysis_time || 0,
       createdAt: record.created_at,
       fileSize: record.file_size || 0,
       // 保留相似度信息
-      similarity: (record as any).similarity,
-      combinedScore: (record as any).combinedScore,
-      tagSimilarity: (record as any).tagSimilarity
+      similarity: record.similarity,
+      combinedScore: record.combinedScore,
+      tagSimilarity: record.tagSimilarity,
+      similarityBreakdown: record.similarityBreakdown
     };
   };
 
@@ -831,6 +573,54 @@ const Index = () => {
                 <Database className="h-4 w-4" />
                 <span>数据库</span>
               </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => window.location.href = '/settings'}
+                className="flex items-center space-x-2"
+              >
+                <Settings className="h-4 w-4" />
+                <span>设置</span>
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => window.location.href = '/jobs'}
+                className="flex items-center space-x-2"
+              >
+                <ListChecks className="h-4 w-4" />
+                <span>任务中心</span>
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => window.location.href = '/server-jobs'}
+                className="flex items-center space-x-2"
+              >
+                <Server className="h-4 w-4" />
+                <span>后台任务</span>
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => window.location.href = '/taxonomy'}
+                className="flex items-center space-x-2"
+              >
+                <Tags className="h-4 w-4" />
+                <span>标签体系</span>
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => window.location.href = '/metrics'}
+                className="flex items-center space-x-2"
+              >
+                <Activity className="h-4 w-4" />
+                <span>调用统计</span>
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => window.location.href = '/duplicates'}
+                className="flex items-center space-x-2"
+              >
+                <Copy className="h-4 w-4" />
+                <span>重复图片</span>
+              </Button>
             </div>
           </div>
         </div>
@@ -877,6 +667,7 @@ const Index = () => {
                   <ImageUpload 
                     onImageUpload={handleImageUpload}
                     isAnalyzing={isAnalyzing}
+                    streamingTags={new Map(streamingResults.map(entry => [entry.file, entry.result.tags]))}
                   />
                   <BatchUpload 
                     onBatchUpload={handleBatchUpload}
@@ -892,6 +683,14 @@ const Index = () => {
                     </span>
                   </div>
                 )}
+                
+                {/* 单张上传的识别进度，流式识别时逐字段显示 */}
+                {streamingResults.length > 0 && (
+                  <ImageGrid
+                    className="mt-6"
+                    results={streamingResults.map(entry => entry.result)}
+                  />
+                )}
               </CardContent>
             </Card>
 
@@ -1007,9 +806,13 @@ const Index = () => {
                     imageUrl: record.image_url,
                     tags: record.tags,
                     confidence: 0,
-                    analysisTime: 0
+                    analysisTime: 0,
+                    recordId: record.id,
+                    features: getRecordFeatures(record)
                   }))}
                   onSearchResults={handleSimilaritySearchResults}
+                  source={searchSource}
+                  tagFilters={filters.dimensions}
                 />
               </div>
               
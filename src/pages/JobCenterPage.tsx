@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ListChecks, Pause, Play, Square, Trash2, ChevronDown, ChevronRight, RefreshCw, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AnalysisJob,
+  AnalysisJobItem,
+  AnalysisJobStatus,
+  JobItemStatus,
+  JobProgress,
+  cancelAnalysisJob,
+  countFailedItemsByCode,
+  deleteAnalysisJob,
+  getAllJobs,
+  getJobItemErrorCode,
+  getJobItems,
+  getJobProgress,
+  isJobActive,
+  pauseAnalysisJob,
+  resumeAnalysisJob,
+  retryFailedJobItems,
+  subscribeToJobs
+} from '@/services/jobQueueService';
+import { RECOGNITION_ERROR_LABELS, RecognitionErrorCode } from '@/services/recognitionErrors';
+
+const JOB_STATUS_LABELS: Record<AnalysisJobStatus, string> = {
+  pending: '等待中',
+  running: '进行中',
+  paused: '已暂停',
+  cancelled: '已取消',
+  completed: '已完成'
+};
+
+const ITEM_STATUS_LABELS: Record<JobItemStatus, string> = {
+  pending: '待处理',
+  running: '分析中',
+  done: '完成',
+  failed: '失败'
+};
+
+const JOB_TYPE_LABELS: Record<AnalysisJob['type'], string> = {
+  upload: '批量上传',
+  test: '测试模式'
+};
+
+const getStatusVariant = (status: AnalysisJobStatus | JobItemStatus) => {
+  switch (status) {
+    case 'running':
+      return 'default';
+    case 'failed':
+    case 'cancelled':
+      return 'destructive';
+    case 'completed':
+    case 'done':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+};
+
+const JobCenterPage: React.FC = () => {
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [itemsByJob, setItemsByJob] = useState<Record<string, AnalysisJobItem[]>>({});
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const allJobs = await getAllJobs();
+      const entries = await Promise.all(allJobs.map(async job => [job.id, await getJobItems(job.id)] as const));
+      setJobs(allJobs);
+      setItemsByJob(Object.fromEntries(entries));
+    } catch (error) {
+      console.error('加载任务列表失败:', error);
+      toast({
+        title: "加载失败",
+        description: "无法读取任务列表",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // 实时更新任务和图片状态
+  useEffect(() => {
+    return subscribeToJobs(event => {
+      if (event.type === 'deleted') {
+        setJobs(prev => prev.filter(job => job.id !== event.jobId));
+        return;
+      }
+
+      setJobs(prev => {
+        const exists = prev.some(job => job.id === event.job.id);
+        return exists
+          ? prev.map(job => job.id === event.job.id ? event.job : job)
+          : [event.job, ...prev];
+      });
+
+      if (event.type === 'item') {
+        setItemsByJob(prev => {
+          const items = [...(prev[event.job.id] || [])];
+          items[event.item.index] = event.item;
+          return { ...prev, [event.job.id]: items };
+        });
+      }
+    });
+  }, []);
+
+  const handleAction = async (action: () => Promise<void>, errorMessage: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(errorMessage, error);
+      toast({
+        title: "操作失败",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // 重试失败的图片，codes为空时重试全部失败原因
+  const handleRetryFailed = async (job: AnalysisJob, codes?: RecognitionErrorCode[]) => {
+    try {
+      const count = await retryFailedJobItems(job.id, codes);
+      toast({
+        title: "开始重试",
+        description: `重新分析 ${count} 张失败的图片`,
+      });
+    } catch (error) {
+      console.error('重试失败图片出错:', error);
+      toast({
+        title: "重试失败",
+        description: error.message || '无法重试失败的图片',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = (job: AnalysisJob) => {
+    if (!confirm(`确定要删除任务"${job.name}"吗？任务中保存的图片也会一起删除。`)) return;
+    handleAction(() => deleteAnalysisJob(job.id), '删除任务失败');
+  };
+
+  const renderProgress = (progress: JobProgress) => {
+    const finished = progress.done + progress.failed;
+    const percent = progress.total > 0 ? (finished / progress.total) * 100 : 0;
+    return (
+      <div className="space-y-1">
+        <Progress value={percent} />
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          <span>完成 {progress.done}</span>
+          <span>失败 {progress.failed}</span>
+          <span>分析中 {progress.running}</span>
+          <span>待处理 {progress.pending}</span>
+          <span>共 {progress.total}</span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <ListChecks className="h-7 w-7" />
+          任务中心
+        </h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadJobs} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            刷新
+          </Button>
+          <Button variant="outline" onClick={() => window.location.href = '/'}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            返回首页
+          </Button>
+        </div>
+      </div>
+
+      {loading && jobs.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">加载中...</div>
+      ) : jobs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            暂无分析任务，批量上传和测试模式创建的任务会显示在这里
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {jobs.map(job => {
+            const items = itemsByJob[job.id] || [];
+            const progress = getJobProgress(items);
+            const isExpanded = expandedJobId === job.id;
+            const canPause = job.status === 'running' || job.status === 'pending';
+            const canResume = (job.status === 'paused' || job.status === 'cancelled') && progress.pending + progress.running > 0;
+
+            return (
+              <Card key={job.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <button
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => setExpandedJobId(isExpanded ? null : job.id)}
+                      >
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                      {job.name}
+                      <Badge variant="outline">{JOB_TYPE_LABELS[job.type]}</Badge>
+                      <Badge variant={getStatusVariant(job.status)}>{JOB_STATUS_LABELS[job.status]}</Badge>
+                    </CardTitle>
+                    <div className="flex gap-2">
+                      {canPause && (
+                        <Button size="sm" variant="outline" onClick={() => handleAction(() => pauseAnalysisJob(job.id), '暂停任务失败')}>
+                          <Pause className="h-4 w-4 mr-1" />
+                          暂停
+                        </Button>
+                      )}
+                      {canResume && (
+                        <Button size="sm" variant="outline" onClick={() => handleAction(() => resumeAnalysisJob(job.id), '继续任务失败')}>
+                          <Play className="h-4 w-4 mr-1" />
+                          继续
+                        </Button>
+                      )}
+                      {(canPause || job.status === 'paused') && (
+                        <Button size="sm" variant="outline" onClick={() => handleAction(() => cancelAnalysisJob(job.id), '取消任务失败')}>
+                          <Square className="h-4 w-4 mr-1" />
+                          取消
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(job)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    创建于 {new Date(job.createdAt).toLocaleString()}
+                    {job.finishedAt && `，完成于 ${new Date(job.finishedAt).toLocaleString()}`}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {renderProgress(progress)}
+
+                  {/* 按失败原因分组，可以只重试某一类失败（如限流、服务端错误） */}
+                  {progress.failed > 0 && !isJobActive(job.id) && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-muted-foreground">失败原因：</span>
+                      {(Object.entries(countFailedItemsByCode(items)) as [RecognitionErrorCode, number][]).map(([code, count]) => (
+                        <Button key={code} size="sm" variant="outline" onClick={() => handleRetryFailed(job, [code])}>
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          {RECOGNITION_ERROR_LABELS[code]} {count}
+                        </Button>
+                      ))}
+                      <Button size="sm" variant="ghost" onClick={() => handleRetryFailed(job)}>
+                        全部重试
+                      </Button>
+                    </div>
+                  )}
+
+                  {isExpanded && (
+                    <div className="max-h-96 overflow-y-auto border rounded-lg">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-16">#</TableHead>
+                            <TableHead>文件名</TableHead>
+                            <TableHead className="w-24">状态</TableHead>
+                            <TableHead>样式 / 颜色</TableHead>
+                            <TableHead>错误信息</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {items.map(item => (
+                            <TableRow key={item.id}>
+                              <TableCell>{item.index + 1}</TableCell>
+                              <TableCell className="max-w-xs truncate">
+                                {item.fileName}
+                                {item.isDuplicate && <Badge variant="secondary" className="ml-2 text-xs">重复</Badge>}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant={getStatusVariant(item.status)} className="text-xs">
+                                  {ITEM_STATUS_LABELS[item.status]}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {item.result && !item.result.isError
+                                  ? `${item.result.tags.样式名称} / ${item.result.tags.颜色}`
+                                  : '-'}
+                              </TableCell>
+                              <TableCell className="text-xs text-red-600 max-w-xs truncate">
+                                {item.status === 'failed' && (
+                                  <Badge variant="outline" className="mr-2 text-xs border-red-300 text-red-600">
+                                    {RECOGNITION_ERROR_LABELS[getJobItemErrorCode(item)]}
+                                  </Badge>
+                                )}
+                                {item.error || ''}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobCenterPage;
@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Activity, ArrowLeft, RefreshCw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  RecognitionMetrics,
+  clearRecognitionCalls,
+  getLocalRecognitionMetrics,
+  getServerRecognitionMetrics
+} from '@/services/telemetryService';
+import { RECOGNITION_ERROR_LABELS, RecognitionErrorCode } from '@/services/recognitionErrors';
+
+type MetricsSource = 'local' | 'server';
+
+const HOUR = 60 * 60 * 1000;
+
+// 时间范围和每个时间段的长度
+const TIME_RANGES = [
+  { id: '1h', label: '最近1小时', rangeMs: HOUR, bucketMs: 5 * 60 * 1000 },
+  { id: '24h', label: '最近24小时', rangeMs: 24 * HOUR, bucketMs: HOUR },
+  { id: '7d', label: '最近7天', rangeMs: 7 * 24 * HOUR, bucketMs: 6 * HOUR }
+];
+
+// 本机数据自动刷新的间隔
+const AUTO_REFRESH_INTERVAL = 30000;
+
+const throughputConfig = {
+  success: { label: '成功', color: 'hsl(142 71% 45%)' },
+  failed: { label: '失败', color: 'hsl(0 84% 60%)' }
+} satisfies ChartConfig;
+
+const latencyConfig = {
+  p50: { label: 'p50', color: 'hsl(217 91% 60%)' },
+  p95: { label: 'p95', color: 'hsl(38 92% 50%)' },
+  p99: { label: 'p99', color: 'hsl(0 84% 60%)' }
+} satisfies ChartConfig;
+
+const failureConfig = {
+  count: { label: '次数', color: 'hsl(0 84% 60%)' }
+} satisfies ChartConfig;
+
+const formatBucketTime = (start: number, bucketMs: number) => {
+  const date = new Date(start);
+  const time = date.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' });
+  return bucketMs >= 6 * HOUR ? `${date.getMonth() + 1}/${date.getDate()} ${time}` : time;
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null || ms === undefined) return '-';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+};
+
+const MetricsPage: React.FC = () => {
+  const [source, setSource] = useState<MetricsSource>('local');
+  const [rangeId, setRangeId] = useState('24h');
+  const [metrics, setMetrics] = useState<RecognitionMetrics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const range = TIME_RANGES.find(item => item.id === rangeId) || TIME_RANGES[1];
+
+  const loadMetrics = useCallback(async () => {
+    try {
+      setLoading(true);
+      const loaded = source === 'local'
+        ? await getLocalRecognitionMetrics(range.rangeMs, range.bucketMs)
+        : await getServerRecognitionMetrics(range.rangeMs, range.bucketMs);
+      setMetrics(loaded);
+    } catch (error) {
+      console.error('加载调用统计失败:', error);
+      setMetrics(null);
+      toast({
+        title: "加载失败",
+        description: source === 'server' ? `无法从后端获取调用统计: ${error.message}` : '无法读取本地调用记录',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [source, range.rangeMs, range.bucketMs, toast]);
+
+  useEffect(() => {
+    loadMetrics();
+  }, [loadMetrics]);
+
+  // 本机数据定时刷新，批量分析进行中时可以看到实时的调用情况
+  useEffect(() => {
+    if (source !== 'local') return;
+    const timer = setInterval(loadMetrics, AUTO_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [source, loadMetrics]);
+
+  const handleClear = async () => {
+    if (!confirm('确定要清空本机保存的识别调用记录吗？已上报到后端的记录不受影响。')) return;
+    try {
+      await clearRecognitionCalls();
+      await loadMetrics();
+      toast({
+        title: "已清空",
+        description: "本机的识别调用记录已清空",
+      });
+    } catch (error) {
+      console.error('清空调用记录失败:', error);
+      toast({
+        title: "清空失败",
+        description: "无法清空本地调用记录",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const totals = metrics?.totals;
+  const chartData = (metrics?.buckets || []).map(bucket => ({
+    ...bucket,
+    time: formatBucketTime(bucket.start, metrics.bucketMs)
+  }));
+  const failureData = Object.entries(metrics?.failuresByCode || {})
+    .map(([code, count]) => ({ code, label: RECOGNITION_ERROR_LABELS[code as RecognitionErrorCode] || code, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const summaryItems = totals ? [
+    { label: '调用次数', value: totals.calls, hint: `上传 ${totals.uploads} / 执行 ${totals.runs}` },
+    { label: '失败率', value: totals.calls > 0 ? `${((totals.failed / totals.calls) * 100).toFixed(1)}%` : '-', hint: `失败 ${totals.failed} 次` },
+    { label: '重试次数', value: totals.retries, hint: '第2次及以后的尝试' },
+    { label: '触发限流', value: totals.rateLimited, hint: 'QPS限制或HTTP 429' },
+    { label: '执行耗时 p95', value: formatDuration(totals.p95), hint: `p50 ${formatDuration(totals.p50)} / p99 ${formatDuration(totals.p99)}` }
+  ] : [];
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Activity className="h-7 w-7" />
+          调用统计
+        </h1>
+        <div className="flex flex-wrap gap-2">
+          <Button variant={source === 'local' ? 'default' : 'outline'} onClick={() => setSource('local')}>
+            本机
+          </Button>
+          <Button variant={source === 'server' ? 'default' : 'outline'} onClick={() => setSource('server')}>
+            所有客户端
+          </Button>
+          <Select value={rangeId} onValueChange={setRangeId}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_RANGES.map(item => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={loadMetrics} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            刷新
+          </Button>
+          {source === 'local' && (
+            <Button variant="outline" onClick={handleClear}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              清空本机记录
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => window.location.href = '/'}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            返回首页
+          </Button>
+        </div>
+      </div>
+
+      {!metrics ? (
+        <div className="text-center py-12 text-muted-foreground">{loading ? '加载中...' : '暂无数据'}</div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {summaryItems.map(item => (
+              <Card key={item.label}>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-muted-foreground">{item.label}</div>
+                  <div className="text-2xl font-bold">{item.value}</div>
+                  <div className="text-xs text-muted-foreground">{item.hint}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>吞吐量</CardTitle>
+              <CardDescription>每个时间段的上传和执行请求数</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={throughputConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="success" stackId="calls" fill="var(--color-success)" />
+                  <Bar dataKey="failed" stackId="calls" fill="var(--color-failed)" />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>执行耗时</CardTitle>
+                <CardDescription>成功的执行请求耗时分位数（毫秒，含排队等待）</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={latencyConfig} className="h-64 w-full aspect-auto">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} width={50} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="p50" type="monotone" stroke="var(--color-p50)" dot={false} connectNulls />
+                    <Line dataKey="p95" type="monotone" stroke="var(--color-p95)" dot={false} connectNulls />
+                    <Line dataKey="p99" type="monotone" stroke="var(--color-p99)" dot={false} connectNulls />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>失败原因</CardTitle>
+                <CardDescription>按错误类型统计的失败请求数</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {failureData.length === 0 ? (
+                  <div className="h-64 flex items-center justify-center text-muted-foreground">
+                    该时间范围内没有失败的请求
+                  </div>
+                ) : (
+                  <ChartContainer config={failureConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={failureData} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={90} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetricsPage;
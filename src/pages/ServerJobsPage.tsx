@@ -0,0 +1,392 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Server, Upload, FolderOpen, Square, Trash2, ChevronDown, ChevronRight, RefreshCw, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ServerJob,
+  ServerJobItem,
+  ServerJobItemStatus,
+  ServerJobProgress,
+  ServerJobStatus,
+  cancelServerJob,
+  createDirectoryJob,
+  createUploadJob,
+  deleteServerJob,
+  getServerJob,
+  getServerJobs,
+  isServerJobActive,
+  retryServerJob
+} from '@/services/serverJobService';
+
+const JOB_STATUS_LABELS: Record<ServerJobStatus, string> = {
+  running: '进行中',
+  completed: '已完成',
+  cancelled: '已取消'
+};
+
+const ITEM_STATUS_LABELS: Record<ServerJobItemStatus, string> = {
+  pending: '待处理',
+  running: '识别中',
+  success: '完成',
+  skipped: '已存在',
+  error: '失败'
+};
+
+const JOB_SOURCE_LABELS: Record<ServerJob['source'], string> = {
+  upload: '上传图片',
+  directory: '服务器目录'
+};
+
+// 有进行中的任务时的轮询间隔
+const POLL_INTERVAL = 3000;
+
+const getStatusVariant = (status: ServerJobStatus | ServerJobItemStatus) => {
+  switch (status) {
+    case 'running':
+      return 'default';
+    case 'error':
+    case 'cancelled':
+      return 'destructive';
+    case 'completed':
+    case 'success':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+};
+
+const ServerJobsPage: React.FC = () => {
+  const [jobs, setJobs] = useState<ServerJob[]>([]);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [expandedItems, setExpandedItems] = useState<ServerJobItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [jobName, setJobName] = useState('');
+  const [directory, setDirectory] = useState('');
+  const [recursive, setRecursive] = useState(true);
+  const [uploadProgress, setUploadProgress] = useState<{ uploaded: number; total: number } | null>(null);
+  const [creating, setCreating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const loadJobs = useCallback(async (showError = true) => {
+    try {
+      setJobs(await getServerJobs());
+    } catch (error) {
+      console.error('加载后台任务失败:', error);
+      if (showError) {
+        toast({
+          title: "加载失败",
+          description: `无法从后端获取任务列表: ${error.message}`,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const loadItems = useCallback(async (jobId: string) => {
+    try {
+      const { items } = await getServerJob(jobId);
+      setExpandedItems(items);
+    } catch (error) {
+      console.error('加载任务详情失败:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // 有进行中的任务时定时刷新进度，展开的任务同时刷新图片状态
+  const hasActiveJob = jobs.some(isServerJobActive);
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const timer = setInterval(() => {
+      loadJobs(false);
+      if (expandedJobId) loadItems(expandedJobId);
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasActiveJob, expandedJobId, loadJobs, loadItems]);
+
+  const toggleExpanded = (jobId: string) => {
+    if (expandedJobId === jobId) {
+      setExpandedJobId(null);
+      return;
+    }
+    setExpandedJobId(jobId);
+    setExpandedItems([]);
+    loadItems(jobId);
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      setCreating(true);
+      setUploadProgress({ uploaded: 0, total: files.length });
+      const job = await createUploadJob(files, jobName.trim() || undefined, (uploaded, total) => {
+        setUploadProgress({ uploaded, total });
+      });
+      setJobName('');
+      toast({
+        title: "任务已创建",
+        description: `${job.name}: ${files.length} 张图片已提交到服务器，可以关闭页面`,
+      });
+      await loadJobs();
+    } catch (error) {
+      console.error('创建后台任务失败:', error);
+      toast({
+        title: "创建失败",
+        description: error.message || '无法上传图片',
+        variant: "destructive",
+      });
+      await loadJobs(false);
+    } finally {
+      setCreating(false);
+      setUploadProgress(null);
+    }
+  };
+
+  const handleCreateFromDirectory = async () => {
+    if (!directory.trim()) return;
+    try {
+      setCreating(true);
+      const job = await createDirectoryJob(directory.trim(), recursive, jobName.trim() || undefined);
+      setJobName('');
+      setDirectory('');
+      toast({
+        title: "任务已创建",
+        description: `${job.name}: 共 ${job.progress.total} 张图片`,
+      });
+      await loadJobs();
+    } catch (error) {
+      console.error('创建后台任务失败:', error);
+      toast({
+        title: "创建失败",
+        description: error.message || '无法读取服务器目录',
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleAction = async (action: () => Promise<unknown>, errorMessage: string) => {
+    try {
+      await action();
+      await loadJobs(false);
+      if (expandedJobId) loadItems(expandedJobId);
+    } catch (error) {
+      console.error(errorMessage, error);
+      toast({
+        title: "操作失败",
+        description: error.message || errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = (job: ServerJob) => {
+    if (!confirm(`确定要删除任务"${job.name}"吗？已保存到数据库的分析记录不受影响。`)) return;
+    handleAction(() => deleteServerJob(job.id), '删除任务失败');
+  };
+
+  const renderProgress = (progress: ServerJobProgress) => {
+    const finished = progress.success + progress.skipped + progress.failed;
+    const percent = progress.total > 0 ? (finished / progress.total) * 100 : 0;
+    return (
+      <div className="space-y-1">
+        <Progress value={percent} />
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          <span>完成 {progress.success}</span>
+          <span>已存在 {progress.skipped}</span>
+          <span>失败 {progress.failed}</span>
+          <span>识别中 {progress.running}</span>
+          <span>待处理 {progress.pending}</span>
+          <span>共 {progress.total}</span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Server className="h-7 w-7" />
+          后台任务
+        </h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => loadJobs()} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            刷新
+          </Button>
+          <Button variant="outline" onClick={() => window.location.href = '/'}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            返回首页
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-lg">新建任务</CardTitle>
+          <CardDescription>
+            图片提交到服务器后由服务器识别并保存到数据库，不需要保持页面打开；数据库中已有的图片会跳过
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="任务名称（可选）"
+            value={jobName}
+            onChange={(e) => setJobName(e.target.value)}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              className="hidden"
+              onChange={handleUpload}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={creating}>
+              <Upload className="h-4 w-4 mr-2" />
+              上传图片
+            </Button>
+            {uploadProgress && (
+              <span className="text-sm text-muted-foreground">
+                正在上传 {uploadProgress.uploaded}/{uploadProgress.total}
+              </span>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              className="max-w-md"
+              placeholder="服务器目录（相对于服务器配置的 JOB_IMPORT_ROOT）"
+              value={directory}
+              onChange={(e) => setDirectory(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateFromDirectory()}
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox id="recursive" checked={recursive} onCheckedChange={(checked) => setRecursive(checked === true)} />
+              <label htmlFor="recursive" className="text-sm cursor-pointer">包含子目录</label>
+            </div>
+            <Button variant="outline" onClick={handleCreateFromDirectory} disabled={creating || !directory.trim()}>
+              <FolderOpen className="h-4 w-4 mr-2" />
+              导入目录
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading && jobs.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">加载中...</div>
+      ) : jobs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            暂无后台任务
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {jobs.map(job => {
+            const isExpanded = expandedJobId === job.id;
+            const canResume = job.status === 'cancelled' && job.progress.pending > 0;
+            // 上传的图片识别失败后在服务器上已删除，只有服务器目录中的图片可以重试
+            const canRetryFailed = job.source === 'directory' && job.progress.failed > 0;
+
+            return (
+              <Card key={job.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <button
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => toggleExpanded(job.id)}
+                      >
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                      {job.name}
+                      <Badge variant="outline">{JOB_SOURCE_LABELS[job.source]}</Badge>
+                      <Badge variant={getStatusVariant(job.status)}>{JOB_STATUS_LABELS[job.status]}</Badge>
+                    </CardTitle>
+                    <div className="flex gap-2">
+                      {(canRetryFailed || canResume) && (
+                        <Button size="sm" variant="outline" onClick={() => handleAction(() => retryServerJob(job.id), '重试任务失败')}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          {canRetryFailed ? `重试失败 (${job.progress.failed})` : '继续'}
+                        </Button>
+                      )}
+                      {job.status === 'running' && (
+                        <Button size="sm" variant="outline" onClick={() => handleAction(() => cancelServerJob(job.id), '取消任务失败')}>
+                          <Square className="h-4 w-4 mr-1" />
+                          取消
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(job)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {job.directory && `${job.directory}，`}
+                    创建于 {new Date(job.createdAt).toLocaleString()}
+                    {job.finishedAt && `，${job.status === 'cancelled' ? '取消于' : '完成于'} ${new Date(job.finishedAt).toLocaleString()}`}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {renderProgress(job.progress)}
+
+                  {isExpanded && (
+                    <div className="max-h-96 overflow-y-auto border rounded-lg">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>文件名</TableHead>
+                            <TableHead className="w-24">状态</TableHead>
+                            <TableHead>样式 / 颜色</TableHead>
+                            <TableHead>错误信息</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {expandedItems.map(item => (
+                            <TableRow key={item.id}>
+                              <TableCell className="max-w-xs truncate">{item.fileName}</TableCell>
+                              <TableCell>
+                                <Badge variant={getStatusVariant(item.status)} className="text-xs">
+                                  {ITEM_STATUS_LABELS[item.status]}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {item.tags ? `${item.tags.样式名称 || '未识别'} / ${item.tags.颜色 || '未识别'}` : '-'}
+                              </TableCell>
+                              <TableCell className="text-xs text-red-600 max-w-xs truncate">
+                                {item.status === 'error' || item.status === 'pending' ? item.error || '' : ''}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServerJobsPage;
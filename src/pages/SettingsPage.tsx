@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Cpu, Gauge, ImageIcon, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getRecognitionSettings,
+  saveRecognitionSettings,
+  RECOGNITION_PROVIDER_OPTIONS,
+  MAX_CONFIDENCE_RUNS,
+  RecognitionProviderId,
+  RecognitionSettings,
+  getRateLimitSettings,
+  saveRateLimitSettings,
+  RateLimitSettings,
+  getPreprocessSettings,
+  savePreprocessSettings,
+  PreprocessSettings,
+  PreprocessOutputFormat,
+  PREPROCESS_OUTPUT_FORMAT_OPTIONS,
+  MIN_PREPROCESS_MAX_EDGE
+} from '@/services/settingsService';
+import { configureRateLimiter } from '@/services/rateLimiter';
+
+const SettingsPage: React.FC = () => {
+  const [settings, setSettings] = useState<RecognitionSettings>(getRecognitionSettings);
+  const [rateLimit, setRateLimit] = useState<RateLimitSettings>(getRateLimitSettings);
+  const [preprocess, setPreprocess] = useState<PreprocessSettings>(getPreprocessSettings);
+  const { toast } = useToast();
+
+  const selectedOption = RECOGNITION_PROVIDER_OPTIONS.find(option => option.id === settings.provider);
+
+  const handleOpenAIChange = (key: keyof RecognitionSettings['openai'], value: string) => {
+    setSettings(prev => ({ ...prev, openai: { ...prev.openai, [key]: value } }));
+  };
+
+  const handleRateLimitChange = (key: keyof RateLimitSettings, value: string) => {
+    setRateLimit(prev => ({ ...prev, [key]: Number(value) }));
+  };
+
+  const handleSave = () => {
+    if (!(settings.confidenceRuns >= 1) || settings.confidenceRuns > MAX_CONFIDENCE_RUNS) {
+      toast({
+        title: "保存失败",
+        description: `识别次数必须在1到${MAX_CONFIDENCE_RUNS}之间`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!(rateLimit.qps > 0) || !(rateLimit.concurrency >= 1)) {
+      toast({
+        title: "保存失败",
+        description: "QPS必须大于0，并发数至少为1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!(preprocess.maxEdge >= MIN_PREPROCESS_MAX_EDGE) || !(preprocess.quality > 0 && preprocess.quality <= 1)) {
+      toast({
+        title: "保存失败",
+        description: `最大边长至少为${MIN_PREPROCESS_MAX_EDGE}像素，编码质量必须在0到1之间`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const normalizedRateLimit = { qps: rateLimit.qps, concurrency: Math.floor(rateLimit.concurrency) };
+      saveRecognitionSettings({ ...settings, confidenceRuns: Math.floor(settings.confidenceRuns) });
+      saveRateLimitSettings(normalizedRateLimit);
+      configureRateLimiter(normalizedRateLimit);
+      savePreprocessSettings({ ...preprocess, maxEdge: Math.floor(preprocess.maxEdge) });
+      toast({
+        title: "设置已保存",
+        description: `当前识别服务: ${selectedOption?.label || settings.provider}`,
+      });
+    } catch (error) {
+      toast({
+        title: "保存失败",
+        description: "无法保存设置，请检查浏览器存储空间",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-3xl">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">系统设置</h1>
+        <Button variant="outline" onClick={() => window.location.href = '/'}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          返回首页
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Cpu className="h-5 w-5" />
+            识别服务
+          </CardTitle>
+          <CardDescription>选择服装识别使用的后端，切换后对新的分析任务立即生效</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label>识别服务提供方</Label>
+            <Select
+              value={settings.provider}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, provider: value as RecognitionProviderId }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECOGNITION_PROVIDER_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedOption && (
+              <p className="text-sm text-muted-foreground">{selectedOption.description}</p>
+            )}
+          </div>
+
+          {settings.provider === 'openai' && (
+            <div className="space-y-4 border-t pt-4">
+              <div className="space-y-1">
+                <Label htmlFor="openai-base-url">接口地址</Label>
+                <Input
+                  id="openai-base-url"
+                  value={settings.openai.baseUrl}
+                  onChange={(e) => handleOpenAIChange('baseUrl', e.target.value)}
+                  placeholder="https://api.openai.com/v1"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="openai-api-key">API Key</Label>
+                <Input
+                  id="openai-api-key"
+                  type="password"
+                  value={settings.openai.apiKey}
+                  onChange={(e) => handleOpenAIChange('apiKey', e.target.value)}
+                  placeholder="sk-..."
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="openai-model">模型名称</Label>
+                <Input
+                  id="openai-model"
+                  value={settings.openai.model}
+                  onChange={(e) => handleOpenAIChange('model', e.target.value)}
+                  placeholder="gpt-4o-mini"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1 border-t pt-4">
+            <Label htmlFor="confidence-runs">置信度识别次数</Label>
+            <Input
+              id="confidence-runs"
+              type="number"
+              min={1}
+              max={MAX_CONFIDENCE_RUNS}
+              step={1}
+              value={settings.confidenceRuns}
+              onChange={(e) => setSettings(prev => ({ ...prev, confidenceRuns: Number(e.target.value) }))}
+            />
+            <p className="text-sm text-muted-foreground">
+              模型没有返回置信度时，每张图片识别多次，以各字段结果的一致率作为置信度；为1时不额外调用
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between border-t pt-4">
+            <div className="space-y-1">
+              <Label htmlFor="recognition-streaming">流式识别</Label>
+              <p className="text-sm text-muted-foreground">
+                单张上传时边识别边显示已识别的字段；Coze工作流和后端代理支持，接口不支持时自动改用普通调用
+              </p>
+            </div>
+            <Switch
+              id="recognition-streaming"
+              checked={settings.streaming}
+              onCheckedChange={(checked) => setSettings(prev => ({ ...prev, streaming: checked }))}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            调用频率
+          </CardTitle>
+          <CardDescription>所有Coze请求共享同一个调度器，单张上传优先于批量分析和测试模式</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="rate-limit-qps">每秒请求数（QPS）</Label>
+              <Input
+                id="rate-limit-qps"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={rateLimit.qps}
+                onChange={(e) => handleRateLimitChange('qps', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rate-limit-concurrency">最大并发数</Label>
+              <Input
+                id="rate-limit-concurrency"
+                type="number"
+                min={1}
+                step={1}
+                value={rateLimit.concurrency}
+                onChange={(e) => handleRateLimitChange('concurrency', e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            遇到"qps too high"错误时调度器会自动暂停一段时间，如果仍频繁出现请调低QPS
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ImageIcon className="h-5 w-5" />
+            图片预处理
+          </CardTitle>
+          <CardDescription>上传识别前在浏览器中处理图片，历史记录同时保存原图和处理后的图片</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-1">
+              <Label htmlFor="preprocess-enabled">启用预处理</Label>
+              <p className="text-sm text-muted-foreground">
+                按EXIF方向校正旋转、缩小大图；关闭后HEIC、BMP、TIFF等格式仍会转换
+              </p>
+            </div>
+            <Switch
+              id="preprocess-enabled"
+              checked={preprocess.enabled}
+              onCheckedChange={(checked) => setPreprocess(prev => ({ ...prev, enabled: checked }))}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="preprocess-max-edge">最大边长（像素）</Label>
+              <Input
+                id="preprocess-max-edge"
+                type="number"
+                min={MIN_PREPROCESS_MAX_EDGE}
+                step={64}
+                value={preprocess.maxEdge}
+                onChange={(e) => setPreprocess(prev => ({ ...prev, maxEdge: Number(e.target.value) }))}
+                disabled={!preprocess.enabled}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>输出格式</Label>
+              <Select
+                value={preprocess.outputFormat}
+                onValueChange={(value) => setPreprocess(prev => ({ ...prev, outputFormat: value as PreprocessOutputFormat }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PREPROCESS_OUTPUT_FORMAT_OPTIONS.map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preprocess-quality">编码质量</Label>
+              <Input
+                id="preprocess-quality"
+                type="number"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={preprocess.quality}
+                onChange={(e) => setPreprocess(prev => ({ ...prev, quality: Number(e.target.value) }))}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between border-t pt-4">
+            <div className="space-y-1">
+              <Label htmlFor="preprocess-auto-crop">自动裁边</Label>
+              <p className="text-sm text-muted-foreground">
+                裁掉四周颜色一致的边框（如白底商品图的留白），保留区域不少于原图的一半
+              </p>
+            </div>
+            <Switch
+              id="preprocess-auto-crop"
+              checked={preprocess.autoCrop}
+              onCheckedChange={(checked) => setPreprocess(prev => ({ ...prev, autoCrop: checked }))}
+              disabled={!preprocess.enabled}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Button className="mt-6" onClick={handleSave}>
+        <Save className="h-4 w-4 mr-2" />
+        保存设置
+      </Button>
+    </div>
+  );
+};
+
+export default SettingsPage;
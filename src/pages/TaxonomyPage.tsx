@@ -0,0 +1,361 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArrowDown, ArrowUp, Plus, RotateCcw, Save, Tags, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTaxonomy } from '@/hooks/use-taxonomy';
+import {
+  DEFAULT_TAXONOMY,
+  TagTaxonomy,
+  TaxonomyDimension,
+  loadTaxonomy,
+  saveTaxonomy,
+  validateTaxonomy
+} from '@/services/taxonomyService';
+
+// 编辑中的维度：可选值以文本形式编辑，保存时再拆分
+interface EditableDimension extends Omit<TaxonomyDimension, 'values' | 'synonyms'> {
+  valuesText: string;
+}
+
+// 同义词词典中的一行：某个维度的规范值及其同义写法
+interface SynonymRow {
+  dimensionKey: string;
+  canonical: string;
+  synonymsText: string;
+}
+
+const toEditable = (taxonomy: TagTaxonomy): EditableDimension[] => {
+  return taxonomy.dimensions.map(({ values, synonyms: _synonyms, ...dimension }) => ({
+    ...dimension,
+    strict: !!dimension.strict,
+    valuesText: values.join('、')
+  }));
+};
+
+const toSynonymRows = (taxonomy: TagTaxonomy): SynonymRow[] => {
+  return taxonomy.dimensions.flatMap(dimension =>
+    Object.entries(dimension.synonyms || {}).map(([canonical, synonyms]) => ({
+      dimensionKey: dimension.key,
+      canonical,
+      synonymsText: synonyms.join('、')
+    }))
+  );
+};
+
+// 可选值支持顿号、中英文逗号和换行分隔
+const splitValues = (text: string): string[] => {
+  return text.split(/[、,，\n]/).map(value => value.trim()).filter(Boolean);
+};
+
+const TaxonomyPage: React.FC = () => {
+  const taxonomy = useTaxonomy();
+  const [dimensions, setDimensions] = useState<EditableDimension[]>(() => toEditable(taxonomy));
+  const [synonymRows, setSynonymRows] = useState<SynonymRow[]>(() => toSynonymRows(taxonomy));
+  const [isDirty, setIsDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadTaxonomy().catch(console.error);
+  }, []);
+
+  // 后端加载完成后，未修改过时同步最新的标签体系
+  useEffect(() => {
+    if (!isDirty) {
+      setDimensions(toEditable(taxonomy));
+      setSynonymRows(toSynonymRows(taxonomy));
+    }
+  }, [taxonomy, isDirty]);
+
+  const updateDimensions = (next: EditableDimension[]) => {
+    setDimensions(next);
+    setIsDirty(true);
+  };
+
+  const updateDimension = (index: number, changes: Partial<EditableDimension>) => {
+    updateDimensions(dimensions.map((dimension, i) => (i === index ? { ...dimension, ...changes } : dimension)));
+  };
+
+  const moveDimension = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= dimensions.length) return;
+    const next = [...dimensions];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateDimensions(next);
+  };
+
+  const removeDimension = (index: number) => {
+    const dimension = dimensions[index];
+    if (!confirm(`确定要删除维度"${dimension.label || dimension.key}"吗？已保存记录中的该标签不会被删除。`)) return;
+    updateDimensions(dimensions.filter((_, i) => i !== index));
+  };
+
+  const addDimension = () => {
+    const lastGroup = dimensions[dimensions.length - 1]?.group || '其他';
+    updateDimensions([...dimensions, { key: '', label: '', group: lastGroup, strict: false, valuesText: '' }]);
+  };
+
+  const updateSynonymRows = (next: SynonymRow[]) => {
+    setSynonymRows(next);
+    setIsDirty(true);
+  };
+
+  const updateSynonymRow = (index: number, changes: Partial<SynonymRow>) => {
+    updateSynonymRows(synonymRows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const addSynonymRow = () => {
+    const dimensionKey = synonymRows[synonymRows.length - 1]?.dimensionKey || dimensions[0]?.key || '';
+    updateSynonymRows([...synonymRows, { dimensionKey, canonical: '', synonymsText: '' }]);
+  };
+
+  const handleReset = () => {
+    if (!confirm('确定要恢复默认标签体系吗？未保存的修改会丢失。')) return;
+    updateDimensions(toEditable(DEFAULT_TAXONOMY));
+    updateSynonymRows(toSynonymRows(DEFAULT_TAXONOMY));
+  };
+
+  // 把同义词词典按维度合并，同一维度中相同规范值的多行合并为一条
+  const buildSynonyms = (key: string): Record<string, string[]> => {
+    const synonyms: Record<string, string[]> = {};
+    synonymRows
+      .filter(row => row.dimensionKey === key && row.canonical.trim())
+      .forEach(row => {
+        const canonical = row.canonical.trim();
+        synonyms[canonical] = [...(synonyms[canonical] || []), ...splitValues(row.synonymsText)];
+      });
+    return synonyms;
+  };
+
+  const handleSave = async () => {
+    const next: TagTaxonomy = {
+      dimensions: dimensions.map(({ valuesText, ...dimension }) => ({
+        ...dimension,
+        key: dimension.key.trim(),
+        label: dimension.label.trim() || dimension.key.trim(),
+        values: splitValues(valuesText),
+        synonyms: buildSynonyms(dimension.key)
+      }))
+    };
+
+    const orphanRow = synonymRows.find(row => row.canonical.trim() && !dimensions.some(dimension => dimension.key === row.dimensionKey));
+    const error = orphanRow
+      ? `同义词"${orphanRow.canonical}"所属的维度不存在`
+      : validateTaxonomy(next);
+    if (error) {
+      toast({
+        title: "标签体系无效",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await saveTaxonomy(next);
+      setDimensions(toEditable(saved));
+      setSynonymRows(toSynonymRows(saved));
+      setIsDirty(false);
+      toast({
+        title: "保存成功",
+        description: `标签体系已更新，共 ${saved.dimensions.length} 个维度`,
+      });
+    } catch (error) {
+      console.error('保存标签体系失败:', error);
+      toast({
+        title: "保存失败",
+        description: error instanceof Error ? error.message : '保存标签体系失败',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Tags className="h-7 w-7" />
+          标签体系
+        </h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            恢复默认
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !isDirty}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? '保存中...' : '保存'}
+          </Button>
+          <Button variant="outline" onClick={() => window.location.href = '/'}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            返回首页
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>标签维度</CardTitle>
+          <CardDescription>
+            标签维度决定模型提示词、结果解析、标签编辑、筛选和导出的字段。
+            可选值用顿号或逗号分隔；开启"限定可选值"后，不在可选值中的识别结果会被丢弃并记为"未识别"。
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-32">标签键</TableHead>
+                  <TableHead className="w-32">显示名称</TableHead>
+                  <TableHead className="w-32">分组</TableHead>
+                  <TableHead>可选值</TableHead>
+                  <TableHead className="w-24">限定可选值</TableHead>
+                  <TableHead className="w-32">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dimensions.map((dimension, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        value={dimension.key}
+                        placeholder="如：口袋"
+                        onChange={(e) => updateDimension(index, { key: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={dimension.label}
+                        placeholder={dimension.key || '同标签键'}
+                        onChange={(e) => updateDimension(index, { label: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={dimension.group}
+                        onChange={(e) => updateDimension(index, { group: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={dimension.valuesText}
+                        placeholder="如：贴袋、插袋、无口袋"
+                        onChange={(e) => updateDimension(index, { valuesText: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={!!dimension.strict}
+                        onCheckedChange={(checked) => updateDimension(index, { strict: checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => moveDimension(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => moveDimension(index, 1)} disabled={index === dimensions.length - 1}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => removeDimension(index)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <Button variant="outline" onClick={addDimension}>
+            <Plus className="h-4 w-4 mr-2" />
+            添加维度
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>同义词词典</CardTitle>
+          <CardDescription>
+            识别结果中的同义写法会在解析时归一化为规范值，原始值随记录一起保存；
+            筛选、搜索和测试模式评分也按同一份词典判断。比较时忽略大小写、空格和连字符。
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40">维度</TableHead>
+                  <TableHead className="w-40">规范值</TableHead>
+                  <TableHead>同义写法</TableHead>
+                  <TableHead className="w-16">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {synonymRows.map((row, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Select
+                        value={row.dimensionKey}
+                        onValueChange={(value) => updateSynonymRow(index, { dimensionKey: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="选择维度" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {dimensions.filter(dimension => dimension.key.trim()).map(dimension => (
+                            <SelectItem key={dimension.key} value={dimension.key}>
+                              {dimension.label || dimension.key}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={row.canonical}
+                        placeholder="如：衬衫"
+                        onChange={(e) => updateSynonymRow(index, { canonical: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={row.synonymsText}
+                        placeholder="如：衬衣"
+                        onChange={(e) => updateSynonymRow(index, { synonymsText: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" onClick={() => updateSynonymRows(synonymRows.filter((_, i) => i !== index))}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <Button variant="outline" onClick={addSynonymRow}>
+            <Plus className="h-4 w-4 mr-2" />
+            添加同义词
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TaxonomyPage;
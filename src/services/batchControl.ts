@@ -0,0 +1,104 @@
+// 批量任务控制：取消（AbortSignal）、暂停和继续
+
+// 批量任务控制器，由发起批量任务的组件创建并持有
+export interface BatchController {
+  signal: AbortSignal;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  // 暂停时等待继续；已取消时抛出AbortError
+  waitIfPaused: () => Promise<void>;
+  // 监听暂停/继续/取消，返回取消监听函数
+  onStateChange: (listener: (state: BatchControlState) => void) => () => void;
+}
+
+export type BatchControlState = 'running' | 'paused' | 'cancelled';
+
+// 创建与fetch一致的AbortError
+export const createAbortError = (message: string = '操作已取消'): Error => {
+  if (typeof DOMException !== 'undefined') {
+    return new DOMException(message, 'AbortError');
+  }
+  return Object.assign(new Error(message), { name: 'AbortError' });
+};
+
+export const isAbortError = (error: unknown): boolean => (error as Error | undefined)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+// 可取消的等待，用于重试前的退避
+export const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export const createBatchController = (): BatchController => {
+  const abortController = new AbortController();
+  let paused = false;
+  let resumeWaiters: (() => void)[] = [];
+  const stateListeners = new Set<(state: BatchControlState) => void>();
+
+  const notify = (state: BatchControlState) => {
+    stateListeners.forEach(listener => listener(state));
+  };
+
+  const releaseWaiters = () => {
+    resumeWaiters.forEach(release => release());
+    resumeWaiters = [];
+  };
+
+  return {
+    signal: abortController.signal,
+    pause: () => {
+      if (paused || abortController.signal.aborted) return;
+      paused = true;
+      notify('paused');
+    },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      releaseWaiters();
+      notify('running');
+    },
+    cancel: () => {
+      if (abortController.signal.aborted) return;
+      paused = false;
+      abortController.abort();
+      releaseWaiters();
+      notify('cancelled');
+    },
+    isPaused: () => paused,
+    waitIfPaused: async () => {
+      while (paused && !abortController.signal.aborted) {
+        await new Promise<void>(resolve => resumeWaiters.push(resolve));
+      }
+      throwIfAborted(abortController.signal);
+    },
+    onStateChange: (listener) => {
+      stateListeners.add(listener);
+      return () => {
+        stateListeners.delete(listener);
+      };
+    }
+  };
+};
@@ -1,5 +1,7 @@
 import { ClothingAnalysisRecord } from '../config/postgresql';
 import { AnalysisResult } from './cozeService';
+import { FEATURE_VERSION } from './imageFeatures';
+import { getFileSignature } from './similarityService';
 
 // 浏览器环境下的数据库服务 - 通过后端 API 调用
 // 这个文件替代直接的数据库连接，避免在浏览器中使用 Node.js 模块
@@ -68,6 +70,15 @@ export const saveAnalysisToDatabase = async (
     formData.append('image', file);
     formData.append('analysisResult', JSON.stringify(analysisResult));
 
+    // 入库时计算相似度特征向量和感知哈希，之后的相似搜索和查重不再重复计算
+    const signature = await getFileSignature(file);
+    if (signature) {
+      formData.append('features', JSON.stringify(signature.features));
+      formData.append('featureVersion', String(FEATURE_VERSION));
+      formData.append('dHash', signature.dHash);
+      formData.append('pHash', signature.pHash);
+    }
+
     const response = await fetch(`${API_BASE_URL}/analysis`, {
       method: 'POST',
       body: formData
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateAgreementConfidence,
+  calculateOverallConfidence,
+  formatConfidence,
+  hasFieldConfidence,
+  voteConsensus
+} from './confidenceService';
+
+describe('voteConsensus', () => {
+  it('每个字段取多数票，一致率作为字段置信度', () => {
+    const { tags, fieldConfidence, report } = voteConsensus([
+      { 颜色: '白色', 领: '圆领' },
+      { 颜色: '白色', 领: 'V领' },
+      { 颜色: '黑色', 领: '圆领' }
+    ]);
+
+    expect(tags).toEqual({ 颜色: '白色', 领: '圆领' });
+    expect(fieldConfidence.颜色).toBeCloseTo(2 / 3);
+    expect(fieldConfidence.领).toBeCloseTo(2 / 3);
+    expect(report.runs).toBe(3);
+    expect(report.disagreements.颜色).toEqual({
+      votes: [{ value: '白色', count: 2 }, { value: '黑色', count: 1 }],
+      unrecognized: 0,
+      tie: false
+    });
+  });
+
+  it('各次结果一致的字段不记录在投票记录中', () => {
+    const { fieldConfidence, report } = voteConsensus([{ 袖: '长袖' }, { 袖: '长袖' }, { 袖: '长袖' }]);
+
+    expect(fieldConfidence.袖).toBe(1);
+    expect(report.disagreements).toEqual({});
+  });
+
+  it('按忽略空白和大小写的口径计票，得票值使用第一次出现时的写法', () => {
+    const { tags, fieldConfidence } = voteConsensus([{ 领: 'V 领' }, { 领: 'v领' }, { 领: '圆领' }]);
+
+    expect(tags.领).toBe('V 领');
+    expect(fieldConfidence.领).toBeCloseTo(2 / 3);
+  });
+
+  it('未识别不计票，但计入识别次数', () => {
+    const { tags, fieldConfidence, report } = voteConsensus([{ 面料: '棉质' }, { 面料: '未识别' }, {}]);
+
+    expect(tags.面料).toBe('棉质');
+    expect(fieldConfidence.面料).toBeCloseTo(1 / 3);
+    expect(report.disagreements.面料.unrecognized).toBe(2);
+  });
+
+  it('全部未识别的字段结果为未识别且没有置信度', () => {
+    const { tags, fieldConfidence } = voteConsensus([{ 图案: '未识别' }, { 图案: '未识别' }]);
+
+    expect(tags.图案).toBe('未识别');
+    expect(fieldConfidence.图案).toBeUndefined();
+  });
+
+  it('同票时取最先出现的值并标记', () => {
+    const { tags, report } = voteConsensus([{ 风格: '简约' }, { 风格: '复古' }]);
+
+    expect(tags.风格).toBe('简约');
+    expect(report.disagreements.风格.tie).toBe(true);
+  });
+});
+
+describe('calculateAgreementConfidence', () => {
+  it('与采用值相同的次数 / 总次数，未识别的采用值没有置信度', () => {
+    const runs = [
+      { 颜色: '白色', 领: '圆领' },
+      { 颜色: '白 色', 领: '未识别' },
+      { 颜色: '黑色', 领: '圆领' },
+      { 颜色: '白色' }
+    ];
+
+    expect(calculateAgreementConfidence(runs, { 颜色: '白色', 领: '圆领', 袖: '未识别' })).toEqual({
+      颜色: 0.75,
+      领: 0.5
+    });
+  });
+
+  it('没有识别结果时返回空对象', () => {
+    expect(calculateAgreementConfidence([], { 颜色: '白色' })).toEqual({});
+  });
+});
+
+describe('整体置信度', () => {
+  it('字段置信度的平均值换算为0-100', () => {
+    expect(calculateOverallConfidence({ 颜色: 1, 领: 0.5, 袖: 0.6 })).toBe(70);
+  });
+
+  it('没有字段置信度时为0', () => {
+    expect(calculateOverallConfidence({})).toBe(0);
+    expect(calculateOverallConfidence(undefined)).toBe(0);
+    expect(hasFieldConfidence({})).toBe(false);
+    expect(hasFieldConfidence({ 颜色: 0.9 })).toBe(true);
+  });
+
+  it('格式化为百分数', () => {
+    expect(formatConfidence(0.666)).toBe('67%');
+  });
+});
@@ -0,0 +1,102 @@
+// 字段置信度服务：模型给出的置信度优先，否则用多次识别结果的一致程度估算
+import type { ClothingTags, FieldConfidence } from './cozeService';
+
+// 低于该值的字段在界面上提示人工复核
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+const isRecognized = (value: string | undefined) => !!value && value !== '未识别';
+
+// 统一比较口径：忽略空白和大小写
+const normalizeValue = (value: string) => value.replace(/\s+/g, '').toLowerCase();
+
+// 根据多次识别结果计算每个字段的一致率：与最终采用的值相同的次数 / 总次数
+export const calculateAgreementConfidence = (runs: ClothingTags[], chosen: ClothingTags): FieldConfidence => {
+  const fieldConfidence: FieldConfidence = {};
+  if (runs.length === 0) return fieldConfidence;
+
+  (Object.keys(chosen) as (keyof ClothingTags)[]).forEach(key => {
+    if (!isRecognized(chosen[key])) return;
+
+    const target = normalizeValue(chosen[key]);
+    const agreeCount = runs.filter(run => isRecognized(run[key]) && normalizeValue(run[key]) === target).length;
+    fieldConfidence[key] = agreeCount / runs.length;
+  });
+
+  return fieldConfidence;
+};
+
+// 多次识别投票时可选的识别次数，1为不投票
+export const CONSENSUS_RUN_OPTIONS = [1, 3, 5];
+
+// 某个字段各次识别结果的票数
+export interface FieldVotes {
+  votes: { value: string; count: number }[]; // 按票数从高到低，未识别不计票
+  unrecognized: number; // 未识别的次数
+  tie: boolean; // 最高票有多个值，取最先出现的值
+}
+
+// 投票记录：只包含各次结果不一致的字段
+export interface ConsensusReport {
+  runs: number;
+  disagreements: Record<string, FieldVotes>;
+}
+
+// 对多次识别结果的每个字段多数投票；一致率（得票数 / 识别次数）作为字段置信度
+export const voteConsensus = (runs: ClothingTags[]): {
+  tags: ClothingTags;
+  fieldConfidence: FieldConfidence;
+  report: ConsensusReport;
+} => {
+  const tags: ClothingTags = {};
+  const fieldConfidence: FieldConfidence = {};
+  const disagreements: Record<string, FieldVotes> = {};
+  const keys = Array.from(new Set(runs.flatMap(run => Object.keys(run))));
+
+  keys.forEach(key => {
+    // 按统一口径计票，得票值使用第一次出现时的写法
+    const counts = new Map<string, { value: string; count: number }>();
+    let unrecognized = 0;
+    runs.forEach(run => {
+      if (!isRecognized(run[key])) {
+        unrecognized++;
+        return;
+      }
+      const normalized = normalizeValue(run[key]);
+      const entry = counts.get(normalized) || { value: run[key], count: 0 };
+      entry.count++;
+      counts.set(normalized, entry);
+    });
+
+    // Map保持插入顺序，排序稳定，同票时最先出现的值排在前面
+    const votes = Array.from(counts.values()).sort((a, b) => b.count - a.count);
+    if (votes.length === 0) {
+      tags[key] = '未识别';
+      return;
+    }
+
+    tags[key] = votes[0].value;
+    fieldConfidence[key] = votes[0].count / runs.length;
+
+    const tie = votes.length > 1 && votes[1].count === votes[0].count;
+    if (votes.length > 1 || unrecognized > 0) {
+      disagreements[key] = { votes, unrecognized, tie };
+    }
+  });
+
+  return { tags, fieldConfidence, report: { runs: runs.length, disagreements } };
+};
+
+// 整体置信度（0-100的百分数）：已识别字段置信度的平均值，没有任何字段置信度时为0
+export const calculateOverallConfidence = (fieldConfidence?: FieldConfidence): number => {
+  const values = Object.values(fieldConfidence || {}).filter(value => typeof value === 'number');
+  if (values.length === 0) return 0;
+
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.round(average * 100);
+};
+
+export const hasFieldConfidence = (fieldConfidence?: FieldConfidence): boolean => {
+  return !!fieldConfidence && Object.keys(fieldConfidence).length > 0;
+};
+
+export const formatConfidence = (value: number): string => `${Math.round(value * 100)}%`;
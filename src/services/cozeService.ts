@@ -1,33 +1,40 @@
 // Coze API服务
-export const COZE_API_BASE = 'https://api.coze.cn';
-export const COZE_API_TOKEN = 'pat_R7sAdh24rufZtr9xH5VoDsSjD1K9K2SNvepGLpGq3pFUWlhIR9D2JIycR3f9Ynxk';
+export const COZE_API_BASE = import.meta.env.VITE_COZE_API_BASE || 'https://api.coze.cn';
+// 直连模式的Token只用于本地调试；正式环境使用后端代理，Token保存在服务器上
+const COZE_API_TOKEN = import.meta.env.VITE_COZE_API_TOKEN || '';
 const WORKFLOW_ID = '7529771322207010856';
+// 工作流发布的版本标记，只记录在结果的来源信息中，修改工作流后更新以区分新旧结果
+const WORKFLOW_VERSION = import.meta.env.VITE_COZE_WORKFLOW_VERSION || '';
 // APP_ID需要从Coze工作流编辑页面的URL中获取，格式为：project-ide/{APP_ID}/workflow/{WORKFLOW_ID}
 // 请替换为正确的APP_ID，如果没有单独的APP_ID，可以尝试使用WORKFLOW_ID
 const APP_ID = '7529771322207010856'; // 请替换为正确的APP_ID
 
 // 图片上传到Coze并获取file_id
-const uploadImageToCoze = async (file: File): Promise<string> => {
+const uploadImageToCoze = async (file: File, priority: RequestPriority = 'interactive', signal?: AbortSignal): Promise<string> => {
   const formData = new FormData();
   formData.append('file', file);
   
   try {
     console.log('开始上传图片到Coze:', file.name, file.size);
     
-    const response = await fetch(`${COZE_API_BASE}/v1/files/upload`, {
+    const response = await scheduleRequest(() => fetch(`${COZE_API_BASE}/v1/files/upload`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${COZE_API_TOKEN}`,
       },
-      body: formData
-    });
+      body: formData,
+      signal
+    }), priority, signal);
     
     console.log('Coze文件上传响应状态:', response.status, response.statusText);
     
     if (!response.ok) {
       const errorText = await response.text();
       console.error('文件上传失败详情:', errorText);
-      throw new Error(`文件上传失败: ${response.status} - ${errorText}`);
+      throw fromHttpStatus(response.status, `文件上传失败: ${response.status} - ${errorText}`, {
+        body: errorText,
+        retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+      });
     }
     
     const result = await response.json();
@@ -62,7 +69,7 @@ const uploadImageToCoze = async (file: File): Promise<string> => {
       if (result.data) {
         console.log('- data字段内容:', Object.keys(result.data));
       }
-      throw new Error('上传成功但未获得file_id - 请检查控制台日志了解响应格式');
+      throw new UpstreamError('上传成功但未获得file_id - 请检查控制台日志了解响应格式', { body: JSON.stringify(result) });
     }
     
     console.log('获得的file_id:', fileId);
@@ -74,35 +81,120 @@ const uploadImageToCoze = async (file: File): Promise<string> => {
 };
 
 import { saveToHistory } from './historyService';
-import { saveAnalysisToDatabase } from './databaseService';
-
-export interface ClothingTags {
-  样式名称: string;
-  颜色: string;
-  色调: string;
-  领: string;
-  袖: string;
-  版型: string;
-  长度: string;
-  面料: string;
-  图案: string;
-  工艺: string;
-  场合: string;
-  季节: string;
-  风格: string;
+import { calculateFileHash, saveAnalysisToDatabase } from './databaseService';
+import { getCachedFileRef, invalidateCachedFileRef, isUnknownFileError, saveCachedFileRef } from './fileRefCacheService';
+import {
+  createDefaultTags,
+  parseClothingTagsWithReport,
+  parsePartialClothingTags,
+  ParsedClothingTags,
+  TAG_PARSER_VERSION,
+  TagParseReport,
+  TagParseStrategy
+} from './tagParser';
+import {
+  RecognitionProvider,
+  RecognitionCallOptions,
+  openaiVisionProvider,
+  mockRecognitionProvider,
+  proxyRecognitionProvider,
+  COZE_FILE_REF_TTL
+} from './recognitionProviders';
+import { getRecognitionSettings, RecognitionProviderId } from './settingsService';
+import { scheduleRequest, reportRateLimited, RequestPriority } from './rateLimiter';
+import { abortableSleep, isAbortError } from './batchControl';
+import { calculateAgreementConfidence, calculateOverallConfidence, ConsensusReport, hasFieldConfidence, voteConsensus } from './confidenceService';
+import { getFileFingerprint } from './deduplicationService';
+import { preprocessImage, PreprocessReport } from './imagePreprocessService';
+import { recordRecognitionCall, trackRecognitionCall } from './telemetryService';
+import type { SimilarityBreakdown } from './similarityMetrics';
+import {
+  RecognitionError,
+  ParseFailureError,
+  UpstreamError,
+  RECOGNITION_ERROR_LABELS,
+  RecognitionErrorCode,
+  fromCozeErrorCode,
+  fromHttpStatus,
+  getRetryDelay,
+  describeRecognitionError,
+  parseRetryAfter,
+  toRecognitionError
+} from './recognitionErrors';
+import {
+  STREAMING_UNSUPPORTED_STATUSES,
+  isEventStreamResponse,
+  isStreamingUnsupported,
+  markStreamingUnsupported,
+  readWorkflowStream
+} from './workflowStream';
+
+// 服装标签：键为标签体系中的维度（如样式名称、颜色、领），见taxonomyService
+export type ClothingTags = Record<string, string>;
+
+// 每个字段的置信度（0-1），只包含有置信度的已识别字段
+export type FieldConfidence = Partial<Record<string, number>>;
+
+// 服装在图片中的位置，坐标和宽高都是相对图片宽高的比例（0-1）
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 一张图片中识别出的单件服装（套装照片中的上装、下装、外套等）
+export interface GarmentResult {
+  tags: ClothingTags;
+  confidence: number;
+  fieldConfidence?: FieldConfidence;
+  boundingBox?: BoundingBox;
+  rawTags?: Record<string, string>;
+}
+
+// 结果的来源：识别服务、工作流或模型、解析器版本和模型原始输出，修改工作流或解析规则后用于区分新旧结果
+export interface AnalysisProvenance {
+  provider: RecognitionProviderId;
+  workflowId?: string;
+  workflowVersion?: string;
+  model?: string;
+  parserVersion: string;
+  parseStrategy: TagParseStrategy;
+  rawOutput?: string;
 }
 
 export interface AnalysisResult {
   imageUrl: string;
   tags: ClothingTags;
-  confidence: number;
+  confidence: number; // 整体置信度（0-100），为各字段置信度的平均值，没有字段置信度时为0
+  fieldConfidence?: FieldConfidence; // 字段置信度：来自模型输出或多次识别的一致率
+  garments?: GarmentResult[]; // 识别出多件服装时的每件结果，tags等字段对应第一件（主服装）
+  rawTags?: Record<string, string>; // 归一化前的原始值，只包含被同义词词典改写的字段
+  imageHash?: string; // 图片内容的SHA-256哈希，用于批量分析查重
+  perceptualHash?: string; // 图片感知哈希（dHash），用于查找近似重复的图片
   analysisTime: number;
   similarity?: number; // 相似度百分比，用于相似度搜索结果
+  combinedScore?: number; // 标签重排序后的综合评分（0-1）
+  tagSimilarity?: number; // 标签相似度百分比
+  similarityBreakdown?: SimilarityBreakdown; // 颜色、布局、边缘和标签各部分对评分的贡献
   error?: string; // 错误信息，当分析失败时显示
   isError?: boolean; // 是否为错误状态
+  errorCode?: RecognitionErrorCode; // 失败原因的错误码，用于按原因分组和批量重试
+  isStreaming?: boolean; // 流式识别中的临时结果，tags只包含已识别的字段
   fileName?: string; // 文件名，用于重试时识别
+  parseReport?: TagParseReport; // 解析报告：成功的解析策略和被丢弃的字段，用于审计模型输出
+  preprocessing?: PreprocessReport; // 上传前的图片预处理记录，imageUrl为处理后的图片
+  consensus?: ConsensusReport; // 多次识别投票的记录（识别次数和不一致的字段）
+  provenance?: AnalysisProvenance; // 结果的来源，保存到数据库和历史记录
+  recordId?: string; // 数据库记录ID，从数据库加载的结果才有
+  features?: number[]; // 数据库记录入库时计算的特征向量，相似度搜索直接使用
 }
 
+// 是否需要按多件服装展示：识别出多件，或者单件但带有位置信息
+export const hasGarmentDetails = (garments?: GarmentResult[]): boolean => {
+  return !!garments && (garments.length > 1 || garments.some(garment => garment.boundingBox));
+};
+
 // 上传图片到临时存储并获取URL（保留作为备用方法）
 const uploadImageToTempStorage = async (file: File): Promise<string> => {
   // 直接返回本地 blob URL，因为Coze可能不能访问 data URL
@@ -110,30 +202,27 @@ const uploadImageToTempStorage = async (file: File): Promise<string> => {
   return URL.createObjectURL(file);
 };
 
-// 检查是否是QPS限制错误
-const isQpsLimitError = (error: any): boolean => {
-  const errorMessage = error?.message || error?.toString() || '';
-  const errorStatus = error?.status || error?.response?.status;
-  
-  // 检查常见的QPS错误标识
-  const qpsKeywords = [
-    'qps too high',
-    'rate limit',
-    'too many requests',
-    'frequency limit',
-    'Pro call plugin qps too high',
-    '720711011', // Coze特定的QPS错误码
-    '720711012', // 可能的其他QPS错误码
-    'quota exceeded',
-    'throttled'
-  ];
-  
-  // 检查HTTP状态码
-  const qpsStatusCodes = [429, 503];
-  
-  return qpsKeywords.some(keyword => 
-    errorMessage.toLowerCase().includes(keyword.toLowerCase())
-  ) || qpsStatusCodes.includes(errorStatus);
+// 上传阶段常见错误的说明
+const UPLOAD_ERROR_MESSAGES: Partial<Record<RecognitionErrorCode, string>> = {
+  auth: 'API认证失败，请检查Token配置',
+  quota_exceeded: '上传配额已用完，请等待配额重置',
+  payload_too_large: '图片文件过大，请选择较小的图片',
+  unsupported_format: '不支持的图片格式，请使用JPG、PNG或WebP格式'
+};
+
+// 失败结果的错误字段：给用户看的说明和用于分组、批量重试的错误码
+const createErrorFields = (error: unknown, fallbackMessage: string): Pick<AnalysisResult, 'isError' | 'error' | 'errorCode'> => {
+  const recognitionError = toRecognitionError(error);
+  return {
+    isError: true,
+    error: describeRecognitionError(recognitionError) || fallbackMessage,
+    errorCode: recognitionError.code
+  };
+};
+
+// 输出中是否出现了标签体系中的任一维度名
+const mentionsTagFields = (output: string): boolean => {
+  return !!output && Object.keys(createDefaultTags()).some(key => output.includes(key));
 };
 
 // 检查分析结果是否全是未识别
@@ -147,11 +236,20 @@ const isResultAllUnrecognized = (tags: ClothingTags): boolean => {
   return recognizedTags.length === 0;
 };
 
-// 带重试机制的API调用
-const callCozeAPIWithRetry = async (fileId: string, maxRetries: number = 5): Promise<string> => {
-  let lastError: any;
+// 带重试机制的API调用；传入onPartialOutput时优先使用流式执行，接口不支持时回退到阻塞式调用
+const callCozeAPIWithRetry = async (
+  fileId: string,
+  priority: RequestPriority = 'interactive',
+  signal?: AbortSignal,
+  onPartialOutput?: (output: string) => void,
+  maxRetries: number = 5
+): Promise<string> => {
+  const streamUrl = `${COZE_API_BASE}/v1/workflow/stream_run`;
+
+  let lastError: RecognitionError;
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    const attemptStartedAt = Date.now();
     try {
       console.log(`API调用尝试 ${attempt}/${maxRetries}`);
       
@@ -164,28 +262,51 @@ const callCozeAPIWithRetry = async (fileId: string, maxRetries: number = 5): Pro
       
       console.log('🚀 发送到Coze的请求数据:', JSON.stringify(requestBody, null, 2));
       
-      const response = await fetch(`${COZE_API_BASE}/v1/workflow/run`, {
+      // 每次尝试都经过调度器，重试同样占用QPS配额
+      const requestWorkflow = (url: string) => scheduleRequest(() => fetch(url, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${COZE_API_TOKEN}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(requestBody)
-      });
+        body: JSON.stringify(requestBody),
+        signal
+      }), priority, signal);
+      
+      let response: Response | null = null;
+      if (onPartialOutput && !isStreamingUnsupported(streamUrl)) {
+        response = await requestWorkflow(streamUrl);
+        if (STREAMING_UNSUPPORTED_STATUSES.includes(response.status)) {
+          markStreamingUnsupported(streamUrl);
+          response = null;
+        } else if (response.ok && isEventStreamResponse(response)) {
+          const streamedText = await readWorkflowStream(response, onPartialOutput);
+          console.log('流式执行完成，结果文本:', streamedText);
+          return streamedText;
+        }
+      }
+      // 没有返回事件流的响应（如业务错误）按阻塞式调用的响应处理
+      response = response || await requestWorkflow(`${COZE_API_BASE}/v1/workflow/run`);
       
       console.log('📡 Coze API响应状态:', response.status, response.statusText);
       
       if (!response.ok) {
         const errorText = await response.text();
         console.error('Coze API错误详情:', errorText);
-        const error = new Error(`API请求失败: ${response.status} ${response.statusText} - ${errorText}`);
-        error.status = response.status;
-        throw error;
+        throw fromHttpStatus(response.status, `API请求失败: ${response.status} ${response.statusText} - ${errorText}`, {
+          body: errorText,
+          retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+        });
       }
       
       const result = await response.json();
       console.log('Coze工作流响应:', result);
       
+      // Coze的业务错误（如QPS限制720711011）以HTTP 200 + 非0错误码返回
+      if (typeof result.code === 'number' && result.code !== 0) {
+        throw fromCozeErrorCode(result.code, result.msg || '未知错误', JSON.stringify(result));
+      }
+      
       // 提取结果文本
       let resultText = '';
       if (result.data) {
@@ -206,97 +327,324 @@ const callCozeAPIWithRetry = async (fileId: string, maxRetries: number = 5): Pro
       return resultText;
       
     } catch (error) {
-      console.error(`API调用尝试 ${attempt} 失败:`, error);
-      lastError = error;
-      
-      // 检查是否是QPS限制错误
-      if (isQpsLimitError(error)) {
-        if (attempt < maxRetries) {
-          // 指数退避策略：2^attempt * 2秒
-          const waitTime = Math.pow(2, attempt) * 2000;
-          console.log(`检测到QPS限制，等待 ${waitTime}ms 后重试...`);
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-          continue;
-        } else {
-          throw new Error('API调用频率过高，请稍后重试');
-        }
+      // 已取消的请求不再重试
+      if (isAbortError(error)) {
+        throw error;
       }
       
-      // 对于其他错误，根据错误类型决定是否重试
-      if (error?.status === 500 || error?.status === 502 || error?.status === 503) {
-        // 服务器错误，可以重试
-        if (attempt < maxRetries) {
-          const waitTime = 1000 * attempt; // 线性退避
-          console.log(`服务器错误，等待 ${waitTime}ms 后重试...`);
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-          continue;
-        }
+      const recognitionError = toRecognitionError(error);
+      console.error(`API调用尝试 ${attempt} 失败（${RECOGNITION_ERROR_LABELS[recognitionError.code]}）:`, error);
+      lastError = recognitionError;
+      
+      if (recognitionError.code === 'rate_limited') {
+        reportRateLimited(recognitionError.retryAfter);
       }
       
-      // 其他错误直接抛出
-      throw error;
+      // 限流、服务端错误和超时在这里退避重试；网络错误和无法解析的响应交给上层按结果重试，其他错误直接抛出
+      const waitTime = recognitionError.code === 'network' || recognitionError.code === 'parse_failure'
+        ? null
+        : getRetryDelay(recognitionError, attempt);
+      if (waitTime === null || attempt === maxRetries) {
+        throw recognitionError;
+      }
+      // 最终的结果由上层记录，这里只记录在内部重试掉的失败请求
+      recordRecognitionCall({
+        stage: 'run',
+        provider: 'coze',
+        attempt,
+        startedAt: attemptStartedAt,
+        durationMs: Date.now() - attemptStartedAt,
+        outcome: 'error',
+        errorCode: recognitionError.code,
+        status: recognitionError.status,
+        priority
+      });
+      console.log(`${RECOGNITION_ERROR_LABELS[recognitionError.code]}，等待 ${waitTime}ms 后重试...`);
+      await abortableSleep(waitTime, signal);
     }
   }
   
   throw lastError;
 };
 
-// 调用Coze工作流进行服装识别
-export const analyzeClothingImage = async (file: File): Promise<AnalysisResult> => {
-  try {
-    const startTime = Date.now();
-    console.log(`开始分析图片: ${file.name}, 大小: ${(file.size / 1024 / 1024).toFixed(2)}MB`);
+// Coze工作流识别服务
+export const cozeRecognitionProvider: RecognitionProvider = {
+  id: 'coze',
+  name: 'Coze工作流',
+
+  upload: async (file: File, options?: RecognitionCallOptions) => {
+    const fileId = await uploadImageToCoze(file, options?.priority, options?.signal);
     
-    // 必须成功上传图片到Coze才能继续
-    let fileId: string;
-    try {
-      fileId = await uploadImageToCoze(file);
-      
-      // 检查file_id是否有效
-      if (!fileId || fileId.startsWith('blob:') || fileId.startsWith('data:')) {
-        throw new Error('获得的不是有效的file_id');
-      }
-      
-      console.log('成功获得有效的file_id:', fileId);
-    } catch (uploadError) {
-      console.error('上传到Coze失败:', uploadError);
-      // 提供更详细的错误信息
-      if (uploadError.message?.includes('401')) {
-        throw new Error('API认证失败，请检查Token配置');
-      } else if (uploadError.message?.includes('413')) {
-        throw new Error('图片文件过大，请选择较小的图片');
-      } else if (uploadError.message?.includes('415')) {
-        throw new Error('不支持的图片格式，请使用JPG、PNG或WebP格式');
-      } else {
-        throw new Error(`图片上传失败: ${uploadError.message}`);
+    // 检查file_id是否有效
+    if (!fileId || fileId.startsWith('blob:') || fileId.startsWith('data:')) {
+      throw new UpstreamError('获得的不是有效的file_id', { body: fileId });
+    }
+    
+    return fileId;
+  },
+
+  run: (fileId: string, options?: RecognitionCallOptions) => callCozeAPIWithRetry(
+    fileId,
+    options?.priority,
+    options?.signal,
+    options?.onPartialOutput
+  ),
+
+  parse: parseClothingTagsWithReport,
+
+  fileRefTtl: COZE_FILE_REF_TTL,
+
+  getSource: () => ({ workflowId: WORKFLOW_ID, workflowVersion: WORKFLOW_VERSION || undefined })
+};
+
+const RECOGNITION_PROVIDERS: Record<RecognitionProviderId, RecognitionProvider> = {
+  proxy: proxyRecognitionProvider,
+  coze: cozeRecognitionProvider,
+  openai: openaiVisionProvider,
+  mock: mockRecognitionProvider
+};
+
+// 根据ID获取识别服务，未指定时使用设置中选择的服务
+export const getRecognitionProvider = (id?: RecognitionProviderId): RecognitionProvider => {
+  return RECOGNITION_PROVIDERS[id || getRecognitionSettings().provider] || proxyRecognitionProvider;
+};
+
+// 调用识别服务的上传或执行，并记录这次调用的耗时和结果
+const uploadTracked = (provider: RecognitionProvider, file: File, options: RecognitionCallOptions, attempt = 1) => trackRecognitionCall(
+  { stage: 'upload', provider: provider.id, fileName: file.name, attempt, priority: options.priority || 'interactive' },
+  () => provider.upload(file, options)
+);
+
+const runTracked = (
+  provider: RecognitionProvider,
+  fileId: string,
+  options: RecognitionCallOptions,
+  { attempt = 1, fileName }: { attempt?: number; fileName?: string } = {}
+) => trackRecognitionCall(
+  { stage: 'run', provider: provider.id, fileName, attempt, priority: options.priority || 'interactive' },
+  () => provider.run(fileId, options)
+);
+
+// 上传结果：cached表示复用了缓存的文件引用
+interface UploadedImage {
+  fileId: string;
+  imageHash?: string;
+  cached: boolean;
+}
+
+// 上传图片；识别服务的文件引用可以复用时，内容相同且未过期的图片直接使用缓存的引用
+const uploadWithCache = async (
+  provider: RecognitionProvider,
+  file: File,
+  options: RecognitionCallOptions,
+  attempt = 1
+): Promise<UploadedImage> => {
+  if (!provider.fileRefTtl) {
+    return { fileId: await uploadTracked(provider, file, options, attempt), cached: false };
+  }
+
+  const imageHash = await calculateFileHash(file);
+  const cachedFileId = await getCachedFileRef(provider.id, imageHash);
+  if (cachedFileId) {
+    console.log(`复用已上传的文件: ${file.name} -> ${cachedFileId}`);
+    return { fileId: cachedFileId, imageHash, cached: true };
+  }
+
+  const fileId = await uploadTracked(provider, file, options, attempt);
+  await saveCachedFileRef(provider.id, imageHash, fileId, provider.fileRefTtl);
+  return { fileId, imageHash, cached: false };
+};
+
+// 上传图片（复用缓存的文件引用），上传失败时把错误信息换成面向用户的说明，错误类型、状态码和原始响应保持不变
+const uploadForAnalysis = async (
+  provider: RecognitionProvider,
+  file: File,
+  options: RecognitionCallOptions,
+  attempt = 1
+): Promise<UploadedImage> => {
+  try {
+    return await uploadWithCache(provider, file, options, attempt);
+  } catch (uploadError) {
+    if (isAbortError(uploadError)) {
+      throw uploadError;
+    }
+    console.error(`上传到${provider.name}失败:`, uploadError);
+    const recognitionError = toRecognitionError(uploadError);
+    recognitionError.message = UPLOAD_ERROR_MESSAGES[recognitionError.code] || `图片上传失败: ${recognitionError.message}`;
+    throw recognitionError;
+  }
+};
+
+// 单张图片的分析选项
+export interface AnalyzeImageOptions extends RecognitionCallOptions {
+  consensusRuns?: number; // 大于1时识别多次并对每个字段多数投票，调用次数按倍数增加
+  // 流式识别时收到新字段就用已识别的字段调用，用于逐字段显示；设置中关闭流式识别时不调用
+  onPartialTags?: (tags: ClothingTags) => void;
+}
+
+// 把流式输出转换为逐字段的回调，字段没有变化时不重复通知
+const createPartialTagsHandler = (onPartialTags: (tags: ClothingTags) => void) => {
+  let lastSnapshot = '';
+  return (output: string) => {
+    const tags = parsePartialClothingTags(output);
+    const snapshot = JSON.stringify(tags);
+    if (snapshot !== lastSnapshot) {
+      lastSnapshot = snapshot;
+      onPartialTags(tags);
+    }
+  };
+};
+
+// 对同一张图片额外识别几次，失败的次数直接忽略
+const runExtraRecognitions = async (
+  provider: RecognitionProvider,
+  fileId: string,
+  count: number,
+  options: RecognitionCallOptions
+): Promise<ParsedClothingTags[]> => {
+  const extraRuns = await Promise.all(
+    Array.from({ length: count }, async () => {
+      try {
+        return provider.parse(await runTracked(provider, fileId, options));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('额外识别失败，忽略本次结果:', error);
+        return null;
       }
+    })
+  );
+  return extraRuns.filter((run): run is ParsedClothingTags => run !== null);
+};
+
+// 模型没有给出置信度时，按设置再识别几次，用各字段与首次结果的一致率作为置信度
+const estimateAgreementConfidence = async (
+  provider: RecognitionProvider,
+  fileId: string,
+  tags: ClothingTags,
+  options: RecognitionCallOptions
+): Promise<FieldConfidence> => {
+  const { confidenceRuns } = getRecognitionSettings();
+  if (confidenceRuns <= 1) return {};
+
+  console.log(`模型未返回置信度，额外识别 ${confidenceRuns - 1} 次计算一致率`);
+  const extraRuns = await runExtraRecognitions(provider, fileId, confidenceRuns - 1, options);
+
+  const runs = [tags, ...extraRuns.map(run => run.tags)];
+  if (runs.length < 2) return {};
+  return calculateAgreementConfidence(runs, tags);
+};
+
+// 多次识别投票：再识别 consensusRuns - 1 次，每个字段取多数结果，一致率作为字段置信度
+const applyConsensus = async (
+  provider: RecognitionProvider,
+  fileId: string,
+  result: AnalysisResult,
+  consensusRuns: number,
+  options: RecognitionCallOptions
+): Promise<void> => {
+  console.log(`多次识别投票：额外识别 ${consensusRuns - 1} 次`);
+  const extraRuns = await runExtraRecognitions(provider, fileId, consensusRuns - 1, options);
+  const runs = [{ tags: result.tags, rawTags: result.rawTags }, ...extraRuns];
+  if (runs.length < 2) return;
+
+  const { tags, fieldConfidence, report } = voteConsensus(runs.map(run => run.tags));
+  // 得票值的原始写法取自第一次投出该值的识别结果
+  const rawTags: Record<string, string> = {};
+  Object.entries(tags).forEach(([key, value]) => {
+    const source = runs.find(run => run.tags[key] === value);
+    if (source?.rawTags?.[key]) {
+      rawTags[key] = source.rawTags[key];
     }
+  });
+
+  result.tags = tags;
+  result.rawTags = rawTags;
+  result.fieldConfidence = fieldConfidence;
+  result.confidence = calculateOverallConfidence(fieldConfidence);
+  result.consensus = report;
+  // 投票只针对主服装
+  if (result.garments?.length) {
+    result.garments[0] = { ...result.garments[0], tags, rawTags, fieldConfidence, confidence: result.confidence };
+  }
+  console.log(`投票完成：${report.runs} 次有效识别，不一致字段:`, Object.keys(report.disagreements));
+};
+
+// 调用识别服务进行服装识别
+export const analyzeClothingImage = async (file: File, options: AnalyzeImageOptions = {}): Promise<AnalysisResult> => {
+  const startTime = Date.now();
+  // 处理后图片的本地blob URL，用于显示；分析失败时释放
+  let imageUrl: string | undefined;
+  try {
+    const provider = getRecognitionProvider();
+    console.log(`开始分析图片: ${file.name}, 大小: ${(file.size / 1024 / 1024).toFixed(2)}MB, 识别服务: ${provider.name}`);
+    
+    // 上传前预处理（方向校正、缩小、格式转换、裁边），识别、展示和框选位置都基于处理后的图片
+    const { file: uploadFile, report: preprocessing } = await preprocessImage(file);
+    
+    // 必须成功上传图片才能继续；内容相同的图片复用之前上传得到的文件引用
+    let uploaded = await uploadForAnalysis(provider, uploadFile, options);
+    let fileId = uploaded.fileId;
+    console.log('成功获得文件引用:', fileId.startsWith('data:') ? `${fileId.slice(0, 32)}...` : fileId);
     
     // 调用Coze工作流API（带重试机制）
     let resultText: string;
     let tags: ClothingTags;
+    let parseReport: TagParseReport;
+    let fieldConfidence: FieldConfidence;
     let analysisResult: AnalysisResult;
     
+    // 需要逐字段显示且设置中开启了流式识别时，使用流式执行
+    const onPartialOutput = options.onPartialTags && getRecognitionSettings().streaming
+      ? createPartialTagsHandler(options.onPartialTags)
+      : undefined;
+    
+    imageUrl = URL.createObjectURL(uploadFile);
+    
     // 最多重试5次，如果结果全是未识别
     const maxResultRetries = 5;
     for (let resultRetry = 1; resultRetry <= maxResultRetries; resultRetry++) {
       try {
         console.log(`分析尝试 ${resultRetry}/${maxResultRetries}`);
         
-        // 使用带重试机制的API调用
-        resultText = await callCozeAPIWithRetry(fileId);
+        // 使用识别服务执行识别
+        resultText = await runTracked(provider, fileId, { ...options, onPartialOutput }, { attempt: resultRetry, fileName: file.name });
         
         const analysisTime = Date.now() - startTime;
         console.log('最终收到的结果文本:', resultText);
         
-        tags = parseClothingTags(resultText);
-        console.log('解析后的标签:', tags);
+        const parsed = provider.parse(resultText);
+        ({ tags, report: parseReport, fieldConfidence } = parsed);
+        console.log('解析后的标签:', tags, '解析策略:', parseReport.strategy);
+        
+        // 输出中完全没有标签内容（空输出、报错页面、模型拒答等）时按解析失败重试；
+        // 输出了标签但值全是"未识别"的情况在下面按未识别重试
+        if (parseReport.strategy === 'none' && !mentionsTagFields(resultText)) {
+          throw new ParseFailureError(resultText ? '识别结果中没有可解析的标签' : '识别服务没有返回内容', { body: resultText });
+        }
         
         analysisResult = {
-          imageUrl: URL.createObjectURL(file), // 使用本地blob URL用于显示
+          imageUrl,
           tags,
-          confidence: 0, // 移除假置信度数据
-          analysisTime
+          confidence: calculateOverallConfidence(fieldConfidence),
+          fieldConfidence,
+          garments: parsed.garments?.map(garment => ({
+            tags: garment.tags,
+            confidence: calculateOverallConfidence(garment.fieldConfidence),
+            fieldConfidence: garment.fieldConfidence,
+            boundingBox: garment.boundingBox,
+            rawTags: garment.rawTags
+          })),
+          rawTags: parsed.rawTags,
+          analysisTime,
+          parseReport,
+          preprocessing,
+          provenance: {
+            provider: provider.id,
+            ...provider.getSource?.(),
+            parserVersion: TAG_PARSER_VERSION,
+            parseStrategy: parseReport.strategy,
+            rawOutput: resultText
+          }
         };
         
         // 检查结果是否全是未识别
@@ -306,7 +654,7 @@ export const analyzeClothingImage = async (file: File): Promise<AnalysisResult>
             // 等待一段时间后重试
             const waitTime = 2000 * resultRetry;
             console.log(`等待 ${waitTime}ms 后重试...`);
-            await new Promise(resolve => setTimeout(resolve, waitTime));
+            await abortableSleep(waitTime, options.signal);
             continue; // 继续下一次重试
           } else {
             console.log('重试次数用完，使用当前结果');
@@ -317,19 +665,53 @@ export const analyzeClothingImage = async (file: File): Promise<AnalysisResult>
         break;
         
       } catch (apiError) {
-        console.error(`分析尝试 ${resultRetry} 失败:`, apiError);
-        
-        if (resultRetry === maxResultRetries) {
-          // 最后一次尝试失败，抛出错误
+        if (isAbortError(apiError)) {
           throw apiError;
         }
+        const recognitionError = toRecognitionError(apiError);
+        console.error(`分析尝试 ${resultRetry} 失败（${RECOGNITION_ERROR_LABELS[recognitionError.code]}）:`, apiError);
+        
+        // 缓存的文件引用在识别服务端已失效：作废缓存，重新上传后再试，不占用重试次数
+        if (uploaded.cached && isUnknownFileError(apiError)) {
+          console.log('缓存的文件已失效，重新上传图片');
+          await invalidateCachedFileRef(provider.id, uploaded.imageHash);
+          uploaded = await uploadForAnalysis(provider, uploadFile, options, 2);
+          fileId = uploaded.fileId;
+          resultRetry--;
+          continue;
+        }
+        
+        // 认证失败、图片过大等重试也不会成功的错误，以及最后一次尝试失败时直接抛出
+        const waitTime = getRetryDelay(recognitionError, resultRetry);
+        if (waitTime === null || resultRetry === maxResultRetries) {
+          throw recognitionError;
+        }
         
-        // 等待后重试
-        const waitTime = 1000 * resultRetry;
         console.log(`等待 ${waitTime}ms 后重试...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
+        await abortableSleep(waitTime, options.signal);
+      }
+    }
+    
+    const consensusRuns = Math.max(1, Math.floor(options.consensusRuns || 1));
+    if (consensusRuns > 1 && !isResultAllUnrecognized(analysisResult.tags)) {
+      await applyConsensus(provider, fileId, analysisResult, consensusRuns, options);
+      analysisResult.analysisTime = Date.now() - startTime;
+    } else if (!hasFieldConfidence(analysisResult.fieldConfidence) && !isResultAllUnrecognized(analysisResult.tags)) {
+      analysisResult.fieldConfidence = await estimateAgreementConfidence(provider, fileId, analysisResult.tags, options);
+      analysisResult.confidence = calculateOverallConfidence(analysisResult.fieldConfidence);
+      // 一致率只针对主服装计算
+      if (analysisResult.garments?.length) {
+        analysisResult.garments[0] = {
+          ...analysisResult.garments[0],
+          fieldConfidence: analysisResult.fieldConfidence,
+          confidence: analysisResult.confidence
+        };
       }
     }
+    console.log('字段置信度:', analysisResult.fieldConfidence, '整体置信度:', analysisResult.confidence);
+    
+    // 记录图片指纹，之后的批量分析按内容查重
+    Object.assign(analysisResult, await getFileFingerprint(file));
     
     // 检查分析结果是否有效（不是全部未识别）
     const isValidResult = isAnalysisResultValid(analysisResult.tags);
@@ -337,7 +719,7 @@ export const analyzeClothingImage = async (file: File): Promise<AnalysisResult>
     // 保存到数据库和历史记录
     if (isValidResult) {
       try {
-        await saveAnalysisToDatabase(analysisResult, file);
+        await saveAnalysisToDatabase(analysisResult, uploadFile);
         console.log('成功保存到数据库');
       } catch (dbError) {
         // 如果是重复图片错误，不抛出错误
@@ -351,37 +733,32 @@ export const analyzeClothingImage = async (file: File): Promise<AnalysisResult>
       console.log('分析结果无效（全部未识别），跳过数据库保存');
     }
     
-    // 无论结果是否有效，都保存到历史记录
-    await saveToHistory(analysisResult, file);
+    // 无论结果是否有效，都保存到历史记录（原图和处理后的图片都保存）
+    await saveToHistory(analysisResult, file, uploadFile);
     console.log('成功保存到历史记录');
     
     return analysisResult;
     
   } catch (error) {
+    if (imageUrl) {
+      URL.revokeObjectURL(imageUrl);
+    }
+    
+    // 取消不算分析失败，不写入历史记录，交给调用方处理
+    if (isAbortError(error)) {
+      console.log(`分析已取消: ${file.name}`);
+      throw error;
+    }
+    
     console.error('服装识别分析失败:', error);
     
     // 返回错误状态的分析结果，而不是抛出错误
     const errorResult: AnalysisResult = {
       imageUrl: URL.createObjectURL(file),
-      tags: {
-        样式名称: '未识别',
-        颜色: '未识别',
-        色调: '未识别',
-        领: '未识别',
-        袖: '未识别',
-        版型: '未识别',
-        长度: '未识别',
-        面料: '未识别',
-        图案: '未识别',
-        工艺: '未识别',
-        场合: '未识别',
-        季节: '未识别',
-        风格: '未识别'
-      },
+      tags: createDefaultTags(),
       confidence: 0,
       analysisTime: Date.now() - startTime,
-      isError: true,
-      error: error.message || '服装识别分析失败，请重试',
+      ...createErrorFields(error, '服装识别分析失败，请重试'),
       fileName: file.name
     };
     
@@ -414,201 +791,6 @@ const isAnalysisResultValid = (tags: ClothingTags): boolean => {
   return isValid;
 };
 
-// 解析标签文本为结构化数据
-const parseClothingTags = (tagsText: string): ClothingTags => {
-  console.log('\n=== 开始解析标签 ===');
-  console.log('原始输入文本:', JSON.stringify(tagsText));
-  
-  const defaultTags: ClothingTags = {
-    样式名称: '未识别',
-    颜色: '未识别',
-    色调: '未识别',
-    领: '未识别',
-    袖: '未识别',
-    版型: '未识别',
-    长度: '未识别',
-    面料: '未识别',
-    图案: '未识别',
-    工艺: '未识别',
-    场合: '未识别',
-    季节: '未识别',
-    风格: '未识别'
-  };
-
-  if (!tagsText) {
-    console.log('输入文本为空，返回默认标签');
-    return defaultTags;
-  }
-
-  try {
-    // 清理文本，移除多余的字符和格式问题
-    console.log('\n--- 步骤1: 文本清理 ---');
-    let cleanedText = tagsText
-      .replace(/[{}"\\]/g, '') // 移除大括号、引号、反斜杠
-      .replace(/\}+$/g, '') // 移除末尾的多余大括号
-      .replace(/"+/g, '') // 移除多余的引号
-      .replace(/^output:\s*/i, '') // 移除开头的"output:"前缀
-      .trim();
-    
-    console.log('移除output前缀后的文本:', JSON.stringify(cleanedText));
-    
-    console.log('清理前的文本:', JSON.stringify(tagsText));
-    console.log('清理后的文本:', JSON.stringify(cleanedText));
-    
-    // 支持多种格式的解析，按优先级尝试
-    const tags = { ...defaultTags };
-    let foundMatches = 0;
-    
-    console.log('\n--- 步骤2: 格式1解析 (支持英文和中文逗号分割) ---');
-    // 格式1: 同时支持英文逗号和中文逗号分割的键值对
-    const pairs = cleanedText.split(/[,，]/);
-    console.log('分割后的键值对数组:', pairs);
-    
-    for (let i = 0; i < pairs.length; i++) {
-      const pair = pairs[i];
-      console.log(`处理第${i+1}个键值对:`, JSON.stringify(pair));
-      
-      const colonIndex = pair.indexOf('：');
-      console.log('冒号位置:', colonIndex);
-      
-      if (colonIndex > 0) {
-        const key = pair.substring(0, colonIndex).trim();
-        let value = pair.substring(colonIndex + 1).trim();
-        console.log('提取的键:', JSON.stringify(key));
-        console.log('提取的值(清理前):', JSON.stringify(value));
-        
-        // 清理值中的多余字符和标点
-        value = value.replace(/[}"，。]+$/g, '').trim();
-        console.log('提取的值(清理后):', JSON.stringify(value));
-        
-        const keyExists = key in tags;
-        const valueValid = value && value !== '未识别' && value !== 'undefined' && value !== 'null';
-        console.log('键是否存在:', keyExists, '值是否有效:', valueValid);
-        
-        if (keyExists && valueValid) {
-          tags[key as keyof ClothingTags] = value;
-          foundMatches++;
-          console.log(`✓ 成功匹配: ${key} = ${value}`);
-        } else {
-          console.log(`✗ 跳过: 键存在=${keyExists}, 值有效=${valueValid}`);
-        }
-      } else {
-        console.log('未找到冒号，跳过此键值对');
-      }
-    }
-    
-    console.log('格式1匹配数量:', foundMatches);
-    
-    // 格式2: 样式名称：[具体样式名称]，颜色：[具体颜色]...
-    if (foundMatches === 0) {
-      console.log('\n--- 步骤3: 格式2解析 (方括号格式) ---');
-      let regex = /(\w+)：\[([^\]]+)\]/g;
-      let match;
-      while ((match = regex.exec(cleanedText)) !== null) {
-        const [, key, value] = match;
-        console.log(`方括号格式匹配 - 键: ${key}, 值: ${value}`);
-        if (key in tags) {
-          tags[key as keyof ClothingTags] = value.trim();
-          foundMatches++;
-          console.log(`✓ 方括号格式匹配: ${key} = ${value}`);
-        }
-      }
-      console.log('格式2匹配数量:', foundMatches);
-    }
-    
-    // 格式3: 直接的键值对格式（按行分割）
-    if (foundMatches === 0) {
-      console.log('\n--- 步骤4: 格式3解析 (按行分割) ---');
-      const lines = cleanedText.split(/[\n]/);
-      console.log('按行分割后的数组:', lines);
-      
-      for (const line of lines) {
-        console.log('处理行:', JSON.stringify(line));
-        const colonIndex = line.indexOf('：');
-        if (colonIndex > 0) {
-          const key = line.substring(0, colonIndex).trim();
-          let value = line.substring(colonIndex + 1).trim();
-          // 清理值中的多余字符
-          value = value.replace(/[}"，。]+$/g, '').trim();
-          console.log(`行格式 - 键: ${key}, 值: ${value}`);
-          if (key in tags && value && value !== '未识别') {
-            tags[key as keyof ClothingTags] = value;
-            foundMatches++;
-            console.log(`✓ 行格式匹配: ${key} = ${value}`);
-          }
-        }
-      }
-      console.log('格式3匹配数量:', foundMatches);
-    }
-    
-    // 格式4: 单行格式，用正则匹配键值对
-    if (foundMatches === 0) {
-      console.log('\n--- 步骤5: 格式4解析 (正则匹配) ---');
-      let regex = /(\w+)：([^，。\n]+)/g;
-      let match;
-      while ((match = regex.exec(cleanedText)) !== null) {
-        const [, key, value] = match;
-        console.log(`正则匹配 - 键: ${key}, 值: ${value}`);
-        if (key in tags) {
-          // 清理值中的多余字符
-          let cleanValue = value.trim().replace(/[}"]+$/g, '');
-          console.log(`正则格式清理后的值: ${cleanValue}`);
-          if (cleanValue && cleanValue !== '未识别') {
-            tags[key as keyof ClothingTags] = cleanValue;
-            foundMatches++;
-            console.log(`✓ 正则格式匹配: ${key} = ${cleanValue}`);
-          }
-        }
-      }
-      console.log('格式4匹配数量:', foundMatches);
-    }
-
-    console.log('\n=== 解析完成 ===');
-    console.log('总匹配数量:', foundMatches);
-    console.log('最终解析结果:', tags);
-    return tags;
-  } catch (error) {
-    console.error('解析标签失败:', error);
-    return defaultTags;
-  }
-};
-
-// 生成示例标签数据（用于演示）
-const generateSampleTags = (filename: string): ClothingTags => {
-  const styles = ['连衣裙', '衬衫', 'T恤', '外套', '裤子', '裙子', '套装', '背心', '毛衣'];
-  const colors = ['黑色', '白色', '蓝色', '红色', '灰色', '粉色', '绿色', '黄色', '紫色'];
-  const tones = ['深色调', '浅色调', '中性色调', '暖色调', '冷色调'];
-  const collars = ['圆领', 'V领', '立领', '翻领', '一字领', '高领', '无领'];
-  const sleeves = ['长袖', '短袖', '七分袖', '无袖', '五分袖'];
-  const fits = ['修身', '宽松', '直筒', '紧身', '标准'];
-  const lengths = ['短款', '中长款', '长款', '超长款'];
-  const fabrics = ['棉质', '丝绸', '羊毛', '聚酯纤维', '亚麻', '雪纺', '牛仔'];
-  const patterns = ['纯色', '条纹', '格子', '印花', '刺绣', '蕾丝', '几何图案'];
-  const crafts = ['简约', '精工', '手工', '机织', '针织'];
-  const occasions = ['休闲', '正式', '商务', '聚会', '运动', '居家'];
-  const seasons = ['春季', '夏季', '秋季', '冬季', '四季'];
-  const styles_fashion = ['简约', '复古', '时尚', '甜美', '帅气', '优雅', '休闲'];
-
-  const getRandomItem = (arr: string[]) => arr[Math.floor(Math.random() * arr.length)];
-
-  return {
-    样式名称: getRandomItem(styles),
-    颜色: getRandomItem(colors),
-    色调: getRandomItem(tones),
-    领: getRandomItem(collars),
-    袖: getRandomItem(sleeves),
-    版型: getRandomItem(fits),
-    长度: getRandomItem(lengths),
-    面料: getRandomItem(fabrics),
-    图案: getRandomItem(patterns),
-    工艺: getRandomItem(crafts),
-    场合: getRandomItem(occasions),
-    季节: getRandomItem(seasons),
-    风格: getRandomItem(styles_fashion)
-  };
-};
-
-// 批量分析图片
 // 重试分析失败的图片
 export const retryAnalysis = async (result: AnalysisResult): Promise<AnalysisResult> => {
   if (!result.fileName || !result.isError) {
@@ -628,180 +810,3 @@ export const retryAnalysis = async (result: AnalysisResult): Promise<AnalysisRes
     throw error;
   }
 };
-
-export const analyzeBatchImages = async (files: File[], onProgress?: (current: number, total: number, fileName: string) => void): Promise<AnalysisResult[]> => {
-  const results: AnalysisResult[] = [];
-  const { checkDuplicateResult } = await import('./storageService');
-  
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    
-    try {
-      // 更新进度
-      onProgress?.(i + 1, files.length, file.name);
-      
-      // 创建临时的AnalysisResult用于查重检查
-      const tempResult: AnalysisResult = {
-        imageUrl: '',
-        tags: {} as any,
-        confidence: 0,
-        analysisTime: Date.now(),
-        fileName: file.name
-      };
-      
-      // 检查是否为重复图片
-      const duplicateResult = checkDuplicateResult(tempResult);
-      if (duplicateResult) {
-        console.log(`跳过重复图片: ${file.name}，使用已有分析结果`);
-        // 如果重复结果的图片URL是base64格式，直接使用；否则创建新的blob URL
-        let imageUrl = duplicateResult.imageUrl;
-        if (!imageUrl || (!imageUrl.startsWith('data:') && !imageUrl.startsWith('http'))) {
-          imageUrl = URL.createObjectURL(file);
-        }
-        const updatedResult = {
-          ...duplicateResult,
-          imageUrl,
-          analysisTime: duplicateResult.analysisTime || 0 // 确保重复结果的分析时间为0或原值
-        };
-        results.push(updatedResult);
-        continue;
-      }
-      
-      // 如果不是重复图片，进行分析
-      console.log(`开始分析新图片: ${file.name} (${i + 1}/${files.length})`);
-      const result = await analyzeClothingImage(file);
-      results.push(result);
-      
-    } catch (error) {
-      console.error(`分析图片 ${file.name} 失败:`, error);
-      
-      // 创建错误结果
-      const errorResult: AnalysisResult = {
-        imageUrl: URL.createObjectURL(file),
-        tags: {
-          样式名称: '分析失败',
-          颜色: '未识别',
-          色调: '未识别',
-          领: '未识别',
-          袖: '未识别',
-          版型: '未识别',
-          长度: '未识别',
-          面料: '未识别',
-          图案: '未识别',
-          工艺: '未识别',
-          场合: '未识别',
-          季节: '未识别',
-          风格: '未识别'
-        },
-        confidence: 0,
-        analysisTime: 0,
-        isError: true,
-        error: error.message || '分析失败',
-        fileName: file.name
-      };
-      
-      results.push(errorResult);
-    }
-  }
-  
-  return results;
-};
-
-// 批量分析图片（带查重和进度回调的增强版本）
-export const analyzeBatchImagesWithDeduplication = async (
-  files: File[], 
-  onProgress?: (current: number, total: number, fileName: string, isDuplicate?: boolean) => void
-): Promise<AnalysisResult[]> => {
-  const results: AnalysisResult[] = [];
-  const { loadAnalysisResults } = await import('./storageService');
-  let duplicateCount = 0;
-  let newAnalysisCount = 0;
-  
-  console.log(`开始批量分析 ${files.length} 张图片，启用查重功能...`);
-  
-  // 一次性加载所有已有结果，避免重复查询
-  const existingResults = loadAnalysisResults();
-  console.log(`已加载 ${existingResults.length} 条历史记录用于查重`);
-  
-  // 创建文件名到结果的映射，提高查找效率
-  const existingResultsMap = new Map<string, AnalysisResult>();
-  existingResults.forEach(result => {
-    if (result.fileName) {
-      existingResultsMap.set(result.fileName, result);
-    }
-  });
-  
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    
-    try {
-      // 检查是否为重复图片（使用Map快速查找）
-       const duplicateResult = existingResultsMap.get(file.name);
-       if (duplicateResult) {
-         duplicateCount++;
-         console.log(`[${i + 1}/${files.length}] 跳过重复图片: ${file.name}`);
-         
-         // 更新进度（标记为重复）
-         onProgress?.(i + 1, files.length, file.name, true);
-         
-         // 如果重复结果的图片URL是base64格式，直接使用；否则创建新的blob URL
-         let imageUrl = duplicateResult.imageUrl;
-         if (!imageUrl || (!imageUrl.startsWith('data:') && !imageUrl.startsWith('http'))) {
-           imageUrl = URL.createObjectURL(file);
-         }
-         const updatedResult = {
-           ...duplicateResult,
-           imageUrl,
-           analysisTime: duplicateResult.analysisTime || 0 // 确保重复结果的分析时间为0或原值
-         };
-         results.push(updatedResult);
-         continue;
-       }
-      
-      // 如果不是重复图片，进行分析
-      newAnalysisCount++;
-      console.log(`[${i + 1}/${files.length}] 开始分析新图片: ${file.name}`);
-      
-      // 更新进度（标记为新分析）
-      onProgress?.(i + 1, files.length, file.name, false);
-      
-      const result = await analyzeClothingImage(file);
-      results.push(result);
-      
-      console.log(`[${i + 1}/${files.length}] 分析完成: ${file.name}`);
-      
-    } catch (error) {
-      console.error(`[${i + 1}/${files.length}] 分析图片 ${file.name} 失败:`, error);
-      
-      // 创建错误结果
-      const errorResult: AnalysisResult = {
-        imageUrl: URL.createObjectURL(file),
-        tags: {
-          样式名称: '分析失败',
-          颜色: '未识别',
-          色调: '未识别',
-          领: '未识别',
-          袖: '未识别',
-          版型: '未识别',
-          长度: '未识别',
-          面料: '未识别',
-          图案: '未识别',
-          工艺: '未识别',
-          场合: '未识别',
-          季节: '未识别',
-          风格: '未识别'
-        },
-        confidence: 0,
-        analysisTime: 0,
-        isError: true,
-        error: error.message || '分析失败',
-        fileName: file.name
-      };
-      
-      results.push(errorResult);
-    }
-  }
-  
-  console.log(`批量分析完成: 总计 ${files.length} 张图片，新分析 ${newAnalysisCount} 张，跳过重复 ${duplicateCount} 张`);
-  return results;
-};
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { ClothingAnalysisRecord } from '../config/postgresql';
-import { AnalysisResult } from './cozeService';
+import { AnalysisProvenance, AnalysisResult } from './cozeService';
+import type { TagParseStrategy } from './tagParser';
+import type { RecognitionProviderId } from './settingsService';
+import { FEATURE_VERSION, ImageSignature } from './imageFeatures';
 
 // 根据环境选择数据库服务
 const isBrowser = typeof window !== 'undefined';
@@ -182,6 +185,42 @@ export const deleteMultipleAnalysisRecords = async (ids: string[]): Promise<{ su
   return service.deleteMultipleAnalysisRecords(ids);
 };
 
+// 从数据库记录的来源列还原结果来源；旧记录没有来源信息时返回undefined
+export const getRecordProvenance = (record: ClothingAnalysisRecord): AnalysisProvenance | undefined => {
+  if (!record.provider) return undefined;
+  return {
+    provider: record.provider as RecognitionProviderId,
+    workflowId: record.workflow_id || undefined,
+    workflowVersion: record.workflow_version || undefined,
+    model: record.model || undefined,
+    parserVersion: record.parser_version || '',
+    parseStrategy: (record.parse_strategy || 'none') as TagParseStrategy,
+    rawOutput: record.raw_output ?? undefined
+  };
+};
+
+// 数据库记录中当前版本的特征向量；没有计算过或特征算法已变化时返回undefined
+export const getRecordFeatures = (record: ClothingAnalysisRecord): number[] | undefined => {
+  return record.features && record.feature_version === FEATURE_VERSION ? record.features : undefined;
+};
+
+// 数据库记录中当前版本的特征向量和感知哈希，缺少任意一项时返回undefined
+export const getRecordSignature = (record: ClothingAnalysisRecord): ImageSignature | undefined => {
+  const features = getRecordFeatures(record);
+  if (!features || !record.dhash || !record.phash) return undefined;
+  return { features, dHash: record.dhash, pHash: record.phash };
+};
+
+// 为还没有特征向量的记录（如后台任务识别的图片）补充特征向量和感知哈希，返回是否保存成功
+export const saveRecordSignature = async (id: string, signature: ImageSignature): Promise<boolean> => {
+  return !!(await updateAnalysisRecord(id, {
+    features: signature.features,
+    feature_version: FEATURE_VERSION,
+    dhash: signature.dHash,
+    phash: signature.pHash
+  }));
+};
+
 // 获取统计信息（带重试机制）
 export const getAnalysisStats = async () => {
   const service = await getDbService();
@@ -0,0 +1,184 @@
+// 批量分析查重：按图片内容的SHA-256哈希查找已分析过的图片，可选按感知哈希查找近似重复的图片
+import type { AnalysisResult } from './cozeService';
+import { calculateFileHash } from './databaseService';
+import { calculateDHash, hammingDistance, NEAR_DUPLICATE_MAX_DISTANCE } from './imageHashService';
+import { loadAnalysisResults } from './storageService';
+
+// 发现重复图片时的处理方式：复用已有结果、重新分析，或者开始前询问
+export type DuplicateMode = 'reuse' | 'reanalyze' | 'ask';
+
+export const DUPLICATE_MODE_OPTIONS: { id: DuplicateMode; label: string }[] = [
+  { id: 'reuse', label: '复用已有结果' },
+  { id: 'reanalyze', label: '重新分析' },
+  { id: 'ask', label: '每批询问' }
+];
+
+export interface DuplicateOptions {
+  mode: DuplicateMode;
+  nearDuplicates: boolean; // 同时查找近似重复（缩放、压缩后的同一张图片）
+}
+
+// 实际执行时的查重方式："每批询问"在开始前由用户选定
+export interface BatchDuplicateOptions {
+  mode: Exclude<DuplicateMode, 'ask'>;
+  nearDuplicates: boolean;
+}
+
+// 图片指纹：内容哈希和感知哈希
+export interface FileFingerprint {
+  imageHash: string;
+  perceptualHash?: string;
+}
+
+// exact为内容完全相同，near为感知哈希相近
+export interface DuplicateMatch {
+  result: AnalysisResult;
+  kind: 'exact' | 'near';
+  distance: number; // 感知哈希的汉明距离，完全相同时为0
+}
+
+const DUPLICATE_OPTIONS_STORAGE_KEY = 'batch_duplicate_options';
+
+const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = { mode: 'ask', nearDuplicates: false };
+
+// 上次批量分析使用的查重选项
+export const getDuplicateOptions = (): DuplicateOptions => {
+  try {
+    const stored = localStorage.getItem(DUPLICATE_OPTIONS_STORAGE_KEY);
+    if (!stored) return DEFAULT_DUPLICATE_OPTIONS;
+
+    const parsed = JSON.parse(stored) as Partial<DuplicateOptions>;
+    return {
+      mode: DUPLICATE_MODE_OPTIONS.some(option => option.id === parsed.mode) ? parsed.mode : DEFAULT_DUPLICATE_OPTIONS.mode,
+      nearDuplicates: !!parsed.nearDuplicates
+    };
+  } catch (error) {
+    console.error('读取查重选项失败:', error);
+    return DEFAULT_DUPLICATE_OPTIONS;
+  }
+};
+
+export const saveDuplicateOptions = (options: DuplicateOptions): void => {
+  try {
+    localStorage.setItem(DUPLICATE_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.error('保存查重选项失败:', error);
+  }
+};
+
+// 同一个文件只计算一次指纹（查重和分析结果共用）
+const fingerprintCache = new WeakMap<File, Promise<FileFingerprint>>();
+
+export const getFileFingerprint = (file: File): Promise<FileFingerprint> => {
+  let fingerprint = fingerprintCache.get(file);
+  if (!fingerprint) {
+    fingerprint = (async () => {
+      const imageHash = await calculateFileHash(file);
+      let perceptualHash: string | undefined;
+      try {
+        perceptualHash = await calculateDHash(file);
+      } catch (error) {
+        console.warn(`计算感知哈希失败: ${file.name}`, error);
+      }
+      return { imageHash, perceptualHash };
+    })();
+    fingerprintCache.set(file, fingerprint);
+  }
+  return fingerprint;
+};
+
+// 把已有结果作为新文件的结果复用：图片和文件名使用新文件
+const toReusedResult = (match: DuplicateMatch, file: File): AnalysisResult => {
+  // 如果重复结果的图片URL是base64格式，直接使用；否则创建新的blob URL
+  let imageUrl = match.result.imageUrl;
+  if (!imageUrl || (!imageUrl.startsWith('data:') && !imageUrl.startsWith('http'))) {
+    imageUrl = URL.createObjectURL(file);
+  }
+  return {
+    ...match.result,
+    imageUrl,
+    fileName: file.name,
+    analysisTime: 0 // 复用的结果不计分析时间，用于统计跳过的重复图片
+  };
+};
+
+// 加载已有分析结果，返回按图片指纹查找重复结果的函数
+export const createDuplicateLookup = async (
+  options: { nearDuplicates?: boolean } = {}
+): Promise<(fingerprint: FileFingerprint) => DuplicateMatch | null> => {
+  const existingResults = loadAnalysisResults().filter(result => !result.isError);
+  console.log(`已加载 ${existingResults.length} 条历史记录用于查重`);
+
+  // 内容哈希到结果的映射；没有哈希的旧结果只能参与近似重复查找
+  const resultsByHash = new Map<string, AnalysisResult>();
+  existingResults.forEach(result => {
+    if (result.imageHash) {
+      resultsByHash.set(result.imageHash, result);
+    }
+  });
+  const perceptualResults = existingResults.filter(result => result.perceptualHash);
+
+  return (fingerprint: FileFingerprint) => {
+    const exact = resultsByHash.get(fingerprint.imageHash);
+    if (exact) return { result: exact, kind: 'exact', distance: 0 };
+    if (!options.nearDuplicates || !fingerprint.perceptualHash) return null;
+
+    let best: DuplicateMatch | null = null;
+    for (const result of perceptualResults) {
+      const distance = hammingDistance(fingerprint.perceptualHash, result.perceptualHash);
+      if (distance <= NEAR_DUPLICATE_MAX_DISTANCE && (!best || distance < best.distance)) {
+        best = { result, kind: 'near', distance };
+      }
+    }
+    return best;
+  };
+};
+
+// 查找一批文件中与已有结果重复的文件，用于开始分析前询问用户
+export const findDuplicateFiles = async (
+  files: File[],
+  options: { nearDuplicates?: boolean } = {}
+): Promise<{ file: File; match: DuplicateMatch }[]> => {
+  const findDuplicate = await createDuplicateLookup(options);
+  const duplicates: { file: File; match: DuplicateMatch }[] = [];
+  for (const file of files) {
+    const match = findDuplicate(await getFileFingerprint(file));
+    if (match) {
+      duplicates.push({ file, match });
+    }
+  }
+  return duplicates;
+};
+
+// 批量查重：与已有结果重复时复用，同一批中内容相同的文件只分析一次
+export const createBatchDeduplicator = async (options: { nearDuplicates?: boolean } = {}) => {
+  const findDuplicate = await createDuplicateLookup(options);
+  const inFlight = new Map<string, Promise<AnalysisResult>>();
+
+  return async (
+    file: File,
+    analyze: () => Promise<AnalysisResult>
+  ): Promise<{ result: AnalysisResult; duplicate: DuplicateMatch | null }> => {
+    const fingerprint = await getFileFingerprint(file);
+    const match = findDuplicate(fingerprint);
+    if (match) {
+      console.log(`发现${match.kind === 'exact' ? '重复' : '近似重复'}图片: ${file.name}，复用 ${match.result.fileName} 的分析结果`);
+      return { result: toReusedResult(match, file), duplicate: match };
+    }
+
+    const pending = inFlight.get(fingerprint.imageHash);
+    if (pending) {
+      const result = await pending;
+      if (!result.isError) {
+        console.log(`同一批中的重复图片: ${file.name}，复用 ${result.fileName} 的分析结果`);
+        const duplicate: DuplicateMatch = { result, kind: 'exact', distance: 0 };
+        return { result: toReusedResult(duplicate, file), duplicate };
+      }
+    }
+
+    const analysis = analyze();
+    inFlight.set(fingerprint.imageHash, analysis);
+    analysis.catch(() => inFlight.delete(fingerprint.imageHash));
+    return { result: await analysis, duplicate: null };
+  };
+};
@@ -0,0 +1,100 @@
+// 特征向量库：按图片内容哈希（SHA-256）在IndexedDB中保存相似度搜索的特征向量和感知哈希，不限数量、不过期；
+// 特征算法变化后版本不同的记录视为不存在，重新计算后覆盖
+import { STORES, openDB, promisifyRequest, withStore } from './indexedDBService';
+import { FEATURE_VERSION, ImageSignature } from './imageFeatures';
+
+export interface StoredFeatureVector extends ImageSignature {
+  imageHash: string;
+  version: number; // 计算时的FEATURE_VERSION
+  updatedAt: number;
+}
+
+// 旧版本在localStorage中保存的特征缓存（按结果序号保存，最多100条），已由特征向量库取代
+const LEGACY_CACHE_KEY = 'image_features_cache';
+
+// 计算图片内容的SHA-256哈希，与数据库查重使用的calculateFileHash一致
+export const calculateBlobHash = async (blob: Blob): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const calculateImageUrlHash = async (imageUrl: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(imageUrl, { signal });
+  if (!response.ok) {
+    throw new Error(`图片加载失败: ${response.status}`);
+  }
+  return calculateBlobHash(await response.blob());
+};
+
+// 获取当前版本的特征向量和感知哈希，没有或版本不同时返回null
+export const getStoredSignature = async (imageHash: string): Promise<ImageSignature | null> => {
+  try {
+    const stored = await withStore<StoredFeatureVector | undefined>(STORES.features, 'readonly', store => store.get(imageHash));
+    if (!stored || stored.version !== FEATURE_VERSION) return null;
+    return { features: stored.features, dHash: stored.dHash, pHash: stored.pHash };
+  } catch (error) {
+    console.error('读取特征向量失败:', error);
+    return null;
+  }
+};
+
+let prunedThisSession = false;
+
+// 删除旧版本的特征向量和localStorage中的旧缓存，每次打开页面后执行一次
+const pruneOutdatedFeatures = async (): Promise<void> => {
+  if (prunedThisSession) return;
+  prunedThisSession = true;
+
+  localStorage.removeItem(LEGACY_CACHE_KEY);
+
+  const db = await openDB();
+  const transaction = db.transaction([STORES.features], 'readwrite');
+  const store = transaction.objectStore(STORES.features);
+  const vectors = await promisifyRequest<StoredFeatureVector[]>(store.getAll());
+  const outdated = vectors.filter(vector => vector.version !== FEATURE_VERSION);
+  outdated.forEach(vector => store.delete(vector.imageHash));
+
+  if (outdated.length > 0) {
+    console.log(`已清理 ${outdated.length} 条旧版本的特征向量`);
+  }
+};
+
+// 在同一个事务中保存多张图片的特征向量和感知哈希
+export const saveStoredSignatures = async (entries: { imageHash: string; signature: ImageSignature }[]): Promise<void> => {
+  if (entries.length === 0) return;
+  try {
+    await pruneOutdatedFeatures();
+    const db = await openDB();
+    const transaction = db.transaction([STORES.features], 'readwrite');
+    const store = transaction.objectStore(STORES.features);
+    const now = Date.now();
+    entries.forEach(({ imageHash, signature }) => {
+      const vector: StoredFeatureVector = { imageHash, version: FEATURE_VERSION, ...signature, updatedAt: now };
+      store.put(vector);
+    });
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('保存特征向量失败:', error);
+  }
+};
+
+export const clearStoredFeatures = async (): Promise<void> => {
+  try {
+    await withStore(STORES.features, 'readwrite', store => store.clear());
+    console.log('特征向量库已清空');
+  } catch (error) {
+    console.error('清空特征向量库失败:', error);
+  }
+};
+
+export const getStoredFeatureCount = async (): Promise<number> => {
+  try {
+    return await withStore<number>(STORES.features, 'readonly', store => store.count());
+  } catch (error) {
+    console.error('读取特征向量数量失败:', error);
+    return 0;
+  }
+};
@@ -0,0 +1,141 @@
+// 特征提取Worker池：相似度搜索的图片在后台线程中解码和计算特征向量、感知哈希，任务排队分配给空闲的Worker，
+// 支持用AbortSignal取消排队中和执行中的任务
+import { createAbortError } from './batchControl';
+import type { FeatureWorkerRequest, FeatureWorkerResponse, ImageSignature } from './imageFeatures';
+
+interface FeatureTask {
+  id: number;
+  imageUrl: string;
+  resolve: (signature: ImageSignature) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+  cancelled: boolean; // 已取消但Worker仍在计算，结果到达后丢弃
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: FeatureTask | null;
+}
+
+// Worker数量：留出一个核心给页面，最多4个
+export const FEATURE_WORKER_POOL_SIZE = Math.max(
+  1,
+  Math.min(4, ((typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2) - 1)
+);
+
+// 所有任务完成后空闲一段时间关闭Worker，释放内存
+const IDLE_TERMINATE_DELAY = 30000;
+
+const queue: FeatureTask[] = [];
+const workers: PoolWorker[] = [];
+let nextTaskId = 1;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+// 浏览器是否支持在Worker中解码和绘制图片
+export const isFeatureWorkerSupported = (): boolean => {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap !== 'undefined';
+};
+
+const finishTask = (poolWorker: PoolWorker, response: FeatureWorkerResponse | { error: string }) => {
+  const task = poolWorker.task;
+  poolWorker.task = null;
+  if (task && !task.cancelled) {
+    task.cleanup();
+    if ('signature' in response) {
+      task.resolve(response.signature);
+    } else {
+      task.reject(new Error(response.error));
+    }
+  }
+  dispatch();
+};
+
+const createPoolWorker = (): PoolWorker => {
+  const poolWorker: PoolWorker = {
+    worker: new Worker(new URL('./imageFeatureWorker.ts', import.meta.url), { type: 'module' }),
+    task: null
+  };
+
+  poolWorker.worker.onmessage = (event: MessageEvent<FeatureWorkerResponse>) => {
+    if (poolWorker.task?.id === event.data.id) {
+      finishTask(poolWorker, event.data);
+    }
+  };
+
+  // Worker脚本出错时结束当前任务并替换为新的Worker
+  poolWorker.worker.onerror = (event) => {
+    event.preventDefault();
+    console.error('特征提取Worker出错:', event.message);
+    poolWorker.worker.terminate();
+    workers.splice(workers.indexOf(poolWorker), 1);
+    finishTask(poolWorker, { error: event.message || '特征提取Worker出错' });
+  };
+
+  return poolWorker;
+};
+
+const scheduleIdleTerminate = () => {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (queue.length > 0 || workers.some(poolWorker => poolWorker.task)) return;
+
+  idleTimer = setTimeout(() => {
+    idleTimer = null;
+    workers.splice(0).forEach(poolWorker => poolWorker.worker.terminate());
+    console.log('特征提取Worker已空闲关闭');
+  }, IDLE_TERMINATE_DELAY);
+};
+
+// 把排队的任务分配给空闲的Worker，Worker不足时创建
+const dispatch = () => {
+  while (queue.length > 0) {
+    let poolWorker = workers.find(candidate => !candidate.task);
+    if (!poolWorker) {
+      if (workers.length >= FEATURE_WORKER_POOL_SIZE) break;
+      poolWorker = createPoolWorker();
+      workers.push(poolWorker);
+    }
+
+    const task = queue.shift()!;
+    poolWorker.task = task;
+    const request: FeatureWorkerRequest = { id: task.id, imageUrl: task.imageUrl };
+    poolWorker.worker.postMessage(request);
+  }
+  scheduleIdleTerminate();
+};
+
+// 在Worker中提取一张图片的特征向量和感知哈希
+export const extractSignatureInWorker = (imageUrl: string, signal?: AbortSignal): Promise<ImageSignature> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    // 排队中的任务直接移除；执行中的任务标记为已取消，Worker算完后丢弃结果
+    const onAbort = () => {
+      task.cancelled = true;
+      const index = queue.indexOf(task);
+      if (index !== -1) queue.splice(index, 1);
+      reject(createAbortError());
+      scheduleIdleTerminate();
+    };
+
+    const task: FeatureTask = {
+      id: nextTaskId++,
+      imageUrl,
+      resolve,
+      reject,
+      cleanup: () => signal?.removeEventListener('abort', onAbort),
+      cancelled: false
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(task);
+    dispatch();
+  });
+};
@@ -0,0 +1,91 @@
+// 文件引用缓存：按图片内容哈希保存上传到识别服务后得到的文件引用（Coze的file_id），
+// 重试、重新分析和多次识别时不再重复上传同一张图片
+import { STORES, openDB, promisifyRequest, withStore } from './indexedDBService';
+
+export interface CachedFileRef {
+  key: string; // 识别服务ID:内容哈希
+  providerId: string;
+  imageHash: string;
+  fileRef: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const getCacheKey = (providerId: string, imageHash: string) => `${providerId}:${imageHash}`;
+
+// 获取未过期的文件引用；已过期的记录顺便删除
+export const getCachedFileRef = async (providerId: string, imageHash: string): Promise<string | null> => {
+  try {
+    const key = getCacheKey(providerId, imageHash);
+    const cached = await withStore<CachedFileRef | undefined>(STORES.fileRefs, 'readonly', store => store.get(key));
+    if (!cached) return null;
+
+    if (cached.expiresAt <= Date.now()) {
+      await withStore(STORES.fileRefs, 'readwrite', store => store.delete(key));
+      return null;
+    }
+    return cached.fileRef;
+  } catch (error) {
+    console.error('读取文件引用缓存失败:', error);
+    return null;
+  }
+};
+
+let prunedThisSession = false;
+
+// 删除所有过期的文件引用，每次打开页面后执行一次
+const pruneExpiredFileRefs = async (): Promise<void> => {
+  if (prunedThisSession) return;
+  prunedThisSession = true;
+
+  const db = await openDB();
+  const transaction = db.transaction([STORES.fileRefs], 'readwrite');
+  const store = transaction.objectStore(STORES.fileRefs);
+  const refs = await promisifyRequest<CachedFileRef[]>(store.getAll());
+  const now = Date.now();
+  const expired = refs.filter(ref => ref.expiresAt <= now);
+  expired.forEach(ref => store.delete(ref.key));
+
+  if (expired.length > 0) {
+    console.log(`已清理 ${expired.length} 条过期的文件引用缓存`);
+  }
+};
+
+// 保存文件引用，ttl为识别服务端文件的有效期（毫秒）
+export const saveCachedFileRef = async (
+  providerId: string,
+  imageHash: string,
+  fileRef: string,
+  ttl: number
+): Promise<void> => {
+  try {
+    await pruneExpiredFileRefs();
+    const now = Date.now();
+    const entry: CachedFileRef = {
+      key: getCacheKey(providerId, imageHash),
+      providerId,
+      imageHash,
+      fileRef,
+      createdAt: now,
+      expiresAt: now + ttl
+    };
+    await withStore(STORES.fileRefs, 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error('保存文件引用缓存失败:', error);
+  }
+};
+
+// 识别服务报告文件不存在或已过期时删除对应的缓存
+export const invalidateCachedFileRef = async (providerId: string, imageHash: string): Promise<void> => {
+  try {
+    await withStore(STORES.fileRefs, 'readwrite', store => store.delete(getCacheKey(providerId, imageHash)));
+  } catch (error) {
+    console.error('删除文件引用缓存失败:', error);
+  }
+};
+
+// 是否为"文件不存在/已过期"一类的错误，此时缓存的文件引用需要作废
+export const isUnknownFileError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return /file[_\s]?(id)?.{0,20}(not\s*found|not\s*exist|does\s*not\s*exist|expired|invalid)|(invalid|unknown)\s*file|文件不存在|文件已过期|文件已失效|无效的文件/i.test(message);
+};
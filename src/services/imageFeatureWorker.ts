@@ -0,0 +1,48 @@
+// 特征提取Worker：用fetch读取图片、createImageBitmap解码、OffscreenCanvas缩放，在后台线程计算特征向量和感知哈希，
+// 避免相似度搜索大量图片时阻塞页面
+import { FeatureWorkerRequest, FeatureWorkerResponse, ImageSignature, computeImageSignature } from './imageFeatures';
+
+// 读取单张图片的超时时间
+const LOAD_TIMEOUT = 10000;
+
+const extractSignature = async (imageUrl: string): Promise<ImageSignature> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), LOAD_TIMEOUT);
+  let bitmap: ImageBitmap;
+  try {
+    const response = await fetch(imageUrl, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`图片加载失败: ${response.status}`);
+    }
+    bitmap = await createImageBitmap(await response.blob());
+  } catch (error) {
+    throw new Error(controller.signal.aborted ? '图片加载超时' : `图片加载失败: ${error.message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  try {
+    return computeImageSignature((width, height) => {
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('无法创建Canvas上下文');
+      }
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      return ctx.getImageData(0, 0, width, height).data;
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = async (event: MessageEvent<FeatureWorkerRequest>) => {
+  const { id, imageUrl } = event.data;
+  let response: FeatureWorkerResponse;
+  try {
+    response = { id, signature: await extractSignature(imageUrl) };
+  } catch (error) {
+    response = { id, error: error.message || '特征提取失败' };
+  }
+  self.postMessage(response);
+};
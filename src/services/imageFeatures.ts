@@ -0,0 +1,15 @@
+// 相似度搜索的图片特征和感知哈希，计算在 shared/imageFeatures.js 中，主线程、特征提取Worker和服务器共用
+import type { ImageSignature } from '../../shared/imageFeatures.js';
+
+export { FEATURE_IMAGE_SIZE, FEATURE_VERSION, computeImageFeatures, computeImageSignature } from '../../shared/imageFeatures.js';
+export type { ImageSignature };
+
+// 特征提取Worker的请求和响应
+export interface FeatureWorkerRequest {
+  id: number;
+  imageUrl: string;
+}
+
+export type FeatureWorkerResponse =
+  | { id: number; signature: ImageSignature }
+  | { id: number; error: string };
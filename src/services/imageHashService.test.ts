@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DHASH_HEIGHT,
+  DHASH_WIDTH,
+  PHASH_SIZE,
+  computeDHash,
+  computePHash,
+  findNearDuplicates,
+  groupNearDuplicates,
+  hammingDistance,
+  isNearDuplicate,
+  toGrayscale
+} from './imageHashService';
+
+// 按坐标生成灰度像素
+const createPixels = (width: number, height: number, value: (x: number, y: number) => number): number[] => {
+  const pixels: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels.push(value(x, y));
+    }
+  }
+  return pixels;
+};
+
+// 64位哈希中第index位（从高位开始）取反
+const flipBit = (hash: string, index: number): string => {
+  const nibble = index >> 2;
+  const flipped = parseInt(hash[nibble], 16) ^ (8 >> (index % 4));
+  return hash.slice(0, nibble) + flipped.toString(16) + hash.slice(nibble + 1);
+};
+
+const flipBits = (hash: string, indexes: number[]) => indexes.reduce(flipBit, hash);
+
+const BASE_HASH = '0000000000000000';
+
+describe('dHash', () => {
+  it('逐行比较相邻像素：从左到右变暗时每一位为1，变亮时为0', () => {
+    expect(computeDHash(createPixels(DHASH_WIDTH, DHASH_HEIGHT, x => 255 - x * 20))).toBe('ffffffffffffffff');
+    expect(computeDHash(createPixels(DHASH_WIDTH, DHASH_HEIGHT, x => x * 20))).toBe(BASE_HASH);
+  });
+
+  it('整体亮度变化不影响哈希', () => {
+    const pattern = (x: number, y: number) => ((x * 7 + y * 13) % 10) * 10;
+    const hash = computeDHash(createPixels(DHASH_WIDTH, DHASH_HEIGHT, pattern));
+
+    expect(computeDHash(createPixels(DHASH_WIDTH, DHASH_HEIGHT, (x, y) => pattern(x, y) + 50))).toBe(hash);
+  });
+});
+
+describe('pHash', () => {
+  // 左右两种底色上的一个亮色圆形
+  const pattern = (x: number, y: number) => (x - 12) ** 2 + (y - 18) ** 2 < 80 ? 220 : x < 16 ? 90 : 40;
+
+  it('轻微的噪声和亮度变化只改变少数几位', () => {
+    const hash = computePHash(createPixels(PHASH_SIZE, PHASH_SIZE, pattern));
+    const noisy = computePHash(createPixels(PHASH_SIZE, PHASH_SIZE, (x, y) => pattern(x, y) + 10 + ((x * 31 + y * 17) % 5)));
+
+    expect(hash).toHaveLength(16);
+    expect(hammingDistance(hash, noisy)).toBeLessThanOrEqual(4);
+  });
+
+  it('明暗反转的图片哈希差异很大', () => {
+    const hash = computePHash(createPixels(PHASH_SIZE, PHASH_SIZE, pattern));
+    const inverted = computePHash(createPixels(PHASH_SIZE, PHASH_SIZE, (x, y) => 255 - pattern(x, y)));
+
+    expect(hammingDistance(hash, inverted)).toBeGreaterThan(32);
+  });
+});
+
+describe('toGrayscale', () => {
+  it('按亮度公式把RGBA转为灰度，忽略透明度', () => {
+    const pixels = toGrayscale(new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 0, 0, 0, 255, 128]));
+
+    expect(pixels[0]).toBeCloseTo(0.299 * 255);
+    expect(pixels[1]).toBeCloseTo(0.587 * 255);
+    expect(pixels[2]).toBeCloseTo(0.114 * 255);
+  });
+});
+
+describe('汉明距离', () => {
+  it('统计不同的位数', () => {
+    expect(hammingDistance('f0', '0f')).toBe(8);
+    expect(hammingDistance(BASE_HASH, flipBits(BASE_HASH, [0, 5, 63]))).toBe(3);
+    expect(hammingDistance(BASE_HASH, BASE_HASH)).toBe(0);
+  });
+
+  it('长度不同时视为完全不同', () => {
+    expect(hammingDistance('ff', 'fff')).toBe(Number.POSITIVE_INFINITY);
+  });
+});
+
+describe('近似重复分组', () => {
+  const item = (key: string, pHashBits: number[], dHashBits: number[] = pHashBits) => ({
+    key,
+    pHash: flipBits(BASE_HASH, pHashBits),
+    dHash: flipBits(BASE_HASH, dHashBits)
+  });
+
+  it('pHash距离不超过阈值、且dHash距离不超过阈值的2倍时为近似重复', () => {
+    const target = item('target', []);
+
+    expect(isNearDuplicate(target, item('a', [0, 1, 2, 3]), 4)).toBe(true);
+    expect(isNearDuplicate(target, item('b', [0, 1, 2, 3, 4]), 4)).toBe(false);
+    expect(isNearDuplicate(target, item('c', [0], [0, 1, 2, 3, 4, 5, 6, 7, 8]), 4)).toBe(false);
+  });
+
+  it('按pHash距离从近到远返回近似重复的图片', () => {
+    const matches = findNearDuplicates(item('target', []), [item('far', [0, 1, 2]), item('other', [10, 11, 12, 13, 14, 15, 16, 17, 18, 19]), item('near', [0])], 4);
+
+    expect(matches.map(match => [match.item.key, match.distance])).toEqual([['near', 1], ['far', 3]]);
+  });
+
+  it('近似关系可以传递，只返回两张及以上的组', () => {
+    const groups = groupNearDuplicates([
+      item('a', []),
+      item('b', [0, 1, 2]),
+      item('c', [0, 1, 2, 3, 4, 5]), // 与a距离6，与b距离3
+      item('d', [20, 21, 22, 23, 24, 25, 26, 27, 28, 29]),
+      item('e', [20, 21, 22, 23, 24, 25, 26, 27, 28, 30])
+    ], 4);
+
+    expect(groups.map(group => group.map(entry => entry.key))).toEqual([['a', 'b', 'c'], ['d', 'e']]);
+  });
+
+  it('没有近似重复时返回空数组', () => {
+    expect(groupNearDuplicates([item('a', []), item('b', [0, 1, 2, 3, 4, 5, 6, 7, 8, 9])], 4)).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+// 图片感知哈希：内容相近的图片（缩放、压缩、轻微调色或裁剪）哈希值也相近，用于查找近似重复的图片。
+// 哈希的计算在 shared/perceptualHash.js 中，主线程、特征提取Worker和服务器共用
+import { DHASH_HEIGHT, DHASH_WIDTH, computeDHash, toGrayscale } from '../../shared/perceptualHash.js';
+
+export { DHASH_HEIGHT, DHASH_WIDTH, PHASH_SIZE, computeDHash, computePHash, toGrayscale } from '../../shared/perceptualHash.js';
+
+// 汉明距离不超过该值时视为近似重复（批量分析查重，只比较dHash）
+export const NEAR_DUPLICATE_MAX_DISTANCE = 6;
+
+// 重复图片页面的默认阈值：pHash距离不超过该值、且dHash距离不超过它的2倍时归为一组
+export const PHASH_NEAR_DUPLICATE_DISTANCE = 8;
+
+// 把图片缩放到指定尺寸并返回灰度值
+const getGrayscalePixels = async (image: Blob, width: number, height: number): Promise<number[]> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法创建画布');
+    }
+
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return toGrayscale(ctx.getImageData(0, 0, width, height).data);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// 计算图片的dHash
+export const calculateDHash = async (image: Blob): Promise<string> => {
+  return computeDHash(await getGrayscalePixels(image, DHASH_WIDTH, DHASH_HEIGHT));
+};
+
+// 两个十六进制哈希的汉明距离（不同的位数）；长度不同时视为完全不同
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+export interface PerceptualHashes {
+  dHash: string;
+  pHash: string;
+}
+
+// 两张图片是否近似重复：pHash接近，且dHash也不太远（两种哈希同时接近，减少误判）
+export const isNearDuplicate = (
+  a: PerceptualHashes,
+  b: PerceptualHashes,
+  maxDistance: number = PHASH_NEAR_DUPLICATE_DISTANCE
+): boolean => {
+  return hammingDistance(a.pHash, b.pHash) <= maxDistance && hammingDistance(a.dHash, b.dHash) <= maxDistance * 2;
+};
+
+// 查找与target近似重复的图片，按pHash距离从近到远
+export const findNearDuplicates = <T extends PerceptualHashes>(
+  target: PerceptualHashes,
+  items: T[],
+  maxDistance: number = PHASH_NEAR_DUPLICATE_DISTANCE
+): { item: T; distance: number }[] => {
+  return items
+    .filter(item => isNearDuplicate(target, item, maxDistance))
+    .map(item => ({ item, distance: hammingDistance(target.pHash, item.pHash) }))
+    .sort((a, b) => a.distance - b.distance);
+};
+
+// 把近似重复的图片分组（A与B、B与C近似时三者归为一组），只返回两张及以上的组
+export const groupNearDuplicates = <T extends PerceptualHashes>(
+  items: T[],
+  maxDistance: number = PHASH_NEAR_DUPLICATE_DISTANCE
+): T[][] => {
+  // 并查集
+  const parents = items.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (isNearDuplicate(items[i], items[j], maxDistance)) {
+        parents[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root).push(item);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
@@ -0,0 +1,256 @@
+// 图片预处理：上传识别前在浏览器中校正EXIF方向、缩小尺寸、转换格式，可选裁掉四周颜色一致的边框
+import { getPreprocessSettings, PreprocessSettings } from './settingsService';
+import { UnsupportedFormatError } from './recognitionErrors';
+
+export type PreprocessStep = 'orient' | 'resize' | 'convert' | 'crop';
+
+export const PREPROCESS_STEP_LABELS: Record<PreprocessStep, string> = {
+  orient: '方向校正',
+  resize: '缩小尺寸',
+  convert: '格式转换',
+  crop: '裁掉边框'
+};
+
+export interface ImageVariantInfo {
+  width: number;
+  height: number;
+  size: number; // 字节数
+  type: string;
+}
+
+// 预处理记录：执行了哪些步骤，以及处理前后的尺寸和格式
+export interface PreprocessReport {
+  steps: PreprocessStep[];
+  orientation?: number; // 原图的EXIF方向（1为正常）
+  original: ImageVariantInfo;
+  processed: ImageVariantInfo;
+}
+
+export interface PreprocessedImage {
+  file: File; // 上传识别使用的图片，未做任何处理时为原图
+  report: PreprocessReport;
+}
+
+// 识别服务可以直接接受的格式，其他格式（HEIC、BMP、TIFF等）都要转换
+const SUPPORTED_UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// 部分浏览器读取HEIC等文件时type为空，按扩展名判断
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff'
+};
+
+const OUTPUT_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+// 裁边时像素与边框颜色每个通道的最大差值
+const BORDER_COLOR_TOLERANCE = 12;
+// 裁边后至少保留原图的比例，避免纯色图片被裁空
+const MIN_CROP_KEEP_RATIO = 0.5;
+
+const getImageType = (file: File): string => {
+  if (file.type) return file.type.toLowerCase();
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[extension] || '';
+};
+
+// 从JPEG的APP1（Exif）段读取方向标签（0x0112），读不到时返回1
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+    // 遇到图像数据（SOS）说明没有Exif段
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+
+    // "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      if (tiffStart + 8 > view.byteLength) break;
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;
+      const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+      if (ifdStart + 2 > view.byteLength) break;
+
+      const entryCount = view.getUint16(ifdStart, littleEndian);
+      for (let i = 0; i < entryCount; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      break;
+    }
+
+    offset += 2 + segmentLength;
+  }
+  return 1;
+};
+
+// 从四周向内查找颜色与左上角一致的边框，返回保留区域；没有边框时返回null
+export const detectUniformBorder = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tolerance = BORDER_COLOR_TOLERANCE
+): { x: number; y: number; width: number; height: number } | null => {
+  const reference = [data[0], data[1], data[2]];
+  const isBorderPixel = (x: number, y: number) => {
+    const index = (y * width + x) * 4;
+    return Math.abs(data[index] - reference[0]) <= tolerance
+      && Math.abs(data[index + 1] - reference[1]) <= tolerance
+      && Math.abs(data[index + 2] - reference[2]) <= tolerance;
+  };
+  const isBorderRow = (y: number, left: number, right: number) => {
+    for (let x = left; x < right; x++) {
+      if (!isBorderPixel(x, y)) return false;
+    }
+    return true;
+  };
+  const isBorderColumn = (x: number, top: number, bottom: number) => {
+    for (let y = top; y < bottom; y++) {
+      if (!isBorderPixel(x, y)) return false;
+    }
+    return true;
+  };
+
+  let top = 0;
+  let bottom = height;
+  let left = 0;
+  let right = width;
+  while (top < bottom && isBorderRow(top, left, right)) top++;
+  while (bottom > top && isBorderRow(bottom - 1, left, right)) bottom--;
+  while (left < right && isBorderColumn(left, top, bottom)) left++;
+  while (right > left && isBorderColumn(right - 1, top, bottom)) right--;
+
+  const cropWidth = right - left;
+  const cropHeight = bottom - top;
+  if (cropWidth === width && cropHeight === height) return null;
+  if (cropWidth < width * MIN_CROP_KEEP_RATIO || cropHeight < height * MIN_CROP_KEEP_RATIO) return null;
+
+  return { x: left, y: top, width: cropWidth, height: cropHeight };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('图片编码失败'))), type, quality);
+  });
+};
+
+const createCanvas = (width: number, height: number, background?: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('无法创建画布');
+  }
+  // JPEG没有透明通道，先铺白底，避免透明区域变黑
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  return { canvas, ctx };
+};
+
+const replaceExtension = (fileName: string, extension: string) => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return `${dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName}.${extension}`;
+};
+
+// 预处理图片；关闭预处理或不需要处理时返回原图
+export const preprocessImage = async (
+  file: File,
+  settings: PreprocessSettings = getPreprocessSettings()
+): Promise<PreprocessedImage> => {
+  const type = getImageType(file);
+  const needsConversion = !SUPPORTED_UPLOAD_TYPES.includes(type);
+  const orientation = type === 'image/jpeg'
+    ? readExifOrientation(await file.slice(0, 128 * 1024).arrayBuffer())
+    : 1;
+
+  let bitmap: ImageBitmap;
+  try {
+    // 浏览器解码时按EXIF方向旋转，重新编码后方向写入像素，不再依赖识别服务读取EXIF
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    if (needsConversion) {
+      throw new UnsupportedFormatError(`当前浏览器无法解码${type || '该格式的'}图片，请转换为JPG、PNG或WebP格式后上传`, { cause: error });
+    }
+    console.warn(`图片解码失败，使用原图上传: ${file.name}`, error);
+    const info = { width: 0, height: 0, size: file.size, type };
+    return { file, report: { steps: [], orientation, original: info, processed: info } };
+  }
+
+  try {
+    const original: ImageVariantInfo = { width: bitmap.width, height: bitmap.height, size: file.size, type };
+    const unchanged: PreprocessedImage = { file, report: { steps: [], orientation, original, processed: original } };
+    if (!settings.enabled && !needsConversion) return unchanged;
+
+    const steps: PreprocessStep[] = [];
+    if (orientation > 1) steps.push('orient');
+
+    const scale = settings.enabled ? Math.min(1, settings.maxEdge / Math.max(bitmap.width, bitmap.height)) : 1;
+    let width = Math.max(1, Math.round(bitmap.width * scale));
+    let height = Math.max(1, Math.round(bitmap.height * scale));
+    if (scale < 1) steps.push('resize');
+
+    const background = settings.outputFormat === 'image/jpeg' ? '#ffffff' : undefined;
+    let { canvas, ctx } = createCanvas(width, height, background);
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    if (settings.enabled && settings.autoCrop) {
+      const crop = detectUniformBorder(ctx.getImageData(0, 0, width, height).data, width, height);
+      if (crop) {
+        const cropped = createCanvas(crop.width, crop.height, background);
+        cropped.ctx.drawImage(canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+        ({ canvas, ctx } = cropped);
+        width = crop.width;
+        height = crop.height;
+        steps.push('crop');
+      }
+    }
+
+    if (steps.length === 0 && !needsConversion) return unchanged;
+    if (type !== settings.outputFormat) steps.push('convert');
+
+    const blob = await canvasToBlob(canvas, settings.outputFormat, settings.quality);
+    const processedFile = new File(
+      [blob],
+      replaceExtension(file.name, OUTPUT_EXTENSIONS[settings.outputFormat]),
+      { type: settings.outputFormat, lastModified: file.lastModified }
+    );
+    const processed: ImageVariantInfo = { width, height, size: processedFile.size, type: processedFile.type };
+
+    console.log(
+      `图片预处理 ${file.name}: ${steps.map(step => PREPROCESS_STEP_LABELS[step]).join('、')}，` +
+      `${original.width}x${original.height} ${(original.size / 1024).toFixed(0)}KB -> ` +
+      `${processed.width}x${processed.height} ${(processed.size / 1024).toFixed(0)}KB`
+    );
+    return { file: processedFile, report: { steps, orientation, original, processed } };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// 预处理步骤的简短说明，用于结果详情
+export const describePreprocessReport = (report: PreprocessReport | undefined): string => {
+  if (!report?.steps.length) return '未处理';
+  const { original, processed } = report;
+  return `${report.steps.map(step => PREPROCESS_STEP_LABELS[step]).join('、')}（` +
+    `${original.width}x${original.height} -> ${processed.width}x${processed.height}，` +
+    `${(original.size / 1024).toFixed(0)}KB -> ${(processed.size / 1024).toFixed(0)}KB）`;
+};
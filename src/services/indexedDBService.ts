@@ -0,0 +1,81 @@
+// 浏览器本地IndexedDB数据库（ClothingAnalysisDB），所有对象仓库在这里统一创建和升级
+export const DB_NAME = 'ClothingAnalysisDB';
+export const DB_VERSION = 5;
+
+export const STORES = {
+  images: 'images', // 历史记录图片
+  jobs: 'jobs', // 分析任务
+  jobItems: 'jobItems', // 分析任务中的单张图片（含原始文件）
+  fileRefs: 'fileRefs', // 识别服务的文件引用缓存（Coze file_id）
+  recognitionCalls: 'recognitionCalls', // 识别调用记录（上传和执行请求的耗时、结果）
+  features: 'features' // 相似度搜索的图片特征向量（按图片内容哈希）
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // 其他标签页升级数据库时关闭连接，下次使用时重新打开
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORES.images)) {
+        db.createObjectStore(STORES.images, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.jobs)) {
+        db.createObjectStore(STORES.jobs, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.jobItems)) {
+        const itemStore = db.createObjectStore(STORES.jobItems, { keyPath: 'id' });
+        itemStore.createIndex('jobId', 'jobId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORES.fileRefs)) {
+        db.createObjectStore(STORES.fileRefs, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.recognitionCalls)) {
+        const callStore = db.createObjectStore(STORES.recognitionCalls, { keyPath: 'id' });
+        callStore.createIndex('startedAt', 'startedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORES.features)) {
+        db.createObjectStore(STORES.features, { keyPath: 'imageHash' });
+      }
+    };
+  });
+
+  return dbPromise;
+};
+
+// 把IDBRequest包装为Promise
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 在单个对象仓库上执行操作
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  const transaction = db.transaction([storeName], mode);
+  return promisifyRequest(operation(transaction.objectStore(storeName)));
+};
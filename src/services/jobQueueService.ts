@@ -0,0 +1,440 @@
+// 持久化分析任务队列：原始图片和每张图片的状态保存在IndexedDB中，刷新页面后自动继续
+import { AnalysisResult, ClothingTags, analyzeClothingImage } from './cozeService';
+import { createBatchDeduplicator } from './deduplicationService';
+import { STORES, openDB, promisifyRequest, withStore } from './indexedDBService';
+import { mapWithConcurrency } from './rateLimiter';
+import { BatchController, abortableSleep, createBatchController, isAbortError } from './batchControl';
+import { RecognitionErrorCode, describeRecognitionError, toRecognitionError } from './recognitionErrors';
+
+// 任务来源：upload为首页批量上传，test为测试模式
+export type AnalysisJobType = 'upload' | 'test';
+export type AnalysisJobStatus = 'pending' | 'running' | 'paused' | 'cancelled' | 'completed';
+export type JobItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface AnalysisJobOptions {
+  duplicateMode?: 'reuse' | 'reanalyze'; // reuse时内容相同的图片复用已有分析结果
+  nearDuplicates?: boolean; // 同时复用近似重复图片的结果
+  skipDuplicates?: boolean; // 旧版任务的选项，等同于duplicateMode为reuse
+  retryUnrecognizedFields?: (keyof ClothingTags)[]; // 这些字段为"未识别"时重新分析
+  maxUnrecognizedRetries?: number;
+  consensusRuns?: number; // 每张图片识别的次数，大于1时多数投票，不再按未识别字段重试
+}
+
+export interface AnalysisJob {
+  id: string;
+  type: AnalysisJobType;
+  name: string;
+  status: AnalysisJobStatus;
+  total: number;
+  options: AnalysisJobOptions;
+  meta?: Record<string, unknown>; // 调用方附加的数据（如测试模式的Excel标注）
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+}
+
+export interface AnalysisJobItem {
+  id: string;
+  jobId: string;
+  index: number;
+  file: File;
+  fileName: string;
+  status: JobItemStatus;
+  result?: AnalysisResult; // 不含imageUrl，读取时由file重新生成
+  error?: string;
+  errorCode?: RecognitionErrorCode; // 失败原因，用于按原因分组和批量重试
+  isDuplicate?: boolean;
+  updatedAt: number;
+}
+
+export interface JobProgress {
+  total: number;
+  pending: number;
+  running: number;
+  done: number;
+  failed: number;
+}
+
+export type JobEvent =
+  | { type: 'job'; job: AnalysisJob }
+  | { type: 'item'; job: AnalysisJob; item: AnalysisJobItem }
+  | { type: 'deleted'; jobId: string };
+
+type JobListener = (event: JobEvent) => void;
+
+const listeners = new Set<JobListener>();
+// 当前页面中正在执行的任务
+const activeJobs = new Map<string, { controller: BatchController; done: Promise<AnalysisJobItem[]> }>();
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const emit = (event: JobEvent) => {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('任务事件处理失败:', error);
+    }
+  });
+};
+
+// 订阅任务和图片状态变化，返回取消订阅函数
+export const subscribeToJobs = (listener: JobListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// ---------------- 存储 ----------------
+
+const saveJob = (job: AnalysisJob) => withStore(STORES.jobs, 'readwrite', store => store.put(job));
+
+const saveJobItem = (item: AnalysisJobItem) => withStore(STORES.jobItems, 'readwrite', store => store.put(item));
+
+export const getJob = async (jobId: string): Promise<AnalysisJob | null> => {
+  const job = await withStore<AnalysisJob | undefined>(STORES.jobs, 'readonly', store => store.get(jobId));
+  return job || null;
+};
+
+// 获取所有任务，按创建时间倒序
+export const getAllJobs = async (): Promise<AnalysisJob[]> => {
+  const jobs = await withStore<AnalysisJob[]>(STORES.jobs, 'readonly', store => store.getAll());
+  return jobs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getJobItems = async (jobId: string): Promise<AnalysisJobItem[]> => {
+  const items = await withStore<AnalysisJobItem[]>(
+    STORES.jobItems,
+    'readonly',
+    store => store.index('jobId').getAll(jobId)
+  );
+  return items.sort((a, b) => a.index - b.index);
+};
+
+export const getJobProgress = (items: AnalysisJobItem[]): JobProgress => {
+  const progress: JobProgress = { total: items.length, pending: 0, running: 0, done: 0, failed: 0 };
+  items.forEach(item => {
+    progress[item.status]++;
+  });
+  return progress;
+};
+
+// 把任务中的图片结果还原为AnalysisResult（重新生成图片URL）
+export const getJobItemResult = (item: AnalysisJobItem): AnalysisResult | null => {
+  if (!item.result) return null;
+  return { ...item.result, imageUrl: URL.createObjectURL(item.file) };
+};
+
+const updateJob = async (job: AnalysisJob, changes: Partial<AnalysisJob>): Promise<AnalysisJob> => {
+  const updated = { ...job, ...changes, updatedAt: Date.now() };
+  await saveJob(updated);
+  emit({ type: 'job', job: updated });
+  return updated;
+};
+
+// 创建任务：保存原始文件和每张图片的初始状态
+export const createAnalysisJob = async (
+  type: AnalysisJobType,
+  name: string,
+  files: File[],
+  options: AnalysisJobOptions = {},
+  meta?: Record<string, unknown>
+): Promise<AnalysisJob> => {
+  const now = Date.now();
+  const job: AnalysisJob = {
+    id: generateId('job'),
+    type,
+    name,
+    status: 'pending',
+    total: files.length,
+    options,
+    meta,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const db = await openDB();
+  const transaction = db.transaction([STORES.jobs, STORES.jobItems], 'readwrite');
+  transaction.objectStore(STORES.jobs).put(job);
+  const itemStore = transaction.objectStore(STORES.jobItems);
+  files.forEach((file, index) => {
+    const item: AnalysisJobItem = {
+      id: `${job.id}_${index}`,
+      jobId: job.id,
+      index,
+      file,
+      fileName: file.name,
+      status: 'pending',
+      updatedAt: now
+    };
+    itemStore.put(item);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  console.log(`创建分析任务 ${job.id}: ${name}，共 ${files.length} 张图片`);
+  emit({ type: 'job', job });
+  return job;
+};
+
+// 删除任务及其图片，执行中的任务会先取消
+export const deleteAnalysisJob = async (jobId: string): Promise<void> => {
+  const active = activeJobs.get(jobId);
+  if (active) {
+    active.controller.cancel();
+    await active.done.catch(() => undefined);
+  }
+
+  const db = await openDB();
+  const transaction = db.transaction([STORES.jobs, STORES.jobItems], 'readwrite');
+  transaction.objectStore(STORES.jobs).delete(jobId);
+  const itemStore = transaction.objectStore(STORES.jobItems);
+  const keys = await promisifyRequest(itemStore.index('jobId').getAllKeys(jobId));
+  keys.forEach(key => itemStore.delete(key));
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  emit({ type: 'deleted', jobId });
+};
+
+// ---------------- 执行 ----------------
+
+const hasUnrecognizedFields = (result: AnalysisResult, fields: (keyof ClothingTags)[]) =>
+  fields.some(field => {
+    const value = result.tags[field];
+    return !value || value === '未识别' || value === '无法识别' || value === 'unknown';
+  });
+
+// 分析单张图片，按任务选项多次识别投票，或对指定字段未识别的结果重试
+const analyzeJobFile = async (file: File, options: AnalysisJobOptions, signal: AbortSignal): Promise<AnalysisResult> => {
+  const consensusRuns = options.consensusRuns || 1;
+  let result = await analyzeClothingImage(file, { priority: 'batch', signal, consensusRuns });
+  // 投票已经综合了多次结果，不再重试
+  if (consensusRuns > 1) return result;
+  const fields = options.retryUnrecognizedFields;
+  const maxRetries = options.maxUnrecognizedRetries ?? 0;
+
+  for (let retry = 1; fields?.length && retry < maxRetries && !result.isError && hasUnrecognizedFields(result, fields); retry++) {
+    console.log(`图片 ${file.name} 存在未识别结果，进行第 ${retry} 次重试`);
+    await abortableSleep(1000, signal);
+    result = await analyzeClothingImage(file, { priority: 'batch', signal });
+  }
+
+  return result;
+};
+
+const executeJob = async (job: AnalysisJob, controller: BatchController): Promise<AnalysisJobItem[]> => {
+  let currentJob = await updateJob(job, { status: 'running' });
+  const items = await getJobItems(job.id);
+  // running状态的图片是上次页面关闭时中断的，重新执行
+  const remaining = items.filter(item => item.status === 'pending' || item.status === 'running');
+  const reuseDuplicates = job.options.duplicateMode === 'reuse' || (!job.options.duplicateMode && job.options.skipDuplicates);
+  const deduplicate = reuseDuplicates
+    ? await createBatchDeduplicator({ nearDuplicates: job.options.nearDuplicates })
+    : null;
+
+  console.log(`执行分析任务 ${job.id}: 剩余 ${remaining.length}/${items.length} 张`);
+
+  // 暂停状态写入任务，刷新页面后暂停的任务不会自动继续
+  const stopListening = controller.onStateChange(state => {
+    if (state === 'cancelled') return;
+    updateJob(currentJob, { status: state })
+      .then(updated => {
+        currentJob = updated;
+      })
+      .catch(error => console.error('更新任务状态失败:', error));
+  });
+
+  const updateItem = async (item: AnalysisJobItem, changes: Partial<AnalysisJobItem>) => {
+    const updated = { ...item, ...changes, updatedAt: Date.now() };
+    items[updated.index] = updated;
+    await saveJobItem(updated);
+    emit({ type: 'item', job: currentJob, item: updated });
+    return updated;
+  };
+
+  await mapWithConcurrency(remaining, async (item) => {
+    try {
+      await controller.waitIfPaused();
+    } catch {
+      return;
+    }
+
+    const runningItem = await updateItem(item, { status: 'running' });
+    try {
+      const analyze = () => analyzeJobFile(item.file, job.options, controller.signal);
+      const { result, duplicate } = deduplicate
+        ? await deduplicate(item.file, analyze)
+        : { result: await analyze(), duplicate: null };
+      const { imageUrl: _imageUrl, ...storedResult } = result;
+
+      await updateItem(runningItem, {
+        status: result.isError ? 'failed' : 'done',
+        result: { ...storedResult, imageUrl: '', fileName: result.fileName || item.fileName },
+        error: result.error,
+        errorCode: result.errorCode,
+        isDuplicate: !!duplicate
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        // 取消时进行中的图片回到待处理，之后可以继续
+        await updateItem(runningItem, { status: 'pending' });
+        return;
+      }
+      console.error(`任务 ${job.id} 中的图片 ${item.fileName} 分析失败:`, error);
+      await updateItem(runningItem, {
+        status: 'failed',
+        error: describeRecognitionError(error) || '分析失败',
+        errorCode: toRecognitionError(error).code
+      });
+    }
+  });
+
+  stopListening();
+  const progress = getJobProgress(items);
+  if (controller.signal.aborted) {
+    currentJob = await updateJob(currentJob, { status: 'cancelled' });
+  } else {
+    currentJob = await updateJob(currentJob, {
+      status: progress.pending > 0 ? 'paused' : 'completed',
+      finishedAt: progress.pending > 0 ? undefined : Date.now()
+    });
+  }
+
+  console.log(`分析任务 ${job.id} 结束: ${currentJob.status}，完成 ${progress.done}，失败 ${progress.failed}，待处理 ${progress.pending}`);
+  return items;
+};
+
+// 执行任务中尚未完成的图片，返回全部图片的最终状态；任务已在执行时返回同一个Promise
+export const runAnalysisJob = (jobId: string, controller: BatchController = createBatchController()): Promise<AnalysisJobItem[]> => {
+  const active = activeJobs.get(jobId);
+  if (active) return active.done;
+
+  const done = (async () => {
+    const job = await getJob(jobId);
+    if (!job) {
+      throw new Error(`任务不存在: ${jobId}`);
+    }
+    return executeJob(job, controller);
+  })().finally(() => {
+    activeJobs.delete(jobId);
+  });
+
+  activeJobs.set(jobId, { controller, done });
+  return done;
+};
+
+export const isJobActive = (jobId: string) => activeJobs.has(jobId);
+
+// 获取当前页面中正在执行的任务的控制器
+export const getActiveJobController = (jobId: string): BatchController | null => activeJobs.get(jobId)?.controller || null;
+
+// 暂停任务：进行中的图片完成后不再开始新图片，刷新页面后也不会自动继续
+export const pauseAnalysisJob = async (jobId: string): Promise<void> => {
+  const active = activeJobs.get(jobId);
+  if (active) {
+    active.controller.pause();
+    return;
+  }
+
+  const job = await getJob(jobId);
+  if (job && (job.status === 'running' || job.status === 'pending')) {
+    await updateJob(job, { status: 'paused' });
+  }
+};
+
+// 继续任务：当前页面中已暂停的任务直接继续，否则重新开始执行剩余图片
+export const resumeAnalysisJob = async (jobId: string): Promise<void> => {
+  const active = activeJobs.get(jobId);
+  if (active) {
+    active.controller.resume();
+    return;
+  }
+
+  runAnalysisJob(jobId).catch(error => console.error('继续任务失败:', error));
+};
+
+// 失败图片的错误码；旧版任务没有记录错误码，归为其他错误
+export const getJobItemErrorCode = (item: AnalysisJobItem): RecognitionErrorCode => {
+  return item.errorCode || item.result?.errorCode || 'unknown';
+};
+
+// 按失败原因统计图片数量
+export const countFailedItemsByCode = (items: AnalysisJobItem[]): Partial<Record<RecognitionErrorCode, number>> => {
+  const counts: Partial<Record<RecognitionErrorCode, number>> = {};
+  items.forEach(item => {
+    if (item.status !== 'failed') return;
+    const code = getJobItemErrorCode(item);
+    counts[code] = (counts[code] || 0) + 1;
+  });
+  return counts;
+};
+
+// 按失败原因重试：把指定原因（不传时为全部）的失败图片改回待处理并继续执行任务，返回重试的图片数
+export const retryFailedJobItems = async (jobId: string, errorCodes?: RecognitionErrorCode[]): Promise<number> => {
+  if (activeJobs.has(jobId)) {
+    throw new Error('任务正在执行，请结束后再重试失败的图片');
+  }
+
+  const job = await getJob(jobId);
+  if (!job) {
+    throw new Error(`任务不存在: ${jobId}`);
+  }
+
+  const failedItems = (await getJobItems(jobId)).filter(item => (
+    item.status === 'failed' && (!errorCodes || errorCodes.includes(getJobItemErrorCode(item)))
+  ));
+  for (const item of failedItems) {
+    const updated: AnalysisJobItem = {
+      ...item,
+      status: 'pending',
+      result: undefined,
+      error: undefined,
+      errorCode: undefined,
+      updatedAt: Date.now()
+    };
+    await saveJobItem(updated);
+    emit({ type: 'item', job, item: updated });
+  }
+
+  if (failedItems.length > 0) {
+    console.log(`任务 ${jobId} 重试 ${failedItems.length} 张失败的图片`);
+    runAnalysisJob(jobId).catch(error => console.error('重试失败图片出错:', error));
+  }
+  return failedItems.length;
+};
+
+export const cancelAnalysisJob = async (jobId: string): Promise<void> => {
+  const active = activeJobs.get(jobId);
+  if (active) {
+    active.controller.cancel();
+    return;
+  }
+
+  const job = await getJob(jobId);
+  if (job && job.status !== 'completed') {
+    await updateJob(job, { status: 'cancelled' });
+  }
+};
+
+// 页面加载时继续上次未完成的任务（暂停和取消的任务除外）
+export const resumeInterruptedJobs = async (): Promise<void> => {
+  const jobs = await getAllJobs();
+  const interrupted = jobs.filter(job => job.status === 'running' || job.status === 'pending');
+
+  if (interrupted.length > 0) {
+    console.log(`发现 ${interrupted.length} 个未完成的分析任务，自动继续`);
+  }
+
+  interrupted.forEach(job => {
+    runAnalysisJob(job.id).catch(error => console.error(`继续任务 ${job.id} 失败:`, error));
+  });
+};
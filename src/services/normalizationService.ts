@@ -0,0 +1,113 @@
+// 标签归一化服务：按标签体系中的同义词词典把模型输出的原始值映射为规范值，
+// 解析、筛选、搜索和测试模式评分共用同一份词典
+import type { ClothingTags } from './cozeService';
+import { getTaxonomy, TagTaxonomy } from './taxonomyService';
+
+// 比较口径：忽略大小写、空白和连字符，例如 "T 恤"、"t-恤" 与 "T恤" 视为同一写法
+const toComparable = (value: string) => value.toLowerCase().replace(/[\s\-_]/g, '');
+
+// 多个值用顿号分隔，逐个归一化
+const VALUE_SEPARATOR = '、';
+
+let cachedLookup: { taxonomy: TagTaxonomy; lookup: Map<string, Map<string, string>> } | null = null;
+
+// 每个维度的 比较口径 -> 规范值 查找表，标签体系变化后重新生成
+const getSynonymLookup = (): Map<string, Map<string, string>> => {
+  const taxonomy = getTaxonomy();
+  if (cachedLookup?.taxonomy === taxonomy) {
+    return cachedLookup.lookup;
+  }
+
+  const lookup = new Map<string, Map<string, string>>();
+  taxonomy.dimensions.forEach(dimension => {
+    const dimensionLookup = new Map<string, string>();
+    // 可选值本身是规范值，大小写或空格不同的写法也归一化到可选值
+    dimension.values.forEach(value => dimensionLookup.set(toComparable(value), value));
+    Object.entries(dimension.synonyms || {}).forEach(([canonical, synonyms]) => {
+      dimensionLookup.set(toComparable(canonical), canonical);
+      synonyms.forEach(synonym => dimensionLookup.set(toComparable(synonym), canonical));
+    });
+    lookup.set(dimension.key, dimensionLookup);
+  });
+
+  cachedLookup = { taxonomy, lookup };
+  return lookup;
+};
+
+// 把单个标签值归一化为规范值；词典中没有的值原样保留（去除首尾空白）
+export const normalizeTagValue = (key: string, value: string): string => {
+  if (typeof value !== 'string' || !value.trim() || value === '未识别') return value;
+
+  const dimensionLookup = getSynonymLookup().get(key);
+  if (!dimensionLookup) return value.trim();
+
+  const parts = value.split(VALUE_SEPARATOR).map(part => part.trim()).filter(Boolean);
+  const normalized = parts.map(part => dimensionLookup.get(toComparable(part)) || part);
+  return Array.from(new Set(normalized)).join(VALUE_SEPARATOR);
+};
+
+// 归一化整组标签，rawTags只包含被改写字段的原始值
+export const normalizeTags = (tags: ClothingTags): { tags: ClothingTags; rawTags: Record<string, string> } => {
+  const normalizedTags: ClothingTags = {};
+  const rawTags: Record<string, string> = {};
+
+  Object.entries(tags).forEach(([key, value]) => {
+    const normalized = normalizeTagValue(key, value);
+    normalizedTags[key] = normalized;
+    if (normalized !== value) {
+      rawTags[key] = value;
+    }
+  });
+
+  return { tags: normalizedTags, rawTags };
+};
+
+// 两个值是否表示同一标签：归一化后相同、仅大小写或标点不同，或较长的值包含较短的值
+export const tagValuesMatch = (key: string, a: string, b: string): boolean => {
+  if (!a || !b) return false;
+
+  const normalizedA = toComparable(normalizeTagValue(key, a));
+  const normalizedB = toComparable(normalizeTagValue(key, b));
+  if (normalizedA === normalizedB) return true;
+
+  // 包含关系匹配（较短的字符串包含在较长的字符串中）
+  if (normalizedA.length > 2 && normalizedB.length > 2) {
+    return normalizedA.includes(normalizedB) || normalizedB.includes(normalizedA);
+  }
+
+  return false;
+};
+
+// "四季通用"之类的通用值匹配该维度的任何筛选条件
+const isUniversalValue = (value: string) => value.endsWith('通用');
+
+// 按维度筛选：同一维度内任一值匹配即可，不同维度之间需要同时满足；
+// 标签值和筛选值都先归一化，未归一化的旧记录也能按规范值筛选
+export const matchesTagFilters = (tags: Record<string, string> | undefined, filters: Record<string, string[]>): boolean => {
+  return Object.entries(filters).every(([key, selected]) => {
+    if (!selected || selected.length === 0) return true;
+    const value = tags?.[key];
+    if (!value) return false;
+    if (isUniversalValue(value) || selected.some(isUniversalValue)) return true;
+
+    const values = normalizeTagValue(key, value).split(VALUE_SEPARATOR);
+    return selected.some(option => values.includes(normalizeTagValue(key, option)));
+  });
+};
+
+// 文本搜索：标签值包含搜索词，或包含搜索词在任一维度中对应的规范值（例如搜"衬衣"也能找到"衬衫"）
+export const matchesSearchText = (tags: Record<string, string> | undefined, searchText: string): boolean => {
+  const search = searchText.trim();
+  if (!search) return true;
+
+  const terms = new Set([search.toLowerCase()]);
+  getTaxonomy().dimensions.forEach(dimension => {
+    terms.add(normalizeTagValue(dimension.key, search).toLowerCase());
+  });
+
+  return Object.entries(tags || {}).some(([key, value]) => {
+    if (typeof value !== 'string') return false;
+    const candidates = [value.toLowerCase(), normalizeTagValue(key, value).toLowerCase()];
+    return candidates.some(candidate => Array.from(terms).some(term => candidate.includes(term)));
+  });
+};
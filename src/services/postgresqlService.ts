@@ -41,8 +41,10 @@ export const saveAnalysisRecord = async (
     const query = `
       INSERT INTO clothing_analysis (
         id, image_url, image_name, image_size, image_hash, 
-        tags, confidence, analysis_time, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        tags, confidence, field_confidence, garments, raw_tags, analysis_time, created_at, updated_at,
+        provider, workflow_id, workflow_version, model, parser_version, parse_strategy, raw_output,
+        features, feature_version, dhash, phash
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
       RETURNING *;
     `;
     
@@ -54,9 +56,23 @@ export const saveAnalysisRecord = async (
       record.image_hash,
       JSON.stringify(record.tags),
       record.confidence,
+      record.field_confidence ? JSON.stringify(record.field_confidence) : null,
+      record.garments?.length ? JSON.stringify(record.garments) : null,
+      record.raw_tags ? JSON.stringify(record.raw_tags) : null,
       record.analysis_time,
       now,
-      now
+      now,
+      record.provider ?? null,
+      record.workflow_id ?? null,
+      record.workflow_version ?? null,
+      record.model ?? null,
+      record.parser_version ?? null,
+      record.parse_strategy ?? null,
+      record.raw_output ?? null,
+      record.features ? JSON.stringify(record.features) : null,
+      record.features ? record.feature_version ?? null : null,
+      record.features ? record.dhash ?? null : null,
+      record.features ? record.phash ?? null : null
     ];
     
     const result = await executeQuerySingle<ClothingAnalysisRecord>(query, values);
@@ -180,7 +196,8 @@ export const searchAnalysisRecords = async (searchTerm: string): Promise<Clothin
       SELECT * FROM clothing_analysis 
       WHERE 
         image_name ILIKE $1 OR
-        tags::text ILIKE $1
+        tags::text ILIKE $1 OR
+        garments::text ILIKE $1
       ORDER BY created_at DESC;
     `;
     
@@ -305,11 +322,51 @@ export const updateAnalysisRecord = async (
       values.push(updates.confidence);
     }
     
+    if (updates.field_confidence !== undefined) {
+      setClause.push(`field_confidence = $${paramIndex++}`);
+      values.push(updates.field_confidence ? JSON.stringify(updates.field_confidence) : null);
+    }
+    
+    if (updates.garments !== undefined) {
+      setClause.push(`garments = $${paramIndex++}`);
+      values.push(updates.garments?.length ? JSON.stringify(updates.garments) : null);
+    }
+    
+    if (updates.raw_tags !== undefined) {
+      setClause.push(`raw_tags = $${paramIndex++}`);
+      values.push(updates.raw_tags ? JSON.stringify(updates.raw_tags) : null);
+    }
+    
     if (updates.analysis_time !== undefined) {
       setClause.push(`analysis_time = $${paramIndex++}`);
       values.push(updates.analysis_time);
     }
     
+    if (updates.features !== undefined) {
+      setClause.push(`features = $${paramIndex++}`, `feature_version = $${paramIndex++}`);
+      values.push(updates.features ? JSON.stringify(updates.features) : null, updates.features ? updates.feature_version ?? null : null);
+    }
+    
+    // 感知哈希与特征向量一起计算
+    if (updates.dhash !== undefined) {
+      setClause.push(`dhash = $${paramIndex++}`);
+      values.push(updates.dhash);
+    }
+    
+    if (updates.phash !== undefined) {
+      setClause.push(`phash = $${paramIndex++}`);
+      values.push(updates.phash);
+    }
+    
+    // 结果来源列都是文本，重新识别后整体更新
+    const provenanceColumns = ['provider', 'workflow_id', 'workflow_version', 'model', 'parser_version', 'parse_strategy', 'raw_output'] as const;
+    provenanceColumns.forEach(column => {
+      if (updates[column] !== undefined) {
+        setClause.push(`${column} = $${paramIndex++}`);
+        values.push(updates[column]);
+      }
+    });
+    
     if (setClause.length === 0) {
       throw new Error('没有提供要更新的字段');
     }
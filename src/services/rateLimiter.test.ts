@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type RateLimiter = typeof import('./rateLimiter');
+
+// 可以从外部结束的请求，记录开始的顺序
+const createTasks = () => {
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+  const task = (id: string) => () => new Promise<string>(resolve => {
+    started.push(id);
+    finishers.set(id, () => resolve(id));
+  });
+  const finish = async (id: string) => {
+    finishers.get(id)!();
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  return { started, task, finish };
+};
+
+// 调度器的状态在模块级别，每个用例重新加载模块
+let limiter: RateLimiter;
+
+const loadLimiter = async (settings: { qps: number; concurrency: number }) => {
+  vi.resetModules();
+  limiter = await import('./rateLimiter');
+  limiter.configureRateLimiter(settings);
+  // 等桶按新的设置装满
+  await vi.advanceTimersByTimeAsync(10000);
+  return limiter;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('令牌桶', () => {
+  it('桶容量为整数QPS，之后按QPS补充令牌', async () => {
+    await loadLimiter({ qps: 2, concurrency: 10 });
+    const { started, task } = createTasks();
+
+    ['a', 'b', 'c', 'd', 'e'].forEach(id => limiter.scheduleRequest(task(id), 'batch'));
+    expect(started).toEqual(['a', 'b']);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(limiter.getRateLimiterStats().running).toBe(5);
+  });
+
+  it('小于1的QPS桶容量为1', async () => {
+    await loadLimiter({ qps: 0.5, concurrency: 10 });
+    const { started, task } = createTasks();
+
+    ['a', 'b'].forEach(id => limiter.scheduleRequest(task(id)));
+    expect(started).toEqual(['a']);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toEqual(['a']);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('并发数达到上限时等待运行中的请求结束', async () => {
+    await loadLimiter({ qps: 100, concurrency: 2 });
+    const { started, task, finish } = createTasks();
+
+    ['a', 'b', 'c'].forEach(id => limiter.scheduleRequest(task(id)));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(['a', 'b']);
+    expect(limiter.getRateLimiterStats().queued.interactive).toBe(1);
+
+    await finish('a');
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('交互请求优先于排队中的批量请求', async () => {
+    await loadLimiter({ qps: 100, concurrency: 1 });
+    const { started, task, finish } = createTasks();
+
+    limiter.scheduleRequest(task('batch1'), 'batch');
+    limiter.scheduleRequest(task('batch2'), 'batch');
+    limiter.scheduleRequest(task('interactive'), 'interactive');
+
+    await finish('batch1');
+    expect(started).toEqual(['batch1', 'interactive']);
+  });
+
+  it('触发服务端限流后清空令牌并暂停，Retry-After更长时按Retry-After暂停', async () => {
+    await loadLimiter({ qps: 10, concurrency: 10 });
+    const { started, task } = createTasks();
+
+    limiter.reportRateLimited(5000);
+    limiter.scheduleRequest(task('a'));
+    expect(limiter.getRateLimiterStats().cooldownRemaining).toBe(5000);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(started).toEqual([]);
+
+    // 冷却结束时令牌已按冷却期间的时间补满
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['a']);
+  });
+
+  it('取消时从队列中移除尚未开始的请求', async () => {
+    await loadLimiter({ qps: 100, concurrency: 1 });
+    const { started, task, finish } = createTasks();
+    const controller = new AbortController();
+
+    limiter.scheduleRequest(task('a'));
+    const cancelled = limiter.scheduleRequest(task('b'), 'interactive', controller.signal);
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    expect(limiter.getRateLimiterStats().queued.interactive).toBe(0);
+
+    await finish('a');
+    expect(started).toEqual(['a']);
+  });
+
+  it('请求的结果和错误原样返回', async () => {
+    await loadLimiter({ qps: 100, concurrency: 1 });
+
+    await expect(limiter.scheduleRequest(() => Promise.resolve(42))).resolves.toBe(42);
+    await expect(limiter.scheduleRequest(() => Promise.reject(new Error('上游错误')))).rejects.toThrow('上游错误');
+    expect(limiter.getRateLimiterStats().running).toBe(0);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('不超过并发上限，结果顺序与输入一致', async () => {
+    await loadLimiter({ qps: 100, concurrency: 4 });
+    let active = 0;
+    let maxActive = 0;
+
+    const pending = limiter.mapWithConcurrency([30, 10, 20, 0, 5], async (delay, index) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      active--;
+      return index * 2;
+    }, 2);
+    await vi.advanceTimersByTimeAsync(100);
+    const results = await pending;
+
+    expect(results).toEqual([0, 2, 4, 6, 8]);
+    expect(maxActive).toBe(2);
+  });
+});
@@ -0,0 +1,165 @@
+// 全局请求调度器：令牌桶限制QPS，同时限制并发数，交互请求优先于批量请求
+import { getRateLimitSettings } from './settingsService';
+import { createAbortError } from './batchControl';
+
+// 请求优先级：interactive为用户单张上传等需要立即响应的请求，batch为批量分析
+export type RequestPriority = 'interactive' | 'batch';
+
+interface QueuedRequest {
+  run: () => void;
+}
+
+export interface RateLimiterStats {
+  qps: number;
+  concurrency: number;
+  running: number;
+  queued: Record<RequestPriority, number>;
+  cooldownRemaining: number; // 触发限流后剩余的冷却时间（毫秒）
+}
+
+// 触发服务端QPS限制后暂停发放令牌的时间
+const RATE_LIMIT_COOLDOWN = 3000;
+
+const queues: Record<RequestPriority, QueuedRequest[]> = {
+  interactive: [],
+  batch: []
+};
+
+let { qps, concurrency } = getRateLimitSettings();
+let tokens = Math.max(1, Math.floor(qps));
+let lastRefill = Date.now();
+let running = 0;
+let cooldownUntil = 0;
+let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+
+// 桶容量取整数QPS，允许1秒内的突发
+const getBucketCapacity = () => Math.max(1, Math.floor(qps));
+
+const refillTokens = () => {
+  const now = Date.now();
+  tokens = Math.min(getBucketCapacity(), tokens + ((now - lastRefill) / 1000) * qps);
+  lastRefill = now;
+};
+
+const nextRequest = (): QueuedRequest | undefined => {
+  return queues.interactive.shift() || queues.batch.shift();
+};
+
+const hasQueuedRequests = () => queues.interactive.length > 0 || queues.batch.length > 0;
+
+// 尽可能多地启动排队中的请求；令牌不足时定时再试
+const pump = () => {
+  if (pumpTimer) {
+    clearTimeout(pumpTimer);
+    pumpTimer = null;
+  }
+
+  while (hasQueuedRequests() && running < concurrency) {
+    const now = Date.now();
+    if (now < cooldownUntil) {
+      pumpTimer = setTimeout(pump, cooldownUntil - now);
+      return;
+    }
+
+    refillTokens();
+    if (tokens < 1) {
+      const waitTime = Math.ceil(((1 - tokens) / qps) * 1000);
+      pumpTimer = setTimeout(pump, waitTime);
+      return;
+    }
+
+    tokens -= 1;
+    running++;
+    nextRequest()!.run();
+  }
+};
+
+// 通过调度器执行请求，返回请求本身的结果；signal取消时从队列中移除尚未开始的请求
+export const scheduleRequest = <T>(
+  task: () => Promise<T>,
+  priority: RequestPriority = 'interactive',
+  signal?: AbortSignal
+): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      const index = queues[priority].indexOf(request);
+      if (index !== -1) {
+        queues[priority].splice(index, 1);
+        reject(createAbortError());
+      }
+    };
+
+    const request: QueuedRequest = {
+      run: () => {
+        signal?.removeEventListener('abort', onAbort);
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            running--;
+            pump();
+          });
+      }
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queues[priority].push(request);
+    pump();
+  });
+};
+
+// 服务端返回QPS限制错误时调用：清空令牌并暂停一段时间，避免所有排队请求一起撞上限制
+export const reportRateLimited = (retryAfter?: number) => {
+  // 服务端给出Retry-After时至少暂停到该时间
+  const cooldown = Math.max(RATE_LIMIT_COOLDOWN, retryAfter ?? 0);
+  console.log(`⏳ 检测到服务端QPS限制，调度器暂停 ${cooldown}ms`);
+  tokens = 0;
+  lastRefill = Date.now();
+  cooldownUntil = Date.now() + cooldown;
+};
+
+// 更新QPS和并发设置（设置页面保存后调用）
+export const configureRateLimiter = (settings: { qps: number; concurrency: number }) => {
+  qps = settings.qps;
+  concurrency = settings.concurrency;
+  tokens = Math.min(tokens, getBucketCapacity());
+  console.log(`调度器设置已更新: QPS=${qps}, 并发=${concurrency}`);
+  pump();
+};
+
+export const getRateLimiterStats = (): RateLimiterStats => ({
+  qps,
+  concurrency,
+  running,
+  queued: {
+    interactive: queues.interactive.length,
+    batch: queues.batch.length
+  },
+  cooldownRemaining: Math.max(0, cooldownUntil - Date.now())
+});
+
+// 按并发上限并行处理列表，结果顺序与输入一致；实际请求速率仍由scheduleRequest控制
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  limit: number = concurrency
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => runWorker())
+  );
+  return results;
+};
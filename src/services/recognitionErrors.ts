@@ -0,0 +1,222 @@
+// 识别流程的错误类型：上传、执行和解析阶段的错误统一转换为带错误码的RecognitionError，
+// 是否重试、等待多久由错误类型决定；失败结果保存错误码，便于按原因分组和批量重试
+
+export type RecognitionErrorCode =
+  | 'auth'
+  | 'payload_too_large'
+  | 'unsupported_format'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'upstream'
+  | 'parse_failure'
+  | 'timeout'
+  | 'network'
+  | 'unknown';
+
+export const RECOGNITION_ERROR_LABELS: Record<RecognitionErrorCode, string> = {
+  auth: '认证失败',
+  payload_too_large: '图片过大',
+  unsupported_format: '格式不支持',
+  rate_limited: '调用频率限制',
+  quota_exceeded: '配额已用完',
+  upstream: '服务端错误',
+  parse_failure: '结果无法解析',
+  timeout: '请求超时',
+  network: '网络错误',
+  unknown: '其他错误'
+};
+
+// 原始信息不便阅读的错误给用户的说明
+const RECOGNITION_ERROR_HINTS: Partial<Record<RecognitionErrorCode, string>> = {
+  rate_limited: 'API调用频率过高，请稍后重试',
+  quota_exceeded: '识别配额已用完，请等待配额重置',
+  network: '网络连接失败，请检查网络设置'
+};
+
+// 等待一段时间后重试可能成功的错误
+const RETRYABLE_CODES: RecognitionErrorCode[] = ['rate_limited', 'upstream', 'parse_failure', 'timeout', 'network'];
+
+interface RecognitionErrorDetails {
+  status?: number; // HTTP状态码或Coze业务错误码
+  body?: string; // 原始响应内容
+  retryAfter?: number; // 服务端要求的等待时间（毫秒）
+  cause?: unknown;
+}
+
+export class RecognitionError extends Error {
+  readonly code: RecognitionErrorCode;
+  readonly status?: number;
+  readonly body?: string;
+  readonly retryAfter?: number;
+  readonly cause?: unknown;
+
+  constructor(code: RecognitionErrorCode, message: string, details: RecognitionErrorDetails = {}) {
+    super(message);
+    this.name = 'RecognitionError';
+    this.code = code;
+    this.status = details.status;
+    this.body = details.body;
+    this.retryAfter = details.retryAfter;
+    this.cause = details.cause;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+export class AuthError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('auth', message, details);
+    this.name = 'AuthError';
+  }
+}
+
+export class PayloadTooLargeError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('payload_too_large', message, details);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class UnsupportedFormatError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('unsupported_format', message, details);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+export class RateLimitedError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('rate_limited', message, details);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// 后端代理的识别配额用完，配额窗口结束前重试没有意义
+export class QuotaExceededError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('quota_exceeded', message, details);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class UpstreamError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('upstream', message, details);
+    this.name = 'UpstreamError';
+  }
+}
+
+export class ParseFailureError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('parse_failure', message, details);
+    this.name = 'ParseFailureError';
+  }
+}
+
+export class TimeoutError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('timeout', message, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class NetworkError extends RecognitionError {
+  constructor(message: string, details?: RecognitionErrorDetails) {
+    super('network', message, details);
+    this.name = 'NetworkError';
+  }
+}
+
+// Retry-After响应头：秒数或HTTP日期，返回毫秒
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Coze的限流以业务错误码返回（HTTP状态仍为200）
+const COZE_RATE_LIMIT_CODES = [720711011, 720711012];
+// Coze的Token无效或没有权限
+const COZE_AUTH_CODES = [4100, 4101, 700012006];
+
+const RATE_LIMIT_PATTERN = /qps too high|rate limit|too many requests|frequency limit|quota exceeded|throttled/i;
+
+// 按HTTP状态码创建错误
+export const fromHttpStatus = (status: number, message: string, details: Omit<RecognitionErrorDetails, 'status'> = {}): RecognitionError => {
+  const withStatus = { ...details, status };
+  if (status === 401 || status === 403) return new AuthError(message, withStatus);
+  if (status === 413) return new PayloadTooLargeError(message, withStatus);
+  if (status === 415) return new UnsupportedFormatError(message, withStatus);
+  if (status === 429) {
+    // 后端代理的配额用完也返回429，通过响应中的code区分
+    return details.body?.includes('QUOTA_EXCEEDED')
+      ? new QuotaExceededError(message, withStatus)
+      : new RateLimitedError(message, withStatus);
+  }
+  if (status === 408 || status === 504) return new TimeoutError(message, withStatus);
+  if (status >= 500) return new UpstreamError(message, withStatus);
+  if (RATE_LIMIT_PATTERN.test(message)) return new RateLimitedError(message, withStatus);
+  return new RecognitionError('unknown', message, withStatus);
+};
+
+// 按Coze业务错误码创建错误（阻塞式调用的code字段、流式执行的Error事件）
+export const fromCozeErrorCode = (code: number, message: string, body?: string): RecognitionError => {
+  const fullMessage = `API请求失败: ${code} - ${message}`;
+  if (COZE_RATE_LIMIT_CODES.includes(code) || RATE_LIMIT_PATTERN.test(message)) {
+    return new RateLimitedError(fullMessage, { status: code, body });
+  }
+  if (COZE_AUTH_CODES.includes(code)) {
+    return new AuthError(fullMessage, { status: code, body });
+  }
+  return new RecognitionError('unknown', fullMessage, { status: code, body });
+};
+
+// 把任意错误转换为RecognitionError；带status的旧式错误按状态码分类，其余按错误名和消息分类
+export const toRecognitionError = (error: unknown): RecognitionError => {
+  if (error instanceof RecognitionError) return error;
+
+  const source = error as { name?: string; message?: string; status?: number } | undefined;
+  const message = source?.message || String(error ?? '未知错误');
+  const details = { cause: error };
+
+  if (typeof source?.status === 'number') {
+    return fromHttpStatus(source.status, message, details);
+  }
+  if (source?.name === 'TimeoutError' || /timed? ?out|超时/i.test(message)) {
+    return new TimeoutError(message, details);
+  }
+  if (RATE_LIMIT_PATTERN.test(message) || COZE_RATE_LIMIT_CODES.some(code => message.includes(String(code)))) {
+    return new RateLimitedError(message, details);
+  }
+  // fetch的网络错误为TypeError（"Failed to fetch"、"NetworkError when attempting to fetch resource"等）
+  if (source?.name === 'TypeError' || /failed to fetch|network|load failed/i.test(message)) {
+    return new NetworkError(message, details);
+  }
+  if (source?.name === 'SyntaxError') {
+    return new ParseFailureError(`响应不是合法的JSON: ${message}`, details);
+  }
+  return new RecognitionError('unknown', message, details);
+};
+
+// 第attempt次失败后重试前的等待时间（毫秒），不应重试时返回null
+export const getRetryDelay = (error: RecognitionError, attempt: number): number | null => {
+  if (!error.retryable) return null;
+  switch (error.code) {
+    case 'rate_limited':
+      // 指数退避：2^attempt * 2秒，服务端给出Retry-After时取较大值
+      return Math.max(error.retryAfter ?? 0, Math.pow(2, attempt) * 2000);
+    default:
+      // 线性退避
+      return error.retryAfter ?? 1000 * attempt;
+  }
+};
+
+// 给用户看的错误说明：常见错误给出处理建议，其余使用原始信息
+export const describeRecognitionError = (error: unknown): string => {
+  const recognitionError = toRecognitionError(error);
+  return RECOGNITION_ERROR_HINTS[recognitionError.code] || recognitionError.message;
+};
@@ -0,0 +1,307 @@
+// 识别服务提供方：把"上传 -> 执行 -> 解析"抽象出来，便于切换不同的识别后端
+import { getRecognitionSettings, RecognitionProviderId } from './settingsService';
+import { scheduleRequest, RequestPriority } from './rateLimiter';
+import { abortableSleep } from './batchControl';
+import { parseClothingTagsWithReport, ParsedClothingTags } from './tagParser';
+import { getTaxonomy } from './taxonomyService';
+import { AuthError, fromHttpStatus, parseRetryAfter } from './recognitionErrors';
+import {
+  STREAMING_UNSUPPORTED_STATUSES,
+  isEventStreamResponse,
+  isStreamingUnsupported,
+  markStreamingUnsupported,
+  readWorkflowStream
+} from './workflowStream';
+
+// 单次识别调用的选项
+export interface RecognitionCallOptions {
+  priority?: RequestPriority; // 调度优先级，默认为interactive
+  signal?: AbortSignal; // 取消信号，批量任务取消时中止上传、执行和重试等待
+  // 流式执行时每收到一段输出就用累计的输出文本调用；不支持流式的识别服务忽略该选项
+  onPartialOutput?: (output: string) => void;
+}
+
+// 识别服务当前使用的工作流或模型，记录在结果的来源信息中
+export interface RecognitionSource {
+  workflowId?: string;
+  workflowVersion?: string;
+  model?: string;
+}
+
+export interface RecognitionProvider {
+  id: RecognitionProviderId;
+  name: string;
+  // 上传图片，返回run阶段使用的文件引用（Coze为file_id）
+  upload: (file: File, options?: RecognitionCallOptions) => Promise<string>;
+  // 执行识别，返回模型的原始输出文本
+  run: (fileRef: string, options?: RecognitionCallOptions) => Promise<string>;
+  // 把原始输出解析为结构化标签，同时返回解析报告
+  parse: (output: string) => ParsedClothingTags;
+  // 文件引用在识别服务端的有效期（毫秒）；设置后按图片内容缓存文件引用，有效期内不再重复上传
+  fileRefTtl?: number;
+  // 当前使用的工作流或模型
+  getSource?: () => RecognitionSource;
+}
+
+// Coze上传文件的缓存有效期；提前失效时按"文件不存在"错误作废缓存并重新上传
+export const COZE_FILE_REF_TTL = 24 * 60 * 60 * 1000;
+
+// 按HTTP状态码创建带类型的错误，便于上层判断是否需要重试
+const createHttpError = (response: Response, message: string, body?: string) => fromHttpStatus(response.status, message, {
+  body,
+  retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+});
+
+// 读取文件为data URL
+const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+// ---------------- 后端代理 ----------------
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+const CLIENT_ID_STORAGE_KEY = 'recognition_client_id';
+
+// 后端按客户端统计识别配额和调用记录，每个浏览器生成一个固定的标识
+export const getClientId = (): string => {
+  try {
+    let clientId = localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+    if (!clientId) {
+      clientId = crypto.randomUUID();
+      localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId);
+    }
+    return clientId;
+  } catch (error) {
+    console.error('读取客户端标识失败:', error);
+    return '';
+  }
+};
+
+// 后端代理最近一次返回的工作流信息
+let proxySource: RecognitionSource = {};
+
+// 调用后端识别代理，请求经过全局调度器（后端同样受Coze的QPS限制）
+const fetchProxy = async (path: string, body: BodyInit, options?: RecognitionCallOptions, contentType?: string): Promise<Response> => {
+  const response = await scheduleRequest(() => fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'X-Client-Id': getClientId(),
+      ...(contentType ? { 'Content-Type': contentType } : {})
+    },
+    body,
+    signal: options?.signal
+  }), options?.priority, options?.signal);
+
+  console.log('📡 识别代理响应状态:', response.status, response.statusText);
+  // 工作流ID和版本在服务器上配置，识别接口通过响应头返回
+  const workflowId = response.headers.get('X-Workflow-Id');
+  if (workflowId) {
+    proxySource = { workflowId, workflowVersion: response.headers.get('X-Workflow-Version') || undefined };
+  }
+  return response;
+};
+
+const throwProxyError = async (response: Response): Promise<never> => {
+  const text = await response.text().catch(() => '');
+  let result: { error?: string } = {};
+  try {
+    result = JSON.parse(text);
+  } catch {
+    // 非JSON响应只保留原始内容
+  }
+  console.error('识别代理错误详情:', text);
+  throw createHttpError(response, `API请求失败: ${response.status} - ${result.error || response.statusText}`, text);
+};
+
+const postToProxy = async <T>(path: string, body: BodyInit, options?: RecognitionCallOptions, contentType?: string): Promise<T> => {
+  const response = await fetchProxy(path, body, options, contentType);
+  if (!response.ok) {
+    return throwProxyError(response);
+  }
+  return (await response.json().catch(() => ({}))) as T;
+};
+
+export const proxyRecognitionProvider: RecognitionProvider = {
+  id: 'proxy',
+  name: '后端代理',
+
+  upload: async (file: File, options?: RecognitionCallOptions) => {
+    const formData = new FormData();
+    formData.append('image', file);
+    const { fileId } = await postToProxy<{ fileId: string }>('/recognize/upload', formData, options);
+    return fileId;
+  },
+
+  run: async (fileRef: string, options?: RecognitionCallOptions) => {
+    // 流式执行：后端转发Coze的事件流；后端版本较旧没有该接口时回退到普通调用
+    const streamPath = '/recognize/stream';
+    if (options?.onPartialOutput && !isStreamingUnsupported(`${API_BASE_URL}${streamPath}`)) {
+      const response = await fetchProxy(streamPath, JSON.stringify({ fileId: fileRef }), options, 'application/json');
+      if (STREAMING_UNSUPPORTED_STATUSES.includes(response.status)) {
+        markStreamingUnsupported(`${API_BASE_URL}${streamPath}`);
+      } else if (response.ok && isEventStreamResponse(response)) {
+        const remaining = response.headers.get('X-Quota-Remaining');
+        if (remaining) {
+          console.log(`识别配额剩余 ${remaining}/${response.headers.get('X-Quota-Limit')}`);
+        }
+        return readWorkflowStream(response, options.onPartialOutput);
+      } else {
+        return throwProxyError(response);
+      }
+    }
+
+    const { output, quota } = await postToProxy<{ output: string; quota?: { remaining: number; limit: number } }>(
+      '/recognize',
+      JSON.stringify({ fileId: fileRef }),
+      options,
+      'application/json'
+    );
+    if (quota) {
+      console.log(`识别配额剩余 ${quota.remaining}/${quota.limit}`);
+    }
+    // 后端返回的tags只包含主服装，这里用完整的解析流程处理原始输出（置信度、多件服装、解析报告）
+    return output || '';
+  },
+
+  parse: parseClothingTagsWithReport,
+
+  fileRefTtl: COZE_FILE_REF_TTL,
+
+  getSource: () => proxySource
+};
+
+// ---------------- OpenAI兼容视觉模型 ----------------
+
+const buildVisionPrompt = (): string => {
+  const { dimensions } = getTaxonomy();
+  const keys = dimensions.map(dimension => dimension.key);
+  // 限定可选值的维度把可选值写进提示词
+  const strictHints = dimensions
+    .filter(dimension => dimension.strict && dimension.values.length > 0)
+    .map(dimension => `${dimension.key}只能从以下值中选择：${dimension.values.join('、')}`);
+  const example = {
+    ...Object.fromEntries(keys.map(key => [key, { value: '值', confidence: 0.9 }])),
+    bbox: [0.1, 0.05, 0.8, 0.5]
+  };
+  return [
+    '你是服装属性识别助手。图片中可能有多件服装（如上装、下装、外套），请分别识别每件服装的以下属性：',
+    keys.join('、'),
+    '。只输出一个JSON对象：{"garments": [...]}，数组中每件服装的键为上述属性名，值包含识别结果value和0到1之间的置信度confidence，',
+    '并用bbox给出服装在图片中的位置[x, y, 宽, 高]（相对图片宽高的0到1的比例），例如：',
+    JSON.stringify({ garments: [example] }),
+    '。按服装在画面中的主次排序，无法判断的属性value填写"未识别"，不要输出其他内容。',
+    strictHints.length > 0 ? `\n${strictHints.join('；')}。` : ''
+  ].join('');
+};
+
+export const openaiVisionProvider: RecognitionProvider = {
+  id: 'openai',
+  name: 'OpenAI兼容视觉模型',
+
+  // 视觉接口直接接收data URL，不需要单独上传
+  upload: (file: File) => readFileAsDataUrl(file),
+
+  run: async (fileRef: string, options?: RecognitionCallOptions) => {
+    const { openai } = getRecognitionSettings();
+    if (!openai.apiKey) {
+      throw new AuthError('未配置OpenAI兼容接口的API Key', { status: 401 });
+    }
+
+    const response = await fetch(`${openai.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${openai.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: openai.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: buildVisionPrompt() },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: '请识别这件服装。' },
+              { type: 'image_url', image_url: { url: fileRef } }
+            ]
+          }
+        ]
+      }),
+      signal: options?.signal
+    });
+
+    console.log('📡 视觉模型响应状态:', response.status, response.statusText);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('视觉模型接口错误详情:', errorText);
+      throw createHttpError(response, `API请求失败: ${response.status} ${response.statusText} - ${errorText}`, errorText);
+    }
+
+    const result = await response.json();
+    const content = result?.choices?.[0]?.message?.content;
+
+    // 部分兼容实现会把content返回为分段数组
+    if (Array.isArray(content)) {
+      return content.map(part => (typeof part === 'string' ? part : part?.text || '')).join('');
+    }
+    return typeof content === 'string' ? content : '';
+  },
+
+  parse: parseClothingTagsWithReport,
+
+  getSource: () => ({ model: getRecognitionSettings().openai.model })
+};
+
+// ---------------- 本地模拟 ----------------
+
+const MOCK_LATENCY = 300; // 模拟网络耗时（毫秒）
+
+// FNV-1a字符串哈希，保证同一文件得到相同结果
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const mockRecognitionProvider: RecognitionProvider = {
+  id: 'mock',
+  name: '本地模拟',
+
+  upload: async (file: File) => {
+    return `mock_${hashString(`${file.name}:${file.size}:${file.type}`).toString(16)}`;
+  },
+
+  run: async (fileRef: string, options?: RecognitionCallOptions) => {
+    await abortableSleep(MOCK_LATENCY, options?.signal);
+
+    // 输出1-3件服装的结构化结果，每件带置信度（0.5-0.99）和上下排列的位置
+    const garmentCount = 1 + (hashString(`${fileRef}:garments`) % 3);
+    const garments = Array.from({ length: garmentCount }, (_, index) => {
+      const seed = index === 0 ? fileRef : `${fileRef}:${index}`;
+      return {
+        // 从标签体系的可选值中挑选，没有可选值的维度返回"未识别"
+        ...Object.fromEntries(
+          getTaxonomy().dimensions.map(({ key, values }) => {
+            const hash = hashString(`${seed}:${key}`);
+            const value = values.length > 0 ? values[hash % values.length] : '未识别';
+            return [key, { value, confidence: 0.5 + (hash % 50) / 100 }];
+          })
+        ),
+        bbox: [0.1, index / garmentCount, 0.8, 1 / garmentCount]
+      };
+    });
+    return JSON.stringify({ garments });
+  },
+
+  parse: parseClothingTagsWithReport
+};
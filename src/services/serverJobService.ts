@@ -0,0 +1,130 @@
+// 后台批量分析任务：图片提交到服务器，由服务器中的工作进程识别并保存到数据库，
+// 不需要保持浏览器打开；任务列表页面轮询任务进度
+import { getClientId } from './recognitionProviders';
+import type { ClothingTags } from './cozeService';
+
+export type ServerJobStatus = 'running' | 'completed' | 'cancelled';
+
+export type ServerJobItemStatus = 'pending' | 'running' | 'success' | 'skipped' | 'error';
+
+export interface ServerJobProgress {
+  total: number;
+  pending: number;
+  running: number;
+  success: number;
+  skipped: number; // 数据库中已有相同图片
+  failed: number;
+}
+
+export interface ServerJob {
+  id: string;
+  name: string;
+  source: 'upload' | 'directory';
+  directory: string | null;
+  status: ServerJobStatus;
+  createdAt: string;
+  finishedAt: string | null;
+  progress: ServerJobProgress;
+}
+
+export interface ServerJobItem {
+  id: number;
+  fileName: string;
+  status: ServerJobItemStatus;
+  attempts: number;
+  recordId: string | null;
+  error: string | null;
+  updatedAt: string;
+  tags: ClothingTags | null;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+// 每次请求上传的图片数（服务器每次最多接受100张）
+const UPLOAD_CHUNK_SIZE = 50;
+
+const requestJobApi = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: { 'X-Client-Id': getClientId(), ...init.headers }
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `请求失败: ${response.status}`);
+  }
+  return result as T;
+};
+
+const buildImagesForm = (files: File[], name?: string) => {
+  const formData = new FormData();
+  // 名称放在图片前面，服务器保存图片时已经可以读取
+  if (name) formData.append('name', name);
+  files.forEach(file => formData.append('images', file));
+  return formData;
+};
+
+// 上传图片创建任务；图片较多时分批上传，第一批创建任务后服务器即开始识别
+export const createUploadJob = async (
+  files: File[],
+  name?: string,
+  onUploadProgress?: (uploaded: number, total: number) => void
+): Promise<ServerJob> => {
+  if (files.length === 0) {
+    throw new Error('没有要上传的图片');
+  }
+
+  let { job } = await requestJobApi<{ job: ServerJob }>('/jobs', {
+    method: 'POST',
+    body: buildImagesForm(files.slice(0, UPLOAD_CHUNK_SIZE), name)
+  });
+  onUploadProgress?.(Math.min(UPLOAD_CHUNK_SIZE, files.length), files.length);
+
+  for (let start = UPLOAD_CHUNK_SIZE; start < files.length; start += UPLOAD_CHUNK_SIZE) {
+    ({ job } = await requestJobApi<{ job: ServerJob }>(`/jobs/${job.id}/images`, {
+      method: 'POST',
+      body: buildImagesForm(files.slice(start, start + UPLOAD_CHUNK_SIZE))
+    }));
+    onUploadProgress?.(Math.min(start + UPLOAD_CHUNK_SIZE, files.length), files.length);
+  }
+
+  console.log(`已创建后台任务 ${job.name}: ${files.length} 张图片`);
+  return job;
+};
+
+// 识别服务器上某个目录中的图片（目录需位于服务器配置的JOB_IMPORT_ROOT下）
+export const createDirectoryJob = async (directory: string, recursive: boolean, name?: string): Promise<ServerJob> => {
+  const { job } = await requestJobApi<{ job: ServerJob }>('/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ directory, recursive, name })
+  });
+  console.log(`已创建后台任务 ${job.name}: ${job.progress.total} 张图片`);
+  return job;
+};
+
+export const getServerJobs = async (): Promise<ServerJob[]> => {
+  const { jobs } = await requestJobApi<{ jobs: ServerJob[] }>('/jobs');
+  return jobs;
+};
+
+export const getServerJob = async (jobId: string): Promise<{ job: ServerJob; items: ServerJobItem[] }> => {
+  return requestJobApi(`/jobs/${jobId}`);
+};
+
+export const cancelServerJob = async (jobId: string): Promise<ServerJob> => {
+  const { job } = await requestJobApi<{ job: ServerJob }>(`/jobs/${jobId}/cancel`, { method: 'POST' });
+  return job;
+};
+
+// 重试失败的图片（只有服务器目录中的图片可以重试）并继续执行，也用于继续已取消或因配额停止的任务；返回重新排队的图片数
+export const retryServerJob = async (jobId: string): Promise<{ job: ServerJob; retried: number }> => {
+  return requestJobApi(`/jobs/${jobId}/retry`, { method: 'POST' });
+};
+
+export const deleteServerJob = async (jobId: string): Promise<void> => {
+  await requestJobApi(`/jobs/${jobId}`, { method: 'DELETE' });
+};
+
+export const isServerJobActive = (job: ServerJob): boolean => {
+  return job.status === 'running' && job.progress.pending + job.progress.running > 0;
+};
@@ -0,0 +1,47 @@
+// 数据库相似度搜索：用服务器保存的特征向量排序，浏览器只提交查询图片的特征向量，
+// 不需要读取数据库中的每张图片
+import type { ClothingAnalysisRecord } from '../config/postgresql';
+import { FEATURE_VERSION } from './imageFeatures';
+import type { SimilarityBreakdown, SimilarityMetricId } from './similarityMetrics';
+
+export interface ServerSimilarityQuery {
+  features: number[]; // 查询图片的特征向量
+  topK?: number; // 最多返回的记录数，服务器上限500
+  threshold?: number; // 相似度阈值（0-1）
+  filters?: Record<string, string[]>; // 按标签维度筛选，与页面上的筛选条件相同
+  metric?: SimilarityMetricId; // 相似度算法，默认为综合算法
+}
+
+export interface ServerSimilarityMatch {
+  id: string; // 数据库记录ID
+  similarity: number;
+  breakdown: SimilarityBreakdown; // 颜色、布局、边缘各部分对评分的贡献
+  record: ClothingAnalysisRecord; // 完整的数据库记录
+}
+
+export interface ServerSimilarityResponse {
+  results: ServerSimilarityMatch[]; // 按相似度从高到低
+  matched: number; // 超过阈值的记录数（可能多于topK）
+  scanned: number; // 参与比较的记录数
+  missing: number; // 没有当前版本特征向量（服务器尚未补充或无法解码图片）、未参与搜索的记录数
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+export const searchSimilarRecords = async (
+  query: ServerSimilarityQuery,
+  signal?: AbortSignal
+): Promise<ServerSimilarityResponse> => {
+  const response = await fetch(`${API_BASE_URL}/similarity`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...query, featureVersion: FEATURE_VERSION }),
+    signal
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `请求失败: ${response.status}`);
+  }
+  console.log(`数据库相似度搜索: 比较 ${result.scanned} 条记录，${result.matched} 条超过阈值，${result.missing} 条没有特征向量`);
+  return result as ServerSimilarityResponse;
+};
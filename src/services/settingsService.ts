@@ -0,0 +1,179 @@
+// 应用设置服务（保存在localStorage中）
+
+// 可选的识别服务提供方
+export type RecognitionProviderId = 'proxy' | 'coze' | 'openai' | 'mock';
+
+export const RECOGNITION_PROVIDER_OPTIONS: { id: RecognitionProviderId; label: string; description: string }[] = [
+  { id: 'proxy', label: '后端代理', description: '通过后端 /api/recognize 调用Coze工作流，Token只保存在服务器上（默认）' },
+  { id: 'coze', label: 'Coze工作流（直连）', description: '浏览器直接调用Coze工作流，需要在 .env 中配置 VITE_COZE_API_TOKEN，仅用于本地调试' },
+  { id: 'openai', label: 'OpenAI兼容视觉模型', description: '调用兼容OpenAI Chat Completions接口的视觉模型' },
+  { id: 'mock', label: '本地模拟', description: '根据文件生成固定结果，无需网络，适合开发和演示' }
+];
+
+// OpenAI兼容接口配置
+export interface OpenAIVisionSettings {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+export interface RecognitionSettings {
+  provider: RecognitionProviderId;
+  openai: OpenAIVisionSettings;
+  // 模型不返回置信度时，每张图片识别的次数；大于1时用多次结果的一致率作为字段置信度
+  confidenceRuns: number;
+  // 单张上传时使用流式执行，边识别边显示已识别的字段；识别服务不支持时自动使用阻塞式调用
+  streaming: boolean;
+}
+
+export const MAX_CONFIDENCE_RUNS = 5;
+
+const SETTINGS_STORAGE_KEY = 'recognition_settings';
+
+const DEFAULT_RECOGNITION_SETTINGS: RecognitionSettings = {
+  provider: (import.meta.env.VITE_RECOGNITION_PROVIDER as RecognitionProviderId) || 'proxy',
+  openai: {
+    baseUrl: import.meta.env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: import.meta.env.VITE_OPENAI_API_KEY || '',
+    model: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini'
+  },
+  confidenceRuns: Number(import.meta.env.VITE_CONFIDENCE_RUNS) || 1,
+  streaming: import.meta.env.VITE_RECOGNITION_STREAMING !== 'false'
+};
+
+// 获取识别服务设置
+export const getRecognitionSettings = (): RecognitionSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_RECOGNITION_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<RecognitionSettings>;
+    const provider = RECOGNITION_PROVIDER_OPTIONS.some(option => option.id === parsed.provider)
+      ? parsed.provider
+      : DEFAULT_RECOGNITION_SETTINGS.provider;
+
+    const confidenceRuns = parsed.confidenceRuns >= 1
+      ? Math.min(MAX_CONFIDENCE_RUNS, Math.floor(parsed.confidenceRuns))
+      : DEFAULT_RECOGNITION_SETTINGS.confidenceRuns;
+
+    return {
+      provider,
+      openai: { ...DEFAULT_RECOGNITION_SETTINGS.openai, ...parsed.openai },
+      confidenceRuns,
+      streaming: typeof parsed.streaming === 'boolean' ? parsed.streaming : DEFAULT_RECOGNITION_SETTINGS.streaming
+    };
+  } catch (error) {
+    console.error('读取识别服务设置失败:', error);
+    return DEFAULT_RECOGNITION_SETTINGS;
+  }
+};
+
+// 保存识别服务设置
+export const saveRecognitionSettings = (settings: RecognitionSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('保存识别服务设置失败:', error);
+    throw error;
+  }
+};
+
+// 调用频率设置（所有Coze请求共享）
+export interface RateLimitSettings {
+  qps: number; // 每秒最多发起的请求数
+  concurrency: number; // 同时进行中的请求数上限
+}
+
+const RATE_LIMIT_STORAGE_KEY = 'rate_limit_settings';
+
+const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = {
+  qps: Number(import.meta.env.VITE_COZE_QPS) || 2,
+  concurrency: Number(import.meta.env.VITE_COZE_CONCURRENCY) || 3
+};
+
+// 获取调用频率设置
+export const getRateLimitSettings = (): RateLimitSettings => {
+  try {
+    const stored = localStorage.getItem(RATE_LIMIT_STORAGE_KEY);
+    if (!stored) return DEFAULT_RATE_LIMIT_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<RateLimitSettings>;
+    return {
+      qps: parsed.qps > 0 ? parsed.qps : DEFAULT_RATE_LIMIT_SETTINGS.qps,
+      concurrency: parsed.concurrency >= 1 ? Math.floor(parsed.concurrency) : DEFAULT_RATE_LIMIT_SETTINGS.concurrency
+    };
+  } catch (error) {
+    console.error('读取调用频率设置失败:', error);
+    return DEFAULT_RATE_LIMIT_SETTINGS;
+  }
+};
+
+// 保存调用频率设置
+export const saveRateLimitSettings = (settings: RateLimitSettings): void => {
+  try {
+    localStorage.setItem(RATE_LIMIT_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('保存调用频率设置失败:', error);
+    throw error;
+  }
+};
+
+// 图片预处理设置：上传识别前在浏览器中校正方向、缩小和转换格式
+export type PreprocessOutputFormat = 'image/jpeg' | 'image/webp';
+
+export const PREPROCESS_OUTPUT_FORMAT_OPTIONS: { id: PreprocessOutputFormat; label: string }[] = [
+  { id: 'image/jpeg', label: 'JPEG' },
+  { id: 'image/webp', label: 'WebP' }
+];
+
+export interface PreprocessSettings {
+  enabled: boolean;
+  maxEdge: number; // 长边超过该像素数时等比缩小
+  outputFormat: PreprocessOutputFormat; // 需要重新编码时的输出格式
+  quality: number; // 编码质量（0-1）
+  autoCrop: boolean; // 裁掉四周颜色一致的边框
+}
+
+export const MIN_PREPROCESS_MAX_EDGE = 256;
+
+const PREPROCESS_STORAGE_KEY = 'preprocess_settings';
+
+const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  enabled: true,
+  maxEdge: Number(import.meta.env.VITE_PREPROCESS_MAX_EDGE) || 2048,
+  outputFormat: 'image/jpeg',
+  quality: 0.9,
+  autoCrop: false
+};
+
+// 获取图片预处理设置
+export const getPreprocessSettings = (): PreprocessSettings => {
+  try {
+    const stored = localStorage.getItem(PREPROCESS_STORAGE_KEY);
+    if (!stored) return DEFAULT_PREPROCESS_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<PreprocessSettings>;
+    return {
+      enabled: parsed.enabled ?? DEFAULT_PREPROCESS_SETTINGS.enabled,
+      maxEdge: parsed.maxEdge >= MIN_PREPROCESS_MAX_EDGE ? Math.floor(parsed.maxEdge) : DEFAULT_PREPROCESS_SETTINGS.maxEdge,
+      outputFormat: PREPROCESS_OUTPUT_FORMAT_OPTIONS.some(option => option.id === parsed.outputFormat)
+        ? parsed.outputFormat
+        : DEFAULT_PREPROCESS_SETTINGS.outputFormat,
+      quality: parsed.quality > 0 && parsed.quality <= 1 ? parsed.quality : DEFAULT_PREPROCESS_SETTINGS.quality,
+      autoCrop: parsed.autoCrop ?? DEFAULT_PREPROCESS_SETTINGS.autoCrop
+    };
+  } catch (error) {
+    console.error('读取图片预处理设置失败:', error);
+    return DEFAULT_PREPROCESS_SETTINGS;
+  }
+};
+
+// 保存图片预处理设置
+export const savePreprocessSettings = (settings: PreprocessSettings): void => {
+  try {
+    localStorage.setItem(PREPROCESS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('保存图片预处理设置失败:', error);
+    throw error;
+  }
+};
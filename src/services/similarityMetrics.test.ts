@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  combineWithTagSimilarity,
+  DEFAULT_SIMILARITY_METRIC,
+  getSimilarityMetric,
+  scoreSimilarity,
+  SIMILARITY_METRICS,
+  SimilarityMetricId,
+  TAG_SIMILARITY_WEIGHT
+} from './similarityMetrics';
+
+const FEATURE_LENGTH = 114;
+
+// 可复现的伪随机特征向量（0-1）
+const createFeatures = (seed: number): number[] => {
+  let state = seed;
+  return Array.from({ length: FEATURE_LENGTH }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  });
+};
+
+const METRIC_IDS = SIMILARITY_METRICS.map(metric => metric.id);
+
+const sumBreakdown = (breakdown: Record<string, number>) => Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+
+describe('相似度算法', () => {
+  it.each(METRIC_IDS)('%s：相同的特征向量相似度为1', (metricId) => {
+    const features = createFeatures(1);
+
+    expect(scoreSimilarity(features, [...features], metricId).similarity).toBeCloseTo(1);
+  });
+
+  it.each(METRIC_IDS)('%s：相似度在0-1之间，各部分的贡献相加等于相似度', (metricId) => {
+    const { similarity, breakdown } = scoreSimilarity(createFeatures(1), createFeatures(2), metricId);
+
+    expect(similarity).toBeGreaterThanOrEqual(0);
+    expect(similarity).toBeLessThanOrEqual(1);
+    expect(Object.keys(breakdown).sort()).toEqual(['color', 'edges', 'layout']);
+    expect(sumBreakdown(breakdown)).toBeCloseTo(similarity);
+  });
+
+  it('卡方距离和直方图交集：没有重叠的颜色直方图颜色部分为0', () => {
+    const features1 = new Array(FEATURE_LENGTH).fill(0.5);
+    const features2 = new Array(FEATURE_LENGTH).fill(0.5);
+    for (let i = 0; i < 68; i++) {
+      features1[i] = i % 2 === 0 ? 1 : 0;
+      features2[i] = i % 2 === 0 ? 0 : 1;
+    }
+
+    (['chiSquare', 'intersection'] as SimilarityMetricId[]).forEach(metricId => {
+      const { similarity, breakdown } = scoreSimilarity(features1, features2, metricId);
+      // 颜色段权重0.4，布局和边缘完全相同
+      expect(similarity).toBeCloseTo(0.6);
+      expect(breakdown.color).toBeCloseTo(0);
+      expect(breakdown.layout).toBeCloseTo(0.4);
+      expect(breakdown.edges).toBeCloseTo(0.2);
+    });
+  });
+
+  it('直方图交集为重叠部分占较大一方总量的比例', () => {
+    const metric = getSimilarityMetric('intersection');
+
+    expect(metric.compareRange([0.5, 0.5, 0], [0.25, 0.25, 0.5], 0, 3)).toBeCloseTo(0.5);
+    expect(metric.compareRange([0, 0], [0, 0], 0, 2)).toBe(1);
+  });
+
+  it('余弦相似度：两段都为零向量时视为相同，只有一方为零向量时为0', () => {
+    const metric = getSimilarityMetric('cosine');
+
+    expect(metric.compareRange([0, 0], [0, 0], 0, 2)).toBe(1);
+    expect(metric.compareRange([0, 0], [1, 0], 0, 2)).toBe(0);
+  });
+
+  it('维度不一致时相似度为0', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(scoreSimilarity(createFeatures(1), createFeatures(1).slice(1))).toEqual({ similarity: 0, breakdown: {} });
+    warn.mockRestore();
+  });
+
+  it('未知的算法使用默认算法', () => {
+    expect(getSimilarityMetric(undefined).id).toBe(DEFAULT_SIMILARITY_METRIC);
+    expect(getSimilarityMetric('unknown' as SimilarityMetricId).id).toBe(DEFAULT_SIMILARITY_METRIC);
+  });
+});
+
+describe('标签重排序的综合评分', () => {
+  it('图片和标签相似度按权重相加，图片部分的贡献按比例缩小', () => {
+    const imageScore = scoreSimilarity(createFeatures(1), createFeatures(3), 'cosine');
+    const combined = combineWithTagSimilarity(imageScore, 0.5);
+    const imageWeight = 1 - TAG_SIMILARITY_WEIGHT;
+
+    expect(combined.similarity).toBeCloseTo(imageScore.similarity * imageWeight + 0.5 * TAG_SIMILARITY_WEIGHT);
+    expect(combined.breakdown.tags).toBeCloseTo(0.5 * TAG_SIMILARITY_WEIGHT);
+    expect(combined.breakdown.color).toBeCloseTo(imageScore.breakdown.color * imageWeight);
+    expect(sumBreakdown(combined.breakdown)).toBeCloseTo(combined.similarity);
+  });
+});
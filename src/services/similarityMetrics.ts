@@ -0,0 +1,2 @@
+// 相似度算法在 shared/similarityMetrics.js 中，与服务器的相似度搜索共用
+export * from '../../shared/similarityMetrics.js';
@@ -1,5 +1,6 @@
 // 本地存储服务
 import { AnalysisResult } from './cozeService';
+import { matchesSearchText, matchesTagFilters } from './normalizationService';
 
 const STORAGE_KEY = 'clothing_analysis_results';
 const MAX_STORAGE_SIZE = 4 * 1024 * 1024; // 4MB 限制，避免超出localStorage配额
@@ -10,10 +11,11 @@ const getStringByteSize = (str: string): number => {
   return new Blob([str]).size;
 };
 
-// 检查是否为重复图片（基于文件名）
+// 检查是否为重复图片（基于图片内容哈希，文件名相同但内容不同的图片不算重复）
 const isDuplicateResult = (newResult: AnalysisResult, existingResults: AnalysisResult[]): AnalysisResult | null => {
+  if (!newResult.imageHash) return null;
   return existingResults.find(result => 
-    result.fileName === newResult.fileName
+    result.imageHash === newResult.imageHash
   ) || null;
 };
 
@@ -287,85 +289,12 @@ export const searchAnalysisResults = (query: string): AnalysisResult[] => {
   const allResults = loadAnalysisResults();
   if (!query.trim()) return allResults;
   
-  const searchLower = query.toLowerCase();
-  return allResults.filter(result => 
-    Object.values(result.tags).some(tag => 
-      tag.toLowerCase().includes(searchLower)
-    )
-  );
+  return allResults.filter(result => matchesSearchText(result.tags, query));
 };
 
-// 按标签筛选分析结果
-export const filterAnalysisResults = (filters: {
-  style?: string[];
-  color?: string[];
-  tone?: string[];
-  season?: string[];
-  collar?: string[];
-  sleeve?: string[];
-  fit?: string[];
-  length?: string[];
-  fabric?: string[];
-  pattern?: string[];
-  craft?: string[];
-  fashionStyle?: string[];
-  occasion?: string[];
-}): AnalysisResult[] => {
+// 按标签筛选分析结果，filters的键为标签体系中的维度
+export const filterAnalysisResults = (filters: Record<string, string[]>): AnalysisResult[] => {
   const allResults = loadAnalysisResults();
   
-  return allResults.filter(result => {
-    if (filters.style && filters.style.length > 0) {
-      if (!filters.style.includes(result.tags.样式名称)) return false;
-    }
-    
-    if (filters.color && filters.color.length > 0) {
-      if (!filters.color.includes(result.tags.颜色)) return false;
-    }
-    
-    if (filters.tone && filters.tone.length > 0) {
-      if (!filters.tone.includes(result.tags.色调)) return false;
-    }
-    
-    if (filters.season && filters.season.length > 0) {
-      if (!filters.season.includes(result.tags.季节)) return false;
-    }
-    
-    if (filters.collar && filters.collar.length > 0) {
-      if (!filters.collar.includes(result.tags.领)) return false;
-    }
-    
-    if (filters.sleeve && filters.sleeve.length > 0) {
-      if (!filters.sleeve.includes(result.tags.袖)) return false;
-    }
-    
-    if (filters.fit && filters.fit.length > 0) {
-      if (!filters.fit.includes(result.tags.版型)) return false;
-    }
-    
-    if (filters.length && filters.length.length > 0) {
-      if (!filters.length.includes(result.tags.长度)) return false;
-    }
-    
-    if (filters.fabric && filters.fabric.length > 0) {
-      if (!filters.fabric.includes(result.tags.面料)) return false;
-    }
-    
-    if (filters.pattern && filters.pattern.length > 0) {
-      if (!filters.pattern.includes(result.tags.图案)) return false;
-    }
-    
-    if (filters.craft && filters.craft.length > 0) {
-      if (!filters.craft.includes(result.tags.工艺)) return false;
-    }
-    
-    if (filters.fashionStyle && filters.fashionStyle.length > 0) {
-      if (!filters.fashionStyle.includes(result.tags.风格)) return false;
-    }
-    
-    if (filters.occasion && filters.occasion.length > 0) {
-      if (!filters.occasion.includes(result.tags.场合)) return false;
-    }
-    
-    return true;
-  });
+  return allResults.filter(result => matchesTagFilters(result.tags, filters));
 };
\ No newline at end of file
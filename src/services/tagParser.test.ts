@@ -0,0 +1,122 @@
+import { createRequire } from 'module';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseClothingTagsWithReport, TagParseStrategy } from './tagParser';
+import { normalizeTagValue } from './normalizationService';
+
+// Coze模拟服务器各场景的输出格式
+const require = createRequire(import.meta.url);
+const { generateTags, formatOutput, formatOutfitOutput } = require('../../server/mock-coze-formats.js');
+
+const FILE_ID = 'mock_tagparser_test';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('模拟服务器各场景的解析策略', () => {
+  const scenarios: [string, TagParseStrategy][] = [
+    ['normal', 'pairs'],
+    ['format1', 'pairs'],
+    ['format2', 'brackets'],
+    ['format3', 'lines'],
+    ['format4', 'regex'],
+    ['json', 'json'],
+    ['confidence', 'json']
+  ];
+
+  it.each(scenarios)('%s 使用 %s 解析且标签值完整', (scenario, strategy) => {
+    const expected: Record<string, string> = generateTags(FILE_ID);
+    const { tags, report } = parseClothingTagsWithReport(formatOutput(expected, scenario));
+
+    expect(report.strategy).toBe(strategy);
+    expect(report.missingFields).toEqual([]);
+    Object.entries(expected)
+      .filter(([key]) => scenario !== 'json' || (key !== '颜色' && key !== '工艺'))
+      .forEach(([key, value]) => {
+        expect(tags[key]).toBe(normalizeTagValue(key, value));
+      });
+  });
+
+  it('json 场景中带逗号和冒号的值保持完整', () => {
+    const expected: Record<string, string> = generateTags(FILE_ID);
+    const { tags } = parseClothingTagsWithReport(formatOutput(expected, 'json'));
+
+    expect(tags.颜色).toContain('局部拼色');
+    expect(tags.工艺).toContain('压褶');
+  });
+
+  it('confidence 场景保留字段置信度', () => {
+    const { fieldConfidence } = parseClothingTagsWithReport(formatOutput(generateTags(FILE_ID), 'confidence'));
+
+    expect(Object.keys(fieldConfidence).length).toBeGreaterThan(0);
+    Object.values(fieldConfidence).forEach(confidence => {
+      expect(confidence).toBeGreaterThanOrEqual(0);
+      expect(confidence).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('outfit 场景解析出每件服装', () => {
+    const { report, garments } = parseClothingTagsWithReport(formatOutfitOutput(FILE_ID));
+
+    expect(report.strategy).toBe('json');
+    expect(garments).toHaveLength(3);
+    garments.forEach(garment => expect(garment.boundingBox).toBeDefined());
+  });
+
+  it('unrecognized 场景没有可用字段', () => {
+    const { report } = parseClothingTagsWithReport(formatOutput(generateTags(FILE_ID), 'unrecognized'));
+
+    expect(report.strategy).toBe('none');
+    expect(report.missingFields.length).toBeGreaterThan(0);
+  });
+});
+
+describe('解析策略和丢弃字段', () => {
+  it('结构化输出中的未知字段和空值记录为丢弃字段', () => {
+    const { tags, report } = parseClothingTagsWithReport(JSON.stringify({ 样式名称: '衬衫', 品牌: '某品牌', 颜色: '' }));
+
+    expect(report.strategy).toBe('json');
+    expect(tags.样式名称).toBe(normalizeTagValue('样式名称', '衬衫'));
+    expect(report.droppedFields).toEqual([
+      { field: '品牌', value: '"某品牌"', reason: '未知字段' },
+      expect.objectContaining({ field: '颜色', value: '' })
+    ]);
+    expect(report.missingFields).toContain('颜色');
+  });
+
+  it('外层包装字段被去掉后再解析', () => {
+    const { report, tags } = parseClothingTagsWithReport(JSON.stringify({ output: JSON.stringify({ 领: '圆领' }) }));
+
+    expect(report.strategy).toBe('json');
+    expect(tags.领).toBe(normalizeTagValue('领', '圆领'));
+  });
+
+  it('结构化输出没有有效字段时回退到文本解析，并保留结构化解析丢弃的字段', () => {
+    const { report } = parseClothingTagsWithReport(JSON.stringify({ 品牌: '某品牌', 颜色: '' }));
+
+    expect(report.strategy).toBe('none');
+    expect(report.droppedFields.map(dropped => dropped.field)).toEqual(['品牌', '颜色']);
+  });
+
+  it('服装列表没有有效字段时回退到文本解析，并保留每件服装丢弃的字段', () => {
+    const { report, garments } = parseClothingTagsWithReport(JSON.stringify({ garments: [{ 品牌: '某品牌' }, { 颜色: '' }] }));
+
+    expect(garments).toBeUndefined();
+    expect(report.droppedFields.map(dropped => dropped.field)).toEqual(['服装1.品牌', '服装2.颜色']);
+  });
+
+  it('文本格式中的未知字段记录为丢弃字段', () => {
+    const { report, tags } = parseClothingTagsWithReport('样式名称：衬衫，品牌：某品牌');
+
+    expect(report.strategy).toBe('pairs');
+    expect(tags.样式名称).toBe(normalizeTagValue('样式名称', '衬衫'));
+    expect(report.droppedFields).toEqual([{ field: '品牌', value: '某品牌', reason: '未知字段' }]);
+  });
+
+  it('空输出返回默认标签', () => {
+    const { report, tags } = parseClothingTagsWithReport('');
+
+    expect(report.strategy).toBe('none');
+    expect(Object.values(tags).every(value => value === '未识别')).toBe(true);
+  });
+});
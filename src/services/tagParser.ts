@@ -0,0 +1,400 @@
+// 标签解析服务
+import { z } from 'zod';
+import type { BoundingBox, ClothingTags, FieldConfidence } from './cozeService';
+import { getTaxonomy, TagTaxonomy } from './taxonomyService';
+import { normalizeTagValue, normalizeTags } from './normalizationService';
+import { parseLegacyTagText as parseLegacyTagTextValues } from '../../shared/legacyTagText.js';
+
+// 解析成功所用的策略：json为结构化输出，其余为旧版文本格式
+export type TagParseStrategy = 'json' | 'pairs' | 'brackets' | 'lines' | 'regex' | 'none';
+
+export const TAG_PARSE_STRATEGY_LABELS: Record<TagParseStrategy, string> = {
+  json: 'JSON结构化输出',
+  pairs: '逗号分隔键值对',
+  brackets: '方括号格式',
+  lines: '按行键值对',
+  regex: '正则匹配',
+  none: '未能解析'
+};
+
+// 解析器版本：解析规则（JSON结构、兼容的文本格式、归一化方式）变化时递增，记录在结果的来源信息中
+export const TAG_PARSER_VERSION = '1';
+
+// 被丢弃的字段（模型输出了但没有采用）
+export interface DroppedTagField {
+  field: string;
+  value: string;
+  reason: string;
+}
+
+// 单次解析报告，保存在AnalysisResult上用于审计模型输出
+export interface TagParseReport {
+  strategy: TagParseStrategy;
+  droppedFields: DroppedTagField[];
+  missingFields: string[]; // 最终仍为"未识别"的字段
+  rawOutput: string;
+}
+
+// 多件服装输出中的单件服装
+export interface ParsedGarment {
+  tags: ClothingTags;
+  fieldConfidence: FieldConfidence;
+  boundingBox?: BoundingBox;
+  rawTags?: Record<string, string>;
+}
+
+export interface ParsedClothingTags {
+  tags: ClothingTags; // 多件服装时为第一件（主服装）的标签
+  report: TagParseReport;
+  fieldConfidence: FieldConfidence; // 模型在输出中给出的字段置信度（0-1），未给出时为空对象
+  garments?: ParsedGarment[]; // 模型按服装列表输出时的每件服装
+  rawTags?: Record<string, string>; // 被同义词词典归一化的字段的原始值
+}
+
+// 按当前标签体系生成全部为"未识别"的默认标签
+export const createDefaultTags = (): ClothingTags => {
+  return Object.fromEntries(getTaxonomy().dimensions.map(dimension => [dimension.key, '未识别']));
+};
+
+const UNRECOGNIZED_VALUES = ['未识别', '无法识别', 'unknown', 'undefined', 'null'];
+
+// 单个标签值：数组合并为顿号分隔的文本，数字转为字符串
+const tagValueSchema = z.preprocess(
+  value => (Array.isArray(value) ? value.join('、') : typeof value === 'number' ? String(value) : value),
+  z.string()
+    .trim()
+    .min(1, '值为空')
+    .refine(value => !UNRECOGNIZED_VALUES.includes(value.toLowerCase()), '值为未识别')
+);
+
+// 字段置信度：接受0-1的小数或0-100的百分数（含"85%"这样的文本），统一换算为0-1
+const confidenceSchema = z.preprocess(
+  value => (typeof value === 'string' ? Number(value.trim().replace(/%$/, '')) : value),
+  z.number()
+    .finite()
+    .min(0)
+    .max(100)
+    .transform(value => (value > 1 ? value / 100 : value))
+);
+
+// 字段值也可以写成 {"value": "圆领", "confidence": 0.9} 的形式
+const VALUE_KEYS = ['value', '值'];
+const CONFIDENCE_KEYS = ['confidence', '置信度'];
+
+// 由标签体系派生的结构化输出schema，所有字段可选；限定可选值的维度只接受可选值（多个值用顿号分隔），
+// 同义写法按归一化后的规范值判断
+const buildClothingTagsSchema = (taxonomy: TagTaxonomy) => z.object(
+  Object.fromEntries(
+    taxonomy.dimensions.map(dimension => {
+      const fieldSchema = dimension.strict
+        ? tagValueSchema.refine(
+          value => normalizeTagValue(dimension.key, value).split('、').every(part => dimension.values.includes(part)),
+          '不在可选值中'
+        )
+        : tagValueSchema;
+      return [dimension.key, fieldSchema.optional()];
+    })
+  ) as Record<string, z.ZodOptional<z.ZodTypeAny>>
+);
+
+let cachedSchema: { taxonomy: TagTaxonomy; schema: ReturnType<typeof buildClothingTagsSchema> } | null = null;
+
+// 当前标签体系对应的schema，标签体系变化后重新生成
+export const getClothingTagsSchema = () => {
+  const taxonomy = getTaxonomy();
+  if (cachedSchema?.taxonomy !== taxonomy) {
+    cachedSchema = { taxonomy, schema: buildClothingTagsSchema(taxonomy) };
+  }
+  return cachedSchema.schema;
+};
+
+// 服装位置：接受 [x, y, 宽, 高] 数组或 {x, y, width, height} 对象，坐标为相对图片的比例；
+// 大于1时按百分比换算
+const boundingBoxSchema = z
+  .union([
+    z.array(z.coerce.number()).length(4).transform(([x, y, width, height]) => ({ x, y, width, height })),
+    z.object({ x: z.coerce.number(), y: z.coerce.number(), width: z.coerce.number(), height: z.coerce.number() })
+  ])
+  .transform(box => {
+    const scale = Math.max(box.x, box.y, box.width, box.height) > 1 ? 100 : 1;
+    return { x: box.x / scale, y: box.y / scale, width: box.width / scale, height: box.height / scale };
+  })
+  .refine(
+    box => box.x >= 0 && box.y >= 0 && box.width > 0 && box.height > 0 && box.x + box.width <= 1.001 && box.y + box.height <= 1.001,
+    '位置超出图片范围'
+  );
+
+// 多件服装输出：{"garments": [{...标签, "bbox": [...]}, ...]} 或直接输出数组
+const GARMENT_LIST_KEYS = ['garments', 'items', '服装'];
+const BOUNDING_BOX_KEYS = ['bbox', 'boundingBox', 'bounding_box', 'box', '位置'];
+
+// 工作流常见的外层包装字段
+const WRAPPER_KEYS = ['output', 'data', 'result', 'tags'];
+
+const tryParseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 去掉 {"output": ...} 之类的外层包装；包装内容可能是对象，也可能是JSON字符串或普通文本
+const unwrapOutput = (value: unknown, depth = 0): unknown => {
+  if (depth > 5) return value;
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+    const parsed = tryParseJson(trimmed);
+    return parsed === undefined ? value : unwrapOutput(parsed, depth + 1);
+  }
+
+  if (isPlainObject(value)) {
+    const tagKeys = Object.keys(createDefaultTags());
+    if (Object.keys(value).some(key => tagKeys.includes(key))) {
+      return value;
+    }
+    const wrapperKey = WRAPPER_KEYS.find(key => key in value);
+    if (wrapperKey) {
+      return unwrapOutput(value[wrapperKey], depth + 1);
+    }
+  }
+
+  return value;
+};
+
+const pickKey = (value: Record<string, unknown>, keys: string[]): unknown => {
+  const key = keys.find(candidate => candidate in value);
+  return key === undefined ? undefined : value[key];
+};
+
+const parseConfidence = (value: unknown): number | undefined => {
+  const result = confidenceSchema.safeParse(value);
+  return result.success ? result.data : undefined;
+};
+
+// 按schema逐字段校验结构化输出，单个字段不合法不影响其他字段
+const parseStructuredTags = (output: Record<string, unknown>): {
+  tags: ClothingTags;
+  fieldConfidence: FieldConfidence;
+  droppedFields: DroppedTagField[];
+  matched: number;
+} => {
+  const tags = createDefaultTags();
+  const fieldConfidence: FieldConfidence = {};
+  const droppedFields: DroppedTagField[] = [];
+  let matched = 0;
+
+  // 顶层的 {"confidence": {"颜色": 0.9, ...}} 置信度表
+  const confidenceMap = pickKey(output, CONFIDENCE_KEYS);
+
+  Object.entries(output).forEach(([field, rawValue]) => {
+    if (CONFIDENCE_KEYS.includes(field) && isPlainObject(rawValue)) {
+      return;
+    }
+
+    const fieldSchema = getClothingTagsSchema().shape[field];
+    if (!fieldSchema) {
+      droppedFields.push({ field, value: JSON.stringify(rawValue), reason: '未知字段' });
+      return;
+    }
+
+    let value = rawValue;
+    let confidence = isPlainObject(confidenceMap) ? parseConfidence(confidenceMap[field]) : undefined;
+    if (isPlainObject(rawValue) && VALUE_KEYS.some(key => key in rawValue)) {
+      value = pickKey(rawValue, VALUE_KEYS);
+      confidence = parseConfidence(pickKey(rawValue, CONFIDENCE_KEYS)) ?? confidence;
+    }
+
+    // 明确标注为未识别的字段会体现在missingFields中，不算作丢弃
+    if (typeof value === 'string' && UNRECOGNIZED_VALUES.includes(value.trim().toLowerCase())) {
+      return;
+    }
+
+    const result = fieldSchema.safeParse(value);
+    if (result.success && result.data) {
+      tags[field] = result.data as string;
+      if (confidence !== undefined) {
+        fieldConfidence[field] = confidence;
+      }
+      matched++;
+    } else if (!result.success) {
+      droppedFields.push({
+        field,
+        value: typeof value === 'string' ? value : JSON.stringify(value),
+        reason: result.error.issues.map(issue => issue.message).join('; ')
+      });
+    }
+  });
+
+  return { tags, fieldConfidence, droppedFields, matched };
+};
+
+const extractGarmentList = (value: unknown): Record<string, unknown>[] | undefined => {
+  const list = isPlainObject(value)
+    ? GARMENT_LIST_KEYS.map(key => value[key]).find(Array.isArray)
+    : value;
+  if (!Array.isArray(list) || list.length === 0 || !list.every(isPlainObject)) return undefined;
+  return list as Record<string, unknown>[];
+};
+
+// 逐件解析服装列表，没有任何有效字段的服装会被跳过
+const parseGarmentList = (list: Record<string, unknown>[]): { garments: ParsedGarment[]; droppedFields: DroppedTagField[] } => {
+  const garments: ParsedGarment[] = [];
+  const droppedFields: DroppedTagField[] = [];
+
+  list.forEach((item, index) => {
+    const prefix = `服装${index + 1}.`;
+    const fields = { ...item };
+    const boxKey = BOUNDING_BOX_KEYS.find(key => key in fields);
+    const rawBox = boxKey ? fields[boxKey] : undefined;
+    if (boxKey) delete fields[boxKey];
+
+    const parsed = parseStructuredTags(fields);
+    droppedFields.push(...parsed.droppedFields.map(dropped => ({ ...dropped, field: prefix + dropped.field })));
+    if (parsed.matched === 0) return;
+
+    let boundingBox: BoundingBox | undefined;
+    if (rawBox !== undefined) {
+      const boxResult = boundingBoxSchema.safeParse(rawBox);
+      if (boxResult.success) {
+        boundingBox = boxResult.data;
+      } else {
+        droppedFields.push({
+          field: prefix + boxKey,
+          value: JSON.stringify(rawBox),
+          reason: boxResult.error.issues.map(issue => issue.message).join('; ')
+        });
+      }
+    }
+
+    garments.push({ tags: parsed.tags, fieldConfidence: parsed.fieldConfidence, boundingBox });
+  });
+
+  return { garments, droppedFields };
+};
+
+const buildReport = (
+  tags: ClothingTags,
+  strategy: TagParseStrategy,
+  droppedFields: DroppedTagField[],
+  rawOutput: string
+): TagParseReport => ({
+  strategy,
+  droppedFields,
+  missingFields: Object.keys(tags).filter(key => tags[key] === '未识别'),
+  rawOutput
+});
+
+// 解析后按同义词词典把标签值归一化为规范值，原始值保存在rawTags中
+const normalizeParsedTags = (parsed: ParsedClothingTags): ParsedClothingTags => {
+  const { tags, rawTags } = normalizeTags(parsed.tags);
+  if (Object.keys(rawTags).length > 0) {
+    console.log('标签已归一化，原始值:', rawTags);
+  }
+
+  const garments = parsed.garments?.map(garment => {
+    const normalized = normalizeTags(garment.tags);
+    return { ...garment, tags: normalized.tags, rawTags: normalized.rawTags };
+  });
+
+  return { ...parsed, tags, rawTags, garments };
+};
+
+// 解析工作流输出并归一化标签值
+export const parseClothingTagsWithReport = (rawOutput: string): ParsedClothingTags => {
+  return normalizeParsedTags(parseRawClothingTags(rawOutput));
+};
+
+// 解析工作流输出：优先按JSON结构化输出解析，失败时回退到旧版文本格式
+const parseRawClothingTags = (rawOutput: string): ParsedClothingTags => {
+  if (!rawOutput) {
+    const tags = createDefaultTags();
+    return { tags, report: buildReport(tags, 'none', [], ''), fieldConfidence: {} };
+  }
+
+  const unwrapped = unwrapOutput(rawOutput);
+  // 结构化解析中丢弃的字段，回退到文本解析时仍然记录在报告中
+  const structuredDroppedFields: DroppedTagField[] = [];
+
+  const garmentList = extractGarmentList(unwrapped);
+  if (garmentList) {
+    const { garments, droppedFields } = parseGarmentList(garmentList);
+    structuredDroppedFields.push(...droppedFields);
+    if (garments.length > 0) {
+      const [primary] = garments;
+      console.log(`多件服装输出解析成功，共 ${garments.length} 件:`, garments, '丢弃字段:', droppedFields);
+      return {
+        tags: primary.tags,
+        report: buildReport(primary.tags, 'json', droppedFields, rawOutput),
+        fieldConfidence: primary.fieldConfidence,
+        garments
+      };
+    }
+    console.log('服装列表中没有有效字段，回退到文本解析');
+  }
+
+  if (isPlainObject(unwrapped)) {
+    // 服装列表已经逐件解析过，不再作为未知字段记录
+    const fields = garmentList
+      ? Object.fromEntries(Object.entries(unwrapped).filter(([key]) => !GARMENT_LIST_KEYS.includes(key)))
+      : unwrapped;
+    const { tags, fieldConfidence, droppedFields, matched } = parseStructuredTags(fields);
+    if (matched > 0) {
+      console.log('结构化输出解析成功:', tags, '字段置信度:', fieldConfidence, '丢弃字段:', droppedFields);
+      return { tags, report: buildReport(tags, 'json', droppedFields, rawOutput), fieldConfidence };
+    }
+    structuredDroppedFields.push(...droppedFields);
+    console.log('结构化输出中没有有效字段，回退到文本解析');
+  }
+
+  const legacyText = typeof unwrapped === 'string' ? unwrapped : rawOutput;
+  // 旧版文本格式不包含置信度
+  const { tags, strategy, droppedFields } = parseLegacyTagText(legacyText);
+  return {
+    tags,
+    report: buildReport(tags, strategy, [...structuredDroppedFields, ...droppedFields], rawOutput),
+    fieldConfidence: {}
+  };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 流式识别时解析尚未输出完整的文本：只取已经完整输出的字段（JSON的字符串值已闭合，或文本的值后面已出现分隔符），
+// 同一字段出现多次时取第一次（多件服装中的主服装），未输出的字段不返回；完整输出仍由parseClothingTagsWithReport解析
+export const parsePartialClothingTags = (partialOutput: string): ClothingTags => {
+  // 工作流output中再次序列化的JSON带有转义的引号和换行
+  const text = partialOutput.replace(/\\"/g, '"').replace(/\\n/g, '\n');
+  const tags: ClothingTags = {};
+
+  Object.keys(createDefaultTags()).forEach(key => {
+    const escaped = escapeRegExp(key);
+    const jsonMatch = text.match(new RegExp(`"${escaped}"\\s*:\\s*(?:\\{[^{}]*?"value"\\s*:\\s*)?"([^"]*)"`));
+    const textMatch = jsonMatch ? null : text.match(
+      new RegExp(`(?<![\\w\\u4e00-\\u9fa5])${escaped}\\s*[：:]\\s*\\[?([^，,。\\n\\]"]+)\\]?\\s*[，,。\\n"]`)
+    );
+    const value = (jsonMatch || textMatch)?.[1]?.trim();
+    if (value && value !== '未识别') {
+      tags[key] = normalizeTagValue(key, value);
+    }
+  });
+
+  return tags;
+};
+
+// 解析标签文本为结构化数据
+export const parseClothingTags = (tagsText: string): ClothingTags => {
+  return parseClothingTagsWithReport(tagsText).tags;
+};
+
+// 旧版文本格式解析（按优先级依次尝试四种格式，规则与后端的后台任务共用）
+const parseLegacyTagText = (tagsText: string): { tags: ClothingTags; strategy: TagParseStrategy; droppedFields: DroppedTagField[] } => {
+  const defaultTags = createDefaultTags();
+  const { values, strategy, droppedFields } = parseLegacyTagTextValues(tagsText, Object.keys(defaultTags));
+  const tags = { ...defaultTags, ...values };
+  console.log('旧版文本格式解析:', TAG_PARSE_STRATEGY_LABELS[strategy], '结果:', tags, '丢弃字段:', droppedFields);
+  return { tags, strategy, droppedFields };
+};
@@ -0,0 +1,263 @@
+// 标签体系服务：统一定义标签维度、分组、显示名称和可选值，
+// 由后端 /api/taxonomy 提供，驱动解析、校验、编辑、筛选和导出
+
+// 单个标签维度
+export interface TaxonomyDimension {
+  key: string; // 标签键，即模型输出和数据库tags中的字段名
+  label: string; // 显示名称
+  group: string; // 所属分组
+  values: string[]; // 可选值，用于提示词、编辑建议和筛选
+  strict?: boolean; // 为true时只接受可选值中的值，其他值在解析时丢弃
+  synonyms?: Record<string, string[]>; // 同义词词典：规范值 -> 同义写法，解析时把同义写法归一化为规范值
+}
+
+export interface TagTaxonomy {
+  dimensions: TaxonomyDimension[];
+  updatedAt?: string;
+}
+
+export const TAXONOMY_STORAGE_KEY = 'tag_taxonomy';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+// 内置的默认标签体系：后端没有保存过标签体系时使用
+export const DEFAULT_TAXONOMY: TagTaxonomy = {
+  dimensions: [
+    // 基础属性
+    {
+      key: '样式名称', label: '样式名称', group: '基础属性',
+      values: ['连衣裙', '衬衫', 'T恤', '外套', '裤子', '裙子', '套装', '背心', '毛衣', '牛仔裤',
+        '短裤', '长裤', '半身裙', '长裙', '短裙', '西装', '风衣', '羽绒服', '针织衫', '卫衣'],
+      synonyms: {
+        'T恤': ['t恤', 'tshirt', 't-shirt'],
+        '衬衫': ['衬衣']
+      }
+    },
+    {
+      key: '颜色', label: '颜色', group: '基础属性',
+      values: ['黑色', '白色', '蓝色', '红色', '灰色', '粉色', '绿色', '黄色', '紫色', '棕色',
+        '橙色', '米色', '卡其色', '深蓝', '浅蓝', '深灰', '浅灰', '酒红', '墨绿', '天蓝'],
+      synonyms: {
+        '蓝色': ['蓝', '浅蓝色', '深蓝色'],
+        '红色': ['红', '浅红色', '深红色'],
+        '绿色': ['绿', '浅绿色', '深绿色'],
+        '黄色': ['黄', '浅黄色', '深黄色'],
+        '紫色': ['紫', '浅紫色', '深紫色'],
+        '灰色': ['灰', '浅灰色', '深灰色']
+      }
+    },
+    {
+      key: '色调', label: '色调', group: '基础属性',
+      values: ['深色调', '浅色调', '中性色调', '暖色调', '冷色调', '明亮色调', '柔和色调', '对比色调']
+    },
+    // 设计细节
+    {
+      key: '领', label: '领型', group: '设计细节',
+      values: ['圆领', 'V领', '立领', '翻领', '一字领', '高领', '无领', '方领', '心形领', '荷叶领'],
+      synonyms: {
+        '无领': ['无', '无领型']
+      }
+    },
+    {
+      key: '袖', label: '袖型', group: '设计细节',
+      values: ['长袖', '短袖', '七分袖', '无袖', '五分袖', '九分袖', '泡泡袖', '喇叭袖', '灯笼袖'],
+      synonyms: {
+        '长袖': ['长', '长袖型'],
+        '短袖': ['短', '短袖型'],
+        '无袖': ['无', '无袖型']
+      }
+    },
+    {
+      key: '版型', label: '版型', group: '设计细节',
+      values: ['修身', '宽松', '直筒', '紧身', '标准', '收腰', 'A字型', 'H型', 'X型', 'O型']
+    },
+    {
+      key: '长度', label: '长度', group: '设计细节',
+      values: ['短款', '中长款', '长款', '超长款', '迷你', '及膝', '及踝', '拖地']
+    },
+    // 材质工艺
+    {
+      key: '面料', label: '面料', group: '材质工艺',
+      values: ['棉质', '丝绸', '羊毛', '聚酯纤维', '亚麻', '雪纺', '牛仔', '针织', '皮革', '绒面',
+        '蕾丝', '纱质', '毛呢', '天鹅绒', '麻质', '混纺', '涤纶', '尼龙', '氨纶', '莫代尔']
+    },
+    {
+      key: '图案', label: '图案', group: '材质工艺',
+      values: ['纯色', '条纹', '格子', '印花', '刺绣', '蕾丝', '几何图案', '波点', '碎花', '动物纹',
+        '抽象图案', '字母印花', '数字印花', '卡通图案', '民族图案', '复古图案']
+    },
+    {
+      key: '工艺', label: '工艺', group: '材质工艺',
+      values: ['简约', '精工', '手工', '机织', '针织', '刺绣工艺', '印染工艺', '拼接工艺', '褶皱工艺', '镂空工艺']
+    },
+    // 功能属性
+    {
+      key: '场合', label: '场合', group: '功能属性',
+      values: ['休闲', '正式', '商务', '聚会', '运动', '居家', '约会', '旅行', '工作', '度假',
+        '晚宴', '婚礼', '派对', '日常', '通勤', '户外', '海滩', '购物']
+    },
+    {
+      key: '季节', label: '季节', group: '功能属性',
+      values: ['春季', '夏季', '秋季', '冬季', '四季']
+    },
+    {
+      key: '风格', label: '风格', group: '功能属性',
+      values: ['简约', '复古', '时尚', '甜美', '帅气', '优雅', '休闲', '朋克', '波西米亚', '田园',
+        '街头', '学院', '欧美', '韩式', '日系', '中式', '民族', '前卫']
+    }
+  ]
+};
+
+const listeners = new Set<(taxonomy: TagTaxonomy) => void>();
+
+const readCachedTaxonomy = (): TagTaxonomy | null => {
+  try {
+    const stored = localStorage.getItem(TAXONOMY_STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as TagTaxonomy;
+    return validateTaxonomy(parsed) ? null : parsed;
+  } catch (error) {
+    console.error('读取本地标签体系失败:', error);
+    return null;
+  }
+};
+
+let currentTaxonomy: TagTaxonomy = readCachedTaxonomy() || DEFAULT_TAXONOMY;
+
+const setCurrentTaxonomy = (taxonomy: TagTaxonomy) => {
+  currentTaxonomy = taxonomy;
+  try {
+    localStorage.setItem(TAXONOMY_STORAGE_KEY, JSON.stringify(taxonomy));
+  } catch (error) {
+    console.error('缓存标签体系失败:', error);
+  }
+  listeners.forEach(listener => listener(taxonomy));
+};
+
+// 校验标签体系，返回错误信息；合法时返回null
+export const validateTaxonomy = (taxonomy: TagTaxonomy): string | null => {
+  if (!taxonomy || !Array.isArray(taxonomy.dimensions) || taxonomy.dimensions.length === 0) {
+    return '标签体系至少需要一个维度';
+  }
+
+  const keys = new Set<string>();
+  for (const dimension of taxonomy.dimensions) {
+    const key = dimension.key?.trim();
+    if (!key) return '维度的标签键不能为空';
+    if (keys.has(key)) return `标签键"${key}"重复`;
+    if (dimension.strict && dimension.values.length === 0) return `维度"${key}"限定了可选值，但可选值为空`;
+
+    // 同一维度中的同义写法只能对应一个规范值
+    const synonymOwners = new Map<string, string>();
+    for (const [canonical, synonyms] of Object.entries(dimension.synonyms || {})) {
+      for (const synonym of synonyms) {
+        const owner = synonymOwners.get(synonym);
+        if (owner && owner !== canonical) return `维度"${key}"中的同义词"${synonym}"同时对应"${owner}"和"${canonical}"`;
+        synonymOwners.set(synonym, canonical);
+      }
+    }
+    keys.add(key);
+  }
+  return null;
+};
+
+// 当前标签体系（同步读取，未从后端加载时使用本地缓存或默认值）
+export const getTaxonomy = (): TagTaxonomy => currentTaxonomy;
+
+export const getDimensionKeys = (): string[] => currentTaxonomy.dimensions.map(dimension => dimension.key);
+
+export const getDimension = (key: string): TaxonomyDimension | undefined => {
+  return currentTaxonomy.dimensions.find(dimension => dimension.key === key);
+};
+
+export const getDimensionLabel = (key: string): string => getDimension(key)?.label || key;
+
+// 按分组整理维度，保持维度定义的顺序
+export const getTaxonomyGroups = (taxonomy: TagTaxonomy = currentTaxonomy): { group: string; dimensions: TaxonomyDimension[] }[] => {
+  const groups: { group: string; dimensions: TaxonomyDimension[] }[] = [];
+  taxonomy.dimensions.forEach(dimension => {
+    const group = dimension.group || '其他';
+    const existing = groups.find(item => item.group === group);
+    if (existing) {
+      existing.dimensions.push(dimension);
+    } else {
+      groups.push({ group, dimensions: [dimension] });
+    }
+  });
+  return groups;
+};
+
+// 监听标签体系变化，返回取消监听函数
+export const subscribeToTaxonomy = (listener: (taxonomy: TagTaxonomy) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// 从后端加载标签体系；后端没有保存过时使用默认标签体系，请求失败时保留本地缓存
+export const loadTaxonomy = async (): Promise<TagTaxonomy> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/taxonomy`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data: TagTaxonomy = await response.json();
+    const taxonomy = data.dimensions?.length ? data : DEFAULT_TAXONOMY;
+    const error = validateTaxonomy(taxonomy);
+    if (error) {
+      throw new Error(error);
+    }
+
+    setCurrentTaxonomy(taxonomy);
+    console.log(`标签体系已加载，共 ${taxonomy.dimensions.length} 个维度`);
+    return taxonomy;
+  } catch (error) {
+    console.warn('从后端加载标签体系失败，使用本地标签体系:', error);
+    return currentTaxonomy;
+  }
+};
+
+// 保存标签体系到后端
+export const saveTaxonomy = async (taxonomy: TagTaxonomy): Promise<TagTaxonomy> => {
+  const error = validateTaxonomy(taxonomy);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const normalized: TagTaxonomy = {
+    dimensions: taxonomy.dimensions.map(dimension => ({
+      key: dimension.key.trim(),
+      label: dimension.label.trim() || dimension.key.trim(),
+      group: dimension.group.trim() || '其他',
+      values: Array.from(new Set(dimension.values.map(value => value.trim()).filter(Boolean))),
+      strict: !!dimension.strict,
+      synonyms: Object.fromEntries(
+        Object.entries(dimension.synonyms || {})
+          .map(([canonical, synonyms]) => [canonical.trim(), Array.from(new Set(synonyms.map(synonym => synonym.trim()).filter(Boolean)))])
+          .filter(([canonical, synonyms]) => canonical && synonyms.length > 0)
+      )
+    }))
+  };
+
+  const response = await fetch(`${API_BASE_URL}/taxonomy`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(normalized)
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || '保存标签体系失败');
+  }
+
+  const saved: TagTaxonomy = await response.json();
+  setCurrentTaxonomy(saved);
+  return saved;
+};
+
+// 导出表格时的标签列：按标签体系顺序，列名为显示名称
+export const getTagExportColumns = (): { key: string; header: string }[] => {
+  return currentTaxonomy.dimensions.map(dimension => ({ key: dimension.key, header: dimension.label }));
+};
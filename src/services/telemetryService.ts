@@ -0,0 +1,314 @@
+// 识别调用记录：每次上传和执行请求的开始时间、耗时、第几次尝试、结果和错误类型，
+// 保存在浏览器IndexedDB中，同时分批上报到后端，调用统计页面按时间段汇总吞吐量、失败原因和耗时分位数
+import { STORES, openDB, promisifyRequest, withStore } from './indexedDBService';
+import { RecognitionErrorCode, toRecognitionError } from './recognitionErrors';
+import { getClientId } from './recognitionProviders';
+import { isAbortError } from './batchControl';
+import type { RecognitionProviderId } from './settingsService';
+import type { RequestPriority } from './rateLimiter';
+
+export type RecognitionCallStage = 'upload' | 'run';
+
+export const RECOGNITION_CALL_STAGE_LABELS: Record<RecognitionCallStage, string> = {
+  upload: '上传',
+  run: '执行'
+};
+
+export interface RecognitionCallRecord {
+  id: string;
+  startedAt: number;
+  stage: RecognitionCallStage;
+  provider: RecognitionProviderId;
+  fileName?: string;
+  attempt: number; // 同一张图片该阶段的第几次尝试（从1开始）
+  durationMs: number; // 包含在调度器中排队等待的时间
+  outcome: 'success' | 'error';
+  errorCode?: RecognitionErrorCode;
+  status?: number; // HTTP状态码或Coze业务错误码
+  priority?: RequestPriority;
+}
+
+// 发起调用时已知的信息
+export type RecognitionCallInfo = Pick<RecognitionCallRecord, 'stage' | 'provider' | 'fileName' | 'attempt' | 'priority'>;
+
+// 一个时间段内的汇总；耗时分位数只统计成功的执行请求
+export interface RecognitionMetricsBucket {
+  start: number;
+  calls: number;
+  success: number;
+  failed: number;
+  retries: number; // 第2次及以后的尝试
+  rateLimited: number;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export interface RecognitionMetrics {
+  since: number;
+  until: number;
+  bucketMs: number;
+  buckets: RecognitionMetricsBucket[];
+  totals: RecognitionMetricsBucket & { uploads: number; runs: number };
+  failuresByCode: Partial<Record<RecognitionErrorCode, number>>;
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+// 设置为false时只保存在本地，不上报到后端
+const UPLOAD_ENABLED = import.meta.env.VITE_TELEMETRY_UPLOAD !== 'false';
+
+// 本地记录保留7天，最多保留的条数
+const LOCAL_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const LOCAL_MAX_RECORDS = 20000;
+
+// 上报：攒够一批或等待一段时间后发送；后端不可用时保留的未上报记录上限
+const UPLOAD_BATCH_SIZE = 200;
+const UPLOAD_DELAY = 10000;
+const UPLOAD_RETRY_DELAY = 60000;
+const MAX_PENDING_UPLOADS = 2000;
+
+const pendingUploads: RecognitionCallRecord[] = [];
+let uploadTimer: ReturnType<typeof setTimeout> | null = null;
+let uploading = false;
+
+// 发送未上报的记录；keepalive用于页面关闭时仍能发出请求
+const uploadPendingRecords = async (keepalive = false): Promise<void> => {
+  if (uploadTimer) {
+    clearTimeout(uploadTimer);
+    uploadTimer = null;
+  }
+  if (uploading || pendingUploads.length === 0) return;
+
+  const batch = pendingUploads.splice(0, UPLOAD_BATCH_SIZE);
+  uploading = true;
+  try {
+    const response = await fetch(`${API_BASE_URL}/telemetry`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Client-Id': getClientId() },
+      body: JSON.stringify({ records: batch }),
+      keepalive
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    uploading = false;
+    if (pendingUploads.length > 0) scheduleUpload(pendingUploads.length >= UPLOAD_BATCH_SIZE ? 0 : UPLOAD_DELAY);
+  } catch (error) {
+    uploading = false;
+    console.warn('上报识别调用记录失败，稍后重试:', error);
+    // 放回队列头部，超出上限时丢弃最早的记录（本地仍有保存）
+    pendingUploads.unshift(...batch);
+    pendingUploads.splice(0, Math.max(0, pendingUploads.length - MAX_PENDING_UPLOADS));
+    scheduleUpload(UPLOAD_RETRY_DELAY);
+  }
+};
+
+const scheduleUpload = (delay: number) => {
+  if (uploadTimer || uploading) return;
+  uploadTimer = setTimeout(() => {
+    uploadTimer = null;
+    uploadPendingRecords();
+  }, delay);
+};
+
+if (UPLOAD_ENABLED && typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => {
+    uploadPendingRecords(true);
+  });
+}
+
+let prunedThisSession = false;
+
+// 删除过期和超出条数上限的本地记录，每次打开页面后执行一次
+const pruneLocalRecords = async (): Promise<void> => {
+  if (prunedThisSession) return;
+  prunedThisSession = true;
+
+  const db = await openDB();
+  const transaction = db.transaction([STORES.recognitionCalls], 'readwrite');
+  const index = transaction.objectStore(STORES.recognitionCalls).index('startedAt');
+  const total = await promisifyRequest(index.count());
+  let toDelete = Math.max(0, total - LOCAL_MAX_RECORDS);
+  const expiredBefore = Date.now() - LOCAL_RETENTION_MS;
+
+  await new Promise<void>((resolve, reject) => {
+    // 按开始时间从早到晚遍历，删除过期的记录和最早的超出部分
+    const request = index.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || (toDelete <= 0 && (cursor.value as RecognitionCallRecord).startedAt >= expiredBefore)) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      toDelete--;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 保存一条调用记录；记录失败不影响识别
+export const recordRecognitionCall = async (record: Omit<RecognitionCallRecord, 'id'>): Promise<void> => {
+  const entry: RecognitionCallRecord = { id: crypto.randomUUID(), ...record };
+
+  if (UPLOAD_ENABLED) {
+    pendingUploads.push(entry);
+    scheduleUpload(pendingUploads.length >= UPLOAD_BATCH_SIZE ? 0 : UPLOAD_DELAY);
+  }
+
+  try {
+    await pruneLocalRecords();
+    await withStore(STORES.recognitionCalls, 'readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error('保存识别调用记录失败:', error);
+  }
+};
+
+// 执行一次上传或执行请求并记录耗时和结果；取消的请求不记录
+export const trackRecognitionCall = async <T>(info: RecognitionCallInfo, call: () => Promise<T>): Promise<T> => {
+  const startedAt = Date.now();
+  try {
+    const result = await call();
+    recordRecognitionCall({ ...info, startedAt, durationMs: Date.now() - startedAt, outcome: 'success' });
+    return result;
+  } catch (error) {
+    if (!isAbortError(error)) {
+      const recognitionError = toRecognitionError(error);
+      recordRecognitionCall({
+        ...info,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        outcome: 'error',
+        errorCode: recognitionError.code,
+        status: recognitionError.status
+      });
+    }
+    throw error;
+  }
+};
+
+// 读取本地保存的某个时间之后的记录
+export const getRecognitionCalls = async (since: number): Promise<RecognitionCallRecord[]> => {
+  return withStore<RecognitionCallRecord[]>(
+    STORES.recognitionCalls,
+    'readonly',
+    store => store.index('startedAt').getAll(IDBKeyRange.lowerBound(since))
+  );
+};
+
+export const clearRecognitionCalls = async (): Promise<void> => {
+  await withStore(STORES.recognitionCalls, 'readwrite', store => store.clear());
+  console.log('已清空本地识别调用记录');
+};
+
+// 最近排位法计算分位数，values需已按从小到大排序
+const percentile = (values: number[], ratio: number): number | null => {
+  if (values.length === 0) return null;
+  return values[Math.min(values.length - 1, Math.max(0, Math.ceil(ratio * values.length) - 1))];
+};
+
+const createEmptyBucket = (start: number): RecognitionMetricsBucket => ({
+  start,
+  calls: 0,
+  success: 0,
+  failed: 0,
+  retries: 0,
+  rateLimited: 0,
+  p50: null,
+  p95: null,
+  p99: null
+});
+
+const summarizeBucket = (start: number, records: RecognitionCallRecord[]): RecognitionMetricsBucket => {
+  const latencies = records
+    .filter(record => record.stage === 'run' && record.outcome === 'success')
+    .map(record => record.durationMs)
+    .sort((a, b) => a - b);
+  return {
+    start,
+    calls: records.length,
+    success: records.filter(record => record.outcome === 'success').length,
+    failed: records.filter(record => record.outcome === 'error').length,
+    retries: records.filter(record => record.attempt > 1).length,
+    rateLimited: records.filter(record => record.errorCode === 'rate_limited').length,
+    p50: percentile(latencies, 0.5),
+    p95: percentile(latencies, 0.95),
+    p99: percentile(latencies, 0.99)
+  };
+};
+
+// 按时间段汇总调用记录；没有调用的时间段也会返回空的汇总，便于图表显示连续的时间轴
+export const summarizeRecognitionCalls = (
+  records: RecognitionCallRecord[],
+  since: number,
+  until: number,
+  bucketMs: number
+): RecognitionMetrics => {
+  const firstBucket = Math.floor(since / bucketMs) * bucketMs;
+  const recordsByBucket = new Map<number, RecognitionCallRecord[]>();
+  const inRange = records.filter(record => record.startedAt >= since && record.startedAt <= until);
+  inRange.forEach(record => {
+    const start = Math.floor(record.startedAt / bucketMs) * bucketMs;
+    const bucketRecords = recordsByBucket.get(start);
+    if (bucketRecords) {
+      bucketRecords.push(record);
+    } else {
+      recordsByBucket.set(start, [record]);
+    }
+  });
+
+  const buckets: RecognitionMetricsBucket[] = [];
+  for (let start = firstBucket; start <= until; start += bucketMs) {
+    const bucketRecords = recordsByBucket.get(start);
+    buckets.push(bucketRecords ? summarizeBucket(start, bucketRecords) : createEmptyBucket(start));
+  }
+
+  const failuresByCode: Partial<Record<RecognitionErrorCode, number>> = {};
+  inRange.forEach(record => {
+    if (record.outcome === 'error') {
+      const code = record.errorCode || 'unknown';
+      failuresByCode[code] = (failuresByCode[code] || 0) + 1;
+    }
+  });
+
+  return {
+    since,
+    until,
+    bucketMs,
+    buckets,
+    totals: {
+      ...summarizeBucket(since, inRange),
+      uploads: inRange.filter(record => record.stage === 'upload').length,
+      runs: inRange.filter(record => record.stage === 'run').length
+    },
+    failuresByCode
+  };
+};
+
+// 本机最近一段时间的调用统计
+export const getLocalRecognitionMetrics = async (rangeMs: number, bucketMs: number): Promise<RecognitionMetrics> => {
+  const until = Date.now();
+  const since = until - rangeMs;
+  return summarizeRecognitionCalls(await getRecognitionCalls(since), since, until, bucketMs);
+};
+
+// 后端汇总的所有客户端的调用统计；后端只返回有调用的时间段，这里补齐空的时间段
+export const getServerRecognitionMetrics = async (rangeMs: number, bucketMs: number): Promise<RecognitionMetrics> => {
+  const params = new URLSearchParams({ rangeMs: String(rangeMs), bucketMs: String(bucketMs) });
+  const response = await fetch(`${API_BASE_URL}/telemetry/metrics?${params}`);
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || `获取调用统计失败: ${response.status}`);
+  }
+
+  const metrics = await response.json() as RecognitionMetrics;
+  const bucketsByStart = new Map(metrics.buckets.map(bucket => [bucket.start, bucket]));
+  const buckets: RecognitionMetricsBucket[] = [];
+  // 范围较大时后端会加大时间段长度，以返回的bucketMs为准
+  for (let start = Math.floor(metrics.since / metrics.bucketMs) * metrics.bucketMs; start <= metrics.until; start += metrics.bucketMs) {
+    buckets.push(bucketsByStart.get(start) || createEmptyBucket(start));
+  }
+  return { ...metrics, buckets };
+};
@@ -0,0 +1,101 @@
+// Coze工作流的流式执行（/v1/workflow/stream_run）：按SSE事件逐段累计Message事件的content，
+// 后端代理的 /api/recognize/stream 原样转发同样格式的事件
+import { fromCozeErrorCode, RecognitionError } from './recognitionErrors';
+
+// 这些状态码说明服务端没有流式执行接口，调用方改用阻塞式调用
+export const STREAMING_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+// 本次会话中确认不支持流式执行的接口，不再重复尝试
+const unsupportedEndpoints = new Set<string>();
+
+export const isStreamingUnsupported = (endpoint: string): boolean => unsupportedEndpoints.has(endpoint);
+
+export const markStreamingUnsupported = (endpoint: string): void => {
+  console.log(`接口不支持流式执行，改用阻塞式调用: ${endpoint}`);
+  unsupportedEndpoints.add(endpoint);
+};
+
+// 响应是否为可以逐段读取的事件流
+export const isEventStreamResponse = (response: Response): boolean => {
+  return !!response.body && (response.headers.get('Content-Type') || '').includes('text/event-stream');
+};
+
+interface WorkflowStreamEvent {
+  event: string;
+  data: string;
+}
+
+// 按空行切分SSE事件，返回完整的事件和剩余未完整的文本
+const splitEvents = (buffer: string): { events: WorkflowStreamEvent[]; rest: string } => {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+  const events = blocks.map(block => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    });
+    return { event, data: data.join('\n') };
+  });
+  return { events, rest };
+};
+
+const parseEventData = (data: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// 读取工作流事件流并返回完整输出；每收到一段输出就用累计的输出文本调用onPartialOutput。
+// Error事件按错误码转换为与阻塞式调用相同类型的错误，便于按QPS限制等情况重试
+export const readWorkflowStream = async (
+  response: Response,
+  onPartialOutput?: (output: string) => void
+): Promise<string> => {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let output = '';
+
+  const handleEvent = ({ event, data }: WorkflowStreamEvent): boolean => {
+    const payload = parseEventData(data);
+    switch (event) {
+      case 'Message':
+        if (typeof payload.content === 'string' && payload.content) {
+          output += payload.content;
+          onPartialOutput?.(output);
+        }
+        return false;
+      case 'Error':
+        throw typeof payload.error_code === 'number'
+          ? fromCozeErrorCode(payload.error_code, String(payload.error_message || '未知错误'), data)
+          : new RecognitionError('unknown', `API请求失败: ${payload.error_message || data}`, { body: data });
+      case 'Interrupt':
+        throw new RecognitionError('unknown', '工作流执行被中断，需要人工输入，无法在识别中使用', { body: data });
+      case 'Done':
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      // 最后一段没有结尾空行时补上，保证事件完整
+      const { events, rest } = splitEvents(done ? `${buffer}\n\n` : buffer);
+      buffer = rest;
+      for (const event of events) {
+        if (handleEvent(event)) return output;
+      }
+      if (done) return output;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};
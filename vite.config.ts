@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -26,4 +27,8 @@ export default defineConfig(({ mode }) => ({
   optimizeDeps: {
     exclude: ['pg'],
   },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
 }));